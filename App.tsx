@@ -10,24 +10,27 @@ import Lobby from './components/Lobby';       // 遊戲大廳組件
 import CreateRoomModal from './components/CreateRoomModal'; // 創建房間的彈出視窗組件
 import HomePage from './components/HomePage';   // 主頁/開始頁面組件
 import PasswordInputModal from './components/PasswordInputModal'; // 輸入密碼的彈出視窗組件
+import ReplayViewer from './components/ReplayViewer'; // 牌譜檢視器組件
 // Fix: Changed import for SettingsPanel to a named import as per the error message indicating no default export.
 import { SettingsPanel } from './components/SettingsPanel'; // 設定面板組件
 import SettingsIcon from './components/icons/SettingsIcon'; // 設定圖示組件
 // 引入類型定義，確保數據結構的一致性
-import { RoomSettings, RoomListData, GameState, ChatMessage, ServerToClientEvents, ClientToServerEvents, GamePhase, ClientRoomSettingsData } from './types';
+import { RoomListData, GameState, ChatMessage, ServerToClientEvents, ClientToServerEvents, GamePhase, ClientRoomSettingsData, ReplayFile, REPLAY_FILE_VERSION } from '@xiangqi-mahjong/core';
+import { RoomSettings } from './types';
 // 引入遊戲固定玩家數量
-import { NUM_PLAYERS } from './constants'; 
 // 引入音效管理相關的函數
 import { setActionSoundVolume, getActionSoundVolume } from './utils/audioManager';
 
 // 定義應用程式可能有的視圖類型
-type GameView = 'home' | 'lobby' | 'game'; // 'home': 主頁, 'lobby': 大廳, 'game': 遊戲中
+type GameView = 'home' | 'lobby' | 'game' | 'replay'; // 'home': 主頁, 'lobby': 大廳, 'game': 遊戲中, 'replay': 檢視牌譜
 
 // 安全地存取環境變數
 // Vite 使用 import.meta.env 來存取環境變數
 const env = (import.meta as any).env;
 // Socket.IO 伺服器的 URL，優先從環境變數讀取，若無則使用本地開發預設值
 const SOCKET_SERVER_URL = env?.VITE_SOCKET_SERVER_URL || 'http://localhost:3001';
+// 座位憑證在 localStorage 中的鍵名 (加入房間時由伺服器發給，重新整理頁面或斷線重連後用來取回原座位)
+const SESSION_TOKEN_STORAGE_KEY = 'xiangqiMahjongSessionToken';
 
 /**
  * @description App 組件是整個應用程式的根組件，負責管理整體狀態、視圖切換和 Socket 連接。
@@ -44,7 +47,8 @@ const App: React.FC = () => {
 
   // --- 狀態管理 (useState) ---
   /** @description 當前應用程式的視圖 (例如：主頁、大廳、遊戲中) */
-  const [currentView, setCurrentView] = useState<GameView>('home'); // 預設為 'home' (主頁)
+  // 預設為 'home' (主頁)；若保有座位憑證 (例如遊戲中重新整理頁面)，則直接連線並嘗試取回座位
+  const [currentView, setCurrentView] = useState<GameView>(() => localStorage.getItem(SESSION_TOKEN_STORAGE_KEY) ? 'lobby' : 'home');
   /** @description 是否顯示創建房間的彈出視窗 */
   const [showCreateRoomModal, setShowCreateRoomModal] = useState(false);
   
@@ -54,6 +58,8 @@ const App: React.FC = () => {
   const [clientPlayerId, setClientPlayerId] = useState<number | null>(null);
   /** @description 當前的遊戲狀態 */
   const [currentGameState, setCurrentGameState] = useState<GameState | null>(null);
+  /** @description 是否以觀戰者身份在房間中 (唯讀，不佔座位) */
+  const [isSpectating, setIsSpectating] = useState(false);
 
   /** @description 玩家名稱，從 localStorage 讀取或預設為 "玩家" */
   const [playerName, setPlayerName] = useState<string>(localStorage.getItem('xiangqiMahjongPlayerName') || "玩家"); 
@@ -62,6 +68,8 @@ const App: React.FC = () => {
   const [showPasswordModal, setShowPasswordModal] = useState(false);
   /** @description 嘗試加入的房間的詳細資訊 (用於需要密碼的房間) */
   const [attemptingToJoinRoomDetails, setAttemptingToJoinRoomDetails] = useState<RoomListData | null>(null);
+  /** @description 密碼驗證後要執行的操作 (加入房間或觀戰) */
+  const [passwordModalPurpose, setPasswordModalPurpose] = useState<'join' | 'spectate'>('join');
 
   // --- 背景音樂相關狀態 ---
   /** @description 背景音樂是否正在播放 */
@@ -86,6 +94,8 @@ const App: React.FC = () => {
   const [showSettingsPanel, setShowSettingsPanel] = useState(false);
   /** @description 大廳中的房間列表 */
   const [lobbyRooms, setLobbyRooms] = useState<RoomListData[]>([]);
+  // 正在檢視的牌譜 (僅在 'replay' 視圖使用)
+  const [replayData, setReplayData] = useState<ReplayFile | null>(null);
 
 
   // --- Socket.IO 連接管理 ---
@@ -149,8 +159,11 @@ const App: React.FC = () => {
       console.log('[App.tsx] Socket.IO 連接成功，ID:', socket.id);
       setIsConnected(true);
       setIsLoading(false);
-      // 如果用戶在連接時的意圖是進入大廳
-      if (currentView === 'lobby') { 
+
+      /**
+       * @description 向伺服器設定玩家名稱並加入大廳，成功後獲取大廳房間列表。
+       */
+      const enterLobby = () => {
         // 向伺服器發送 userSetName 事件，設定玩家名稱
         socket.emit('userSetName', playerName, (ack) => { 
           if (ack.success) {
@@ -161,6 +174,31 @@ const App: React.FC = () => {
             alert(`設定玩家名稱失敗: ${ack.message}`);
           }
         });
+      };
+
+      // 如果保有座位憑證 (重新整理頁面或斷線重連)，先嘗試取回原座位
+      const sessionToken = localStorage.getItem(SESSION_TOKEN_STORAGE_KEY);
+      if (sessionToken) {
+        setIsLoading(true);
+        setLoadingMessage("正在恢復座位...");
+        socket.emit('gameResumeSession', sessionToken, (ack) => {
+          setIsLoading(false);
+          if (ack.success) return; // 成功後等待伺服器的 joinedRoom 事件
+          console.warn(`[App.tsx] 無法取回座位: ${ack.message}`);
+          localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY); // 憑證已失效，不再重試
+          // 座位已失效 (例如房間已關閉)，返回大廳
+          setCurrentRoomId(null);
+          setCurrentGameState(null);
+          setClientPlayerId(null);
+          setCurrentView('lobby');
+          enterLobby();
+        });
+        return;
+      }
+
+      // 如果用戶在連接時的意圖是進入大廳
+      if (currentView === 'lobby') { 
+        enterLobby();
       }
     };
 
@@ -200,15 +238,34 @@ const App: React.FC = () => {
      * @param {GameState} data.gameState - 初始遊戲狀態。
      * @param {string} data.roomId - 加入的房間ID。
      * @param {number} data.clientPlayerId - 客戶端在此房間中的玩家ID (座位索引)。
+     * @param {string} data.sessionToken - 座位憑證 (存入 localStorage，重新整理頁面或斷線重連後用來取回座位)。
      */
-    const onJoinedRoom = (data: { gameState: GameState; roomId: string; clientPlayerId: number }) => {
+    const onJoinedRoom = (data: { gameState: GameState; roomId: string; clientPlayerId: number; sessionToken: string }) => {
       console.log('[App.tsx] 成功加入房間，收到數據:', data);
+      localStorage.setItem(SESSION_TOKEN_STORAGE_KEY, data.sessionToken); // 保存座位憑證
       setCurrentRoomId(data.roomId); // 設定當前房間ID
       setClientPlayerId(data.clientPlayerId); // 設定客戶端玩家ID
       setCurrentGameState(data.gameState); // 設定初始遊戲狀態
+      setIsSpectating(false);
       setCurrentView('game'); // 切換到遊戲視圖
       setIsLoading(false); // 停止載入狀態
     };
+
+    /**
+     * @description 成功以觀戰者身份進入房間後，伺服器發送此事件。
+     * @param {object} data - 包含遊戲狀態 (只含公開資訊) 與房間ID的數據。
+     * @param {GameState} data.gameState - 初始遊戲狀態。
+     * @param {string} data.roomId - 觀戰的房間ID。
+     */
+    const onSpectatingRoom = (data: { gameState: GameState; roomId: string }) => {
+      console.log('[App.tsx] 開始觀戰，收到數據:', data);
+      setCurrentRoomId(data.roomId);
+      setClientPlayerId(0); // 觀戰者沒有座位，以座位 0 作為畫面底部的視角
+      setCurrentGameState(data.gameState);
+      setIsSpectating(true);
+      setCurrentView('game');
+      setIsLoading(false);
+    };
     
     /**
      * @description 遊戲狀態更新時觸發。
@@ -263,6 +320,7 @@ const App: React.FC = () => {
     socket.on('connect_error', onConnectError);
     socket.on('lobbyRoomList', onLobbyRoomList);
     socket.on('joinedRoom', onJoinedRoom);
+    socket.on('spectatingRoom', onSpectatingRoom);
     socket.on('gameStateUpdate', onGameStateUpdate);
     socket.on('gamePlayerLeft', onGamePlayerLeft);
     socket.on('gameError', onGameError);
@@ -276,6 +334,7 @@ const App: React.FC = () => {
       socket.off('connect_error', onConnectError);
       socket.off('lobbyRoomList', onLobbyRoomList);
       socket.off('joinedRoom', onJoinedRoom);
+      socket.off('spectatingRoom', onSpectatingRoom);
       socket.off('gameStateUpdate', onGameStateUpdate);
       socket.off('gamePlayerLeft', onGamePlayerLeft);
       socket.off('gameError', onGameError);
@@ -390,6 +449,7 @@ const App: React.FC = () => {
     console.log("[App.tsx] 嘗試加入房間:", roomToJoin.name, roomToJoin.id, "，使用名稱:", playerName);
     // 如果房間有密碼保護
     if (roomToJoin.passwordProtected) {
+      setPasswordModalPurpose('join');
       setAttemptingToJoinRoomDetails(roomToJoin); // 儲存嘗試加入的房間資訊
       setShowPasswordModal(true); // 顯示密碼輸入彈窗
     } else {
@@ -410,7 +470,34 @@ const App: React.FC = () => {
   }, [isConnected, playerName]); // 依賴 isConnected 和 playerName
 
   /** 
-   * @description 處理提交密碼以加入房間的邏輯
+   * @description 處理觀戰房間的邏輯
+   * @param {RoomListData} roomToSpectate - 要觀戰的房間的資訊
+   */
+  const handleSpectateRoom = useCallback(async (roomToSpectate: RoomListData) => {
+    if (!socketRef.current || !isConnected) {
+      alert("未連接到伺服器，無法觀戰。");
+      return;
+    }
+    // 如果房間有密碼保護，先輸入密碼
+    if (roomToSpectate.passwordProtected) {
+      setPasswordModalPurpose('spectate');
+      setAttemptingToJoinRoomDetails(roomToSpectate);
+      setShowPasswordModal(true);
+      return;
+    }
+    setIsLoading(true);
+    setLoadingMessage("正在進入觀戰...");
+    socketRef.current.emit('lobbySpectateRoom', { roomId: roomToSpectate.id, playerName: playerName }, (ack) => {
+      setIsLoading(false);
+      if (!ack.success) {
+        alert(`觀戰失敗: ${ack.message || '無法觀戰此房間'}`);
+      }
+      // 成功後等待伺服器的 spectatingRoom 事件
+    });
+  }, [isConnected, playerName]); // 依賴 isConnected 和 playerName
+
+  /** 
+   * @description 處理提交密碼以加入 (或觀戰) 房間的邏輯
    * @param {string} enteredPassword - 使用者輸入的密碼
    */
   const handlePasswordSubmit = useCallback(async (enteredPassword: string) => {
@@ -421,25 +508,36 @@ const App: React.FC = () => {
       return;
     }
     setIsLoading(true); // 開始載入
-    setLoadingMessage("正在驗證密碼並加入房間...");
-    // 向伺服器發送 lobbyJoinRoom 事件，包含密碼
-    socketRef.current.emit('lobbyJoinRoom', { 
+    const isSpectateRequest = passwordModalPurpose === 'spectate';
+    setLoadingMessage(isSpectateRequest ? "正在驗證密碼並進入觀戰..." : "正在驗證密碼並加入房間...");
+    const requestData = { 
         roomId: attemptingToJoinRoomDetails.id, 
         password: enteredPassword, 
         playerName: playerName // App 組件的 playerName 狀態
-    }, (ack) => {
+    };
+    /**
+     * @description 處理伺服器對加入或觀戰請求的回應。
+     * @param {{ success: boolean; message?: string }} ack - 伺服器的回應。
+     */
+    const handleAck = (ack: { success: boolean; message?: string }) => {
       setIsLoading(false); // 停止載入
       if (ack.success) {
-        console.log(`[App.tsx] 加入加密房間 ${attemptingToJoinRoomDetails.name} 請求已發送。等待伺服器回應...`);
+        console.log(`[App.tsx] ${isSpectateRequest ? '觀戰' : '加入'}加密房間 ${attemptingToJoinRoomDetails.name} 請求已發送。等待伺服器回應...`);
         setShowPasswordModal(false); // 關閉密碼彈窗         
         setAttemptingToJoinRoomDetails(null); // 清除嘗試加入的房間資訊
-        // 成功發送請求後，等待伺服器的 joinedRoom 事件
+        // 成功發送請求後，等待伺服器的 joinedRoom 或 spectatingRoom 事件
       } else {
-        alert(`加入房間失敗: ${ack.message || '密碼錯誤或房間無法加入'}`);
+        alert(`${isSpectateRequest ? '觀戰' : '加入房間'}失敗: ${ack.message || '密碼錯誤或房間無法加入'}`);
         // 密碼錯誤時，保持密碼彈窗開啟，讓用戶重試 (目前是直接關閉，可依需求調整)
       }
-    });
-  }, [isConnected, attemptingToJoinRoomDetails, playerName]); // 依賴 isConnected, attemptingToJoinRoomDetails 和 playerName
+    };
+    // 向伺服器發送 lobbySpectateRoom 或 lobbyJoinRoom 事件，包含密碼
+    if (isSpectateRequest) {
+      socketRef.current.emit('lobbySpectateRoom', requestData, handleAck);
+    } else {
+      socketRef.current.emit('lobbyJoinRoom', requestData, handleAck);
+    }
+  }, [isConnected, attemptingToJoinRoomDetails, playerName, passwordModalPurpose]); // 依賴 isConnected, attemptingToJoinRoomDetails, playerName 和 passwordModalPurpose
 
   /** 
    * @description 處理退出遊戲房間的核心邏輯
@@ -450,10 +548,12 @@ const App: React.FC = () => {
     if (socketRef.current && previousRoomId) {
         socketRef.current.emit('gameQuitRoom', previousRoomId); // 通知伺服器退出房間
     }
+    localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY); // 主動退出後不再取回座位
     setCurrentView('lobby'); // 切換回大廳視圖
     setCurrentRoomId(null); // 清除房間ID
     setCurrentGameState(null); // 清除遊戲狀態
     setClientPlayerId(null); // 清除客戶端玩家ID
+    setIsSpectating(false); // 清除觀戰狀態
     setIsLoading(false); // 停止載入
     // 返回大廳時，確保用戶已設定名稱並獲取房間列表
     if (socketRef.current && socketRef.current.connected) { 
@@ -476,6 +576,37 @@ const App: React.FC = () => {
     handleQuitGameLogic(); // 執行核心退出邏輯
   }, [handleQuitGameLogic]); // 依賴 handleQuitGameLogic
 
+  /** 
+   * @description 讀取玩家選擇的牌譜檔案，驗證格式後切換到牌譜檢視視圖。
+   * @param {File} file - 玩家選擇的牌譜 JSON 檔案。
+   */
+  const handleOpenReplayFile = useCallback(async (file: File) => {
+    try {
+      const parsed = JSON.parse(await file.text()) as ReplayFile;
+      if (!parsed || !Array.isArray(parsed.rounds)) {
+        alert('無效的牌譜檔案。');
+        return;
+      }
+      if (parsed.version !== REPLAY_FILE_VERSION) {
+        alert(`不支援的牌譜版本 ${parsed.version} (目前版本為 ${REPLAY_FILE_VERSION})。`);
+        return;
+      }
+      setReplayData(parsed);
+      setCurrentView('replay'); // 切換到牌譜檢視視圖
+    } catch (error) {
+      console.error('[App.tsx] 讀取牌譜檔案失敗:', error);
+      alert('無法讀取牌譜檔案，請確認檔案為有效的 JSON。');
+    }
+  }, []);
+
+  /** 
+   * @description 關閉牌譜檢視器並返回大廳
+   */
+  const handleCloseReplay = useCallback(() => {
+    setReplayData(null);
+    setCurrentView('lobby');
+  }, []);
+
   /** 
    * @description 處理返回主頁的邏輯
    */
@@ -485,10 +616,12 @@ const App: React.FC = () => {
         socketRef.current.emit('lobbyLeave'); // 通知伺服器離開大廳
         // Socket 連接的斷開將由主要的連接管理 useEffect 根據 currentView 改變來處理
     }
+    localStorage.removeItem(SESSION_TOKEN_STORAGE_KEY); // 返回主頁後不再取回座位
     setCurrentView('home');  // 切換回主頁視圖
     setCurrentRoomId(null); // 清除房間相關狀態
     setCurrentGameState(null);
     setClientPlayerId(null);
+    setIsSpectating(false);
     setLobbyRooms([]); // 清空大廳房間列表
     // Socket 的斷開將由 view 切換到 'home' 時，主要的 socket 連接 useEffect 處理
   }, [isConnected]); // 依賴 isConnected
@@ -527,8 +660,8 @@ const App: React.FC = () => {
         </button>
       )}
 
-      {/* 遊戲標題：不在主頁和遊戲中視圖顯示 (即僅在大廳顯示) */}
-      {currentView !== 'home' && currentView !== 'game' && (
+      {/* 遊戲標題：僅在大廳顯示 */}
+      {currentView === 'lobby' && (
         <header className="absolute top-4 left-1/2 -translate-x-1/2 z-20 text-center">
           <h1 className="text-4xl font-bold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-amber-400 via-red-500 to-rose-600">
             象棋麻將激鬥
@@ -548,7 +681,9 @@ const App: React.FC = () => {
           <Lobby
             onCreateRoomClick={() => setShowCreateRoomModal(true)} // 點擊創建房間按鈕的處理函數
             onJoinRoomClick={handleJoinRoom} // 點擊加入房間按鈕的處理函數
+            onSpectateRoomClick={handleSpectateRoom} // 點擊觀戰按鈕的處理函數
             onReturnToHome={handleReturnToHome} // 返回主頁的處理函數
+            onOpenReplayFile={handleOpenReplayFile} // 開啟牌譜檔案的處理函數
             currentPlayerName={playerName} // 當前玩家名稱
             lobbyRooms={lobbyRooms} // 大廳房間列表
             socket={socket} // Socket.IO 實例
@@ -562,7 +697,7 @@ const App: React.FC = () => {
             roomSettings={{ 
                 id: currentRoomId,
                 roomName: currentGameState.roomName, // 從遊戲狀態獲取房間名
-                maxPlayers: NUM_PLAYERS, // 固定玩家數
+                maxPlayers: currentGameState.configuredPlayerCount, // 從遊戲狀態獲取牌桌座位數
                 humanPlayers: currentGameState.configuredHumanPlayers, // 從遊戲狀態獲取配置的真人玩家數
                 fillWithAI: currentGameState.configuredFillWithAI, // 從遊戲狀態獲取是否用AI填充
                 playerName: currentGameState.hostPlayerName, // 從遊戲狀態獲取房主名稱
@@ -573,8 +708,14 @@ const App: React.FC = () => {
             onQuitGame={handleQuitGame} // 退出遊戲的處理函數
             toggleSettingsPanel={() => setShowSettingsPanel(s => !s)} // 切換設定面板的函數
             socket={socket} // Socket.IO 實例
+            spectatorName={isSpectating ? playerName : undefined} // 觀戰時傳入觀戰者名稱
           />
         )}
+
+        {/* 牌譜檢視視圖 */}
+        {currentView === 'replay' && replayData && (
+          <ReplayViewer replay={replayData} onClose={handleCloseReplay} />
+        )}
       </div>
 
       {/* 創建房間彈出視窗 */}
@@ -616,8 +757,8 @@ const App: React.FC = () => {
       {/* 背景音樂播放器元素 */}
       <audio ref={audioRef} src="/audio/chinese-traditional-relaxed.mp3" loop preload="auto"></audio>
 
-      {/* 頁腳：不在遊戲中視圖顯示 */}
-      {currentView !== 'game' && (
+      {/* 頁腳：不在遊戲中與牌譜檢視視圖顯示 */}
+      {currentView !== 'game' && currentView !== 'replay' && (
          <footer className="absolute bottom-4 left-1/2 -translate-x-1/2 z-20 text-xs text-slate-400 text-center w-full px-4">
           <p>技巧與運氣的遊戲。請適度娛樂。</p>
            {/* 連接狀態提示：不在主頁顯示，且 Socket 未連接時顯示 */}
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AIDifficulty, GameState, GamePhase, MeldDesignation, Player, TileKind, AI_DIFFICULTY_OPTIONS,
+} from '@xiangqi-mahjong/core';
+import { AIService, createDifficultyBotStrategy } from './AIService';
+import { AI_SEARCH_MAX_SAMPLES } from './constants';
+import { BotStrategyRegistry, botStrategyRegistry } from './BotStrategyRegistry';
+import { ServerPlayer } from './Player';
+import { BotStrategy } from './types';
+import { toTiles, createPlayer as createFixturePlayer, createGameState } from './utils/testFixtures';
+
+const createPlayer = (id: number, hand: string, aiDifficulty?: AIDifficulty): Player => createFixturePlayer(id, hand, { aiDifficulty });
+
+// 建立四人桌的牌局狀態 (其餘欄位為開局預設值)
+const createState = (players: Player[], overrides: Partial<GameState>): GameState => createGameState(players, { turnNumber: 4, ...overrides });
+
+// 高手難度的搜尋只以抽樣次數為限 (不設時間上限)，使測試結果與機器速度無關
+const sampleOnlyRegistry = new BotStrategyRegistry();
+AI_DIFFICULTY_OPTIONS.forEach(({ value }) => sampleOnlyRegistry.register(createDifficultyBotStrategy(value, { maxSamples: AI_SEARCH_MAX_SAMPLES, timeBudgetMs: Infinity })));
+const aiService = new AIService(sampleOnlyRegistry);
+
+describe('AI 宣告策略', () => {
+  // 座位 3 打出 士：座位 0 已聽牌 (將將將 士士 象象)，碰 士 之後仍只是聽牌
+  const claimOnTenpaiHand = (aiDifficulty?: AIDifficulty) => {
+    const ai = createPlayer(0, '將將將士士象象', aiDifficulty);
+    ai.pendingClaims = [{ playerId: 0, action: 'Peng', priority: 2 }];
+    const discardedTile = toTiles('士')[0];
+    const state = createState([ai, createPlayer(1, '仕仕仕'), createPlayer(2, '相相相'), createPlayer(3, '兵兵兵')], {
+      gamePhase: GamePhase.AWAITING_PLAYER_CLAIM_ACTION, currentPlayerIndex: 3, lastDiscarderIndex: 3, lastDiscardedTile: discardedTile,
+    });
+    return aiService.getNextAIMove(ai, state);
+  };
+
+  it('新手與標準難度有牌就碰', () => {
+    expect(claimOnTenpaiHand('novice').type).toBe('CLAIM_PENG');
+    expect(claimOnTenpaiHand('standard').type).toBe('CLAIM_PENG');
+  });
+
+  it('未設定難度的玩家使用預設 (標準) 難度', () => {
+    expect(claimOnTenpaiHand(undefined).type).toBe('CLAIM_PENG');
+  });
+
+  it('高手難度在碰牌無法推進手牌時跳過', () => {
+    expect(claimOnTenpaiHand('strong').type).toBe('PASS_CLAIM');
+  });
+});
+
+describe('AI 防守策略', () => {
+  // 座位 1 已明示一組面子 (接近聽牌)；座位 0 摸牌後未聽牌，棄牌堆已有兩張 兵
+  const discardAgainstThreat = (aiDifficulty: AIDifficulty) => {
+    const ai = createPlayer(0, '兵兵將仕相車傌', aiDifficulty);
+    const opponent = createPlayer(1, '仕仕士士');
+    opponent.melds = [{ id: 'meld-1', designation: MeldDesignation.KEZI, tiles: toTiles('象象象'), isOpen: true, claimedFromPlayerId: 2 }];
+    const drawnTile = toTiles('炮')[0];
+    const state = createState([ai, opponent, createPlayer(2, '相相相相相相相'), createPlayer(3, '卒卒卒卒卒卒卒')], {
+      gamePhase: GamePhase.PLAYER_DRAWN, lastDrawnTile: drawnTile, discardPile: toTiles('兵兵'),
+    });
+    const action = aiService.getNextAIMove(ai, state);
+    expect(action.type).toBe('DISCARD_TILE');
+    const discardedId = action.type === 'DISCARD_TILE' ? action.tileId : '';
+    return [...ai.hand, drawnTile].find(tile => tile.id === discardedId)!.kind;
+  };
+
+  it('標準難度以手牌效率為優先', () => {
+    expect(discardAgainstThreat('standard')).not.toBe(TileKind.R_SOLDIER);
+  });
+
+  it('高手難度以抽樣推演決定打牌，相同局面的決策可重現', () => {
+    const first = discardAgainstThreat('strong');
+    expect(discardAgainstThreat('strong')).toBe(first);
+  });
+});
+
+describe('AI 策略註冊表', () => {
+  // 實驗性策略：摸牌後一律打出剛摸到的牌，其餘一律跳過
+  const createDiscardDrawnStrategy = (): BotStrategy => ({
+    id: 'discard-drawn',
+    decideClaim: () => ({ type: 'PASS_CLAIM' }),
+    decidePreDrawAction: () => null,
+    decidePostDrawAction: (_aiPlayer, drawnTile) => ({ type: 'DISCARD_TILE', tileId: drawnTile.id }),
+    decideDiscardAfterMeld: aiPlayer => ({ type: 'DISCARD_TILE', tileId: aiPlayer.hand[0].id }),
+    chooseDiscard: hand => hand[hand.length - 1] ?? null,
+  });
+
+  it('內建策略依難度註冊', () => {
+    expect(botStrategyRegistry.getIds()).toEqual(['novice', 'standard', 'strong']);
+  });
+
+  it('不可重複註冊相同 ID 的策略', () => {
+    const registry = new BotStrategyRegistry();
+    registry.register(createDiscardDrawnStrategy());
+    expect(() => registry.register(createDiscardDrawnStrategy())).toThrow();
+  });
+
+  it('AI 玩家依綁定的策略 ID 決策，找不到策略時使用預設難度的內建策略', () => {
+    const registry = new BotStrategyRegistry();
+    registry.register(createDiscardDrawnStrategy());
+    const service = new AIService(registry);
+    const ai = new ServerPlayer(0, 'P0', false);
+    ai.hand = toTiles('兵兵將仕相車傌');
+    ai.botStrategyId = 'discard-drawn';
+    const drawnTile = toTiles('炮')[0];
+    const state = createState([ai, createPlayer(1, '仕仕仕'), createPlayer(2, '相相相'), createPlayer(3, '卒卒卒')], {
+      gamePhase: GamePhase.PLAYER_DRAWN, lastDrawnTile: drawnTile,
+    });
+    expect(service.getNextAIMove(ai, state)).toEqual({ type: 'DISCARD_TILE', tileId: drawnTile.id });
+
+    ai.botStrategyId = 'unknown';
+    expect(service.getStrategyForPlayer(ai).id).toBe('standard');
+  });
+
+  it('策略取得的是座位視圖中的玩家物件，而非伺服器端的 ServerPlayer', () => {
+    const seenPlayers: Player[] = [];
+    const registry = new BotStrategyRegistry();
+    registry.register({ ...createDiscardDrawnStrategy(), decidePostDrawAction: (aiPlayer, drawnTile) => {
+      seenPlayers.push(aiPlayer);
+      return { type: 'DISCARD_TILE', tileId: drawnTile.id };
+    } });
+    const ai = new ServerPlayer(0, 'P0', false);
+    ai.botStrategyId = 'discard-drawn';
+    const seatView = createPlayer(0, '兵兵將仕相車傌');
+    const drawnTile = toTiles('炮')[0];
+    const state = createState([seatView, createPlayer(1, '仕仕仕'), createPlayer(2, '相相相'), createPlayer(3, '卒卒卒')], {
+      gamePhase: GamePhase.PLAYER_DRAWN, lastDrawnTile: drawnTile,
+    });
+    new AIService(registry).getNextAIMove(ai, state);
+    expect(seenPlayers).toHaveLength(1);
+    expect(seenPlayers[0]).toBe(seatView);
+  });
+});
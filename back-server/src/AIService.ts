@@ -1,16 +1,21 @@
 
-// 引入遊戲相關類型定義
-import { GameState, Player, Tile, TileKind, Meld, GameActionPayload, Claim, GamePhase, AIExecutableAction } from './types';
-// 引入遊戲常數
-import { TILE_KIND_DETAILS, ACTION_PRIORITY } from './constants';
-// 引入遊戲規則相關的輔助函數
-import { 
+// 引入共用核心套件：遊戲相關類型定義、常數、遊戲規則與向聽數計算
+import {
+    GameState, Player, Tile, TileKind, Meld, GameActionPayload, Claim, GamePhase, AIExecutableAction, AIDifficulty, MeldDesignation,
+    TILE_KIND_DETAILS, ACTION_PRIORITY, DEFAULT_AI_DIFFICULTY, AI_DIFFICULTY_OPTIONS,
     canDeclareAnGang, 
     canDeclareMingGangFromHand, 
     checkWinCondition, 
     getChiOptions,
-    countTilesOfKind // 計算手牌中特定牌的數量
-} from './utils/gameRules';
+    countTilesOfKind, // 計算手牌中特定牌的數量
+    analyzeDiscardOptions, countUnseenUsefulTiles, getVisibleTiles
+} from '@xiangqi-mahjong/core';
+// 引入蒙地卡羅搜尋 (高手難度)
+import { evaluateDiscardsBySearch, chooseMeldClaimBySearch, MeldClaimCandidate, DEFAULT_SEARCH_BUDGET } from './utils/monteCarloSearch';
+import { AI_SEARCH_SHANTEN_PENALTY } from './constants'; // 引入 AI 搜尋常數
+import { BotStrategy, SearchBudget } from './types'; // 引入伺服器專用類型定義
+import { BotStrategyRegistry, botStrategyRegistry } from './BotStrategyRegistry'; // 引入 AI 策略註冊表
+import { ServerPlayer } from './Player'; // 引入伺服器端玩家類別 (綁定的策略 ID)
 
 /**
  * @description 判斷一張牌是否為「孤張」或「邊張」類型的牌 (此處根據 group 0 定義)。
@@ -60,44 +65,45 @@ const getGlobalDiscardFrequency = (gameState: GameState): Record<string, number>
 };
 
 /**
- * @description 根據牌型和遊戲狀態為一張準備打出的牌評分。
+ * @description 根據牌型為一張準備打出的牌評分 (只看手牌本身：對子、刻子與能組成順子的牌)。
  *              分數越低，AI 越傾向於打出這張牌。
  * @param {Tile} tile - 準備評分的牌。
  * @param {Tile[]} hand - AI 當前完整的手牌 (包含 tile)。
- * @param {GameState} gameState - 當前的遊戲狀態。
  * @returns {number} 返回評分結果。
  */
-const scoreTileForDiscard = (tile: Tile, hand: Tile[], gameState: GameState): number => {
+const scoreTileShape = (tile: Tile, hand: Tile[]): number => {
   let score = 0; // 初始分數
   // 該牌在手中的數量
   const kindCountInHand = hand.filter(t => t.kind === tile.kind).length;
 
-  // AI 策略：盡量保留多張相同的牌 (對子、刻子、槓子)
+  // 盡量保留多張相同的牌 (對子、刻子、槓子)
   if (kindCountInHand === 1) score -= 5;      // 孤張，傾向於打出 (分數降低)
   else if (kindCountInHand === 2) score += 5; // 對子，保留價值增加
   else if (kindCountInHand === 3) score += 15;// 刻子，保留價值更高
   else if (kindCountInHand === 4) score += 25;// 槓子，保留價值非常高
 
-  // 檢查是否為潛在順子的一部分
-  // 建立一個不包含當前 tile 的臨時手牌，用於檢查吃牌可能性
-  const potentialChiHandContext = hand.filter(t => t.id !== tile.id); 
-  // 如果打出 tile 後，手上剩餘的牌仍能與 tile 形成吃牌關係 (說明 tile 是順子的一部分)
-  // 注意：此處 getChiOptions 的第二個參數是被吃的牌，所以若 tile 是順子中的一張，
-  // 它的鄰牌被打出時，它才能被吃。此邏輯需要確認是否符合預期。
-  // 更準確的可能是：檢查 tile 是否能與手牌中其他兩張組成順子。
-  // 簡化：如果 tile 參與了任何可能的順子組合
-  if (getChiOptions(potentialChiHandContext, tile).length > 0 || 
-      TILE_KIND_DETAILS[tile.kind].group !== 0) { // 非兵卒牌更容易參與順子
-    score += 8; // 作為順子的一部分，增加保留價值
+  // 能與手中其他兩張牌組成順子的牌，保留價值增加
+  if (getChiOptions(hand.filter(t => t.id !== tile.id), tile).length > 0) {
+    score += 8;
   }
+  return score;
+};
+
+/**
+ * @description 根據牌型和遊戲狀態為一張準備打出的牌評分 (不含危險度，危險度由各難度的防守策略另外加權)。
+ *              分數越低，AI 越傾向於打出這張牌。
+ * @param {Tile} tile - 準備評分的牌。
+ * @param {Tile[]} hand - AI 當前完整的手牌 (包含 tile)。
+ * @param {GameState} gameState - 當前的遊戲狀態。
+ * @returns {number} 返回評分結果。
+ */
+const scoreTileForDiscard = (tile: Tile, hand: Tile[], gameState: GameState): number => {
+  // 牌型價值：對子、刻子，以及確實能與手中其他兩張牌組成順子的牌
+  let score = scoreTileShape(tile, hand);
 
   // 牌本身的基礎價值 (orderValue 越高通常越重要)
   score += TILE_KIND_DETAILS[tile.kind].orderValue * 2;
 
-  // 牌的危險度：危險度越高，打出此牌的風險越大。
-  // 如果 score 代表“打出傾向性”(越低越好)，則危險度高應使 score 增加 (不傾向打出)
-  score += estimateTileDanger(tile, gameState) * 2;
-
   // 安全牌邏輯：如果某牌在棄牌堆中已出現多次，則打出它相對安全
   const discardFrequency = getGlobalDiscardFrequency(gameState);
   if (discardFrequency[tile.kind]) {
@@ -108,19 +114,129 @@ const scoreTileForDiscard = (tile: Tile, hand: Tile[], gameState: GameState): nu
 };
 
 /**
- * @description AI 選擇一張最不重要 (評分最低) 的牌打出。
+ * @description 依向聽數與有效進張篩選打牌候選：只保留打出後向聽數最低、且未現身的有效進張最多的牌種。
+ * @param {Tile[]} tiles - AI 當前可打出的手牌。
+ * @param {Player} aiPlayer - AI 玩家物件 (用於取得已宣告的面子與可見的牌)。
+ * @param {GameState} gameState - 當前的遊戲狀態。
+ * @returns {Tile[]} 候選牌。
+ */
+const filterMostEfficientDiscards = (tiles: Tile[], aiPlayer: Player, gameState: GameState): Tile[] => {
+  const discardOptions = analyzeDiscardOptions(tiles, aiPlayer.melds, getVisibleTiles(gameState, aiPlayer.id), gameState.ruleSet);
+  const minShanten = Math.min(...discardOptions.map(option => option.analysis.shanten));
+  const lowestShantenOptions = discardOptions.filter(option => option.analysis.shanten === minShanten);
+  const maxUsefulCount = Math.max(...lowestShantenOptions.map(option => countUnseenUsefulTiles(option.analysis)));
+  const candidateKinds = new Set(lowestShantenOptions
+    .filter(option => countUnseenUsefulTiles(option.analysis) === maxUsefulCount)
+    .map(option => option.tile.kind));
+  return tiles.filter(tile => candidateKinds.has(tile.kind));
+};
+
+/** 打牌評估：為可打出的牌評分 (分數越低越傾向打出)；未列入結果的牌不會被打出。 */
+type DiscardEvaluator = (tiles: Tile[], aiPlayer: Player, gameState: GameState) => { tile: Tile; score: number }[];
+/** 宣告策略：在可碰或可吃時決定要宣告的動作 (胡與槓一律宣告，不經過此策略)；返回 null 表示跳過。 */
+type ClaimPolicy = (aiPlayer: Player, discardedTile: Tile, gameState: GameState) => GameActionPayload | null;
+/** 防守策略：返回打牌評分中危險度 (estimateTileDanger) 的權重，0 表示完全不防守。 */
+type DefensePolicy = (tiles: Tile[], aiPlayer: Player, gameState: GameState) => number;
+
+/**
+ * @description AI 難度設定檔：每個難度各自搭配打牌評估、宣告策略與防守策略。
+ */
+interface AIDifficultyProfile {
+  evaluateDiscards: DiscardEvaluator;
+  claimPolicy: ClaimPolicy;
+  defensePolicy: DefensePolicy;
+}
+
+// 只看手牌本身的牌型，不計算向聽數
+const evaluateByShape: DiscardEvaluator = (tiles) =>
+  tiles.map(tile => ({ tile, score: scoreTileShape(tile, tiles) }));
+
+// 先依向聽數與有效進張篩選，再依牌型、牌值與棄牌堆評分
+const evaluateByEfficiencyThenShape: DiscardEvaluator = (tiles, aiPlayer, gameState) =>
+  filterMostEfficientDiscards(tiles, aiPlayer, gameState).map(tile => ({ tile, score: scoreTileForDiscard(tile, tiles, gameState) }));
+
+// 以蒙地卡羅搜尋估計打出每種牌的期望得分 (已包含放槍風險)，再扣除打出後的向聽數懲罰，並以有效進張區分
+const createSearchEvaluator = (budget: SearchBudget): DiscardEvaluator => (tiles, aiPlayer, gameState) => {
+  const expectedScores = evaluateDiscardsBySearch(tiles, aiPlayer, gameState, budget);
+  const analysisByKind = new Map(analyzeDiscardOptions(tiles, aiPlayer.melds, getVisibleTiles(gameState, aiPlayer.id), gameState.ruleSet)
+    .map(option => [option.tile.kind, option.analysis]));
+  return tiles.map(tile => {
+    const analysis = analysisByKind.get(tile.kind);
+    const efficiencyScore = analysis ? analysis.shanten * AI_SEARCH_SHANTEN_PENALTY - countUnseenUsefulTiles(analysis) : 0;
+    return { tile, score: -(expectedScores.get(tile.kind) ?? 0) + efficiencyScore };
+  });
+};
+
+// 有牌就宣告：可碰就碰，否則使用第一組吃牌選項
+const claimWheneverPossible: ClaimPolicy = (aiPlayer, discardedTile) => {
+  const pendingClaims = aiPlayer.pendingClaims || [];
+  if (pendingClaims.some(c => c.action === 'Peng')) return { type: 'CLAIM_PENG', tile: discardedTile };
+  if (pendingClaims.some(c => c.action === 'Chi')) {
+    // 依此 AI 的手牌計算吃牌選項 (遊戲狀態中不含吃牌選項，只在發給各座位的 legalActions 中附上)
+    const chiOptions = getChiOptions(aiPlayer.hand, discardedTile);
+    if (chiOptions.length > 0) return { type: 'CLAIM_CHI', tilesToChiWith: chiOptions[0], discardedTile };
+  }
+  return null;
+};
+
+// 以蒙地卡羅搜尋比較跳過、碰與各組吃牌選項的期望得分 (宣告會失去門清台，也改變之後的摸牌順序)
+const createSearchClaimPolicy = (budget: SearchBudget): ClaimPolicy => (aiPlayer, discardedTile, gameState) => {
+  if (gameState.lastDiscarderIndex === null) return null;
+  const pendingClaims = aiPlayer.pendingClaims || [];
+  const candidates: MeldClaimCandidate[] = [];
+  if (pendingClaims.some(c => c.action === 'Peng')) {
+    candidates.push({
+      action: { type: 'CLAIM_PENG', tile: discardedTile },
+      tilesFromHand: aiPlayer.hand.filter(t => t.kind === discardedTile.kind).slice(0, 2),
+      designation: MeldDesignation.KEZI,
+    });
+  }
+  if (pendingClaims.some(c => c.action === 'Chi')) {
+    getChiOptions(aiPlayer.hand, discardedTile).forEach(tilesToChiWith => candidates.push({
+      action: { type: 'CLAIM_CHI', tilesToChiWith, discardedTile },
+      tilesFromHand: tilesToChiWith,
+      designation: MeldDesignation.SHUNZI,
+    }));
+  }
+  return chooseMeldClaimBySearch(aiPlayer, discardedTile, gameState.lastDiscarderIndex, candidates, gameState, budget);
+};
+
+// 完全不防守 (或危險度已包含在打牌評估中)
+const ignoreDanger: DefensePolicy = () => 0;
+
+// 固定略避生張與關鍵牌
+const avoidDangerSlightly: DefensePolicy = () => 2;
+
+/**
+ * @description 建立各難度的 AI 設定檔。
+ * @param {SearchBudget} searchBudget - 高手難度每次搜尋的資源上限。
+ * @returns {Record<AIDifficulty, AIDifficultyProfile>} 各難度的設定檔。
+ */
+const createDifficultyProfiles = (searchBudget: SearchBudget): Record<AIDifficulty, AIDifficultyProfile> => ({
+  novice: { evaluateDiscards: evaluateByShape, claimPolicy: claimWheneverPossible, defensePolicy: ignoreDanger },
+  standard: { evaluateDiscards: evaluateByEfficiencyThenShape, claimPolicy: claimWheneverPossible, defensePolicy: avoidDangerSlightly },
+  strong: { evaluateDiscards: createSearchEvaluator(searchBudget), claimPolicy: createSearchClaimPolicy(searchBudget), defensePolicy: ignoreDanger },
+});
+
+/**
+ * @description AI 選擇要打出的牌：以設定檔的打牌評估為候選牌評分，加上防守策略決定的危險度，
+ *              再從中選出評分最低的一張。
+ * @param {AIDifficultyProfile} profile - AI 設定檔。
  * @param {Tile[]} tiles - AI 當前可打出的手牌。
+ * @param {Player} aiPlayer - AI 玩家物件 (用於取得已宣告的面子與可見的牌)。
  * @param {GameState} gameState - 當前的遊戲狀態。
  * @returns {Tile | null} 返回選擇的牌，如果手牌為空則返回 null。
  */
-const chooseBestTileToDiscardAI = (tiles: Tile[], gameState: GameState): Tile | null => {
+const chooseTileToDiscard = (profile: AIDifficultyProfile, tiles: Tile[], aiPlayer: Player, gameState: GameState): Tile | null => {
   if (tiles.length === 0) return null; // 手牌為空，無法打牌
 
+  const dangerWeight = profile.defensePolicy(tiles, aiPlayer, gameState);
   let bestTile: Tile | null = null; // 最佳選擇的牌
   let minScore = Infinity;         // 追蹤最低評分 (越低越適合打出)
 
-  for (const tile of tiles) {
-    const score = scoreTileForDiscard(tile, tiles, gameState); // 計算每張牌的打出評分
+  for (const { tile, score: evaluation } of profile.evaluateDiscards(tiles, aiPlayer, gameState)) {
+    // 危險度越高，打出此牌的風險越大，評分增加 (不傾向打出)
+    const score = evaluation + estimateTileDanger(tile, gameState) * dangerWeight;
     if (score < minScore) { // 如果找到更低分的牌
       minScore = score;
       bestTile = tile;
@@ -128,7 +244,7 @@ const chooseBestTileToDiscardAI = (tiles: Tile[], gameState: GameState): Tile |
       // 優先打 orderValue 低的牌 (例如 象/相 比 將/帥 優先打出)
       if (bestTile && TILE_KIND_DETAILS[tile.kind].orderValue < TILE_KIND_DETAILS[bestTile.kind].orderValue) {
          bestTile = tile;
-      } 
+      }
       // 若 orderValue 也相同，則優先打 group 0 的牌 (兵/卒)
       else if (bestTile && TILE_KIND_DETAILS[tile.kind].group === 0 && TILE_KIND_DETAILS[bestTile.kind].group !== 0) {
          bestTile = tile;
@@ -140,26 +256,40 @@ const chooseBestTileToDiscardAI = (tiles: Tile[], gameState: GameState): Tile |
 
 
 /**
- * @class AIService
- * @description 提供 AI 玩家在遊戲中進行決策的服務。
+ * @class DifficultyBotStrategy
+ * @description 內建的 AI 決策策略：胡與槓一律宣告，打牌、碰吃與防守依難度設定檔決定。
+ *              每種難度各註冊一個策略，策略 ID 即為難度。
  */
-export class AIService {
+class DifficultyBotStrategy implements BotStrategy {
+    /** @property {AIDifficulty} id - 策略 ID (即難度)。 */
+    public readonly id: AIDifficulty;
+    private profile: AIDifficultyProfile; // 此難度的 AI 設定檔
+
+    /**
+     * @constructor
+     * @param {AIDifficulty} difficulty - 難度。
+     * @param {AIDifficultyProfile} profile - 該難度的 AI 設定檔。
+     */
+    constructor(difficulty: AIDifficulty, profile: AIDifficultyProfile) {
+        this.id = difficulty;
+        this.profile = profile;
+    }
 
     /**
      * @description 決定 AI 是否及如何宣告其他玩家的棄牌。
      * @param {Player} aiPlayer - AI 玩家物件。
      * @param {Tile} discardedTile - 其他玩家打出的棄牌。
      * @param {GameState} gameState - 當前的遊戲狀態。
-     * @returns {GameActionPayload | null} AI 決定的動作，如果跳過則為 PASS_CLAIM。
+     * @returns {GameActionPayload} AI 決定的動作，如果跳過則為 PASS_CLAIM。
      */
-    public getClaimForAI(aiPlayer: Player, discardedTile: Tile, gameState: GameState): GameActionPayload | null {
+    public decideClaim(aiPlayer: Player, discardedTile: Tile, gameState: GameState): GameActionPayload {
         // AI 檢查其 pendingClaims (由 GameRoom 計算並填充)
         // 優先順序：胡 > 槓 > 碰 > 吃
 
-        // 檢查是否能胡牌
+        // 檢查是否能胡牌 (包含搶別人加槓的牌，此時宣告窗口中只有胡牌選項)
         const huClaim = (aiPlayer.pendingClaims || []).find(c => c.action === 'Hu');
         if (huClaim) {
-            console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 決定宣告 胡 ${discardedTile.kind}。`);
+            console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 決定宣告 ${gameState.robbableKong ? '搶槓胡' : '胡'} ${discardedTile.kind}。`);
             return { type: 'DECLARE_HU' };
         }
 
@@ -170,24 +300,15 @@ export class AIService {
             return { type: 'CLAIM_GANG', tile: discardedTile };
         }
 
-        // 檢查是否能碰牌
-        const pengClaim = (aiPlayer.pendingClaims || []).find(c => c.action === 'Peng');
-        if (pengClaim) { 
-            // AI 策略：如果碰牌會嚴重破壞手牌潛力，則可能跳過。此處簡化為總是碰。
+        // 碰與吃依難度的宣告策略決定
+        const meldClaim = this.profile.claimPolicy(aiPlayer, discardedTile, gameState);
+        if (meldClaim?.type === 'CLAIM_PENG') {
             console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 決定宣告 碰 ${discardedTile.kind}。`);
-            return { type: 'CLAIM_PENG', tile: discardedTile };
+            return meldClaim;
         }
-
-        // 檢查是否能吃牌
-        const chiClaim = (aiPlayer.pendingClaims || []).find(c => c.action === 'Chi');
-        if (chiClaim) {
-            // 從 GameState 或 GameRoom 傳入的 chiOptions (已為此 AI 計算好的) 中選擇
-            const actualChiOptions = gameState.chiOptions || getChiOptions(aiPlayer.hand, discardedTile); // 備用
-            if (actualChiOptions && actualChiOptions.length > 0) {
-                // AI 策略：選擇第一個可用的吃牌選項。更複雜的 AI 可以評估哪個更好。
-                console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 決定宣告 吃 ${discardedTile.kind}，使用手牌 ${actualChiOptions[0].map(t => t.kind).join(', ')}。`);
-                return { type: 'CLAIM_CHI', tilesToChiWith: actualChiOptions[0], discardedTile };
-            }
+        if (meldClaim?.type === 'CLAIM_CHI') {
+            console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 決定宣告 吃 ${discardedTile.kind}，使用手牌 ${meldClaim.tilesToChiWith.map(t => t.kind).join(', ')}。`);
+            return meldClaim;
         }
         // 如果沒有理想的宣告，則跳過
         console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 決定跳過對 ${discardedTile.kind} 的宣告。`);
@@ -200,7 +321,7 @@ export class AIService {
      * @param {GameState} gameState - 當前的遊戲狀態。
      * @returns {GameActionPayload | null} AI 決定的動作，如果沒有則返回 null (表示準備摸牌)。
      */
-    public getPreDrawActionForAI(aiPlayer: Player, gameState: GameState): GameActionPayload | null {
+    public decidePreDrawAction(aiPlayer: Player, gameState: GameState): GameActionPayload | null {
         // 檢查是否能暗槓 (手牌中已有四張相同)
         const anGangOptions = canDeclareAnGang(aiPlayer.hand, null); // drawnTile 為 null 表示檢查摸牌前
         if (anGangOptions.length > 0) {
@@ -223,14 +344,14 @@ export class AIService {
      * @param {Player} aiPlayer - AI 玩家物件。
      * @param {Tile} drawnTile - AI 剛摸到的牌。
      * @param {GameState} gameState - 當前的遊戲狀態。
-     * @returns {GameActionPayload | null} AI 決定的動作。必定返回一個動作 (胡或打牌)。
+     * @returns {GameActionPayload} AI 決定的動作 (胡、槓或打牌)。
      */
-    public getSelfDrawnActionForAI(aiPlayer: Player, drawnTile: Tile, gameState: GameState): GameActionPayload | null {
+    public decidePostDrawAction(aiPlayer: Player, drawnTile: Tile, gameState: GameState): GameActionPayload {
         // 組合完整手牌 (包含剛摸到的牌)
         const handWithDrawnTile = [...aiPlayer.hand, drawnTile];
       
         // 檢查是否能自摸
-        if (checkWinCondition(handWithDrawnTile, aiPlayer.melds).isWin) {
+        if (checkWinCondition(handWithDrawnTile, aiPlayer.melds, gameState.ruleSet).isWin) {
             console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 摸到 ${drawnTile.kind} 後決定宣告 自摸。`);
             return { type: 'DECLARE_HU' }; 
         }
@@ -250,7 +371,7 @@ export class AIService {
         }
         
         // 如果沒有自摸或槓牌，則必須打出一張牌
-        const tileToDiscard = chooseBestTileToDiscardAI(handWithDrawnTile, gameState);
+        const tileToDiscard = chooseTileToDiscard(this.profile, handWithDrawnTile, aiPlayer, gameState);
         if (tileToDiscard) {
             console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 摸到 ${drawnTile.kind} 後，選擇打出 ${tileToDiscard.kind} (ID: ${tileToDiscard.id})。`);
             return { type: 'DISCARD_TILE', tileId: tileToDiscard.id };
@@ -270,20 +391,20 @@ export class AIService {
      * @returns {GameActionPayload} AI 決定的打牌動作。
      * @throws {Error} 如果 AI 在面子操作後手牌為空 (應為胡牌或錯誤狀態)。
      */
-    public getDiscardAfterMeldAI(aiPlayer: Player, gameState: GameState): GameActionPayload {
+    public decideDiscardAfterMeld(aiPlayer: Player, gameState: GameState): GameActionPayload {
         if (aiPlayer.hand.length === 0) {
             // 宣告面子後手牌空了，這通常意味著遊戲結束 (例如槓上開花然後胡牌)，或者是一個錯誤狀態。
             // 此函數預期是選擇一張牌打出。
             console.error(`[AIService] 嚴重錯誤: AI ${aiPlayer.name} 在面子操作後手牌為空，無法打牌!`);
             throw new Error("AI 手牌為空，無法在面子操作後打牌，此應為胡牌或錯誤狀態。");
         }
-        const tileToDiscard = chooseBestTileToDiscardAI(aiPlayer.hand, gameState);
+        const tileToDiscard = chooseTileToDiscard(this.profile, aiPlayer.hand, aiPlayer, gameState);
         if (tileToDiscard) {
             console.log(`[AIService] AI ${aiPlayer.name} (Seat: ${aiPlayer.id}) 在面子操作後，選擇打出 ${tileToDiscard.kind}。`);
             return { type: 'DISCARD_TILE', tileId: tileToDiscard.id };
         } else {
             // 幾乎不可能發生，因為上面檢查了 hand.length > 0
-            console.error(`[AIService] 嚴重錯誤: AI ${aiPlayer.name} 的 chooseBestTileToDiscardAI 返回 null，但手牌不為空: ${JSON.stringify(aiPlayer.hand)}`);
+            console.error(`[AIService] 嚴重錯誤: AI ${aiPlayer.name} 的 chooseTileToDiscard 返回 null，但手牌不為空: ${JSON.stringify(aiPlayer.hand)}`);
             // 最後的備用方案：打出手牌中的第一張
             console.log(`[AIService] (備用方案) AI ${aiPlayer.name} 打出手牌中的第一張 ${aiPlayer.hand[0].kind}。`);
             return { type: 'DISCARD_TILE', tileId: aiPlayer.hand[0].id }; 
@@ -291,45 +412,119 @@ export class AIService {
     }
 
     /**
-     * @description 供 GameRoom 調用，以獲取 AI 在當前遊戲狀態下的決策。
-     *              GameRoom 會根據 gameState.gamePhase 和 currentPlayerIndex/playerMakingClaimDecision 來調用此函數。
-     * @param {Player} aiPlayer - AI 玩家物件。
+     * @description 選擇一張牌在行動超時或離線代打時打出。
+     * @param {Tile[]} hand - 玩家的當前手牌 (可能包含剛摸的牌)。
+     * @param {Player} player - 玩家物件。
      * @param {GameState} gameState - 當前的遊戲狀態。
+     * @returns {Tile | null} 選擇打出的牌，如果手牌為空則返回 null。
+     */
+    public chooseDiscard(hand: Tile[], player: Player, gameState: GameState): Tile | null {
+        return chooseTileToDiscard(this.profile, hand, player, gameState);
+    }
+}
+
+/**
+ * @description 建立指定難度的內建策略。
+ * @param {AIDifficulty} difficulty - 難度。
+ * @param {SearchBudget} [searchBudget=DEFAULT_SEARCH_BUDGET] - 高手難度每次搜尋的資源上限
+ *        (測試時可將 timeBudgetMs 設為 Infinity，只以抽樣次數為限，使決策與機器速度無關)。
+ * @returns {BotStrategy} 內建策略。
+ */
+export const createDifficultyBotStrategy = (difficulty: AIDifficulty, searchBudget: SearchBudget = DEFAULT_SEARCH_BUDGET): BotStrategy =>
+    new DifficultyBotStrategy(difficulty, createDifficultyProfiles(searchBudget)[difficulty]);
+
+// 註冊內建策略：每種難度各一個
+AI_DIFFICULTY_OPTIONS.forEach(({ value }) => botStrategyRegistry.register(createDifficultyBotStrategy(value)));
+
+/** 可綁定 AI 策略的玩家：伺服器端的 ServerPlayer 帶有 botStrategyId，一般的 Player 物件則依難度查詢。 */
+type BotBoundPlayer = Player & Partial<Pick<ServerPlayer, 'botStrategyId'>>;
+
+/**
+ * @description 取得座位視圖中此座位的玩家物件 (不含 ServerPlayer 的伺服器內部欄位)；視圖中找不到時沿用原物件。
+ * @param {Player} player - 玩家物件。
+ * @param {GameState} gameState - 該座位可見的遊戲狀態。
+ * @returns {Player} 視圖中的玩家物件。
+ */
+const getSeatView = (player: Player, gameState: GameState): Player =>
+    gameState.players.find(p => p.id === player.id) ?? player;
+
+/**
+ * @class AIService
+ * @description 提供 AI 玩家在遊戲中進行決策的服務：依遊戲階段向玩家綁定的決策策略 (BotStrategy) 取得動作。
+ *              策略依玩家的 botStrategyId 向註冊表查詢；未綁定策略的玩家 (例如由 AI 代打的離線真人玩家)
+ *              依其難度 (aiDifficulty) 或預設難度使用內建策略。
+ */
+export class AIService {
+    private registry: BotStrategyRegistry; // 查詢策略用的註冊表
+
+    /**
+     * @constructor
+     * @param {BotStrategyRegistry} [registry=botStrategyRegistry] - 查詢策略用的註冊表 (預設為伺服器共用的註冊表)。
+     */
+    constructor(registry: BotStrategyRegistry = botStrategyRegistry) {
+        this.registry = registry;
+    }
+
+    /**
+     * @description 取得玩家綁定的決策策略。找不到綁定的策略時，改用預設難度的內建策略。
+     * @param {BotBoundPlayer} player - 玩家物件。
+     * @returns {BotStrategy} 決策策略。
+     */
+    public getStrategyForPlayer(player: BotBoundPlayer): BotStrategy {
+        const strategyId = player.botStrategyId ?? player.aiDifficulty ?? DEFAULT_AI_DIFFICULTY;
+        const strategy = this.registry.get(strategyId);
+        if (strategy) return strategy;
+        console.warn(`[AIService] 找不到 AI 策略 ${strategyId} (玩家 ${player.name})，改用預設策略 ${DEFAULT_AI_DIFFICULTY}。`);
+        // 內建策略一律註冊於共用的註冊表
+        return this.registry.get(DEFAULT_AI_DIFFICULTY) ?? botStrategyRegistry.get(DEFAULT_AI_DIFFICULTY)!;
+    }
+
+    /**
+     * @description 供 GameRoom 調用，以獲取 AI 在當前遊戲狀態下的決策。
+     *              GameRoom 會根據 gameState.gamePhase、currentPlayerIndex 與宣告窗口中尚未回覆的玩家來調用此函數，
+     *              此函數再依遊戲階段呼叫玩家綁定策略的對應決策方法。
+     * @param {BotBoundPlayer} boundPlayer - AI 玩家物件 (用於查詢綁定的策略)。
+     * @param {GameState} gameState - 此 AI 座位可見的遊戲狀態 (由 GameRoom 依座位遮蔽隱藏資訊)。
      * @returns {GameActionPayload} AI 決定的下一個動作。
      */
-    public getNextAIMove(aiPlayer: Player, gameState: GameState): GameActionPayload {
-        const { gamePhase, lastDiscardedTile, lastDrawnTile, currentPlayerIndex, playerMakingClaimDecision } = gameState;
+    public getNextAIMove(boundPlayer: BotBoundPlayer, gameState: GameState): GameActionPayload {
+        const strategy = this.getStrategyForPlayer(boundPlayer);
+        const aiPlayer = getSeatView(boundPlayer, gameState); // 策略只取得視圖中此座位的玩家物件
+        const { gamePhase, lastDiscardedTile, lastDrawnTile, currentPlayerIndex, claimResponses } = gameState;
 
         // 1. 處理宣告棄牌的邏輯
-        //    當有棄牌，且輪到此 AI 決定是否宣告時
-        if ((gamePhase === GamePhase.TILE_DISCARDED || 
-             gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION || 
-             gamePhase === GamePhase.AWAITING_CLAIMS_RESOLUTION) && 
+        //    宣告窗口開啟，且此 AI 可宣告、尚未回覆時
+        if (gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION &&
             lastDiscardedTile &&
-            playerMakingClaimDecision === aiPlayer.id) { // 確認是此 AI 在做宣告決定
+            (aiPlayer.pendingClaims || []).length > 0 &&
+            !claimResponses.some(response => response.playerId === aiPlayer.id)) { // 確認此 AI 仍需回覆
             
-            // 使用 getClaimForAI 函數獲取宣告動作，如果沒有則跳過
-            return this.getClaimForAI(aiPlayer, lastDiscardedTile, gameState) || { type: 'PASS_CLAIM' };
+            // 由策略決定宣告動作 (包含跳過)
+            return strategy.decideClaim(aiPlayer, lastDiscardedTile, gameState);
         }
 
         // 2. AI 輪到自己回合的邏輯
         if (currentPlayerIndex === aiPlayer.id) { // 確認輪到此 AI 行動
             // 2a. 回合開始，準備摸牌 (或摸牌前宣告暗槓/天胡)
             if (gamePhase === GamePhase.PLAYER_TURN_START) {
-                const preDrawAction = this.getPreDrawActionForAI(aiPlayer, gameState); // 檢查摸牌前動作
+                const preDrawAction = strategy.decidePreDrawAction(aiPlayer, gameState); // 檢查摸牌前動作
                 if (preDrawAction) return preDrawAction; // 如果有摸牌前動作，執行它
                 return { type: 'DRAW_TILE' }; // 否則，摸牌
             }
 
             // 2b. 已摸牌，決定是否自摸、槓牌，或打出一張牌
             if (gamePhase === GamePhase.PLAYER_DRAWN && lastDrawnTile) {
-                // getSelfDrawnActionForAI 必定會返回一個動作 (胡牌或打牌)
-                return this.getSelfDrawnActionForAI(aiPlayer, lastDrawnTile, gameState)!; 
+                return strategy.decidePostDrawAction(aiPlayer, lastDrawnTile, gameState);
+            }
+
+            // 2c. 莊家開局：第8張牌視為剛摸到的牌，同樣可宣告天胡、暗槓或打牌
+            if (gamePhase === GamePhase.AWAITING_DISCARD && lastDrawnTile) {
+                return strategy.decidePostDrawAction(aiPlayer, lastDrawnTile, gameState);
             }
 
-            // 2c. 等待出牌 (通常在吃/碰/槓之後，或莊家開局)
+            // 2d. 等待出牌 (在吃/碰/槓之後)
             if (gamePhase === GamePhase.AWAITING_DISCARD) {
-                return this.getDiscardAfterMeldAI(aiPlayer, gameState);
+                return strategy.decideDiscardAfterMeld(aiPlayer, gameState);
             }
         }
         
@@ -341,10 +536,11 @@ export class AIService {
     /**
      * @description 選擇一張牌給 AI 或離線玩家在超時後打出。
      * @param {Tile[]} hand - AI/離線玩家的當前手牌 (可能包含剛摸的牌)。
-     * @param {GameState} gameState - 當前的遊戲狀態。
+     * @param {BotBoundPlayer} player - AI/離線玩家物件。
+     * @param {GameState} gameState - 此座位可見的遊戲狀態。
      * @returns {Tile | null} 選擇打出的牌，如果手牌為空則返回 null。
      */
-    public chooseDiscardForTimeoutOrOffline(hand: Tile[], gameState: GameState): Tile | null {
-        return chooseBestTileToDiscardAI(hand, gameState);
+    public chooseDiscardForTimeoutOrOffline(hand: Tile[], player: BotBoundPlayer, gameState: GameState): Tile | null {
+        return this.getStrategyForPlayer(player).chooseDiscard(hand, getSeatView(player, gameState), gameState);
     }
-}
\ No newline at end of file
+}
@@ -0,0 +1,53 @@
+// 引入伺服器專用類型定義
+import { BotStrategy } from './types';
+
+/**
+ * @class BotStrategyRegistry
+ * @description AI 決策策略的註冊表：依策略 ID 查詢 BotStrategy。
+ *              內建的各難度策略由 AIService 模組載入時註冊；實驗性的 AI 只需實作 BotStrategy 並註冊於此，
+ *              再將 AI 玩家綁定到其 ID (例如透過模擬工具的座位參數)，即可與其他策略對戰比較，不需修改 GameRoom。
+ */
+export class BotStrategyRegistry {
+    private strategies = new Map<string, BotStrategy>(); // 策略 ID → 策略
+
+    /**
+     * @description 註冊一個策略。
+     * @param {BotStrategy} strategy - 要註冊的策略。
+     * @throws {Error} 如果已有相同 ID 的策略。
+     */
+    public register(strategy: BotStrategy): void {
+        if (this.strategies.has(strategy.id)) {
+            throw new Error(`AI 策略 ${strategy.id} 已註冊，不可重複註冊。`);
+        }
+        this.strategies.set(strategy.id, strategy);
+    }
+
+    /**
+     * @description 依 ID 查詢策略。
+     * @param {string} id - 策略 ID。
+     * @returns {BotStrategy | undefined} 策略，未註冊時為 undefined。
+     */
+    public get(id: string): BotStrategy | undefined {
+        return this.strategies.get(id);
+    }
+
+    /**
+     * @description 檢查指定 ID 的策略是否已註冊。
+     * @param {string} id - 策略 ID。
+     * @returns {boolean} 已註冊時返回 true。
+     */
+    public has(id: string): boolean {
+        return this.strategies.has(id);
+    }
+
+    /**
+     * @description 取得所有已註冊策略的 ID (依註冊順序)。
+     * @returns {string[]} 策略 ID 列表。
+     */
+    public getIds(): string[] {
+        return [...this.strategies.keys()];
+    }
+}
+
+/** @description 伺服器共用的策略註冊表。 */
+export const botStrategyRegistry = new BotStrategyRegistry();
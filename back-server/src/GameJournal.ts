@@ -0,0 +1,148 @@
+// 引入共用核心套件：遊戲相關類型定義與常數
+import {
+    GameState, Tile, JournalSeat, RuleSet, RoundAction, RoundJournal, RoundStateSnapshot, ReplayFile,
+    REPLAY_FILE_VERSION
+} from '@xiangqi-mahjong/core';
+
+/**
+ * @description 從遊戲狀態中擷取一局結束時可重現的狀態快照。
+ *              只保留由牌局規則決定的欄位，計時器、訊息記錄、連線狀態等不列入比對。
+ * @param {GameState} gameState - 遊戲狀態 (伺服器內部的完整狀態)。
+ * @returns {RoundStateSnapshot} 狀態快照 (深拷貝)。
+ */
+export const createRoundSnapshot = (gameState: GameState): RoundStateSnapshot => {
+    const snapshot: RoundStateSnapshot = {
+        players: gameState.players.map(p => ({
+            id: p.id,
+            hand: p.hand,
+            melds: p.melds,
+            isDealer: p.isDealer,
+            score: p.score,
+        })),
+        deck: gameState.deck,
+        discardPile: gameState.discardPile,
+        currentPlayerIndex: gameState.currentPlayerIndex,
+        dealerIndex: gameState.dealerIndex,
+        lastDiscarderIndex: gameState.lastDiscarderIndex,
+        gamePhase: gameState.gamePhase,
+        lastDiscardedTile: gameState.lastDiscardedTile,
+        lastDrawnTile: gameState.lastDrawnTile,
+        turnNumber: gameState.turnNumber,
+        winnerIds: gameState.winnerIds,
+        winningTileDiscarderId: gameState.winningTileDiscarderId,
+        winType: gameState.winType,
+        winningDiscardedTile: gameState.winningDiscardedTile,
+        isDrawGame: gameState.isDrawGame,
+        drawGameSettlement: gameState.drawGameSettlement,
+    };
+    return JSON.parse(JSON.stringify(snapshot)); // 深拷貝，避免之後的狀態變化影響記錄
+};
+
+/**
+ * @description 比較兩個狀態快照是否完全相同。
+ * @param {RoundStateSnapshot} a - 快照 A。
+ * @param {RoundStateSnapshot} b - 快照 B。
+ * @returns {boolean} 完全相同時返回 true。
+ */
+export const isSameRoundSnapshot = (a: RoundStateSnapshot, b: RoundStateSnapshot): boolean => {
+    return JSON.stringify(a) === JSON.stringify(b);
+};
+
+/**
+ * @class GameJournal
+ * @description 記錄房間內每一局的結構化牌局記錄 (種子、發牌結果、每個動作)，並可匯出為牌譜檔案。
+ *              與 messageLog 不同，此記錄沒有條數上限，且只包含可供重播的結構化資料。
+ */
+export class GameJournal {
+    private rounds: RoundJournal[] = []; // 所有局的記錄 (按開局順序)
+
+    /**
+     * @description 開始記錄新的一局。
+     * @param {object} roundInfo - 本局開局資訊。
+     * @param {number} roundInfo.roundNumber - 第幾局。
+     * @param {number} roundInfo.seed - 本局洗牌種子。
+     * @param {number} roundInfo.dealerIndex - 莊家座位索引。
+     * @param {JournalSeat[]} roundInfo.seats - 各座位資訊。
+     * @param {RuleSet} roundInfo.ruleSet - 本房間使用的規則。
+     * @param {number[]} roundInfo.initialScores - 開局時各座位的分數。
+     * @param {Tile[][]} roundInfo.hands - 發牌後各座位的手牌 (按座位索引)。
+     * @param {Tile[]} roundInfo.deck - 發牌後的剩餘牌堆。
+     */
+    public startRound(roundInfo: {
+        roundNumber: number; seed: number; dealerIndex: number; seats: JournalSeat[]; ruleSet: RuleSet;
+        initialScores: number[]; hands: Tile[][]; deck: Tile[];
+    }): void {
+        this.rounds.push({
+            roundNumber: roundInfo.roundNumber,
+            seed: roundInfo.seed,
+            dealerIndex: roundInfo.dealerIndex,
+            seats: roundInfo.seats.map(s => ({ ...s })),
+            ruleSet: JSON.parse(JSON.stringify(roundInfo.ruleSet)),
+            initialScores: [...roundInfo.initialScores],
+            initialDeal: JSON.parse(JSON.stringify({ hands: roundInfo.hands, deck: roundInfo.deck })),
+            entries: [],
+            startedAt: Date.now(),
+            endedAt: null,
+            finalSnapshot: null,
+        });
+    }
+
+    /**
+     * @description 記錄當前這一局的一個動作。若尚未開局則忽略。
+     * @param {number} playerId - 執行動作的座位索引。
+     * @param {RoundAction} action - 動作內容。
+     * @param {boolean} accepted - 伺服器是否接受此動作。
+     * @param {GameState} gameState - 動作處理後的遊戲狀態 (用於記錄階段與狀態快照)。
+     */
+    public recordAction(playerId: number, action: RoundAction, accepted: boolean, gameState: GameState): void {
+        const currentRound = this.getCurrentRound();
+        if (!currentRound) return;
+        currentRound.entries.push({
+            seq: currentRound.entries.length,
+            playerId,
+            action: JSON.parse(JSON.stringify(action)),
+            timestamp: Date.now(),
+            accepted,
+            resultingPhase: gameState.gamePhase,
+            stateAfter: createRoundSnapshot(gameState),
+        });
+    }
+
+    /**
+     * @description 標記當前這一局已結束，並記錄結束時的狀態快照。
+     * @param {GameState} gameState - 本局結束時的遊戲狀態。
+     */
+    public finishRound(gameState: GameState): void {
+        const currentRound = this.getCurrentRound();
+        if (!currentRound || currentRound.finalSnapshot) return; // 未開局或已記錄過
+        currentRound.endedAt = Date.now();
+        currentRound.finalSnapshot = createRoundSnapshot(gameState);
+    }
+
+    /** @description 獲取當前 (最後開始的) 一局記錄。 */
+    public getCurrentRound(): RoundJournal | null {
+        return this.rounds.length > 0 ? this.rounds[this.rounds.length - 1] : null;
+    }
+
+    /** @description 獲取所有已完成的局記錄。 */
+    public getCompletedRounds(): RoundJournal[] {
+        return this.rounds.filter(r => r.finalSnapshot !== null);
+    }
+
+    /**
+     * @description 將已完成的各局匯出為牌譜檔案。
+     *              進行中的一局包含其他玩家的手牌與牌堆順序，因此不會被匯出。
+     * @param {string} roomId - 房間ID。
+     * @param {string} roomName - 房間名稱。
+     * @returns {ReplayFile} 牌譜檔案內容 (深拷貝)。
+     */
+    public exportReplay(roomId: string, roomName: string): ReplayFile {
+        return {
+            version: REPLAY_FILE_VERSION,
+            roomId,
+            roomName,
+            exportedAt: Date.now(),
+            rounds: JSON.parse(JSON.stringify(this.getCompletedRounds())),
+        };
+    }
+}
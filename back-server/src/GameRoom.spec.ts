@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Server } from 'socket.io';
+import { GameState, GamePhase, Meld, MeldDesignation, DEFAULT_RULE_SET, DEFAULT_AI_DIFFICULTY } from '@xiangqi-mahjong/core';
+import { GameRoom } from './GameRoom';
+import { ServerPlayer } from './Player';
+import { RoomSettings } from './types';
+import { toTiles } from './utils/testFixtures';
+
+const HOST_SOCKET_ID = 'socket-0';
+
+// 建立無介面的房間 (不啟動計時器與 AI 行動)：座位 0 為在線的真人房主，其餘座位於開始時由 AI 補位
+// 房間內部狀態以索引存取設定，省去建立真正的 Socket 連線
+const createRoom = (overrides: Partial<RoomSettings> = {}): GameRoom => {
+  const settings: RoomSettings = {
+    id: 'test', roomName: 'test', hostName: '房主', hostSocketId: HOST_SOCKET_ID,
+    humanPlayers: 1, fillWithAI: true, maxPlayers: 4, aiPlayers: 3, numberOfRounds: 1,
+    ruleSet: DEFAULT_RULE_SET, maxSpectators: 0,
+    aiDifficulty: DEFAULT_AI_DIFFICULTY, aiSeatDifficulties: Array(4).fill(DEFAULT_AI_DIFFICULTY),
+    ...overrides,
+  };
+  const room = new GameRoom(settings.id, settings, new Server(), () => {}, { headless: true });
+  room['players'] = [new ServerPlayer(0, '房主', true, HOST_SOCKET_ID, true)];
+  room['gameState'].gamePhase = GamePhase.WAITING_FOR_PLAYERS;
+  return room;
+};
+
+describe('洗牌種子', () => {
+  it('房間指定的種子只用於第一場比賽，再戰的新比賽改用隨機種子', () => {
+    const room = createRoom({ seed: 12345 });
+    room.requestStartGame(HOST_SOCKET_ID);
+    expect(room.getGameState().roundSeed).toBe(12345);
+
+    // 比賽結束後所有在線真人玩家同意再戰
+    room['gameState'].gamePhase = GamePhase.AWAITING_REMATCH_VOTES;
+    room['gameState'].matchOver = true;
+    room.handlePlayerAction(HOST_SOCKET_ID, { type: 'PLAYER_VOTE_REMATCH', vote: 'yes' });
+    expect(room.getGameState().matchOver).toBe(false);
+    expect(room.getGameState().roundSeed).not.toBe(12345);
+  });
+});
+
+describe('座位視圖', () => {
+  const createMeld = (seat: number, faces: string, isOpen: boolean): Meld => ({
+    id: `meld-${seat}-0`, designation: faces.length === 4 ? MeldDesignation.GANGZI : MeldDesignation.KEZI, tiles: toTiles(faces), isOpen,
+  });
+  const meldKinds = (view: GameState, seat: number) => view.players[seat].melds[0].tiles.map(tile => tile.kind).join('');
+
+  it('其他玩家的暗槓以牌背代替，明的面子與自己的暗槓照常顯示，本局結束後公開', () => {
+    const room = createRoom();
+    room.requestStartGame(HOST_SOCKET_ID);
+    const players = room['players'];
+    players[0].melds = [createMeld(0, '將將將將', false)];
+    players[1].melds = [createMeld(1, '車車車車', false)];
+    players[2].melds = [createMeld(2, '馬馬馬', true)];
+
+    const view = room.getGameStateForPlayer(0);
+    expect(meldKinds(view, 0)).toBe('將將將將');
+    expect(view.players[1].melds[0].tiles).toHaveLength(4);
+    expect(meldKinds(view, 1)).not.toContain('車');
+    expect(meldKinds(view, 2)).toBe('馬馬馬');
+    expect(meldKinds(room.getGameStateForSpectator(), 0)).not.toContain('將');
+
+    room['gameState'].gamePhase = GamePhase.ROUND_OVER;
+    expect(meldKinds(room.getGameStateForPlayer(0), 1)).toBe('車車車車');
+  });
+});
@@ -1,34 +1,45 @@
 
 // 引入 Socket.IO 相關類型
 import { Server, Socket } from 'socket.io';
-// 引入遊戲相關類型定義
+// 引入共用核心套件：遊戲相關類型定義、常數與牌堆管理相關輔助函數
 import {
-    GameState, Player, Tile, Meld, RoomSettings, GamePhase, TileKind, Claim, GameActionPayload, MeldDesignation, ChatMessage,
-    ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData, AIExecutableAction, Suit, RematchVote
-} from './types';
-// 引入遊戲常數
-import {
-    NUM_PLAYERS, INITIAL_HAND_SIZE_DEALER, INITIAL_HAND_SIZE_NON_DEALER, ACTION_PRIORITY,
+    GameState, Player, Tile, GamePhase, TileKind, Claim, GameActionPayload, ChatMessage,
+    ServerToClientEvents, ClientToServerEvents, InterServerEvents, SocketData, AIExecutableAction, Suit, RematchVote,
+    RoundAction, RoundJournal, ReplayFile, RuleSet, AIDifficulty,
     CLAIM_DECISION_TIMEOUT_SECONDS, PLAYER_TURN_ACTION_TIMEOUT_SECONDS,
-    NEXT_ROUND_COUNTDOWN_SECONDS, SYSTEM_SENDER_NAME, AI_THINK_TIME_MS_MIN, AI_THINK_TIME_MS_MAX,
-    MAX_HAND_SIZE_BEFORE_DISCARD, ACTION_TIMER_INTERVAL_MS, EMPTY_ROOM_TIMEOUT_MS, GAME_END_EMPTY_ROOM_TIMEOUT_MS,
-    TILE_KIND_DETAILS, MAX_MESSAGE_LOG_ENTRIES, AI_NAME_PREFIX, DEFAULT_NUMBER_OF_ROUNDS,
+    NEXT_ROUND_COUNTDOWN_SECONDS, SYSTEM_SENDER_NAME, MAX_HAND_SIZE_BEFORE_DISCARD, DEFAULT_NUMBER_OF_ROUNDS,
+    AI_DIFFICULTY_OPTIONS, DEFAULT_AI_DIFFICULTY, AIDifficultyTranslations,
+    generateSeed
+} from '@xiangqi-mahjong/core';
+// 引入伺服器專用類型定義
+import { RoomSettings, RoundEngineEvent, RoundEngineResult, SessionTokenPayload } from './types';
+// 引入伺服器專用常數
+import {
+    AI_THINK_TIME_MS_MIN, AI_THINK_TIME_MS_MAX,
+    ACTION_TIMER_INTERVAL_MS, EMPTY_ROOM_TIMEOUT_MS, GAME_END_EMPTY_ROOM_TIMEOUT_MS,
+    MAX_MESSAGE_LOG_ENTRIES, AI_NAME_PREFIX,
     // Fix: Import LOBBY_ROOM_NAME
-    LOBBY_ROOM_NAME
+    LOBBY_ROOM_NAME, REPLAY_OUTPUT_DIR, SIMULATION_MAX_STEPS_PER_ROUND
 } from './constants';
-// 引入牌堆管理相關輔助函數
-import { createInitialDeck, shuffleDeck, dealTiles, sortHandVisually } from './utils/deckManager';
-// 引入遊戲規則相關輔助函數
+// 引入牌局引擎 (一局中的規則處理)
 import {
-    checkWinCondition, getChiOptions, canPeng, canMingGang,
-    canDeclareAnGang, canDeclareMingGangFromHand, removeTilesFromHand, countTilesOfKind, findTileInHand
-} from './utils/gameRules';
+    startRound, applyRoundAction, endRoundAsDraw, getPlayersToAct, getClaimantsAwaitingResponse, isClaimWindowOpen, getNextDealerIndex,
+    getLegalActions, closeEmptyClaimWindow
+} from './utils/roundEngine';
+// 引入座位憑證 (斷線重連用)
+import { createSessionToken, generateSessionNonce } from './utils/sessionToken';
 // 引入 AI 服務
 import { AIService } from './AIService';
 // 引入伺服器端玩家類別
 import { ServerPlayer } from './Player';
+// 引入牌局記錄
+import { GameJournal, createRoundSnapshot, isSameRoundSnapshot } from './GameJournal';
+// 引入 Node.js 檔案系統模組 (儲存牌譜用)
+import * as fs from 'fs';
+import * as path from 'path';
 
 const REMATCH_VOTE_TIMEOUT_SECONDS = 30; // 再戰投票的超時時間 (秒)
+const SPECTATOR_VIEWER_ID = -1; // 觀戰者視圖使用的座位ID (不對應任何座位，因此只看得到公開資訊)
 
 /**
  * @class GameRoom
@@ -40,6 +51,7 @@ export class GameRoom {
   private roomSettings: RoomSettings; // 房間的設定
   private gameState: GameState; // 當前的遊戲狀態
   private players: ServerPlayer[] = []; // 房間內的玩家列表 (伺服器端權威來源，按座位ID排序)
+  private spectators: Map<string, string> = new Map(); // 觀戰者 (socketId → 名稱)，不佔座位、不能執行遊戲動作
   private aiService: AIService; // AI 決策服務
   private onRoomEmptyCallback: () => void; // 當房間變空時的回調函數 (通知 RoomManager 移除此房間)
   private emptyRoomTimer: NodeJS.Timeout | null = null; // 空房間自動關閉的計時器
@@ -48,6 +60,9 @@ export class GameRoom {
   private rematchTimerInterval: NodeJS.Timeout | null = null; // 再戰投票倒數的計時器間隔
   private aiActionTimeout: NodeJS.Timeout | null = null; // AI 行動延遲的計時器
   private actionSubmitLock: Set<number> = new Set(); // 用於防止玩家重複提交動作的鎖 (儲存玩家ID)
+  private journal: GameJournal = new GameJournal(); // 結構化的牌局記錄 (供匯出牌譜與重播)
+  private isHeadless: boolean; // 無介面模式 (重播用)：不啟動任何計時器，也不自動安排 AI 行動
+  private isRoomSeedUsed = false; // 房間指定的洗牌種子是否已用過 (只用於房間的第一場比賽)
 
 
   /**
@@ -56,14 +71,17 @@ export class GameRoom {
    * @param {RoomSettings} settings - 房間設定。
    * @param {Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>} io - Socket.IO 伺服器實例。
    * @param {() => void} onRoomEmptyCallback - 房間變空時的回調。
+   * @param {{ headless?: boolean }} [options] - 其他選項。headless 為 true 時以無介面模式運行 (重播用)。
    */
   constructor(
     roomId: string,
     settings: RoomSettings,
     io: Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
-    onRoomEmptyCallback: () => void
+    onRoomEmptyCallback: () => void,
+    options: { headless?: boolean } = {}
   ) {
     this.io = io;
+    this.isHeadless = options.headless ?? false;
     this.roomId = roomId;
     // 確保 roomSettings.numberOfRounds 有一個預設值
     this.roomSettings = {
@@ -74,7 +92,9 @@ export class GameRoom {
     this.onRoomEmptyCallback = onRoomEmptyCallback; // 設定空房回調
 
     this.gameState = this.createInitialCleanGameState(); // 創建初始化的乾淨遊戲狀態
-    this.resetEmptyRoomTimer(); // 啟動空房間檢測計時器
+    if (!this.isHeadless) {
+        this.resetEmptyRoomTimer(); // 啟動空房間檢測計時器
+    }
 
     console.log(`[GameRoom ${this.roomId}] 創建成功，設定:`, JSON.stringify(this.roomSettings));
   }
@@ -99,13 +119,19 @@ export class GameRoom {
       turnNumber: 0, // 回合數
       messageLog: [], // 遊戲訊息記錄
       potentialClaims: [], // 潛在的宣告列表
-      winnerId: null, // 贏家ID
+      winnerIds: [], // 贏家ID (一炮多響時有多位)
       winningTileDiscarderId: null, // 放槍者ID
       winType: null, // 胡牌類型
       winningDiscardedTile: null, // 胡的那張牌
+      robbableKong: null, // 等待搶槓的加槓
+      isKongReplacementDraw: false, // 本回合是否為槓後補牌
       isDrawGame: false, // 是否為流局
-      chiOptions: null, // 吃牌選項 (供真人玩家選擇)
-      playerMakingClaimDecision: null, // 正在做宣告決定的玩家ID
+      drawGameSettlement: null, // 流局時的聽牌結算
+      legalActions: null, // 各座位的合法動作 (只在發送給該座位的狀態中計算)
+      roundSeed: null, // 本局洗牌種子 (開局時決定)
+      roundScoreBreakdowns: [], // 本局每位贏家的台數明細 (胡牌時計算)
+      ruleSet: this.roomSettings.ruleSet, // 本房間使用的規則 (從房間設定初始化)
+      claimResponses: [], // 宣告窗口中已回覆的玩家及其選擇
       actionTimer: null, // 行動計時器剩餘時間
       actionTimerType: null, // 計時器類型 ('claim' 或 'turn')
       numberOfRounds: this.roomSettings.numberOfRounds, // 總局數 (從房間設定初始化)
@@ -115,6 +141,8 @@ export class GameRoom {
       humanPlayersReadyForNextRound: [], // 已確認下一局的真人玩家列表
       configuredHumanPlayers: this.roomSettings.humanPlayers, // 配置的真人玩家數 (從房間設定初始化)
       configuredFillWithAI: this.roomSettings.fillWithAI, // 是否用AI填充 (從房間設定初始化)
+      configuredPlayerCount: this.roomSettings.maxPlayers, // 牌桌座位數 (從房間設定初始化)
+      configuredAIDifficulties: [...this.roomSettings.aiSeatDifficulties], // 各座位的 AI 難度 (從房間設定初始化)
       hostPlayerName: this.roomSettings.hostName, // 房主名稱 (從房間設定初始化)
       rematchVotes: [], // 初始化再戰投票
       rematchCountdown: null, // 初始化再戰倒數
@@ -126,14 +154,25 @@ export class GameRoom {
    * @param {boolean} isNewMatch - 是否為一場全新的比賽 (相對於開始下一局)。
    */
   private initializeOrResetGameForRound(isNewMatch: boolean): void {
+    // 決定本局的洗牌種子：房間第一場比賽的第一局使用房間指定的種子 (若無則隨機產生)，之後每局各自隨機產生。
+    // 各局種子互相獨立 (不由上一局推導)，因此比賽中匯出已完成各局的牌譜，也無法推算進行中這一局的種子；
+    // 再戰時房間指定的種子 (及其發牌結果) 已經公開，因此不再使用。
+    // 每局的種子都記錄在牌局記錄中，重播時以記錄的種子重現。
+    const roundSeed = (isNewMatch && !this.isRoomSeedUsed)
+        ? (this.roomSettings.seed ?? generateSeed())
+        : generateSeed();
+    if (isNewMatch) {
+        this.isRoomSeedUsed = true;
+    }
+
     // 如果是新比賽，重置局數、分數，並隨機決定初始莊家
     if (isNewMatch) {
         this.gameState.currentRound = 1;
         this.gameState.matchOver = false;
         this.players.forEach(p => p.score = 0); // 所有玩家分數歸零
         if (this.players.length > 0) {
-            // 隨機選擇莊家
-            this.gameState.dealerIndex = Math.floor(Math.random() * this.players.length);
+            // 由種子決定莊家 (種子本身為隨機產生，因此等同隨機選莊，且可重現)
+            this.gameState.dealerIndex = roundSeed % this.players.length;
             this.players.forEach((p) => p.isDealer = (p.id === this.gameState.dealerIndex));
         } else {
             this.gameState.dealerIndex = 0; // 若無玩家，預設莊家為0 (理論上不應發生於此)
@@ -141,11 +180,8 @@ export class GameRoom {
         this.addLog(`新比賽開始！共 ${this.gameState.numberOfRounds} 局。`);
     } else { // 如果是開始下一局
         if (this.players.length > 0) {
-            // 決定下一局莊家：若本局流局或非莊家胡牌，則莊家輪莊 (順延一位)
-            if (this.gameState.winnerId === null || (this.gameState.winnerId !== null && this.gameState.winnerId !== this.gameState.dealerIndex)) {
-                this.gameState.dealerIndex = (this.gameState.dealerIndex + 1) % this.players.length;
-            }
-            // 若莊家胡牌，則莊家連莊 (dealerIndex 不變)
+            // 決定下一局莊家：莊家胡牌時連莊，流局時依房間規則連莊或輪莊，其餘情況輪莊 (順延一位)
+            this.gameState.dealerIndex = getNextDealerIndex(this.gameState);
             this.players.forEach((p) => p.isDealer = (p.id === this.gameState.dealerIndex));
         }
         this.addLog(`準備開始第 ${this.gameState.currentRound}/${this.gameState.numberOfRounds} 局。`);
@@ -154,107 +190,73 @@ export class GameRoom {
     this.gameState.roomName = this.roomSettings.roomName;
     this.gameState.configuredHumanPlayers = this.roomSettings.humanPlayers;
     this.gameState.configuredFillWithAI = this.roomSettings.fillWithAI;
+    this.gameState.configuredPlayerCount = this.roomSettings.maxPlayers;
+    this.gameState.configuredAIDifficulties = [...this.roomSettings.aiSeatDifficulties];
     this.gameState.hostPlayerName = this.roomSettings.hostName;
     this.gameState.numberOfRounds = this.roomSettings.numberOfRounds; // 確保同步
 
-    // 重置所有玩家的本局狀態 (手牌、面子)
-    this.players.forEach((p) => { 
-        p.hand = [];
-        p.melds = [];
+    this.dealRound(roundSeed);
+  }
+
+  /**
+   * @description 以指定的種子洗牌、發牌，並將遊戲推進到莊家的第一個回合 (由牌局引擎 startRound 處理)。
+   *              呼叫前須已決定好莊家 (dealerIndex 與各玩家的 isDealer) 及局數。
+   *              新局與重播共用此流程，以確保兩者的發牌結果一致。
+   * @param {number} roundSeed - 本局洗牌種子。
+   */
+  private dealRound(roundSeed: number): void {
+    this.players.forEach((p) => {
         console.log(`[GameRoom ${this.roomId}] 本局初始化: 玩家 ${p.id} (${p.name}) - 真人: ${p.isHuman}, 莊家: ${p.isDealer}`);
     });
-
-    // 重置牌堆、棄牌堆等遊戲核心狀態
-    this.gameState.deck = shuffleDeck(createInitialDeck()); // 創建並洗牌
-    this.gameState.discardPile = [];
-    this.gameState.lastDiscardedTile = null;
-    this.gameState.lastDrawnTile = null;
-    this.gameState.turnNumber = 1; // 本局的第一回合
-    this.gameState.potentialClaims = [];
-    this.gameState.winnerId = null;
-    this.gameState.winningTileDiscarderId = null;
-    this.gameState.winType = null;
-    this.gameState.winningDiscardedTile = null;
-    this.gameState.isDrawGame = false;
-    this.gameState.chiOptions = null;
-    this.gameState.playerMakingClaimDecision = null;
     this.clearActionTimer(); // 清除行動計時器
     this.clearNextRoundTimer(); // 清除下一局倒數計時器
     this.clearRematchTimer(); // 清除再戰倒數計時器
     this.gameState.humanPlayersReadyForNextRound = []; // 清空已確認下一局的玩家列表
     this.gameState.rematchVotes = []; // 清空再戰投票
-
-    this.sortPlayersById(); // 確保玩家列表按ID排序
-    this.updateGameStatePlayers(); // 更新 gameState.players (用於廣播)
-
-    // 發牌
-    const { hands, remainingDeck } = dealTiles(
-        this.gameState.deck,
-        this.gameState.players, // 使用 this.players (ServerPlayer[]) 進行發牌邏輯
-        this.gameState.dealerIndex, 
-        INITIAL_HAND_SIZE_DEALER,
-        INITIAL_HAND_SIZE_NON_DEALER
-    );
-
-    // 將發好的牌分配給每個玩家
-    this.players.forEach((p) => {
-        p.hand = sortHandVisually(hands[p.id]); // 手牌排序後存入
+    this.updateGameStatePlayers(); // 確保 gameState.players 與 this.players 同步 (引擎以 gameState 為準)
+    console.log(`[GameRoom ${this.roomId}] 第 ${this.gameState.currentRound} 局洗牌種子: ${roundSeed}`); // 種子只記錄在伺服器 (本局結束前不發送給客戶端)
+
+    const result = startRound(this.gameState, roundSeed);
+    // 開始記錄本局的牌局記錄 (種子與發牌結果)，須在套用結果前進行，以便流局時能正確結束記錄
+    const dealtEvent = result.events.find((event): event is Extract<RoundEngineEvent, { type: 'dealt' }> => event.type === 'dealt');
+    this.journal.startRound({
+        roundNumber: this.gameState.currentRound,
+        seed: roundSeed,
+        dealerIndex: this.gameState.dealerIndex,
+        seats: this.players.map(p => ({ id: p.id, name: p.name, isHuman: p.isHuman })),
+        ruleSet: this.roomSettings.ruleSet,
+        initialScores: this.players.map(p => p.score),
+        hands: dealtEvent?.hands ?? [],
+        deck: dealtEvent?.deck ?? [],
     });
-    this.gameState.deck = remainingDeck; // 更新剩餘牌堆
-    this.updateGameStatePlayers(); // 再次更新 gameState.players 以包含手牌
-
-    // 設定初始回合玩家為莊家
-    this.gameState.currentPlayerIndex = this.gameState.dealerIndex; 
-    const dealerPlayer = this.players.find(p => p.id === this.gameState.dealerIndex); 
-    
-    if(!dealerPlayer) { // 防禦性檢查：莊家是否存在
-        console.error(`[GameRoom ${this.roomId}] 嚴重錯誤: 發牌後找不到莊家 (ID: ${this.gameState.dealerIndex})。遊戲無法繼續。`);
-        this.addLog("嚴重錯誤：找不到莊家，遊戲無法繼續。");
-        this.gameState.isDrawGame = true; // 標記為流局
-        this.handleRoundEndFlow(); // 處理局結束流程
-        this.broadcastGameState(); // 廣播遊戲狀態
-        return;
-    }
-
-    this.addLog(`莊家是 ${dealerPlayer.name} (${dealerPlayer.isHuman ? '真人' : 'AI'}, 座位: ${dealerPlayer.id})。`);
-
-    // 莊家初始有8張牌，直接進入等待出牌階段，並將第8張牌視為 "剛摸到的牌"
-    if (dealerPlayer.hand.length === INITIAL_HAND_SIZE_DEALER && dealerPlayer.hand.length > 0) {
-        this.gameState.lastDrawnTile = dealerPlayer.hand[dealerPlayer.hand.length - 1]; // 第8張牌
-        this.gameState.gamePhase = GamePhase.AWAITING_DISCARD; // 等待莊家打出第一張牌
-        this.addLog(`輪到莊家 ${dealerPlayer.name} (座位: ${dealerPlayer.id}) 打牌。`);
-    } else { // 非莊家或其他情況，進入摸牌階段
-        this.gameState.gamePhase = GamePhase.PLAYER_TURN_START;
-        this.addLog(`輪到 ${dealerPlayer.name} (座位: ${dealerPlayer.id}) 摸牌。`);
-    }
-
-    this.broadcastGameState(); // 廣播更新後的遊戲狀態
-    this.startActionTimerForPlayer(this.gameState.currentPlayerIndex); // 為莊家啟動行動計時器
-    this.processAITurnIfNeeded(); // 如果莊家是AI，則處理其行動
+    this.applyRoundEngineResult(result, this.gameState.dealerIndex, []);
   }
 
   /**
    * @description 初始化AI玩家以填補空位。
-   *              此函數現在更通用，會根據當前房間內真人玩家數量和 NUM_PLAYERS 來決定需要多少AI。
+   *              此函數現在更通用，會根據當前房間內真人玩家數量和牌桌座位數 (roomSettings.maxPlayers) 來決定需要多少AI。
    */
   private initializeAIPlayers(): void {
     const currentHumanPlayersCount = this.players.filter(p => p.isHuman).length; // 計算已有的真人玩家數 (無論是否在線)
-    let aisNeeded = NUM_PLAYERS - currentHumanPlayersCount; // 需要的AI數量
+    const seatCount = this.roomSettings.maxPlayers; // 牌桌座位數 (3 或 4)
+    let aisNeeded = seatCount - currentHumanPlayersCount; // 需要的AI數量
     aisNeeded = Math.max(0, aisNeeded); // 確保不為負
 
-    console.log(`[GameRoom ${this.roomId}] 初始化/填充AI玩家: 房間目標總人數=${NUM_PLAYERS}, 當前真人數=${currentHumanPlayersCount}, 需要AI數=${aisNeeded}`);
+    console.log(`[GameRoom ${this.roomId}] 初始化/填充AI玩家: 房間目標總人數=${seatCount}, 當前真人數=${currentHumanPlayersCount}, 需要AI數=${aisNeeded}`);
 
     if (aisNeeded > 0) {
         let aiNameCounter = this.players.filter(p => !p.isHuman).length; // 現有AI數量，用於命名
-        for (let i = 0; i < NUM_PLAYERS; i++) { // 遍歷所有座位
+        for (let i = 0; i < seatCount; i++) { // 遍歷所有座位
             if (aisNeeded <= 0) break; // AI已填滿
 
             const seatIsOccupied = this.players.some(p => p.id === i); // 座位i是否已被佔用
             if (!seatIsOccupied) { // 如果座位空閒
                 const aiName = `${AI_NAME_PREFIX}${String.fromCharCode(65 + aiNameCounter)}`;
                 const aiPlayer = new ServerPlayer(i, aiName, false, null, false);
+                aiPlayer.aiDifficulty = this.roomSettings.aiSeatDifficulties[i] ?? this.roomSettings.aiDifficulty; // 使用此座位設定的難度
+                aiPlayer.botStrategyId = aiPlayer.aiDifficulty; // 綁定該難度的內建策略
                 this.players.push(aiPlayer);
-                this.addLog(`${aiName} (AI, 座位 ${i}) 已加入遊戲。`);
+                this.addLog(`${aiName} (AI ${AIDifficultyTranslations[aiPlayer.aiDifficulty]}, 座位 ${i}) 已加入遊戲。`);
                 console.log(`[GameRoom ${this.roomId}] AI 玩家 ${aiName} (ID: ${i}) 加入。`);
                 aisNeeded--;
                 aiNameCounter++;
@@ -276,35 +278,44 @@ export class GameRoom {
 
   /**
    * @description 更新 this.gameState.players 陣列，使其與 this.players (權威來源) 同步。
-   *              同時處理手牌的隱藏邏輯 (對非當前客戶端的其他真人玩家隱藏手牌)。
+   *              此處保留所有玩家的真實手牌 (伺服器內部使用)，
+   *              發送給客戶端前的隱藏處理由 getGameStateForPlayer 負責。
    */
   private updateGameStatePlayers(): void {
     this.sortPlayersById(); // 確保 this.players 是排序的
-    // 映射 this.players 到 gameState.players，並進行深拷貝及手牌隱藏處理
+    // 映射 this.players 到 gameState.players，並進行深拷貝
     this.gameState.players = this.players.map(p => ({
         id: p.id, 
         name: p.name,
         isHuman: p.isHuman,
-        // 手牌顯示邏輯：
-        // 1. 如果是真人玩家且在線，或者遊戲/本局已結束，或者正在等待再戰投票，則顯示真實手牌。
-        // 2. 否則 (AI玩家，或離線/非主視角的真人玩家且遊戲進行中)，顯示隱藏的牌 (牌背)。
-        hand: (p.isHuman && p.isOnline) || 
-              (this.gameState.gamePhase === GamePhase.GAME_OVER || 
-               this.gameState.gamePhase === GamePhase.ROUND_OVER ||
-               this.gameState.gamePhase === GamePhase.AWAITING_REMATCH_VOTES)
-              ? [...p.hand] // 深拷貝真實手牌
-              // 創建一個長度與手牌相同的陣列，內容為佔位的牌物件 (代表牌背)
-              : Array(p.hand.length).fill({id:`hidden-${p.id}-${Math.random()}`, kind: TileKind.B_SOLDIER, suit: Suit.BLACK} as Tile), 
+        hand: [...p.hand], // 深拷貝真實手牌
         melds: p.melds.map(m => ({...m, tiles: [...m.tiles]})), // 深拷貝面子
         isDealer: p.isDealer,
         score: p.score,
         isOnline: p.isOnline,
-        socketId: p.socketId, // 傳輸 socketId 以供除錯或客戶端進階邏輯使用 (可選)
+        socketId: p.socketId,
         pendingClaims: p.pendingClaims ? [...p.pendingClaims] : [], // 深拷貝待宣告動作
         isHost: p.isHost,
+        aiDifficulty: p.aiDifficulty,
     }));
   }
 
+  /**
+   * @description 將 gameState.players 中由牌局引擎更新的本局資料 (手牌、面子、待宣告動作、分數、莊家標記)
+   *              寫回 this.players。連線狀態與房主等資料仍以 this.players 為準。
+   */
+  private syncPlayersFromGameState(): void {
+    this.gameState.players.forEach(statePlayer => {
+        const player = this.players.find(p => p.id === statePlayer.id);
+        if (!player) return;
+        player.hand = [...statePlayer.hand];
+        player.melds = statePlayer.melds.map(m => ({...m, tiles: [...m.tiles]}));
+        player.pendingClaims = statePlayer.pendingClaims ? [...statePlayer.pendingClaims] : [];
+        player.score = statePlayer.score;
+        player.isDealer = statePlayer.isDealer;
+    });
+  }
+
   /** @description 獲取當前房間的設定。 */
   public getSettings(): RoomSettings {
     return this.roomSettings;
@@ -322,11 +333,73 @@ export class GameRoom {
         roomName: this.roomSettings.roomName, 
         configuredHumanPlayers: this.roomSettings.humanPlayers, 
         configuredFillWithAI: this.roomSettings.fillWithAI,
+        configuredPlayerCount: this.roomSettings.maxPlayers,
+        configuredAIDifficulties: [...this.roomSettings.aiSeatDifficulties],
         hostPlayerName: this.roomSettings.hostName,
         numberOfRounds: this.roomSettings.numberOfRounds, // 確保這裡是最新的
     };
     return currentFullGameState;
   }
+  /**
+   * @description 獲取指定座位可見的遊戲狀態 (發送給客戶端使用)。
+   * @param {number} viewerId - 觀看者的座位ID。
+   * @returns {GameState} 已隱藏其他玩家私密資訊的遊戲狀態副本。
+   */
+  public getGameStateForPlayer(viewerId: number): GameState {
+    return this.redactGameStateForPlayer(this.getGameState(), viewerId);
+  }
+
+  /**
+   * @description 將完整的遊戲狀態副本轉換為指定座位可見的視圖。
+   *              - 其他玩家的手牌與暗槓以牌背代替 (本局/比賽結束後才公開)。
+   *              - 牌堆內容全部以牌背代替，僅保留數量。
+   *              - 其他玩家的 pendingClaims、potentialClaims、宣告窗口的回覆與剛摸到的牌不外流 (不透露哪些座位可以宣告)。
+   *              - 附上觀看者本人的合法動作 (可打的牌、暗槓、加槓、胡牌與宣告選項)，客戶端只依此顯示操作按鈕。
+   *              - 其他玩家的 socketId 不外流。
+   *              - 本局洗牌種子在本局結束前不外流 (由種子可還原牌堆順序與所有人的手牌)。
+   * @param {GameState} fullState - getGameState() 返回的完整狀態副本 (不會被修改，可供多個座位共用)。
+   * @param {number} viewerId - 觀看者的座位ID。
+   * @returns {GameState} 已隱藏私密資訊的遊戲狀態。
+   */
+  private redactGameStateForPlayer(fullState: GameState, viewerId: number): GameState {
+    const isRoundFinished =
+        fullState.gamePhase === GamePhase.GAME_OVER ||
+        fullState.gamePhase === GamePhase.ROUND_OVER ||
+        fullState.gamePhase === GamePhase.AWAITING_REMATCH_VOTES;
+    // 牌背佔位牌 (牌面資訊無意義，僅供客戶端計算數量與顯示牌背)
+    const hiddenTile = (id: string): Tile => ({ id, kind: TileKind.B_SOLDIER, suit: Suit.BLACK });
+
+    const redactedState: GameState = {
+        ...fullState,
+        players: fullState.players.map(p => {
+            const isViewer = p.id === viewerId;
+            return {
+                ...p,
+                hand: (isViewer || isRoundFinished) ? p.hand : p.hand.map((_, idx) => hiddenTile(`hidden-${p.id}-${idx}`)),
+                melds: (isViewer || isRoundFinished) ? p.melds : p.melds.map(meld => meld.isOpen ? meld : {
+                    ...meld,
+                    tiles: meld.tiles.map((_, idx) => hiddenTile(`hidden-${meld.id}-${idx}`)),
+                }),
+                pendingClaims: isViewer ? p.pendingClaims : [],
+                socketId: isViewer ? p.socketId : null,
+            };
+        }),
+        deck: fullState.deck.map((_, idx) => hiddenTile(`hidden-deck-${idx}`)),
+        potentialClaims: fullState.potentialClaims.filter(c => c.playerId === viewerId),
+        claimResponses: fullState.claimResponses.filter(r => r.playerId === viewerId),
+        legalActions: getLegalActions(fullState, viewerId),
+    };
+    // 剛摸到的牌只有摸牌者本人可見 (本局結束後公開，供結算畫面顯示)
+    if (!isRoundFinished && fullState.currentPlayerIndex !== viewerId) {
+        redactedState.lastDrawnTile = null;
+    }
+    // 洗牌種子於本局結束後才公開 (供結算畫面顯示，回報問題時可附上)
+    if (!isRoundFinished) {
+        redactedState.roundSeed = null;
+    }
+    return redactedState;
+  }
+
 
   /** @description 獲取房間內玩家列表 (唯讀)。 */
   public getPlayers(): ReadonlyArray<ServerPlayer> {
@@ -348,6 +421,90 @@ export class GameRoom {
     return this.players.some(p => p.socketId === socketId);
   }
 
+  /** @description 檢查指定 socketId 是否為本房間的觀戰者。 */
+  public hasSpectator(socketId: string): boolean {
+    return this.spectators.has(socketId);
+  }
+
+  /**
+   * @description 獲取本房間 AI 座位使用的難度 (不重複，依座位順序)，供大廳列表顯示。
+   *              遊戲開始後取自已入座的 AI 玩家；等待中則取自尚無玩家的座位 (開始時由 AI 補位)。
+   * @returns {AIDifficulty[]} AI 難度列表；沒有 AI 座位時為空陣列。
+   */
+  public getAIDifficulties(): AIDifficulty[] {
+    const aiPlayers = this.players.filter(p => !p.isHuman);
+    const difficulties = aiPlayers.length > 0
+        ? aiPlayers.map(p => p.aiDifficulty ?? this.roomSettings.aiDifficulty)
+        : (this.gameState.gamePhase === GamePhase.WAITING_FOR_PLAYERS && this.roomSettings.humanPlayers < this.roomSettings.maxPlayers
+            ? this.roomSettings.aiSeatDifficulties.filter((_, seatId) => !this.players.some(p => p.id === seatId))
+            : []);
+    return [...new Set(difficulties)];
+  }
+
+  /** @description 獲取目前的觀戰人數。 */
+  public getSpectatorCount(): number {
+    return this.spectators.size;
+  }
+
+  /** @description 觀戰者專用的 Socket.IO 群組名稱 (觀戰聊天與觀戰視圖只發送到此群組)。 */
+  private get spectatorGroupName(): string {
+    return `${this.roomId}:spectators`;
+  }
+
+  /**
+   * @description 將一個 socket 以觀戰者身份加入房間。觀戰者只會收到公開資訊的遊戲狀態 (見 SPECTATOR_VIEWER_ID)，
+   *              並加入房間的 Socket.IO 群組以接收宣告特效、玩家聊天等公開廣播。
+   * @param {Socket} socket - 觀戰者的 Socket 連接實例。
+   * @param {string} spectatorName - 觀戰者名稱。
+   * @returns {boolean} 如果成功開始觀戰，返回 true；否則返回 false。
+   */
+  public addSpectator(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, spectatorName: string): boolean {
+    // 玩家不能同時觀戰自己的房間；觀戰名額已滿時不接受新的觀戰者
+    if (this.hasPlayer(socket.id) || (!this.spectators.has(socket.id) && this.spectators.size >= this.roomSettings.maxSpectators)) {
+        socket.emit('lobbyError', '無法觀戰此房間。');
+        console.log(`[GameRoom ${this.roomId}] ${spectatorName} (Socket: ${socket.id}) 觀戰失敗。`);
+        return false;
+    }
+
+    this.spectators.set(socket.id, spectatorName);
+    socket.data.currentRoomId = this.roomId; // 在 socket 上記錄當前房間ID (觀戰者沒有座位ID)
+    delete socket.data.playerId;
+    socket.join(this.roomId);
+    socket.join(this.spectatorGroupName);
+
+    this.io.to(socket.id).emit('spectatingRoom', { gameState: this.getGameStateForSpectator(), roomId: this.roomId });
+    this.sendSpectatorSystemMessage(`${spectatorName} 開始觀戰。`);
+    console.log(`[GameRoom ${this.roomId}] ${spectatorName} (Socket: ${socket.id}) 開始觀戰。目前觀戰人數: ${this.spectators.size}。`);
+    return true;
+  }
+
+  /**
+   * @description 將觀戰者移出房間 (主動離開或斷線)。
+   * @param {string} socketId - 觀戰者的 Socket ID。
+   */
+  public removeSpectator(socketId: string): void {
+    const spectatorName = this.spectators.get(socketId);
+    if (spectatorName === undefined) return;
+    this.spectators.delete(socketId);
+
+    const spectatorSocket = this.io.sockets.sockets.get(socketId);
+    if (spectatorSocket) {
+        spectatorSocket.leave(this.roomId);
+        spectatorSocket.leave(this.spectatorGroupName);
+        delete spectatorSocket.data.currentRoomId;
+    }
+    this.sendSpectatorSystemMessage(`${spectatorName} 已離開觀戰。`);
+    console.log(`[GameRoom ${this.roomId}] ${spectatorName} (Socket: ${socketId}) 已離開觀戰。目前觀戰人數: ${this.spectators.size}。`);
+  }
+
+  /**
+   * @description 獲取觀戰者可見的遊戲狀態 (所有手牌、牌堆與宣告資訊皆隱藏，只保留公開資訊)。
+   * @returns {GameState} 觀戰者視圖的遊戲狀態。
+   */
+  public getGameStateForSpectator(): GameState {
+    return this.redactGameStateForPlayer(this.getGameState(), SPECTATOR_VIEWER_ID);
+  }
+
   /**
    * @description 向遊戲訊息記錄中添加一條帶時間戳的訊息。
    * @param {string} message - 要記錄的訊息內容。
@@ -361,18 +518,6 @@ export class GameRoom {
     }
   }
 
-  /**
-   * @description 清除所有玩家的待宣告動作、潛在宣告列表、正在做宣告決定的玩家標記、
-   *              行動計時器以及吃牌選項。
-   */
-  private clearClaimsAndTimer(): void {
-    this.players.forEach(p => p.pendingClaims = []); // 清除每個玩家的待宣告動作
-    this.gameState.potentialClaims = []; // 清除潛在宣告列表
-    this.gameState.playerMakingClaimDecision = null; // 清除正在做宣告決定的玩家標記
-    this.clearActionTimer(); // 清除行動計時器
-    this.gameState.chiOptions = null; // 清除吃牌選項
-  }
-
   /**
    * @description 重置空房間計時器。如果房間內已無真人玩家，則啟動計時器；否則清除計時器。
    * @param {boolean} [isGameEnded=false] - 遊戲是否已結束 (影響計時器時長)。
@@ -413,7 +558,7 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
         socket.data.playerId = existingPlayerBySocketId.id; // 確保 socket 上的座位ID正確
         socket.join(this.roomId); // 重新加入 Socket.IO 房間
         // 向該玩家發送當前遊戲狀態，使其同步
-        this.io.to(socket.id).emit('joinedRoom', { gameState: this.getGameState(), roomId: this.roomId, clientPlayerId: existingPlayerBySocketId.id });
+        this.io.to(socket.id).emit('joinedRoom', { gameState: this.getGameStateForPlayer(existingPlayerBySocketId.id), roomId: this.roomId, clientPlayerId: existingPlayerBySocketId.id, sessionToken: this.getSessionToken(existingPlayerBySocketId) });
         this.addLog(`${existingPlayerBySocketId.name} (座位: ${existingPlayerBySocketId.id}) 已重新連接。`);
         console.log(`[GameRoom ${this.roomId}] 玩家 ${playerName} (ID: ${existingPlayerBySocketId.id}) 重新連接成功。`);
         this.broadcastGameState(); // 廣播遊戲狀態 (通知其他玩家此人已上線)
@@ -429,22 +574,11 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
     }
 
     let assignedSeatIndex = -1; // 分配給新玩家的座位索引
-    // 嘗試恢復離線玩家的座位 (根據名稱匹配)
-    const offlineHumanPlayerByName = this.players.find(p => p.isHuman && !p.isOnline && p.name === playerName);
-
-    if (offlineHumanPlayerByName) { // 如果找到了同名的離線真人玩家
-        assignedSeatIndex = offlineHumanPlayerByName.id;
-        offlineHumanPlayerByName.socketId = socket.id; // 更新 socketId
-        offlineHumanPlayerByName.isOnline = true;      // 標記為在線
-        offlineHumanPlayerByName.isHost = isHost;      // 更新房主狀態 (如果原房主重連)
-        this.addLog(`${offlineHumanPlayerByName.name} (座位: ${assignedSeatIndex}) 的席位已恢復。`);
-        console.log(`[GameRoom ${this.roomId}] 玩家 ${playerName} (ID: ${assignedSeatIndex}) 已恢復離線座位。`);
-    } else { // 如果是全新玩家或名稱不符，尋找空位
-        for (let i = 0; i < NUM_PLAYERS; i++) { // 遍歷所有座位 (0 到 NUM_PLAYERS-1)
-            if (!this.players.some(p => p.id === i)) { // 如果座位 i 未被佔用
-                assignedSeatIndex = i; // 分配此座位
-                break;
-            }
+    // 尋找空位 (離線玩家的座位只能以座位憑證經 resumePlayer 取回，不依名稱恢復)
+    for (let i = 0; i < this.roomSettings.maxPlayers; i++) { // 遍歷所有座位 (0 到 座位數-1)
+        if (!this.players.some(p => p.id === i)) { // 如果座位 i 未被佔用
+            assignedSeatIndex = i; // 分配此座位
+            break;
         }
     }
 
@@ -455,21 +589,18 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
         return false;
     }
 
-    // 如果是全新玩家 (不是恢復離線座位)，則創建新的 ServerPlayer 物件
-    if (!offlineHumanPlayerByName) { 
-        const newPlayer = new ServerPlayer(assignedSeatIndex, playerName, true, socket.id, isHost);
-        this.players.push(newPlayer); // 加入到房間玩家列表
-        this.sortPlayersById();       // 排序玩家列表
-        if (isHost) { // 如果此玩家是房主
-            this.roomSettings.hostName = playerName;         // 更新房間設定中的房主名稱
-            this.roomSettings.hostSocketId = socket.id;      // 更新房主 Socket ID
-            this.players.forEach(p => p.isHost = (p.id === newPlayer.id)); // 設定此玩家為房主，其他玩家非房主
-        }
-        console.log(`[GameRoom ${this.roomId}] 新玩家 ${playerName} (ID: ${newPlayer.id}) 已加入座位 ${assignedSeatIndex}。`);
+    // 創建新的 ServerPlayer 物件
+    const finalPlayerObject = new ServerPlayer(assignedSeatIndex, playerName, true, socket.id, isHost);
+    finalPlayerObject.sessionNonce = generateSessionNonce(); // 產生此座位的憑證隨機值 (座位換人後舊憑證即失效)
+    this.players.push(finalPlayerObject); // 加入到房間玩家列表
+    this.sortPlayersById();               // 排序玩家列表
+    if (isHost) { // 如果此玩家是房主
+        this.roomSettings.hostName = playerName;         // 更新房間設定中的房主名稱
+        this.roomSettings.hostSocketId = socket.id;      // 更新房主 Socket ID
+        this.players.forEach(p => p.isHost = (p.id === finalPlayerObject.id)); // 設定此玩家為房主，其他玩家非房主
     }
-    
-    // 獲取最終確認的玩家物件 (無論是新建還是恢復的)
-    const finalPlayerObject = this.players.find(p => p.id === assignedSeatIndex)!;
+    console.log(`[GameRoom ${this.roomId}] 新玩家 ${playerName} (ID: ${finalPlayerObject.id}) 已加入座位 ${assignedSeatIndex}。`);
+
     socket.data.currentRoomId = this.roomId; // 在 socket 上記錄當前房間ID
     socket.data.playerId = finalPlayerObject.id; // 在 socket 上記錄玩家座位ID
     socket.join(this.roomId); // 將 socket 加入到 Socket.IO 的房間
@@ -480,8 +611,8 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
         this.gameState.gamePhase = GamePhase.WAITING_FOR_PLAYERS;
     }
     
-    // 向加入的玩家發送 joinedRoom 事件，包含初始遊戲狀態和其客戶端ID
-    this.io.to(socket.id).emit('joinedRoom', { gameState: this.getGameState(), roomId: this.roomId, clientPlayerId: finalPlayerObject.id });
+    // 向加入的玩家發送 joinedRoom 事件，包含初始遊戲狀態、其客戶端ID與斷線重連用的座位憑證
+    this.io.to(socket.id).emit('joinedRoom', { gameState: this.getGameStateForPlayer(finalPlayerObject.id), roomId: this.roomId, clientPlayerId: finalPlayerObject.id, sessionToken: this.getSessionToken(finalPlayerObject) });
     this.addLog(`${playerName} (座位: ${finalPlayerObject.id}) 已加入房間。`);
     this.broadcastGameState(); // 廣播遊戲狀態給房間內所有玩家
     this.resetEmptyRoomTimer(); // 重置空房計時器
@@ -490,6 +621,68 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
     return true;
   }
 
+  /**
+   * @description 以座位憑證取回原座位 (例如重新整理頁面或斷線重連後 socket id 已改變)。
+   *              憑證需由 RoomManager 先以 verifySessionToken 驗證簽章；此處比對座位的隨機值，確認座位未換人。
+   *              若該座位仍由另一個連線佔用 (例如舊分頁尚未斷線)，舊連線會被移出房間，由新連線接手。
+   * @param {Socket} socket - 重連玩家的 Socket 連接實例。
+   * @param {SessionTokenPayload} session - 已驗證簽章的座位憑證內容。
+   * @returns {boolean} 如果成功取回座位，返回 true；否則返回 false。
+   */
+  public resumePlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>, session: SessionTokenPayload): boolean {
+    const player = this.players.find(p => p.id === session.seatId);
+    if (session.roomId !== this.roomId || !player || !player.isHuman || player.sessionNonce !== session.nonce) {
+        console.log(`[GameRoom ${this.roomId}] 座位 ${session.seatId} 的憑證已失效，拒絕重連 (Socket: ${socket.id})。`);
+        return false;
+    }
+
+    // 舊連線仍佔用此座位時，將其移出房間
+    if (player.socketId && player.socketId !== socket.id) {
+        const previousSocket = this.io.sockets.sockets.get(player.socketId);
+        if (previousSocket) {
+            previousSocket.leave(this.roomId);
+            delete previousSocket.data.currentRoomId;
+            delete previousSocket.data.playerId;
+            previousSocket.emit('gameError', '您的座位已在其他連線中恢復。');
+        }
+    }
+
+    const wasOffline = !player.isOnline;
+    player.socketId = socket.id; // 綁定新的 socketId
+    player.isOnline = true;      // 標記為在線
+    if (player.isHost) this.roomSettings.hostSocketId = socket.id; // 房主重連時更新房主 Socket ID
+    socket.data.currentRoomId = this.roomId;
+    socket.data.playerId = player.id;
+    socket.join(this.roomId);
+
+    this.io.to(socket.id).emit('joinedRoom', { gameState: this.getGameStateForPlayer(player.id), roomId: this.roomId, clientPlayerId: player.id, sessionToken: this.getSessionToken(player) });
+    this.addLog(`${player.name} (座位: ${player.id}) 已重新連接。`);
+    console.log(`[GameRoom ${this.roomId}] 玩家 ${player.name} (ID: ${player.id}) 以座位憑證重新連接 (Socket: ${socket.id})。`);
+
+    // 離線期間由 AI 代打：若現在輪到此玩家，改為啟動其計時器，並重新安排 AI 行動 (不再代打此玩家)
+    if (wasOffline && getPlayersToAct(this.gameState).includes(player.id)) {
+        if (isClaimWindowOpen(this.gameState)) {
+            if (!this.actionTimerInterval) this.startClaimWindowTimer();
+        } else {
+            this.startActionTimerForPlayer(player.id);
+        }
+    }
+    this.broadcastGameState(); // 廣播遊戲狀態 (通知其他玩家此人已上線)
+    if (wasOffline) this.processAITurnIfNeeded();
+    this.resetEmptyRoomTimer();
+    return true;
+  }
+
+  /**
+   * @description 建立指定座位的座位憑證 (斷線重連時用於取回座位)。
+   * @param {ServerPlayer} player - 真人玩家。
+   * @returns {string} 已簽署的座位憑證。
+   */
+  private getSessionToken(player: ServerPlayer): string {
+    if (!player.sessionNonce) player.sessionNonce = generateSessionNonce();
+    return createSessionToken({ roomId: this.roomId, seatId: player.id, nonce: player.sessionNonce });
+  }
+
   /**
    * @description 從房間移除一個玩家 (通常因斷線或主動退出)。
    * @param {string} socketId - 要移除的玩家的 Socket ID。
@@ -521,12 +714,9 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
         // 向房間內其他玩家廣播此玩家已離開
         this.io.to(this.roomId).emit('gamePlayerLeft', { playerId: removedPlayer.id, message: `${removedPlayer.name} 已斷線。` });
 
-        // 如果離開的是當前回合玩家或正在做宣告決定的玩家，則自動處理其超時
-        if (this.gameState.currentPlayerIndex === removedPlayer.id || this.gameState.playerMakingClaimDecision === removedPlayer.id) {
-            this.clearActionTimer(); // 清除其行動計時器
-            this.addLog(`${removedPlayer.name} 的回合，因斷線而自動處理。`);
-            const timerType = this.gameState.actionTimerType || (this.gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION ? 'claim' : 'turn');
-            this.handlePlayerActionTimeout(removedPlayer.id, timerType, true); // isOffline = true
+        // 如果離開的是當前回合玩家或宣告窗口中尚未回覆的玩家，則自動處理其超時
+        if (getPlayersToAct(this.gameState).includes(removedPlayer.id)) {
+            this.handlePlayerActionTimeout(removedPlayer.id, isClaimWindowOpen(this.gameState) ? 'claim' : 'turn', true); // isOffline = true
         }
         // 如果房間內已無在線真人玩家，則提前結束遊戲並解散房間
         if (this.isEmpty()) { 
@@ -681,9 +871,9 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
     // 在房主請求開始遊戲時，才初始化AI玩家以填補空位
     this.initializeAIPlayers(); 
     
-    // 再次檢查，確保AI填充後總玩家數達到 NUM_PLAYERS
-    if (this.players.length < NUM_PLAYERS) {
-        this.io.to(socketId).emit('gameError', `需要 ${NUM_PLAYERS} 位玩家才能開始遊戲 (AI填充後仍不足)。`);
+    // 再次檢查，確保AI填充後總玩家數達到牌桌座位數
+    if (this.players.length < this.roomSettings.maxPlayers) {
+        this.io.to(socketId).emit('gameError', `需要 ${this.roomSettings.maxPlayers} 位玩家才能開始遊戲 (AI填充後仍不足)。`);
         return;
     }
 
@@ -691,6 +881,39 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
     this.startGameRound(true); // 開始第一局 (isNewMatch = true)
   }
 
+  /**
+   * @description 處理房主在等待中設定某個座位由 AI 補位時使用的難度。
+   * @param {string} socketId - 發起請求的玩家的 Socket ID。
+   * @param {number} seatId - 要設定的座位索引 (須為目前沒有真人玩家的座位)。
+   * @param {AIDifficulty} difficulty - 要使用的 AI 難度。
+   * @returns {boolean} 是否設定成功。
+   */
+  public setAIDifficulty(socketId: string, seatId: number, difficulty: AIDifficulty): boolean {
+    const player = this.players.find(p => p.socketId === socketId); // 找到發起請求的玩家
+    if (!player || !player.isHost) { // 如果玩家不存在或不是房主
+      this.io.to(socketId).emit('gameError', '只有房主才能設定 AI 難度。');
+      return false;
+    }
+    if (this.gameState.gamePhase !== GamePhase.WAITING_FOR_PLAYERS) { // AI 於開始遊戲時入座，之後不可再調整
+      this.io.to(socketId).emit('gameError', '遊戲已經開始，無法調整 AI 難度。');
+      return false;
+    }
+    if (!Number.isInteger(seatId) || seatId < 0 || seatId >= this.roomSettings.maxPlayers ||
+        this.players.some(p => p.id === seatId)) {
+      this.io.to(socketId).emit('gameError', '只能設定尚無玩家的座位的 AI 難度。');
+      return false;
+    }
+    if (!AI_DIFFICULTY_OPTIONS.some(option => option.value === difficulty)) {
+      this.io.to(socketId).emit('gameError', 'AI 難度無效。');
+      return false;
+    }
+
+    this.roomSettings.aiSeatDifficulties[seatId] = difficulty;
+    this.addLog(`房主將座位 ${seatId} 的 AI 難度設為${AIDifficultyTranslations[difficulty]}。`);
+    this.broadcastGameState();
+    return true;
+  }
+
   /**
    * @description 開始一局新遊戲 (可以是全新比賽的第一局，或比賽中的下一局)。
    * @param {boolean} isNewMatch - 是否為全新比賽。
@@ -740,357 +963,119 @@ public addPlayer(socket: Socket<ClientToServerEvents, ServerToClientEvents, Inte
         this.aiActionTimeout = null;
     }
 
-    // 如果是當前回合玩家或正在做宣告決定的玩家，清除其行動計時器
-    if (player.id === this.gameState.currentPlayerIndex || player.id === this.gameState.playerMakingClaimDecision) {
+    // 如果是當前回合玩家，清除其行動計時器 (宣告窗口的計時器由所有可宣告的玩家共用，不在此清除)
+    const isTurnPlayer = !isClaimWindowOpen(this.gameState) && getPlayersToAct(this.gameState).includes(player.id);
+    if (isTurnPlayer) {
         this.clearActionTimer();
     }
 
-    let actionIsValid = true; // 標記動作是否有效
-
     try { // 處理各種動作類型
         switch (action.type) {
-            case 'DRAW_TILE': // 摸牌
-                actionIsValid = this.processDrawTile(player.id);
-                break;
-            case 'DISCARD_TILE': // 打牌
-                actionIsValid = this.processDiscardTile(player.id, action.tileId);
-                break;
-            case 'DECLARE_HU': // 宣告胡牌
-                actionIsValid = this.processDeclareHu(player.id);
-                break;
-            case 'CLAIM_PENG': // 宣告碰牌
-                actionIsValid = this.processClaimPeng(player.id, action.tile);
-                break;
-            case 'CLAIM_GANG': // 宣告明槓 (別人打的牌)
-                actionIsValid = this.processClaimGang(player.id, action.tile);
-                break;
-            case 'CLAIM_CHI': // 宣告吃牌
-                actionIsValid = this.processClaimChi(player.id, action.tilesToChiWith, action.discardedTile);
-                break;
-            case 'DECLARE_AN_GANG': // 宣告暗槓
-                actionIsValid = this.processDeclareAnGang(player.id, action.tileKind);
-                break;
-            case 'DECLARE_MING_GANG_FROM_HAND': // 宣告加槓 (手中碰牌摸到第四張)
-                actionIsValid = this.processDeclareMingGangFromHand(player.id, action.tileKind);
-                break;
-            case 'PASS_CLAIM': // 跳過宣告
-                actionIsValid = this.processPassClaim(player.id);
+            // 一局中的動作 (摸牌、打牌、胡、碰、槓、吃、跳過) 統一經由 dispatchRoundAction 處理並記錄，
+            // 計時器、廣播與 AI 行動的安排也在其中完成
+            case 'DRAW_TILE':
+            case 'DISCARD_TILE':
+            case 'DECLARE_HU':
+            case 'CLAIM_PENG':
+            case 'CLAIM_GANG':
+            case 'CLAIM_CHI':
+            case 'DECLARE_AN_GANG':
+            case 'DECLARE_MING_GANG_FROM_HAND':
+            case 'PASS_CLAIM':
+                this.dispatchRoundAction(player.id, action);
                 break;
             case 'PLAYER_CONFIRM_NEXT_ROUND': // 確認下一局
-                actionIsValid = this.processPlayerConfirmNextRound(player.id);
+                this.processPlayerConfirmNextRound(player.id);
                 break;
             case 'PLAYER_VOTE_REMATCH': // 玩家投票再戰
-                actionIsValid = this.processPlayerVoteRematch(player.id, action.vote);
+                this.processPlayerVoteRematch(player.id, action.vote);
                 break;
             default: // 未知動作類型
                 console.warn(`[GameRoom ${this.roomId}] 未處理的玩家動作類型:`, (action as any).type);
                 this.io.to(socketId).emit('gameError', '未知的動作類型。');
-                actionIsValid = false;
         }
     } catch (error) { // 捕獲處理動作時的錯誤
         console.error(`[GameRoom ${this.roomId}] 處理玩家 ${player.name} 動作 ${action.type} 時發生錯誤:`, error);
         this.io.to(socketId).emit('gameError', `處理動作時發生內部錯誤: ${(error as Error).message}`);
-        actionIsValid = false;
+        // 如果仍輪到此玩家行動，則重新啟動其計時器並廣播狀態，避免遊戲卡住
+        if (isTurnPlayer && getPlayersToAct(this.gameState).includes(player.id)) {
+            this.startActionTimerForPlayer(player.id);
+            this.broadcastGameState();
+        }
     } finally {
         this.actionSubmitLock.delete(player.id); // 釋放動作提交鎖
     }
-
-    if (actionIsValid) { // 如果動作有效，則檢查是否輪到AI行動
-        this.processAITurnIfNeeded();
-    } else { // 如果動作無效
-        // 如果是輪到此玩家行動或做宣告決定，則重新啟動其計時器並廣播狀態
-        if (player.id === this.gameState.currentPlayerIndex &&
-            (this.gameState.gamePhase === GamePhase.PLAYER_TURN_START ||
-             this.gameState.gamePhase === GamePhase.PLAYER_DRAWN ||
-             this.gameState.gamePhase === GamePhase.AWAITING_DISCARD)) {
-           this.startActionTimerForPlayer(player.id);
-           this.broadcastGameState(); 
-        } else if (player.id === this.gameState.playerMakingClaimDecision &&
-                   (this.gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION ||
-                    this.gameState.gamePhase === GamePhase.ACTION_PENDING_CHI_CHOICE)) {
-           this.startActionTimerForPlayer(player.id);
-           this.broadcastGameState();
-        }
-    }
   }
 
   /**
-   * @description 處理玩家摸牌的邏輯。
-   * @param {number} playerId - 摸牌的玩家ID。
+   * @description 執行一局中的動作 (不論來自真人、AI 或超時代打)，並寫入牌局記錄。
+   *              動作本身由牌局引擎 (applyRoundAction) 處理，此處只負責套用結果。
+   *              所有會改變牌局的動作都必須經由此處，重播時才能以相同順序重現。
+   * @param {number} playerId - 執行動作的玩家ID。
+   * @param {RoundAction} action - 要執行的動作。
    * @returns {boolean} 動作是否成功。
    */
-  private processDrawTile(playerId: number): boolean {
-    const player = this.players.find(p => p.id === playerId); // 找到摸牌玩家
-    if (!player) { console.error(`[GameRoom ${this.roomId}] processDrawTile: 玩家 ${playerId} 未找到。`); return false; }
-    // 檢查是否輪到此玩家摸牌且遊戲階段正確
-    if (this.gameState.currentPlayerIndex !== playerId || this.gameState.gamePhase !== GamePhase.PLAYER_TURN_START) {
-        if(player.socketId) this.io.to(player.socketId).emit('gameError', '還沒輪到你摸牌或遊戲階段不正確。');
-        return false;
-    }
-    // 檢查牌堆是否已空
-    if (this.gameState.deck.length === 0) {
-        this.addLog("牌堆已空！本局流局。");
-        this.gameState.isDrawGame = true; // 標記為流局
-        this.handleRoundEndFlow(); // 處理局結束流程
-        this.broadcastGameState(); // 廣播遊戲狀態
-        return true;
+  private dispatchRoundAction(playerId: number, action: RoundAction): boolean {
+    const playersToActBefore = getPlayersToAct(this.gameState);
+    this.updateGameStatePlayers(); // 確保引擎取得最新的玩家資料 (例如連線狀態)
+    const result = applyRoundAction(this.gameState, action, playerId);
+    try {
+        this.applyRoundEngineResult(result, playerId, playersToActBefore);
+    } finally {
+        // 即使動作被拒絕也要記錄：部分被拒絕的動作仍有副作用 (例如詐胡或無效宣告視為跳過)
+        this.journal.recordAction(playerId, action, result.accepted, this.gameState);
     }
-
-    const drawnTile = this.gameState.deck.shift()!; // 從牌堆頂部摸一張牌
-    this.gameState.lastDrawnTile = drawnTile; // 記錄剛摸到的牌
-    
-    this.gameState.gamePhase = GamePhase.PLAYER_DRAWN; // 更新遊戲階段為 "玩家已摸牌"
-    // 記錄日誌 (對真人玩家顯示摸到的牌，對AI不顯示)
-    this.addLog(`${player.name} (座位: ${player.id}) 摸了一張牌${player.isHuman && player.isOnline ? ` (${drawnTile.kind})` : ''}。`); 
-    this.startActionTimerForPlayer(playerId); // 為該玩家啟動行動計時器
-    // 如果摸牌的是AI或離線玩家，立即廣播狀態 (真人玩家可能因計時器啟動而收到廣播)
-    if (!player.isHuman || !player.isOnline) this.broadcastGameState(); 
-    return true;
+    return result.accepted;
   }
 
   /**
-   * @description 處理玩家打牌的邏輯。
-   * @param {number} playerId - 打牌的玩家ID。
-   * @param {string} tileId - 要打出的牌的ID。
-   * @returns {boolean} 動作是否成功。
+   * @description 套用牌局引擎的處理結果：更新遊戲狀態與玩家資料，並將引擎事件轉換為訊息記錄、宣告特效與錯誤通知。
+   *              本局結束時進入局結束流程；否則啟動計時器 (宣告窗口共用一個，回合中為當前玩家)、廣播狀態並安排 AI 行動。
+   * @param {RoundEngineResult} result - 牌局引擎的處理結果。
+   * @param {number | null} actingPlayerId - 執行動作的玩家ID (發牌時為 null)。
+   * @param {number[]} playersToActBefore - 處理前需要行動的玩家ID。
    */
-  private processDiscardTile(playerId: number, tileId: string): boolean {
-    const player = this.players.find(p => p.id === playerId); // 找到打牌玩家
-    if (!player) { console.error(`[GameRoom ${this.roomId}] processDiscardTile: 玩家 ${playerId} 未找到。`); return false; }
-
-    // 檢查是否輪到此玩家打牌且遊戲階段正確 (已摸牌或等待出牌)
-    if (this.gameState.currentPlayerIndex !== playerId ||
-        (this.gameState.gamePhase !== GamePhase.PLAYER_DRAWN && this.gameState.gamePhase !== GamePhase.AWAITING_DISCARD)) {
-        if(player.socketId) this.io.to(player.socketId).emit('gameError', '還沒輪到你打牌或遊戲階段不正確。');
-        return false;
-    }
-
-    let tileToDiscard: Tile | null = null; // 要打出的牌
-    let handAfterDiscard = [...player.hand]; // 複製手牌用於操作
-
-    // 情況1：打出的是剛摸到的牌 (PLAYER_DRAWN 階段)
-    if (this.gameState.lastDrawnTile && this.gameState.lastDrawnTile.id === tileId && this.gameState.gamePhase === GamePhase.PLAYER_DRAWN) {
-        tileToDiscard = this.gameState.lastDrawnTile; // 直接使用剛摸的牌
-        this.gameState.lastDrawnTile = null; // 清除 lastDrawnTile
-    } else { // 情況2：打出的是原手牌中的一張
-        const tileIndexInHand = player.hand.findIndex(t => t.id === tileId); // 在原手牌中查找
-        if (tileIndexInHand === -1) { // 如果找不到
-            if(player.socketId) this.io.to(player.socketId).emit('gameError', `在您的手中找不到要打出的牌 (ID: ${tileId})。`);
-            return false;
-        }
-        tileToDiscard = player.hand[tileIndexInHand]; // 獲取要打的牌
-        handAfterDiscard.splice(tileIndexInHand, 1); // 從手牌副本中移除
-
-        // 如果是在 PLAYER_DRAWN 階段打原手牌，則剛摸的牌需要加入到手牌中
-        if (this.gameState.lastDrawnTile && this.gameState.gamePhase === GamePhase.PLAYER_DRAWN) { 
-            handAfterDiscard.push(this.gameState.lastDrawnTile);
-            this.gameState.lastDrawnTile = null; // 清除 lastDrawnTile
-        } 
-        // 如果是在 AWAITING_DISCARD 階段 (例如莊家開局，第8張牌存在 lastDrawnTile 中)，打出的是原7張之一
-        else if (this.gameState.gamePhase === GamePhase.AWAITING_DISCARD && this.gameState.lastDrawnTile) {
-            // 假設此時 lastDrawnTile 是莊家第8張牌，若打的是原7張牌之一，則第8張牌會加入手牌。
-            // 但 current logic for dealer: lastDrawnTile is set to the 8th card, gamePhase is AWAITING_DISCARD.
-            // If dealer discards one of the original 7, the 8th card (lastDrawnTile) must be added.
-            // If dealer discards the 8th card itself, then lastDrawnTile is cleared.
-            // The initial code for dealer:
-            // if (dealerPlayer.hand.length === INITIAL_HAND_SIZE_DEALER && dealerPlayer.hand.length > 0) {
-            //    this.gameState.lastDrawnTile = dealerPlayer.hand[dealerPlayer.hand.length - 1]; // lastDrawnTile is the 8th card
-            //    this.gameState.gamePhase = GamePhase.AWAITING_DISCARD;
-            // }
-            // So, if tileToDiscard is NOT lastDrawnTile, then lastDrawnTile should be added to hand.
-            if (tileToDiscard.id !== this.gameState.lastDrawnTile.id) {
-                handAfterDiscard.push(this.gameState.lastDrawnTile);
+  private applyRoundEngineResult(result: RoundEngineResult, actingPlayerId: number | null, playersToActBefore: number[]): void {
+    this.gameState = result.state;
+    this.syncPlayersFromGameState();
+
+    result.events.forEach(event => {
+        switch (event.type) {
+            case 'log': this.addLog(event.message); break; // 遊戲訊息
+            case 'announcement': this.broadcastActionAnnouncement(event.text, event.playerId, event.isMultiHuTarget); break; // 宣告特效
+            case 'actionRejected': { // 通知執行動作的玩家被拒絕的原因
+                const player = this.players.find(p => p.id === event.playerId);
+                if (player?.socketId) this.io.to(player.socketId).emit('gameError', event.message);
+                break;
             }
-            this.gameState.lastDrawnTile = null; // 清除 lastDrawnTile
         }
-    }
+    });
 
-    // 再次確認是否成功確定要打出的牌
-    if (!tileToDiscard) {
-        if(player.socketId) this.io.to(player.socketId).emit('gameError', '無法確定要打出的牌。');
-        return false;
+    if (result.events.some(event => event.type === 'roundOver')) { // 本局結束 (胡牌或流局)
+        this.handleRoundEndFlow();
+        return;
     }
-
-    player.hand = sortHandVisually(handAfterDiscard); // 更新玩家手牌並排序
-    this.gameState.discardPile.unshift(tileToDiscard); // 將打出的牌加入棄牌堆頂部
-    this.gameState.lastDiscardedTile = tileToDiscard; // 記錄最後棄牌
-    this.gameState.lastDiscarderIndex = playerId; // 記錄打牌者
-
-    this.addLog(`${player.name} (座位: ${player.id}) 打出了 ${tileToDiscard.kind}。`);
-    this.broadcastActionAnnouncement(tileToDiscard.kind, playerId); // 廣播打牌宣告動畫
-    this.updateGameStatePlayers(); // 更新 gameState.players (因手牌變化)
-    this.checkForClaims(tileToDiscard, playerId); // 檢查其他玩家是否可以對此棄牌進行宣告
-    return true;
-  }
-
-/**
- * @description 處理玩家宣告胡牌的邏輯。
- * @param {number} playerId - 宣告胡牌的玩家ID。
- * @returns {boolean} 動作是否成功。
- */
-private processDeclareHu(playerId: number): boolean {
-    const player = this.players.find(p => p.id === playerId); // 找到宣告玩家
-    if (!player) { console.error(`[GameRoom ${this.roomId}] processDeclareHu: 玩家 ${playerId} 未找到。`); return false; }
-
-    let handToCheck: Tile[]; // 用於檢查胡牌的手牌
-    let isSelfDrawnHu = false; // 是否為自摸
-    let winTile: Tile | null = null; // 胡的那張牌 (自摸的牌或別人打的牌)
-    let actionTextForAnnouncement: "天胡" | "自摸" | "胡" = "胡"; // 宣告動畫文字
-    let isMultiHuTarget = false; // 是否為一炮多響的目標之一
-
-    // 情況1：輪到自己行動時宣告胡牌 (天胡或自摸)
-    if (this.gameState.currentPlayerIndex === playerId &&
-        (this.gameState.gamePhase === GamePhase.PLAYER_DRAWN || // 摸牌後
-         // 莊家開局第一回合 (手牌8張，等待出第一張牌時，此時第8張牌在 lastDrawnTile)
-         (this.gameState.gamePhase === GamePhase.AWAITING_DISCARD && player.isDealer && this.gameState.turnNumber === 1 && player.hand.length + (this.gameState.lastDrawnTile ? 1:0) === INITIAL_HAND_SIZE_DEALER) ||
-         // 莊家開局第一回合 (摸牌前，即發完7張，準備摸第8張時，手牌7張) - 天胡檢查
-         (this.gameState.gamePhase === GamePhase.PLAYER_TURN_START && player.isDealer && this.gameState.turnNumber === 1 && player.hand.length === INITIAL_HAND_SIZE_NON_DEALER)
-        )) {
-        isSelfDrawnHu = true; // 標記為自摸類型
-        winTile = this.gameState.lastDrawnTile; // 胡的牌是剛摸的牌 (或莊家第8張)
-
-        if ((this.gameState.gamePhase === GamePhase.PLAYER_TURN_START || this.gameState.gamePhase === GamePhase.AWAITING_DISCARD) && player.isDealer && this.gameState.turnNumber === 1) {
-            // 天胡檢查:
-            // 如果是 PLAYER_TURN_START，hand 是7張，lastDrawnTile 是即將摸的第8張 (如果已摸)。
-            // 如果是 AWAITING_DISCARD，hand 是7張，lastDrawnTile 是已發的第8張。
-            // 天胡應該檢查包含第8張牌的8張手牌。
-            handToCheck = this.gameState.lastDrawnTile ? [...player.hand, this.gameState.lastDrawnTile] : [...player.hand]; // 如果還沒摸第8張，則僅用7張檢查 (應為8張)
-             if(handToCheck.length !== INITIAL_HAND_SIZE_DEALER && player.isDealer && this.gameState.turnNumber === 1) {
-                console.warn(`[GameRoom ${this.roomId}] 天胡檢查時手牌數量 (${handToCheck.length}) 不正確，應為 ${INITIAL_HAND_SIZE_DEALER}。莊家: ${player.name}`);
-                // 這種情況下，如果 lastDrawnTile 為 null，天胡邏輯可能有問題。
-                // GameRoom 應確保莊家在 PLAYER_TURN_START 時，若要檢查天胡，是基於完整的8張牌。
-                // 目前的流程是莊家在 AWAITING_DISCARD 時，lastDrawnTile 已是第8張。
-             }
-            actionTextForAnnouncement = "天胡";
-        } else { // 普通自摸
-            if (!this.gameState.lastDrawnTile) { // 防禦：自摸時必須有剛摸的牌
-                 if(player.socketId) this.io.to(player.socketId).emit('gameError', '錯誤：宣告自摸時找不到剛摸的牌。'); return false;
-            }
-            handToCheck = [...player.hand, this.gameState.lastDrawnTile!]; // 手牌加上剛摸的牌
-            actionTextForAnnouncement = "自摸";
-        }
-    } 
-    // 情況2：宣告別人打出的牌 (食胡)
-    else if (this.gameState.lastDiscardedTile && // 必須有棄牌
-               this.gameState.potentialClaims.some(c => c.playerId === playerId && c.action === 'Hu') && // 此玩家有胡牌宣告權
-               (this.gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION || this.gameState.gamePhase === GamePhase.AWAITING_CLAIMS_RESOLUTION)) { // 遊戲階段正確
-        isSelfDrawnHu = false; // 非自摸
-        winTile = this.gameState.lastDiscardedTile; // 胡的牌是棄牌
-        handToCheck = [...player.hand, this.gameState.lastDiscardedTile]; // 手牌加上棄牌
-        actionTextForAnnouncement = "胡";
-        
-        // 檢查是否為一炮多響 (多個玩家胡同一張棄牌)
-        // Fix: Ensure claim.tiles is not undefined before accessing its properties
-        const huClaimsForThisTile = this.gameState.potentialClaims.filter(c => c.action === 'Hu' && this.gameState.lastDiscardedTile && c.tiles && c.tiles.some(t => t.id === this.gameState.lastDiscardedTile!.id));
-        if (huClaimsForThisTile.length > 1) {
-            isMultiHuTarget = true; // 標記為一炮多響
-        }
-
-    } else { // 不符合任何胡牌時機
-        if(player.socketId) this.io.to(player.socketId).emit('gameError', '現在不是宣告胡牌的時機。');
-        return false;
+    // 被拒絕且與行動權無關的動作 (例如非當前玩家送出的動作) 不影響其他玩家的計時器，只需確保 AI 行動仍在排程中
+    if (!result.accepted && (actingPlayerId === null || !playersToActBefore.includes(actingPlayerId))) {
+        if (!this.aiActionTimeout) this.processAITurnIfNeeded();
+        return;
     }
 
-    // 檢查胡牌條件
-    const winInfo = checkWinCondition(handToCheck, player.melds);
-    if (winInfo.isWin) { // 如果胡牌
-        this.gameState.winnerId = playerId; // 設定贏家ID
-        this.gameState.winType = isSelfDrawnHu ? 'selfDrawn' : 'discard'; // 設定胡牌類型
-
-        let huMessage = `${player.name} (座位: ${player.id}) `;
-        if (isSelfDrawnHu) { // 自摸相關處理
-            if (actionTextForAnnouncement === "天胡") huMessage += "天胡";
-            else huMessage += `自摸 (摸到 ${winTile?.kind || '牌'})`;
-            this.gameState.winningTileDiscarderId = null; // 自摸無放槍者
-            this.gameState.winningDiscardedTile = null;   // 自摸胡的不是棄牌
-            // 如果胡的是剛摸的牌，則從 lastDrawnTile 中清除
-            if (winTile && this.gameState.lastDrawnTile && winTile.id === this.gameState.lastDrawnTile.id) {
-                this.gameState.lastDrawnTile = null; 
-            }
-        } else { // 食胡相關處理
-            huMessage += `食胡 (ロン了 ${this.players.find(p=>p.id === this.gameState.lastDiscarderIndex)?.name || '上家'} 的 ${winTile!.kind})`;
-            this.gameState.winningTileDiscarderId = this.gameState.lastDiscarderIndex; // 記錄放槍者
-            this.gameState.winningDiscardedTile = winTile; // 記錄胡的棄牌
-            // 從棄牌堆消耗掉被胡的牌
-            if (this.gameState.lastDiscardedTile && this.gameState.lastDiscardedTile.id === winTile!.id) {
-                this.consumeDiscardedTileForMeld(winTile!.id); 
-            }
-            player.hand.push(winTile!); // 將胡的牌加入手牌 (用於顯示完整牌型)
-            player.hand = sortHandVisually(player.hand); // 排序手牌
+    if (isClaimWindowOpen(this.gameState)) {
+        // 宣告窗口開啟時啟動共用計時器；窗口中有人回覆時沿用同一個計時器
+        if (!(this.actionTimerInterval && this.gameState.actionTimerType === 'claim')) {
+            this.startClaimWindowTimer();
         }
-        huMessage += "了！";
-        this.addLog(huMessage); // 記錄胡牌訊息
-        // 廣播胡牌宣告動畫 (天胡、自摸或胡)，並標記是否為一炮多響
-        this.broadcastActionAnnouncement(actionTextForAnnouncement, playerId, isMultiHuTarget);
-        
-        this.updateGameStatePlayers(); // 更新遊戲狀態中的玩家資訊 (因手牌變化)
-        this.handleRoundEndFlow(); // 處理局結束流程
-    } else { // 如果未胡牌 (詐胡)
-        this.addLog(`${player.name} 宣告 ${actionTextForAnnouncement} 失敗 (詐胡)。`);
-        if(player.socketId) this.io.to(player.socketId).emit('gameError', '不符合胡牌條件。');
-
-        // 如果是宣告別人棄牌時詐胡，則視為跳過宣告
-        if (!isSelfDrawnHu && this.gameState.playerMakingClaimDecision === playerId) {
-             this.processPassClaim(playerId); 
-        } 
-        // 如果是自摸時詐胡，則恢復遊戲階段並讓其繼續打牌
-        else if (isSelfDrawnHu) {
-            if (actionTextForAnnouncement === "天胡") { // 莊家天胡詐胡，回到等待出牌
-                this.gameState.gamePhase = GamePhase.AWAITING_DISCARD; 
-            } else { // 普通自摸詐胡，回到已摸牌
-                this.gameState.gamePhase = GamePhase.PLAYER_DRAWN; 
-            }
-            this.startActionTimerForPlayer(playerId); // 重新啟動計時器
-            this.broadcastGameState(); // 廣播狀態
+    } else {
+        const [playerToAct] = getPlayersToAct(this.gameState);
+        if (playerToAct !== undefined) {
+            this.startActionTimerForPlayer(playerToAct); // 為需要行動的玩家啟動計時器
+        } else {
+            this.clearActionTimer();
         }
-        return false; // 宣告胡牌失敗
-    }
-    return true; // 宣告胡牌成功
-  }
-
-  /**
-   * @description 處理玩家宣告碰牌的邏輯。
-   * @param {number} playerId - 宣告碰牌的玩家ID。
-   * @param {Tile} tileToPeng - 要碰的牌 (來自棄牌堆)。
-   * @returns {boolean} 動作是否成功。
-   */
-  private processClaimPeng(playerId: number, tileToPeng: Tile): boolean {
-    const player = this.players.find(p => p.id === playerId); // 找到宣告玩家
-    // 檢查宣告時機和條件是否正確
-    if (!player || this.gameState.playerMakingClaimDecision !== playerId || this.gameState.gamePhase !== GamePhase.AWAITING_PLAYER_CLAIM_ACTION || !this.gameState.lastDiscardedTile || this.gameState.lastDiscardedTile.kind !== tileToPeng.kind) {
-        if(player?.socketId) this.io.to(player.socketId).emit('gameError', '無效的碰牌宣告。');
-        return false;
-    }
-
-    // 從手牌中移除兩張相同的牌用於碰牌
-    const { handAfterAction, newMeldTiles } = removeTilesFromHand(player.hand, tileToPeng.kind, 2);
-    if (!newMeldTiles || newMeldTiles.length !== 2) { // 如果手牌不足兩張
-        this.addLog(`錯誤: ${player.name} 無法碰 ${tileToPeng.kind}，手牌中該牌數量不足。`);
-        this.handleInvalidClaim(player, 'Peng'); // 處理無效宣告
-        return false;
     }
-    player.hand = handAfterAction; // 更新手牌
-    // 創建碰出的面子
-    const pengMeld: Meld = {
-        id: `meld-${player.id}-${Date.now()}`, // 面子唯一ID
-        designation: MeldDesignation.KEZI, // 面子類型為刻子
-        tiles: [...newMeldTiles, tileToPeng].sort((a,b) => TILE_KIND_DETAILS[a.kind].orderValue - TILE_KIND_DETAILS[b.kind].orderValue), // 組成面子的三張牌 (排序)
-        isOpen: true, // 碰牌是公開的
-        claimedFromPlayerId: this.gameState.lastDiscarderIndex!, // 記錄被碰牌的玩家ID
-        claimedTileId: tileToPeng.id, // 記錄被碰的牌的ID
-    };
-    player.melds.push(pengMeld); // 將面子加入玩家的面子列表
-    this.addLog(`${player.name} (座位: ${player.id}) 碰了 ${tileToPeng.kind}。請出牌。`);
-    this.broadcastActionAnnouncement("碰", playerId); // 廣播碰牌宣告動畫
-
-    this.consumeDiscardedTileForMeld(tileToPeng.id); // 從棄牌堆消耗被碰的牌
-    this.clearClaimsAndTimer(); // 清除所有宣告相關狀態和計時器
-    this.gameState.currentPlayerIndex = player.id; // 輪到碰牌玩家行動
-    this.gameState.gamePhase = GamePhase.AWAITING_DISCARD; // 更新遊戲階段為等待出牌
-    this.updateGameStatePlayers(); // 更新遊戲狀態中的玩家資訊
-    this.startActionTimerForPlayer(player.id); // 為碰牌玩家啟動行動計時器
     this.broadcastGameState(); // 廣播遊戲狀態
-    return true;
+    this.processAITurnIfNeeded(); // 如果需要行動的是AI，處理其行動
   }
 
     /**
@@ -1129,10 +1114,19 @@ private processDeclareHu(playerId: number): boolean {
 
 
     /**
-     * @description 向房間內所有客戶端廣播當前遊戲狀態。
+     * @description 向房間內每位在線的真人玩家發送其座位專屬的遊戲狀態視圖。
+     *              每個 socket 只會收到自己可見的資訊 (見 getGameStateForPlayer)。
      */
     public broadcastGameState(): void {
-        this.io.to(this.roomId).emit('gameStateUpdate', this.getGameState());
+        const fullState = this.getGameState();
+        this.players.forEach(p => {
+            if (p.isHuman && p.isOnline && p.socketId) {
+                this.io.to(p.socketId).emit('gameStateUpdate', this.redactGameStateForPlayer(fullState, p.id));
+            }
+        });
+        if (this.spectators.size > 0) { // 觀戰者共用一份只含公開資訊的視圖
+            this.io.to(this.spectatorGroupName).emit('gameStateUpdate', this.redactGameStateForPlayer(fullState, SPECTATOR_VIEWER_ID));
+        }
     }
 
     /**
@@ -1158,11 +1152,47 @@ private processDeclareHu(playerId: number): boolean {
     }
 
     /**
-     * @description 為指定玩家啟動行動計時器。
+     * @description 處理觀戰聊天室的訊息 (只發送給觀戰者，玩家看不到，避免觀戰者向玩家透露資訊)。
+     * @param {string} socketId - 發送訊息的觀戰者的 Socket ID。
+     * @param {string} messageText - 訊息內容。
+     */
+    public sendSpectatorChatMessage(socketId: string, messageText: string): void {
+        const spectatorName = this.spectators.get(socketId); // 找到發送者
+        if (spectatorName === undefined || !messageText.trim()) return; // 如果不是觀戰者或訊息為空，則不處理
+
+        const chatMessage: ChatMessage = {
+            id: `spectator-chat-${this.roomId}-${Date.now()}`, // 訊息唯一ID
+            senderName: spectatorName,
+            senderId: socketId,
+            text: messageText.substring(0, 150), // 訊息內容 (限制長度)
+            timestamp: Date.now(),
+            type: 'player'
+        };
+        this.io.to(this.spectatorGroupName).emit('gameSpectatorChatMessage', chatMessage);
+    }
+
+    /**
+     * @description 在觀戰聊天室發送系統訊息 (例如觀戰者進出)。
+     * @param {string} text - 訊息內容。
+     */
+    private sendSpectatorSystemMessage(text: string): void {
+        const systemMessage: ChatMessage = {
+            id: `spectator-sys-${this.roomId}-${Date.now()}`,
+            senderName: SYSTEM_SENDER_NAME,
+            text,
+            timestamp: Date.now(),
+            type: 'system'
+        };
+        this.io.to(this.spectatorGroupName).emit('gameSpectatorChatMessage', systemMessage);
+    }
+
+    /**
+     * @description 為當前回合的玩家啟動行動計時器 (宣告窗口的計時器見 startClaimWindowTimer)。
      * @param {number} playerId - 要啟動計時器的玩家ID。
      */
     private startActionTimerForPlayer(playerId: number): void {
         this.clearActionTimer(); // 先清除已有的計時器
+        if (this.isHeadless) return; // 無介面模式不啟動計時器
         const player = this.players.find(p => p.id === playerId); // 找到玩家
         if (!player) { console.error(`[GameRoom ${this.roomId}] startActionTimerForPlayer: 玩家 ${playerId} 未找到。`); return; }
 
@@ -1172,17 +1202,12 @@ private processDeclareHu(playerId: number): boolean {
             return; 
         }
 
-        let timeoutDuration: number; // 計時器時長 (秒)
-        // 根據遊戲階段設定不同的計時器時長和類型
-        if (this.gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION || this.gameState.gamePhase === GamePhase.ACTION_PENDING_CHI_CHOICE) {
-            timeoutDuration = CLAIM_DECISION_TIMEOUT_SECONDS;
-            this.gameState.actionTimerType = 'claim'; // 宣告階段計時器
-        } else if (this.gameState.gamePhase === GamePhase.PLAYER_TURN_START || this.gameState.gamePhase === GamePhase.PLAYER_DRAWN || this.gameState.gamePhase === GamePhase.AWAITING_DISCARD) {
-            timeoutDuration = PLAYER_TURN_ACTION_TIMEOUT_SECONDS;
-            this.gameState.actionTimerType = 'turn'; // 回合階段計時器
-        } else {
-            return; // 其他階段不啟動計時器
+        // 只有回合階段 (摸牌、打牌) 才啟動回合計時器
+        if (this.gameState.gamePhase !== GamePhase.PLAYER_TURN_START && this.gameState.gamePhase !== GamePhase.PLAYER_DRAWN && this.gameState.gamePhase !== GamePhase.AWAITING_DISCARD) {
+            return;
         }
+        const timeoutDuration = PLAYER_TURN_ACTION_TIMEOUT_SECONDS; // 計時器時長 (秒)
+        this.gameState.actionTimerType = 'turn'; // 回合階段計時器
 
         this.gameState.actionTimer = timeoutDuration; // 設定計時器剩餘時間
         this.addLog(`${player.name} (座位: ${player.id}) 的行動計時開始 (${timeoutDuration}s)。`);
@@ -1197,9 +1222,8 @@ private processDeclareHu(playerId: number): boolean {
             // 如果計時器到0
             if (this.gameState.actionTimer === 0) {
                 // 確認超時的玩家是否仍是當前需要行動的玩家
-                const currentDecisionMakerId = this.gameState.actionTimerType === 'claim' ? this.gameState.playerMakingClaimDecision : this.gameState.currentPlayerIndex;
-                if (playerId === currentDecisionMakerId) { // 如果是
-                    this.handlePlayerActionTimeout(playerId, this.gameState.actionTimerType!, false); // 處理超時 (isOffline = false)
+                if (getPlayersToAct(this.gameState).includes(playerId)) { // 如果是
+                    this.handlePlayerActionTimeout(playerId, 'turn', false); // 處理超時 (isOffline = false)
                 } else { // 如果行動權已轉移
                     this.addLog(`[GameRoom ${this.roomId}] 玩家 ${playerId} 的計時器到期，但行動權已轉移。清除過期計時器。`);
                     this.clearActionTimer(); // 清除過期計時器
@@ -1209,6 +1233,60 @@ private processDeclareHu(playerId: number): boolean {
         }, ACTION_TIMER_INTERVAL_MS); // 每秒執行一次
     }
 
+    /**
+     * @description 啟動宣告窗口的共用計時器。所有可宣告的玩家同時作答，時間到時尚未回覆的玩家一律視為跳過。
+     *              不論是否有人可宣告、可宣告的是真人或 AI 都會啟動，以免從計時器是否出現推測出哪些座位可以宣告。
+     */
+    private startClaimWindowTimer(): void {
+        this.clearActionTimer(); // 先清除已有的計時器
+        if (this.isHeadless) return; // 無介面模式不啟動計時器
+
+        this.gameState.actionTimer = CLAIM_DECISION_TIMEOUT_SECONDS; // 設定計時器剩餘時間
+        this.gameState.actionTimerType = 'claim'; // 宣告階段計時器
+        this.broadcastGameState(); // 廣播遊戲狀態 (包含計時器資訊)
+
+        this.actionTimerInterval = setInterval(() => {
+            if (this.gameState.actionTimer !== null && this.gameState.actionTimer > 0) {
+                this.gameState.actionTimer--; // 剩餘時間減一
+                this.broadcastGameState(); // 廣播更新
+            }
+            if (this.gameState.actionTimer === 0) {
+                this.handleClaimWindowTimeout();
+            }
+        }, ACTION_TIMER_INTERVAL_MS); // 每秒執行一次
+    }
+
+    /**
+     * @description 處理宣告窗口超時：尚未回覆的玩家依序自動跳過，最後一位跳過後由牌局引擎結算宣告。
+     */
+    private handleClaimWindowTimeout(): void {
+        const awaitingIds = getClaimantsAwaitingResponse(this.gameState);
+        if (awaitingIds.length > 0) {
+            this.addLog('宣告時間結束，尚未回覆的玩家視為跳過。');
+        }
+        // 計時器在窗口關閉前保持運作，避免中途的跳過重新啟動一個新的窗口計時器
+        awaitingIds.forEach(id => this.handlePlayerActionTimeout(id, 'claim', false));
+        if (isClaimWindowOpen(this.gameState) && getClaimantsAwaitingResponse(this.gameState).length === 0) {
+            this.closeClaimWindowWithoutClaimants(); // 無人可宣告的窗口尚未被關閉 (不應發生)
+        }
+        if (isClaimWindowOpen(this.gameState)) { // 異常情況：窗口仍未關閉，清除計時器避免重複觸發
+            console.error(`[GameRoom ${this.roomId}] 宣告窗口超時後仍未關閉。`);
+            this.clearActionTimer();
+            this.broadcastGameState();
+        }
+    }
+
+    /**
+     * @description 找出目前需要由 AI 代為行動的玩家 (AI 或離線真人)。
+     * @returns {ServerPlayer | undefined} 需要行動的玩家；若目前輪到在線真人或無人需要行動則為 undefined。
+     */
+    private findAIPlayerToAct(): ServerPlayer | undefined {
+        // 回合中為當前玩家；宣告窗口中為尚未回覆的可宣告玩家 (依座位順序逐一處理)
+        return getPlayersToAct(this.gameState)
+            .map(id => this.players.find(p => p.id === id))
+            .find((player): player is ServerPlayer => !!player && (!player.isHuman || !player.isOnline));
+    }
+
     /**
      * @description 檢查並處理AI玩家的行動 (如果輪到AI或離線玩家)。
      */
@@ -1218,53 +1296,58 @@ private processDeclareHu(playerId: number): boolean {
             clearTimeout(this.aiActionTimeout);
             this.aiActionTimeout = null;
         }
+        const thinkTimeMs = Math.random() * (AI_THINK_TIME_MS_MAX - AI_THINK_TIME_MS_MIN) + AI_THINK_TIME_MS_MIN; // 隨機延遲時間 (模擬思考時間)
 
-        let aiPlayerToAct: ServerPlayer | undefined = undefined; // 記錄需要行動的AI/離線玩家
-
-        // 判斷是否輪到AI/離線玩家做宣告決定
-        if (this.gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && this.gameState.playerMakingClaimDecision !== null) {
-            const player = this.players.find(p => p.id === this.gameState.playerMakingClaimDecision);
-            if (player && (!player.isHuman || !player.isOnline) ) aiPlayerToAct = player;
-        } 
-        // 判斷是否輪到AI/離線玩家的回合行動 (摸牌、打牌)
-        else if (
-            (this.gameState.gamePhase === GamePhase.PLAYER_TURN_START ||
-             this.gameState.gamePhase === GamePhase.PLAYER_DRAWN ||
-             this.gameState.gamePhase === GamePhase.AWAITING_DISCARD) &&
-            this.gameState.currentPlayerIndex !== null
-        ) {
-            const player = this.players.find(p => p.id === this.gameState.currentPlayerIndex);
-            if (player && (!player.isHuman || !player.isOnline) ) aiPlayerToAct = player;
+        // 無人可宣告的宣告窗口：等待與 AI 回覆相同的思考時間後關閉，看起來就像可宣告的 AI 跳過 (無介面模式立即關閉)
+        if (isClaimWindowOpen(this.gameState) && getClaimantsAwaitingResponse(this.gameState).length === 0) {
+            if (this.isHeadless) {
+                this.closeClaimWindowWithoutClaimants();
+                return;
+            }
+            this.aiActionTimeout = setTimeout(() => {
+                this.aiActionTimeout = null;
+                this.closeClaimWindowWithoutClaimants();
+            }, thinkTimeMs);
+            return;
         }
+        if (this.isHeadless) return; // 無介面模式下 AI 的動作來自牌局記錄或模擬迴圈，不自動安排
+
+        const aiPlayerToAct = this.findAIPlayerToAct(); // 記錄需要行動的AI/離線玩家
 
 
         if (aiPlayerToAct) { // 如果確定有AI/離線玩家需要行動
             const currentAIPlayer = aiPlayerToAct; 
-            this.addLog(`輪到 ${currentAIPlayer.name} (${currentAIPlayer.isHuman ? '離線真人':'AI'}, 座位: ${currentAIPlayer.id}) 行動，遊戲階段: ${this.gameState.gamePhase}`);
+            // 宣告窗口中不寫入遊戲日誌，以免透露哪些座位可以宣告
+            const isClaimResponse = isClaimWindowOpen(this.gameState);
+            if (!isClaimResponse) this.addLog(`輪到 ${currentAIPlayer.name} (${currentAIPlayer.isHuman ? '離線真人':'AI'}, 座位: ${currentAIPlayer.id}) 行動，遊戲階段: ${this.gameState.gamePhase}`);
             console.log(`[GameRoom ${this.roomId}] 安排 AI/離線玩家 ${currentAIPlayer.name} (座位: ${currentAIPlayer.id}) 在階段 ${this.gameState.gamePhase} 的行動。`);
             
             // 設定延遲執行AI行動 (模擬思考時間)
             this.aiActionTimeout = setTimeout(() => {
                  // 再次確認是否仍輪到此AI/離線玩家行動 (防止狀態已改變)
-                 let stillAIsTurn = false;
-                 if (this.gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && this.gameState.playerMakingClaimDecision === currentAIPlayer.id) {
-                    stillAIsTurn = true;
-                 } else if ((this.gameState.gamePhase === GamePhase.PLAYER_TURN_START ||
-                             this.gameState.gamePhase === GamePhase.PLAYER_DRAWN ||
-                             this.gameState.gamePhase === GamePhase.AWAITING_DISCARD) &&
-                            this.gameState.currentPlayerIndex === currentAIPlayer.id) {
-                    stillAIsTurn = true;
-                 }
+                 const stillAIsTurn = getPlayersToAct(this.gameState).includes(currentAIPlayer.id);
 
                 if (this.aiActionTimeout && stillAIsTurn) { // 如果計時器仍然有效且仍輪到其行動
                     console.log(`[GameRoom ${this.roomId}] AI/離線玩家 ${currentAIPlayer.name} (座位: ${currentAIPlayer.id}) 現在執行其動作。`);
-                    const action = this.aiService.getNextAIMove(currentAIPlayer, this.getGameState()); // 獲取AI決策
-                    this.addLog(`${currentAIPlayer.name} (${currentAIPlayer.isHuman ? '離線真人':'AI'}) 執行動作: ${action.type}`);
+                    const action = this.aiService.getNextAIMove(currentAIPlayer, this.getGameStateForPlayer(currentAIPlayer.id)); // 獲取AI決策 (只提供該座位可見的遊戲狀態)
+                    if (!isClaimResponse) this.addLog(`${currentAIPlayer.name} (${currentAIPlayer.isHuman ? '離線真人':'AI'}) 執行動作: ${action.type}`);
                     this.handleAIAction(currentAIPlayer.id, action); // 處理AI動作
                 } else { // 如果行動權已轉移或計時器被清除
                     console.log(`[GameRoom ${this.roomId}] AI/離線玩家 ${currentAIPlayer.name} (座位: ${currentAIPlayer.id}) 的行動被搶先或不再是其回合。AI 計時器已清除。`);
                 }
-            }, Math.random() * (AI_THINK_TIME_MS_MAX - AI_THINK_TIME_MS_MIN) + AI_THINK_TIME_MS_MIN); // 隨機延遲時間
+            }, thinkTimeMs);
+        }
+    }
+
+    /**
+     * @description 關閉無人可宣告的宣告窗口 (由牌局引擎結算，輪到打牌者的下家)。
+     *              窗口不論是否有人可宣告都會開啟，以免從遊戲階段、計時器或訊息推測出哪些座位可以宣告。
+     */
+    private closeClaimWindowWithoutClaimants(): void {
+        this.updateGameStatePlayers(); // 確保引擎取得最新的玩家資料
+        const result = closeEmptyClaimWindow(this.gameState);
+        if (result.accepted) {
+            this.applyRoundEngineResult(result, null, []);
         }
     }
 
@@ -1282,15 +1365,17 @@ private processDeclareHu(playerId: number): boolean {
 
         try { // 處理各種動作類型
             switch (action.type) {
-                case 'DRAW_TILE': actionIsValid = this.processDrawTile(aiPlayerId); break;
-                case 'DISCARD_TILE': actionIsValid = this.processDiscardTile(aiPlayerId, action.tileId); break;
-                case 'DECLARE_HU': actionIsValid = this.processDeclareHu(aiPlayerId); break;
-                case 'CLAIM_PENG': actionIsValid = this.processClaimPeng(aiPlayerId, action.tile); break;
-                case 'CLAIM_GANG': actionIsValid = this.processClaimGang(aiPlayerId, action.tile); break;
-                case 'CLAIM_CHI': actionIsValid = this.processClaimChi(aiPlayerId, action.tilesToChiWith, action.discardedTile); break;
-                case 'DECLARE_AN_GANG': actionIsValid = this.processDeclareAnGang(aiPlayerId, action.tileKind); break;
-                case 'DECLARE_MING_GANG_FROM_HAND': actionIsValid = this.processDeclareMingGangFromHand(aiPlayerId, action.tileKind); break;
-                case 'PASS_CLAIM': actionIsValid = this.processPassClaim(aiPlayerId); break;
+                case 'DRAW_TILE':
+                case 'DISCARD_TILE':
+                case 'DECLARE_HU':
+                case 'CLAIM_PENG':
+                case 'CLAIM_GANG':
+                case 'CLAIM_CHI':
+                case 'DECLARE_AN_GANG':
+                case 'DECLARE_MING_GANG_FROM_HAND':
+                case 'PASS_CLAIM':
+                    actionIsValid = this.dispatchRoundAction(aiPlayerId, action);
+                    break;
                 default:
                     console.warn(`[GameRoom ${this.roomId}] AI/離線玩家執行了未處理的動作類型:`, (action as any).type);
                     actionIsValid = false;
@@ -1300,251 +1385,21 @@ private processDeclareHu(playerId: number): boolean {
             actionIsValid = false;
         }
 
-        if (actionIsValid) { // 如果動作有效，則檢查是否輪到下一個AI行動
-            this.processAITurnIfNeeded();
-        } else { // 如果動作無效
-            this.addLog(`AI/離線玩家 ${aiPlayer.name} 嘗試的動作 ${action.type} 無效或失敗。`); // 補全此日誌
+        // 有效動作後的下一個 AI 行動已由 dispatchRoundAction 安排
+        if (!actionIsValid) { // 如果動作無效
+            if (!isClaimWindowOpen(this.gameState)) this.addLog(`AI/離線玩家 ${aiPlayer.name} 嘗試的動作 ${action.type} 無效或失敗。`);
             console.error(`[GameRoom ${this.roomId}] AI/離線玩家 ${aiPlayer.name} 的動作 ${action.type} 無效。遊戲狀態: ${this.gameState.gamePhase}`);
 
-            // 處理AI無效宣告的情況：自動跳過
-            if (this.gameState.playerMakingClaimDecision === aiPlayerId && action.type !== 'PASS_CLAIM') {
-                this.addLog(`[GameRoom ${this.roomId}] AI ${aiPlayer.name} (座位: ${aiPlayer.id}) 因無效宣告 ${action.type} 而自動跳過。`); // 補全此日誌
-                this.processPassClaim(aiPlayerId); // 執行跳過
-                // processPassClaim 內部會處理 advanceToNextPlayerTurn，進而觸發 processAITurnIfNeeded，所以此處無需再次調用
+            // 處理AI無效宣告的情況：自動跳過 (宣告窗口中只記錄在伺服器，不寫入遊戲日誌)
+            if (getClaimantsAwaitingResponse(this.gameState).includes(aiPlayerId) && action.type !== 'PASS_CLAIM') {
+                console.warn(`[GameRoom ${this.roomId}] AI ${aiPlayer.name} (座位: ${aiPlayer.id}) 因無效宣告 ${action.type} 而自動跳過。`);
+                this.dispatchRoundAction(aiPlayerId, { type: 'PASS_CLAIM' }); // 執行跳過
+                // 跳過後由 dispatchRoundAction 推進並安排下一個 AI 行動，所以此處無需再次調用
             }
         }
     }
 
 
-    // --- 以下為其他動作處理函數 (processClaimGang, processClaimChi, processDeclareAnGang, etc.) ---
-    // ... (這些函數的實現應保持完整) ...
-
-    /**
-     * @description 處理玩家宣告明槓 (別人打出的牌) 的邏輯。
-     * @param {number} playerId - 宣告槓牌的玩家ID。
-     * @param {Tile} tileToGang - 要槓的牌 (來自棄牌堆)。
-     * @returns {boolean} 動作是否成功。
-     */
-    private processClaimGang(playerId: number, tileToGang: Tile): boolean {
-        const player = this.players.find(p => p.id === playerId);
-        if (!player || this.gameState.playerMakingClaimDecision !== playerId || this.gameState.gamePhase !== GamePhase.AWAITING_PLAYER_CLAIM_ACTION || !this.gameState.lastDiscardedTile || this.gameState.lastDiscardedTile.kind !== tileToGang.kind) {
-            if(player?.socketId) this.io.to(player.socketId).emit('gameError', '無效的槓牌宣告。');
-            return false;
-        }
-
-        const { handAfterAction, newMeldTiles } = removeTilesFromHand(player.hand, tileToGang.kind, 3);
-        if (!newMeldTiles || newMeldTiles.length !== 3) {
-            this.addLog(`錯誤: ${player.name} 無法槓 ${tileToGang.kind}，手牌中該牌數量不足。`);
-            this.handleInvalidClaim(player, 'Gang');
-            return false;
-        }
-        player.hand = handAfterAction;
-        const gangMeld: Meld = {
-            id: `meld-${player.id}-${Date.now()}`,
-            designation: MeldDesignation.GANGZI,
-            tiles: [...newMeldTiles, tileToGang].sort((a,b) => TILE_KIND_DETAILS[a.kind].orderValue - TILE_KIND_DETAILS[b.kind].orderValue),
-            isOpen: true,
-            claimedFromPlayerId: this.gameState.lastDiscarderIndex!,
-            claimedTileId: tileToGang.id,
-        };
-        player.melds.push(gangMeld);
-        this.addLog(`${player.name} (座位: ${player.id}) 槓了 ${tileToGang.kind}。請摸牌。`);
-        this.broadcastActionAnnouncement("槓", playerId);
-
-        this.consumeDiscardedTileForMeld(tileToGang.id);
-        this.clearClaimsAndTimer();
-        this.gameState.currentPlayerIndex = player.id; // 槓牌後，輪到槓牌玩家摸牌
-        this.gameState.gamePhase = GamePhase.PLAYER_TURN_START; // 更新遊戲階段為等待摸牌
-        this.updateGameStatePlayers();
-        this.startActionTimerForPlayer(player.id); // 為槓牌玩家啟動摸牌計時器
-        this.broadcastGameState();
-        return true;
-    }
-
-    /**
-     * @description 處理玩家宣告吃牌的邏輯。
-     * @param {number} playerId - 宣告吃牌的玩家ID。
-     * @param {Tile[]} tilesToChiWith - 玩家選擇用來吃的兩張手牌。
-     * @param {Tile} discardedTileToChi - 被吃的棄牌。
-     * @returns {boolean} 動作是否成功。
-     */
-    private processClaimChi(playerId: number, tilesToChiWith: Tile[], discardedTileToChi: Tile): boolean {
-        const player = this.players.find(p => p.id === playerId);
-        // 驗證宣告時機和條件
-        if (!player || this.gameState.playerMakingClaimDecision !== playerId || 
-            (this.gameState.gamePhase !== GamePhase.AWAITING_PLAYER_CLAIM_ACTION && this.gameState.gamePhase !== GamePhase.ACTION_PENDING_CHI_CHOICE) || 
-            !this.gameState.lastDiscardedTile || this.gameState.lastDiscardedTile.id !== discardedTileToChi.id) {
-            if(player?.socketId) this.io.to(player.socketId).emit('gameError', '無效的吃牌宣告。');
-            return false;
-        }
-        if (tilesToChiWith.length !== 2) { // 吃牌必須使用兩張手牌
-             if(player?.socketId) this.io.to(player.socketId).emit('gameError', '吃牌必須選擇兩張手牌。');
-            return false;
-        }
-
-        // 從手牌中移除選擇的兩張牌
-        let handCopy = [...player.hand];
-        const removedForChi: Tile[] = [];
-        let allFound = true;
-        for (const tile of tilesToChiWith) {
-            const index = handCopy.findIndex(t => t.id === tile.id);
-            if (index !== -1) {
-                removedForChi.push(handCopy.splice(index, 1)[0]);
-            } else {
-                allFound = false; break;
-            }
-        }
-
-        if (!allFound || removedForChi.length !== 2) {
-            this.addLog(`錯誤: ${player.name} 嘗試吃 ${discardedTileToChi.kind}，但選擇的手牌 ${tilesToChiWith.map(t=>t.kind).join(',')} 無效或不足。`);
-            this.handleInvalidClaim(player, 'Chi');
-            return false;
-        }
-
-        player.hand = handCopy; // 更新手牌
-        const chiMeld: Meld = {
-            id: `meld-${player.id}-${Date.now()}`,
-            designation: MeldDesignation.SHUNZI,
-            tiles: [...removedForChi, discardedTileToChi].sort((a,b) => TILE_KIND_DETAILS[a.kind].orderValue - TILE_KIND_DETAILS[b.kind].orderValue),
-            isOpen: true,
-            claimedFromPlayerId: this.gameState.lastDiscarderIndex!,
-            claimedTileId: discardedTileToChi.id,
-        };
-        player.melds.push(chiMeld);
-        this.addLog(`${player.name} (座位: ${player.id}) 吃了 ${discardedTileToChi.kind}。請出牌。`);
-        this.broadcastActionAnnouncement("吃", playerId);
-
-        this.consumeDiscardedTileForMeld(discardedTileToChi.id);
-        this.clearClaimsAndTimer();
-        this.gameState.currentPlayerIndex = player.id;
-        this.gameState.gamePhase = GamePhase.AWAITING_DISCARD; // 吃牌後等待出牌
-        this.updateGameStatePlayers();
-        this.startActionTimerForPlayer(player.id);
-        this.broadcastGameState();
-        return true;
-    }
-
-    /**
-     * @description 處理玩家宣告暗槓的邏輯。
-     * @param {number} playerId - 宣告暗槓的玩家ID。
-     * @param {TileKind} tileKindToGang - 要暗槓的牌的種類。
-     * @returns {boolean} 動作是否成功。
-     */
-    private processDeclareAnGang(playerId: number, tileKindToGang: TileKind): boolean {
-        const player = this.players.find(p => p.id === playerId);
-        if (!player) return false;
-        // 檢查是否輪到此玩家且遊戲階段正確 (摸牌前或摸牌後)
-        if (this.gameState.currentPlayerIndex !== playerId ||
-            (this.gameState.gamePhase !== GamePhase.PLAYER_TURN_START && this.gameState.gamePhase !== GamePhase.PLAYER_DRAWN && 
-            !(this.gameState.gamePhase === GamePhase.AWAITING_DISCARD && player.isDealer && this.gameState.turnNumber === 1)) // 莊家開局第一回合特殊處理
-           ) {
-            if(player.socketId) this.io.to(player.socketId).emit('gameError', '現在不是宣告暗槓的時機。');
-            return false;
-        }
-        
-        // 檢查手牌中是否有四張相同的牌
-        const handForAnGangCheck = (this.gameState.gamePhase === GamePhase.PLAYER_DRAWN && this.gameState.lastDrawnTile) 
-            ? [...player.hand, this.gameState.lastDrawnTile] 
-            : (this.gameState.gamePhase === GamePhase.AWAITING_DISCARD && player.isDealer && this.gameState.turnNumber === 1 && this.gameState.lastDrawnTile)
-            ? [...player.hand, this.gameState.lastDrawnTile] // 莊家開局，第8張牌在lastDrawnTile
-            : player.hand;
-
-        if (countTilesOfKind(handForAnGangCheck, tileKindToGang) < 4) {
-             if(player.socketId) this.io.to(player.socketId).emit('gameError', `您沒有四張 ${tileKindToGang} 可以暗槓。`);
-            return false;
-        }
-
-        // 從手牌中移除四張牌
-        const { handAfterAction, newMeldTiles } = removeTilesFromHand(player.hand, tileKindToGang, 4);
-        if (!newMeldTiles) { // 理論上不會發生，因為上面已檢查數量
-             if(player.socketId) this.io.to(player.socketId).emit('gameError', `暗槓時移除手牌失敗。`);
-            return false;
-        }
-        player.hand = handAfterAction;
-
-        // 如果是 PLAYER_DRAWN 階段，且暗槓的牌不是剛摸到的牌，則將剛摸到的牌加入手牌
-        if (this.gameState.gamePhase === GamePhase.PLAYER_DRAWN && this.gameState.lastDrawnTile && this.gameState.lastDrawnTile.kind !== tileKindToGang) {
-            player.hand.push(this.gameState.lastDrawnTile);
-            player.hand = sortHandVisually(player.hand);
-        }
-        this.gameState.lastDrawnTile = null; // 清除 lastDrawnTile
-
-        const anGangMeld: Meld = {
-            id: `meld-${player.id}-${Date.now()}`,
-            designation: MeldDesignation.GANGZI,
-            tiles: newMeldTiles,
-            isOpen: false, // 暗槓不公開 (但在客戶端顯示時可能會有所區別)
-        };
-        player.melds.push(anGangMeld);
-        this.addLog(`${player.name} (座位: ${player.id}) 暗槓了 ${tileKindToGang}。請摸牌。`);
-        this.broadcastActionAnnouncement("暗槓", playerId);
-
-        this.gameState.gamePhase = GamePhase.PLAYER_TURN_START; // 暗槓後摸牌
-        this.updateGameStatePlayers();
-        this.startActionTimerForPlayer(player.id);
-        this.broadcastGameState();
-        return true;
-    }
-
-    /**
-     * @description 處理玩家宣告加槓 (手中碰牌摸到第四張) 的邏輯。
-     * @param {number} playerId - 宣告加槓的玩家ID。
-     * @param {TileKind} tileKindToGang - 要加槓的牌的種類 (與碰牌種類相同)。
-     * @returns {boolean} 動作是否成功。
-     */
-    private processDeclareMingGangFromHand(playerId: number, tileKindToGang: TileKind): boolean {
-        const player = this.players.find(p => p.id === playerId);
-        if (!player) return false;
-        // 檢查是否輪到此玩家且遊戲階段正確 (已摸牌)
-        if (this.gameState.currentPlayerIndex !== playerId || this.gameState.gamePhase !== GamePhase.PLAYER_DRAWN || !this.gameState.lastDrawnTile) {
-            if(player.socketId) this.io.to(player.socketId).emit('gameError', '現在不是宣告加槓的時機。');
-            return false;
-        }
-        // 檢查剛摸到的牌是否為要加槓的牌
-        if (this.gameState.lastDrawnTile.kind !== tileKindToGang) {
-             if(player.socketId) this.io.to(player.socketId).emit('gameError', '您剛摸到的牌不是要加槓的牌。');
-            return false;
-        }
-        // 查找之前碰出的刻子
-        const pengMeldIndex = player.melds.findIndex(m => m.designation === MeldDesignation.KEZI && m.tiles[0].kind === tileKindToGang && m.isOpen);
-        if (pengMeldIndex === -1) {
-             if(player.socketId) this.io.to(player.socketId).emit('gameError', `您沒有 ${tileKindToGang} 的碰牌可以加槓。`);
-            return false;
-        }
-
-        // 更新面子為槓子
-        player.melds[pengMeldIndex].designation = MeldDesignation.GANGZI;
-        player.melds[pengMeldIndex].tiles.push(this.gameState.lastDrawnTile); // 加入第四張牌
-        player.melds[pengMeldIndex].tiles.sort((a,b) => TILE_KIND_DETAILS[a.kind].orderValue - TILE_KIND_DETAILS[b.kind].orderValue); // 排序
-
-        this.gameState.lastDrawnTile = null; // 消耗掉剛摸的牌
-        this.addLog(`${player.name} (座位: ${player.id}) 加槓了 ${tileKindToGang}。請摸牌。`);
-        this.broadcastActionAnnouncement("加槓", playerId);
-
-        this.gameState.gamePhase = GamePhase.PLAYER_TURN_START; // 加槓後摸牌
-        this.updateGameStatePlayers();
-        this.startActionTimerForPlayer(player.id);
-        this.broadcastGameState();
-        return true;
-    }
-
-    /**
-     * @description 處理玩家跳過宣告的邏輯。
-     * @param {number} playerId - 跳過宣告的玩家ID。
-     * @returns {boolean} 動作是否成功。
-     */
-    private processPassClaim(playerId: number): boolean {
-        const player = this.players.find(p => p.id === playerId);
-        if (!player || this.gameState.playerMakingClaimDecision !== playerId || this.gameState.gamePhase !== GamePhase.AWAITING_PLAYER_CLAIM_ACTION) {
-            if(player?.socketId) this.io.to(player.socketId).emit('gameError', '現在不是你宣告或跳過。');
-            return false;
-        }
-        this.addLog(`${player.name} (座位: ${player.id}) 選擇跳過宣告。`);
-        this.gameState.playerMakingClaimDecision = null; // 清除正在做宣告決定的玩家
-        this.advanceToNextPlayerTurn(false); // 推進遊戲到下一個需要處理的狀態 (非棄牌後)
-        return true;
-    }
-
     /**
      * @description 處理玩家確認準備好下一局的邏輯。
      * @param {number} playerId - 確認的玩家ID。
@@ -1617,172 +1472,6 @@ private processDeclareHu(playerId: number): boolean {
     }
 
 
-    /**
-     * @description 處理無效宣告 (例如手牌不足)。
-     * @param {ServerPlayer} player - 執行無效宣告的玩家。
-     * @param {string} claimType - 無效宣告的類型 (例如 "Peng", "Chi")。
-     */
-    private handleInvalidClaim(player: ServerPlayer, claimType: string): void {
-        this.addLog(`${player.name} (座位: ${player.id}) 宣告 ${claimType} 失敗 (條件不符)。`);
-        if(player.socketId) this.io.to(player.socketId).emit('gameError', `您的 ${claimType} 宣告無效。`);
-        // 自動將此玩家的宣告視為 PASS_CLAIM，並繼續宣告流程
-        this.processPassClaim(player.id);
-    }
-
-    /**
-     * @description 從棄牌堆中消耗掉一張被面子 (碰、吃、槓) 使用的牌。
-     * @param {string} tileId - 被消耗的牌的ID。
-     */
-    private consumeDiscardedTileForMeld(tileId: string): void {
-        // 移除棄牌堆中對應的牌 (理論上應為最後一張棄牌，即棄牌堆頂部)
-        if (this.gameState.lastDiscardedTile && this.gameState.lastDiscardedTile.id === tileId) {
-            this.gameState.discardPile.shift(); // 從頂部移除
-            this.gameState.lastDiscardedTile = null; // 清除最後棄牌記錄
-        } else {
-            // 如果不是最後一張棄牌 (可能發生在一炮多響，或多重宣告中低優先級的宣告)，則從棄牌堆中查找並移除
-            const indexToRemove = this.gameState.discardPile.findIndex(t => t.id === tileId);
-            if (indexToRemove !== -1) {
-                this.gameState.discardPile.splice(indexToRemove, 1);
-            } else {
-                console.warn(`[GameRoom ${this.roomId}] 嘗試消耗棄牌 ${tileId}，但在棄牌堆中未找到。`);
-            }
-        }
-    }
-    
-    /**
-     * @description 當一張牌被打出後，檢查其他玩家是否可以對其進行宣告 (胡、碰、槓、吃)。
-     * @param {Tile} discardedTile - 被打出的牌。
-     * @param {number} discarderId - 打出該牌的玩家ID。
-     */
-    private checkForClaims(discardedTile: Tile, discarderId: number): void {
-        this.gameState.potentialClaims = []; // 清空潛在宣告列表
-        // 遍歷所有其他玩家 (非打牌者)
-        this.players.forEach(player => {
-            if (player.id === discarderId) return; // 跳過打牌者自己
-
-            player.pendingClaims = []; // 清空該玩家的待宣告動作
-
-            // 檢查胡牌
-            if (checkWinCondition([...player.hand, discardedTile], player.melds).isWin) {
-                // Fix: Wrap discardedTile in an array for claim.tiles
-                player.pendingClaims.push({ playerId: player.id, action: 'Hu', priority: ACTION_PRIORITY.HU, tiles: [discardedTile] });
-            }
-            // 檢查槓牌
-            if (canMingGang(player.hand, discardedTile)) {
-                player.pendingClaims.push({ playerId: player.id, action: 'Gang', priority: ACTION_PRIORITY.GANG, tiles: [discardedTile] });
-            }
-            // 檢查碰牌
-            if (canPeng(player.hand, discardedTile)) {
-                player.pendingClaims.push({ playerId: player.id, action: 'Peng', priority: ACTION_PRIORITY.PENG, tiles: [discardedTile] });
-            }
-            // 檢查吃牌 (僅限下家)
-            if (player.id === (discarderId + 1) % NUM_PLAYERS) {
-                const chiOptions = getChiOptions(player.hand, discardedTile);
-                if (chiOptions.length > 0) {
-                    // 實際的吃牌選項 (chiOptions) 將在 AWAITING_PLAYER_CLAIM_ACTION 階段傳給客戶端
-                    // Fix: Wrap discardedTile in an array for claim.tiles
-                    player.pendingClaims.push({ playerId: player.id, action: 'Chi', priority: ACTION_PRIORITY.CHI, tiles: [discardedTile] }); // tiles 這裡僅示意
-                    this.gameState.chiOptions = chiOptions; // 暫存吃牌選項
-                }
-            }
-            // 將該玩家所有可行的宣告加入到潛在宣告總列表
-            this.gameState.potentialClaims.push(...player.pendingClaims);
-        });
-
-        if (this.gameState.potentialClaims.length > 0) { // 如果有任何宣告
-            this.gameState.gamePhase = GamePhase.AWAITING_CLAIMS_RESOLUTION; // 進入宣告處理階段
-            this.startClaimDecisionProcess(); // 開始宣告決策流程
-        } else { // 如果沒有任何宣告
-            this.addLog(`無人宣告 ${discardedTile.kind}。`);
-            this.gameState.lastDiscardedTile = null; // 清除最後棄牌 (已被安全打出)
-            this.advanceToNextPlayerTurn(true); // 推進到下一位玩家摸牌 (是棄牌後)
-        }
-        this.broadcastGameState(); // 廣播遊戲狀態
-    }
-
-    /**
-     * @description 開始宣告決策流程，按優先順序遍歷可宣告的玩家。
-     */
-    private startClaimDecisionProcess(): void {
-        // 按優先順序排序所有潛在宣告 (胡 > 槓/碰 > 吃)
-        this.gameState.potentialClaims.sort((a, b) => b.priority - a.priority);
-
-        // 找到最高優先順序的宣告者
-        const highestPriorityClaim = this.gameState.potentialClaims[0];
-        if (!highestPriorityClaim) { // 理論上不應發生，因為此函數在 potentialClaims > 0 時調用
-            this.advanceToNextPlayerTurn(true); 
-            return;
-        }
-        // 找到所有具有相同最高優先順序的宣告
-        const highestPriorityClaims = this.gameState.potentialClaims.filter(
-            claim => claim.priority === highestPriorityClaim.priority
-        );
-
-        // 處理一炮多響 (多個玩家胡同一張牌)
-        if (highestPriorityClaim.action === 'Hu' && highestPriorityClaims.length > 1) {
-            this.addLog(`一炮多響！玩家 ${highestPriorityClaims.map(c => `${this.players.find(p=>p.id===c.playerId)?.name}(${c.playerId})`).join(', ')} 均可胡牌 ${this.gameState.lastDiscardedTile!.kind}。`);
-            // 逐個處理所有胡牌宣告
-            highestPriorityClaims.forEach(huClaim => {
-                this.processDeclareHu(huClaim.playerId); // 處理胡牌 (內部會判斷是否真胡)
-            });
-            // 胡牌處理完畢後，handleRoundEndFlow 會被觸發，無需再推進回合
-            return;
-        }
-
-        // 對於單個最高優先順序宣告者，或非胡牌的多個同優先級宣告者 (例如同時可碰和槓，則槓優先)，
-        // 讓該玩家做決定。
-        const playerToDecide = this.players.find(p => p.id === highestPriorityClaim.playerId);
-        if (playerToDecide) {
-            this.gameState.playerMakingClaimDecision = playerToDecide.id; // 設定正在做決定的玩家
-            this.gameState.gamePhase = GamePhase.AWAITING_PLAYER_CLAIM_ACTION; // 更新遊戲階段
-             // 為該玩家的可宣告動作賦值 (pendingClaims 已在 checkForClaims 中設定)
-             // playerToDecide.pendingClaims = [highestPriorityClaim]; // 此處邏輯調整：pendingClaims 應包含所有該玩家的可宣告選項
-             // 在 checkForClaims 中，每個 player 的 pendingClaims 已經被賦值。
-             // 此處只需確保 gameState.chiOptions 對應正確 (如果宣告的是Chi)
-            if (highestPriorityClaim.action === 'Chi') {
-                this.gameState.chiOptions = getChiOptions(playerToDecide.hand, this.gameState.lastDiscardedTile!);
-            } else {
-                this.gameState.chiOptions = null; // 非吃牌則清空
-            }
-
-            this.addLog(`輪到 ${playerToDecide.name} (座位: ${playerToDecide.id}) 決定是否宣告 ${highestPriorityClaim.action} ${this.gameState.lastDiscardedTile!.kind}。`);
-            this.startActionTimerForPlayer(playerToDecide.id); // 啟動其行動計時器
-            this.broadcastGameState(); // 廣播遊戲狀態
-            this.processAITurnIfNeeded(); // 如果是AI，處理其行動
-        } else { // 如果找不到該玩家 (理論上不應發生)
-            this.advanceToNextPlayerTurn(true); 
-        }
-    }
-
-    /**
-     * @description 推進遊戲到下一個玩家的回合。
-     * @param {boolean} afterDiscard - 是否在一次成功的棄牌之後調用此函數。
-     */
-    private advanceToNextPlayerTurn(afterDiscard: boolean): void {
-        this.clearClaimsAndTimer(); // 清除所有宣告和計時器
-        
-        // 如果不是在棄牌後調用 (例如，是宣告被跳過後)，則不需要清除最後棄牌
-        if (afterDiscard) { 
-            this.gameState.lastDiscardedTile = null;
-        }
-
-        // 輪到下一位玩家
-        this.gameState.currentPlayerIndex = (this.gameState.lastDiscarderIndex !== null && afterDiscard)
-                                        ? (this.gameState.lastDiscarderIndex + 1) % NUM_PLAYERS // 下家
-                                        : (this.gameState.currentPlayerIndex + 1) % NUM_PLAYERS; // 正常輪轉
-
-        this.gameState.turnNumber++; // 回合數加一
-        this.gameState.gamePhase = GamePhase.PLAYER_TURN_START; // 設定遊戲階段為等待摸牌
-        
-        const nextPlayer = this.players.find(p => p.id === this.gameState.currentPlayerIndex);
-        if(nextPlayer) {
-            this.addLog(`輪到 ${nextPlayer.name} (座位: ${nextPlayer.id}) 摸牌。`);
-            this.startActionTimerForPlayer(nextPlayer.id); // 為下一位玩家啟動行動計時器
-        }
-        this.broadcastGameState(); // 廣播遊戲狀態
-        this.processAITurnIfNeeded(); // 如果下一位是AI，處理其行動
-    }
-    
     /**
      * @description 處理玩家行動超時的邏輯。
      * @param {number} playerId - 超時的玩家ID。
@@ -1790,16 +1479,16 @@ private processDeclareHu(playerId: number): boolean {
      * @param {boolean} isOffline - 玩家是否已離線。
      */
     private handlePlayerActionTimeout(playerId: number, timerType: 'claim' | 'turn', isOffline: boolean): void {
-        this.clearActionTimer(); // 首先清除計時器
         const player = this.players.find(p => p.id === playerId); // 找到超時玩家
         if (!player) { console.error(`[GameRoom ${this.roomId}] handlePlayerActionTimeout: 玩家 ${playerId} 未找到。`); return; }
 
-        this.addLog(`${player.name} (座位: ${player.id}) 行動超時${isOffline ? ' (因離線)' : ''}。`);
-
         if (timerType === 'claim') { // 如果是宣告階段超時
-            this.addLog(`${player.name} 宣告超時，自動跳過。`);
-            this.processPassClaim(playerId); // 自動跳過宣告
+            // 宣告窗口的計時器由所有可宣告的玩家共用，不在此清除；也不寫入遊戲日誌，以免透露哪些座位可以宣告
+            console.log(`[GameRoom ${this.roomId}] ${player.name} (座位: ${player.id}) 宣告超時${isOffline ? ' (因離線)' : ''}，自動跳過。`);
+            this.dispatchRoundAction(playerId, { type: 'PASS_CLAIM' }); // 自動跳過宣告
         } else if (timerType === 'turn') { // 如果是回合內行動超時
+            this.clearActionTimer(); // 首先清除計時器
+            this.addLog(`${player.name} (座位: ${player.id}) 行動超時${isOffline ? ' (因離線)' : ''}。`);
             this.addLog(`${player.name} 回合行動超時，系統自動打牌。`);
             let tileToDiscard: Tile | null = null; // 要自動打出的牌
 
@@ -1813,7 +1502,7 @@ private processDeclareHu(playerId: number): boolean {
                         : player.hand;
                 if (isOffline || !player.isHuman) {
                      // Fix: Use AIService method to choose discard tile
-                    tileToDiscard = this.aiService.chooseDiscardForTimeoutOrOffline(handForDiscardChoice, this.getGameState());
+                    tileToDiscard = this.aiService.chooseDiscardForTimeoutOrOffline(handForDiscardChoice, player, this.getGameStateForPlayer(player.id));
                 } else { // 真人玩家在線超時，隨機打出一張手牌
                     tileToDiscard = player.hand[Math.floor(Math.random() * player.hand.length)];
                 }
@@ -1825,48 +1514,25 @@ private processDeclareHu(playerId: number): boolean {
 
 
             if (tileToDiscard) { // 如果成功選定要打的牌
-                this.processDiscardTile(playerId, tileToDiscard.id);
+                this.dispatchRoundAction(playerId, { type: 'DISCARD_TILE', tileId: tileToDiscard.id });
             } else { // 如果仍無牌可打 (嚴重錯誤)
                 console.error(`[GameRoom ${this.roomId}] 玩家 ${player.name} 回合超時，但無牌可打！`);
-                this.addLog(`嚴重錯誤: ${player.name} 無牌可打，遊戲可能卡住。`);
-                // 此處可能需要更健壯的錯誤處理，例如強制流局或結束遊戲
-                this.gameState.isDrawGame = true;
-                this.handleRoundEndFlow();
-                this.broadcastGameState();
+                // 強制流局，避免遊戲卡住
+                this.applyRoundEngineResult(endRoundAsDraw(this.gameState, `嚴重錯誤: ${player.name} 無牌可打，本局流局。`), playerId, [playerId]);
             }
         }
-        // processPassClaim 和 processDiscardTile 內部會調用 processAITurnIfNeeded
+        // 跳過與打牌後的下一步 (計時器、AI 行動) 由 dispatchRoundAction 安排
     }
 
     /**
      * @description 處理一局遊戲結束後的流程 (胡牌或流局)。
+     *              本局的結算已由牌局引擎完成，此處負責計時器、牌局記錄與下一局 (或比賽結束) 的安排。
      */
     private handleRoundEndFlow(): void {
         this.clearActionTimer(); // 清除行動計時器
         this.clearAiActionTimeout(); // 清除AI行動計時器
-        this.gameState.gamePhase = GamePhase.ROUND_OVER; // 設定遊戲階段為本局結束
-
-        // 計算本局得分 (此處僅為示例，實際得分計算可能更複雜)
-        if (this.gameState.winnerId !== null) {
-            const winner = this.players.find(p => p.id === this.gameState.winnerId);
-            if (winner) {
-                let baseScore = 100; // 基礎分
-                if (this.gameState.winType === 'selfDrawn') baseScore *= 2; // 自摸翻倍
-                winner.score += baseScore; // 贏家加分
-                this.addLog(`${winner.name} 本局獲勝，得分 ${baseScore}。總分: ${winner.score}`);
-                // 如果是食胡，則放槍者扣分
-                if (this.gameState.winType === 'discard' && this.gameState.winningTileDiscarderId !== null) {
-                    const discarder = this.players.find(p => p.id === this.gameState.winningTileDiscarderId);
-                    if (discarder) {
-                        discarder.score -= baseScore; // 放槍者扣分
-                        this.addLog(`${discarder.name} 放槍，扣分 ${baseScore}。總分: ${discarder.score}`);
-                    }
-                }
-            }
-        } else if (this.gameState.isDrawGame) {
-            this.addLog("本局流局，無人得分變動。");
-        }
-        this.updateGameStatePlayers(); // 更新遊戲狀態中的玩家得分
+        this.journal.finishRound(this.gameState); // 記錄本局結束時的狀態快照
+        if (this.isHeadless) return; // 無介面模式 (重播) 只處理到本局結算為止
 
         // 檢查是否所有局數都已完成
         if (this.gameState.currentRound >= (this.roomSettings.numberOfRounds || DEFAULT_NUMBER_OF_ROUNDS)) {
@@ -1969,8 +1635,8 @@ private processDeclareHu(playerId: number): boolean {
             this.initializeAIPlayers(); // 根據剩餘真人玩家填充AI
             
             // 再次檢查填充AI後人數是否足夠
-            if (this.players.length < NUM_PLAYERS) {
-                 this.addLog(`同意再戰的玩家加上AI後人數不足 ${NUM_PLAYERS}。比賽無法開始，房間關閉。`);
+            if (this.players.length < this.roomSettings.maxPlayers) {
+                 this.addLog(`同意再戰的玩家加上AI後人數不足 ${this.roomSettings.maxPlayers}。比賽無法開始，房間關閉。`);
                  this.gameState.gamePhase = GamePhase.GAME_OVER;
                  this.gameState.matchOver = true; // 確保 matchOver 為 true
                  this.broadcastGameState();
@@ -2020,7 +1686,7 @@ private processDeclareHu(playerId: number): boolean {
     
     /**
      * @description 向房間內所有客戶端廣播一個動作宣告的視覺特效。
-     * @param {string} text - 宣告的文字 (例如："碰", "胡", 或牌面)。
+     * @param {string} text - 宣告的文字 (例如："碰", "胡", "槓上開花", 或牌面)。
      * @param {number} playerId - 執行動作的玩家ID (座位索引)。
      * @param {boolean} [isMultiHuTarget=false] - 是否為一炮多響的目標之一。
      */
@@ -2037,10 +1703,149 @@ private processDeclareHu(playerId: number): boolean {
         });
     }
 
+    /**
+     * @description 匯出本房間已完成各局的牌譜。
+     * @returns {ReplayFile} 牌譜檔案內容。
+     */
+    public exportReplay(): ReplayFile {
+        return this.journal.exportReplay(this.roomId, this.roomSettings.roomName);
+    }
+
+    /**
+     * @description 若設定了牌譜儲存目錄 (REPLAY_OUTPUT_DIR)，將本房間的牌譜寫入檔案。
+     *              沒有已完成的局時不寫入。
+     */
+    private saveReplayToDisk(): void {
+        if (!REPLAY_OUTPUT_DIR || this.isHeadless) return;
+        const replay = this.exportReplay();
+        if (replay.rounds.length === 0) return;
+        try {
+            fs.mkdirSync(REPLAY_OUTPUT_DIR, { recursive: true });
+            const filePath = path.join(REPLAY_OUTPUT_DIR, `${this.roomId}.json`);
+            fs.writeFileSync(filePath, JSON.stringify(replay, null, 2), 'utf-8');
+            console.log(`[GameRoom ${this.roomId}] 牌譜已儲存至 ${filePath}。`);
+        } catch (error) {
+            console.error(`[GameRoom ${this.roomId}] 儲存牌譜失敗:`, error);
+        }
+    }
+
+    /**
+     * @description 以無介面模式重播一局牌局記錄，重建該局結束時的遊戲狀態。
+     *              發牌由記錄中的種子重新產生，之後依序送入記錄中的每個動作。
+     * @param {RoundJournal} round - 要重播的單局記錄。
+     * @returns {{ finalState: GameState; matchesRecord: boolean }} 重播後的完整遊戲狀態，
+     *          以及其快照是否與記錄中的結束快照一致 (記錄未結束時為 false)。
+     * @throws {Error} 當種子產生的發牌結果與記錄不符時 (例如牌譜來自不相容的版本)。
+     */
+    public static replayRound(round: RoundJournal): { finalState: GameState; matchesRecord: boolean } {
+        const replaySettings: RoomSettings = {
+            id: `replay-round-${round.roundNumber}`,
+            roomName: '牌譜重播',
+            hostName: SYSTEM_SENDER_NAME,
+            humanPlayers: round.seats.filter(s => s.isHuman).length,
+            fillWithAI: true,
+            maxPlayers: round.seats.length,
+            aiPlayers: round.seats.filter(s => !s.isHuman).length,
+            numberOfRounds: round.roundNumber,
+            ruleSet: round.ruleSet,
+            maxSpectators: 0, // 無介面房間不開放觀戰
+            aiDifficulty: DEFAULT_AI_DIFFICULTY,
+            aiSeatDifficulties: round.seats.map(() => DEFAULT_AI_DIFFICULTY), // 重播只執行記錄中的動作，不使用 AI 決策
+        };
+        // 不掛載任何 HTTP 伺服器的 Socket.IO 實例：房間內沒有任何連線，所有廣播都不會送出
+        const room = new GameRoom(replaySettings.id, replaySettings, new Server(), () => {}, { headless: true });
+
+        // 依記錄還原座位、分數、莊家與局數
+        room.players = round.seats.map(seat => {
+            const player = new ServerPlayer(seat.id, seat.name, seat.isHuman);
+            player.score = round.initialScores[seat.id] ?? 0;
+            player.isDealer = seat.id === round.dealerIndex;
+            return player;
+        });
+        room.gameState.currentRound = round.roundNumber;
+        room.gameState.dealerIndex = round.dealerIndex;
+        room.gameState.gamePhase = GamePhase.DEALING;
+        room.dealRound(round.seed);
+
+        // 確認種子重現的發牌結果與記錄一致
+        const replayedDeal = room.journal.getCurrentRound()?.initialDeal;
+        if (JSON.stringify(replayedDeal) !== JSON.stringify(round.initialDeal)) {
+            throw new Error(`第 ${round.roundNumber} 局的發牌結果與種子 ${round.seed} 不符，無法重播。`);
+        }
+
+        // 依序重新執行每個動作 (包含被拒絕的動作，以重現其副作用)
+        round.entries.forEach(entry => {
+            try {
+                room.dispatchRoundAction(entry.playerId, entry.action);
+            } catch (error) {
+                console.error(`[GameRoom 重播] 第 ${round.roundNumber} 局步驟 ${entry.seq} 執行失敗:`, error);
+            }
+        });
+
+        const finalState = room.getGameState();
+        const matchesRecord = round.finalSnapshot !== null &&
+            isSameRoundSnapshot(createRoundSnapshot(finalState), round.finalSnapshot);
+        return { finalState, matchesRecord };
+    }
+
+    /**
+     * @description 以無介面模式讓 AI 完整打完一局 (無 Socket 連線、計時器或思考延遲)，用於大量模擬統計。
+     *              每一步都同步向 AIService 取得決策並送入 dispatchRoundAction，直到有人胡牌或流局。
+     * @param {{ seed: number; dealerIndex: number; playerCount: number; ruleSet: RuleSet; botStrategyIds?: string[] }} options -
+     *        本局的洗牌種子、莊家座位、座位數、規則，以及各座位 AI 綁定的策略 ID
+     *        (可選，須已註冊於 BotStrategyRegistry；未提供的座位使用 DEFAULT_AI_DIFFICULTY 的內建策略)。
+     * @returns {{ finalState: GameState; completed: boolean }} 本局結束時的完整遊戲狀態，
+     *          以及是否在步數上限 (SIMULATION_MAX_STEPS_PER_ROUND) 內正常結束。
+     */
+    public static simulateRound(options: { seed: number; dealerIndex: number; playerCount: number; ruleSet: RuleSet; botStrategyIds?: string[] }): { finalState: GameState; completed: boolean } {
+        const botStrategyIds = Array.from({ length: options.playerCount }, (_, seatId) => options.botStrategyIds?.[seatId] ?? DEFAULT_AI_DIFFICULTY);
+        // 內建策略的 ID 即為難度；實驗性策略的座位在遊戲狀態中以預設難度顯示
+        const isDifficulty = (id: string): id is AIDifficulty => AI_DIFFICULTY_OPTIONS.some(option => option.value === id);
+        const simulationSettings: RoomSettings = {
+            id: `simulation-${options.seed}`,
+            roomName: 'AI 模擬',
+            hostName: SYSTEM_SENDER_NAME,
+            humanPlayers: 0,
+            fillWithAI: true,
+            maxPlayers: options.playerCount,
+            aiPlayers: options.playerCount,
+            numberOfRounds: 1,
+            ruleSet: options.ruleSet,
+            maxSpectators: 0, // 無介面房間不開放觀戰
+            aiDifficulty: DEFAULT_AI_DIFFICULTY,
+            aiSeatDifficulties: botStrategyIds.map(id => isDifficulty(id) ? id : DEFAULT_AI_DIFFICULTY),
+        };
+        const room = new GameRoom(simulationSettings.id, simulationSettings, new Server(), () => {}, { headless: true });
+
+        // 所有座位皆為 AI
+        room.players = Array.from({ length: options.playerCount }, (_, seatId) => {
+            const player = new ServerPlayer(seatId, `${AI_NAME_PREFIX}${String.fromCharCode(65 + seatId)}`, false);
+            player.isDealer = seatId === options.dealerIndex;
+            player.aiDifficulty = simulationSettings.aiSeatDifficulties[seatId];
+            player.botStrategyId = botStrategyIds[seatId];
+            return player;
+        });
+        room.gameState.dealerIndex = options.dealerIndex;
+        room.gameState.gamePhase = GamePhase.DEALING;
+        room.dealRound(options.seed);
+
+        // 同步執行 AI 決策，直到本局結束或超過步數上限 (防止 AI 重複送出無效動作造成無窮迴圈)
+        const isRoundFinished = () => room.gameState.winnerIds.length > 0 || room.gameState.isDrawGame;
+        for (let step = 0; step < SIMULATION_MAX_STEPS_PER_ROUND && !isRoundFinished(); step++) {
+            const aiPlayer = room.findAIPlayerToAct();
+            if (!aiPlayer) break; // 沒有任何玩家可以行動 (不應發生)
+            const action = room.aiService.getNextAIMove(aiPlayer, room.getGameStateForPlayer(aiPlayer.id)); // 與線上牌局相同，只提供該座位可見的遊戲狀態
+            room.handleAIAction(aiPlayer.id, action);
+        }
+
+        return { finalState: room.getGameState(), completed: isRoundFinished() };
+    }
+
     /**
      * @description 銷毀遊戲房間，清除所有計時器。
      */
     public destroy(): void {
+        this.saveReplayToDisk(); // 房間關閉前保存牌譜 (若有設定儲存目錄)
         this.clearActionTimer();
         this.clearNextRoundTimer();
         this.clearRematchTimer();
@@ -2063,6 +1868,16 @@ private processDeclareHu(playerId: number): boolean {
             }
         });
         this.players = [];
+        // 讓所有觀戰者離開房間
+        this.spectators.forEach((_, socketId) => {
+            const socket = this.io.sockets.sockets.get(socketId);
+            if (socket) {
+                socket.leave(this.roomId);
+                socket.leave(this.spectatorGroupName);
+                delete socket.data.currentRoomId;
+            }
+        });
+        this.spectators.clear();
         console.log(`[GameRoom ${this.roomId}] 已銷毀。`);
     }
 }
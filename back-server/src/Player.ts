@@ -1,11 +1,11 @@
 
-import { Tile, Meld, Player as PlayerInterface, Claim } from './types'; // 引入類型定義
+import { Tile, Meld, Player as PlayerInterface, Claim, AIDifficulty } from '@xiangqi-mahjong/core'; // 引入類型定義
 
 /**
  * @class ServerPlayer
  * @description 伺服器端的玩家物件表示。
  *              此類別包裝或擴展 PlayerInterface，用於伺服器內部管理玩家狀態。
- *              AIService 可能會操作更特定的 AIPlayer 類別 (如果需要)。
+ *              AI 玩家以 botStrategyId 綁定決策策略，由 AIService 向策略註冊表查詢。
  */
 export class ServerPlayer implements PlayerInterface {
   /** @property {number} id - 玩家的座位索引 (0-3)，用於遊戲邏輯。 */
@@ -28,6 +28,12 @@ export class ServerPlayer implements PlayerInterface {
   socketId: string | null;
   /** @property {boolean} isHost - 是否為房主。 */
   isHost: boolean;
+  /** @property {string | null} sessionNonce - 真人玩家入座時產生的隨機值，斷線重連時用於驗證座位憑證 (AI 玩家為 null)。 */
+  sessionNonce: string | null;
+  /** @property {AIDifficulty} [aiDifficulty] - AI 玩家的難度 (入座時由遊戲房間設定，真人玩家為 undefined)。 */
+  aiDifficulty?: AIDifficulty;
+  /** @property {string | null} botStrategyId - AI 玩家綁定的決策策略 ID (見 BotStrategyRegistry；真人玩家為 null，離線代打時依預設難度決策)。 */
+  botStrategyId: string | null;
   /** @property {Claim[]} [pendingClaims] - 該玩家對當前棄牌可進行的宣告 (由伺服器計算)。 */
   pendingClaims?: Claim[]; 
 
@@ -50,6 +56,8 @@ export class ServerPlayer implements PlayerInterface {
     this.isOnline = isHuman; // AI 玩家在伺服器邏輯中視為恆在線
     this.socketId = socketId;
     this.isHost = isHost;
+    this.sessionNonce = null; // 入座時由遊戲房間設定
+    this.botStrategyId = null; // AI 入座時由遊戲房間綁定
     this.pendingClaims = []; // 初始化空宣告列表
   }
 
@@ -3,10 +3,19 @@
 import { Server, Socket } from 'socket.io';
 // 引入遊戲房間類別
 import { GameRoom } from './GameRoom';
-// 引入類型定義
-import { RoomSettings, RoomListData, ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData, ChatMessage, ClientRoomSettingsData, GamePhase } from './types';
-// 引入常數
-import { DEFAULT_NUMBER_OF_ROUNDS, MAX_ROOM_NAME_LENGTH, MAX_PASSWORD_LENGTH, NUM_PLAYERS, SYSTEM_SENDER_NAME, DEFAULT_HOST_NAME, DEFAULT_PLAYER_NAME, LOBBY_ROOM_NAME } from './constants';
+// 引入共用核心套件：類型定義、常數、種子驗證與房間規則驗證
+import {
+    RoomListData, ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData, ChatMessage, ClientRoomSettingsData, GamePhase,
+    DEFAULT_NUMBER_OF_ROUNDS, NUM_PLAYERS, SYSTEM_SENDER_NAME, DEFAULT_RULE_SET, SUPPORTED_PLAYER_COUNTS, DEFAULT_MAX_SPECTATORS, MAX_SPECTATORS_LIMIT,
+    AI_DIFFICULTY_OPTIONS, DEFAULT_AI_DIFFICULTY,
+    isValidSeed, isValidRuleSet
+} from '@xiangqi-mahjong/core';
+// 引入伺服器專用類型定義
+import { RoomSettings } from './types';
+// 引入座位憑證驗證 (斷線重連用)
+import { verifySessionToken } from './utils/sessionToken';
+// 引入伺服器專用常數
+import { MAX_ROOM_NAME_LENGTH, MAX_PASSWORD_LENGTH, DEFAULT_HOST_NAME, DEFAULT_PLAYER_NAME, LOBBY_ROOM_NAME } from './constants';
 
 /**
  * @class RoomManager
@@ -48,19 +57,71 @@ export class RoomManager {
         callback({ success: false, message: `房間密碼過長 (最多 ${MAX_PASSWORD_LENGTH} 字元)` });
         return;
     }
+    // 驗證牌桌座位數 (可選，未提供則為標準四人桌)
+    const playerCount = clientSettings.playerCount ?? NUM_PLAYERS;
+    if (!SUPPORTED_PLAYER_COUNTS.includes(playerCount)) {
+        callback({ success: false, message: `牌桌座位數無效 (可選 ${SUPPORTED_PLAYER_COUNTS.join(' 或 ')} 人)` });
+        return;
+    }
     // 驗證真人玩家數量設定
-    if (clientSettings.humanPlayers < 1 || clientSettings.humanPlayers > NUM_PLAYERS) {
-        callback({ success: false, message: `真人玩家數量設定無效 (1-${NUM_PLAYERS})`});
+    if (clientSettings.humanPlayers < 1 || clientSettings.humanPlayers > playerCount) {
+        callback({ success: false, message: `真人玩家數量設定無效 (1-${playerCount})`});
+        return;
+    }
+
+    // 驗證觀戰人數上限 (可選，未提供則使用預設值)
+    const maxSpectators = clientSettings.maxSpectators ?? DEFAULT_MAX_SPECTATORS;
+    if (!Number.isInteger(maxSpectators) || maxSpectators < 0 || maxSpectators > MAX_SPECTATORS_LIMIT) {
+        callback({ success: false, message: `觀戰人數上限無效 (0-${MAX_SPECTATORS_LIMIT})` });
+        return;
+    }
+
+    // 驗證 AI 難度 (可選，未提供則使用預設值)
+    const aiDifficulty = clientSettings.aiDifficulty ?? DEFAULT_AI_DIFFICULTY;
+    if (!AI_DIFFICULTY_OPTIONS.some(option => option.value === aiDifficulty)) {
+        callback({ success: false, message: 'AI 難度無效' });
+        return;
+    }
+
+    // 驗證指定的洗牌種子 (可選)
+    if (clientSettings.seed !== undefined && !isValidSeed(clientSettings.seed)) {
+        callback({ success: false, message: '洗牌種子無效 (需為 0 到 4294967295 之間的整數)' });
+        return;
+    }
+
+    // 驗證房間規則 (可選)
+    if (clientSettings.ruleSet !== undefined && !isValidRuleSet(clientSettings.ruleSet, playerCount)) {
+        callback({ success: false, message: '房間規則無效 (手牌數量需與胡牌牌型一致，且發牌後牌堆需多於留牌數)' });
         return;
     }
 
+    // 只取規則中已定義的欄位，未提供時使用標準規則
+    const ruleSet = clientSettings.ruleSet ? {
+        name: clientSettings.ruleSet.name.trim(),
+        initialHandSizeDealer: clientSettings.ruleSet.initialHandSizeDealer,
+        initialHandSizeNonDealer: clientSettings.ruleSet.initialHandSizeNonDealer,
+        winningMeldCount: clientSettings.ruleSet.winningMeldCount,
+        winningPairCount: clientSettings.ruleSet.winningPairCount,
+        chiFromAnySeat: clientSettings.ruleSet.chiFromAnySeat,
+        allowMultipleWinners: clientSettings.ruleSet.allowMultipleWinners,
+        reservedTileCount: clientSettings.ruleSet.reservedTileCount,
+        drawGameTenpaiSettlement: clientSettings.ruleSet.drawGameTenpaiSettlement,
+        drawGameDealerRule: clientSettings.ruleSet.drawGameDealerRule,
+        actionPriority: {
+            HU: clientSettings.ruleSet.actionPriority.HU,
+            GANG: clientSettings.ruleSet.actionPriority.GANG,
+            PENG: clientSettings.ruleSet.actionPriority.PENG,
+            CHI: clientSettings.ruleSet.actionPriority.CHI,
+        },
+    } : DEFAULT_RULE_SET;
+
     // 生成唯一的房間ID
     const roomId = `room-${Date.now()}-${Math.random().toString(36).substring(2, 7)}`;
     const actualHumanPlayers = clientSettings.humanPlayers; // 使用客戶端設定的真人玩家數
     let aiPlayers = 0; // AI玩家數量
-    // 如果設定了用AI填充，則計算所需AI數量以達到總玩家數 NUM_PLAYERS
+    // 如果設定了用AI填充，則計算所需AI數量以達到牌桌座位數
     if (clientSettings.fillWithAI) {
-        aiPlayers = NUM_PLAYERS - actualHumanPlayers;
+        aiPlayers = playerCount - actualHumanPlayers;
     }
     aiPlayers = Math.max(0, aiPlayers); // 確保AI數量不為負
 
@@ -71,10 +132,15 @@ export class RoomManager {
       fillWithAI: clientSettings.fillWithAI,
       password: clientSettings.password ? clientSettings.password.trim() : undefined, // 密碼可選
       numberOfRounds: clientSettings.numberOfRounds || DEFAULT_NUMBER_OF_ROUNDS, // 局數，若未提供則使用預設值
+      seed: clientSettings.seed, // 指定的洗牌種子 (可選)
+      ruleSet: { ...ruleSet, actionPriority: { ...ruleSet.actionPriority } }, // 房間規則 (複製一份，避免共用物件)
+      maxSpectators, // 觀戰人數上限
+      aiDifficulty, // AI 補位的預設難度
+      aiSeatDifficulties: Array(playerCount).fill(aiDifficulty), // 各座位的 AI 難度 (初始皆為預設難度)
       id: roomId,
       hostName: hostNameFromClient, // 房主名稱
       hostSocketId: socket.id, // 房主 Socket ID
-      maxPlayers: NUM_PLAYERS, // 最大玩家數 (固定值)
+      maxPlayers: playerCount, // 最大玩家數 (牌桌座位數)
       aiPlayers: aiPlayers, // 計算出的AI玩家數量
     };
 
@@ -157,6 +223,88 @@ export class RoomManager {
     }
   }
 
+  /**
+   * @description 處理以觀戰者身份進入房間的請求。觀戰者不佔座位，遊戲開始後仍可進入。
+   * @param {Socket} socket - 觀戰者的 Socket 連接實例。
+   * @param {object} data - 包含房間ID、密碼(可選)及觀戰者名稱的資料。
+   * @param {string} data.roomId - 要觀戰的房間ID。
+   * @param {string} [data.password] - 房間密碼。
+   * @param {string} data.playerName - 觀戰者名稱。
+   * @param {(ack: { success: boolean; message?: string }) => void} callback - 操作完成後的回調函數。
+   */
+  public spectateRoom(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+                      data: { roomId: string; password?: string; playerName: string },
+                      callback: (ack: { success: boolean; message?: string }) => void): void {
+    const room = this.rooms.get(data.roomId); // 查找房間
+    if (!room) { // 如果房間不存在
+      callback({ success: false, message: '房間不存在。' });
+      return;
+    }
+    const roomSettings = room.getSettings(); // 獲取房間設定
+    // 驗證密碼 (如果房間有密碼保護)
+    if (roomSettings.password && roomSettings.password !== data.password) {
+        callback({ success: false, message: '房間密碼錯誤。'});
+        return;
+    }
+    // 檢查房間是否開放觀戰，以及觀戰名額是否已滿
+    if (roomSettings.maxSpectators === 0) {
+        callback({ success: false, message: '此房間不開放觀戰。'});
+        return;
+    }
+    if (room.getSpectatorCount() >= roomSettings.maxSpectators) {
+        callback({ success: false, message: '房間的觀戰名額已滿。'});
+        return;
+    }
+
+    const spectatorName = data.playerName || socket.data.playerName || DEFAULT_PLAYER_NAME;
+    console.log(`[RoomManager] ${spectatorName} (Socket: ${socket.id}) 嘗試觀戰房間: ${roomSettings.roomName} (ID: ${data.roomId})`);
+
+    socket.leave(LOBBY_ROOM_NAME); // 讓觀戰者離開大廳
+    if (room.addSpectator(socket, spectatorName)) { // 如果成功開始觀戰
+        callback({ success: true });
+        this.broadcastLobbyUpdate(); // 廣播大廳房間列表更新 (觀戰人數改變)
+    } else { // 如果觀戰失敗
+        socket.join(LOBBY_ROOM_NAME); // 讓觀戰者重新加入大廳
+        callback({ success: false, message: '無法觀戰此房間。'});
+    }
+  }
+
+  /**
+   * @description 處理玩家以座位憑證取回原座位的請求 (重新整理頁面或斷線重連後)。
+   *              遊戲已開始的房間不接受新玩家加入，但持有有效憑證的玩家可以回到自己的座位。
+   * @param {Socket} socket - 重連玩家的 Socket 連接實例。
+   * @param {string} sessionToken - 加入房間時取得的座位憑證。
+   * @param {(ack: { success: boolean; message?: string }) => void} callback - 操作完成後的回調函數。
+   */
+  public resumeSession(socket: Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>,
+                       sessionToken: string,
+                       callback: (ack: { success: boolean; message?: string }) => void): void {
+    const session = verifySessionToken(sessionToken); // 驗證憑證簽章
+    if (!session) {
+        callback({ success: false, message: '座位憑證無效。' });
+        return;
+    }
+    const room = this.rooms.get(session.roomId); // 查找房間
+    if (!room) {
+        callback({ success: false, message: '房間不存在。' });
+        return;
+    }
+
+    // 如果此連線目前在其他房間，先離開該房間
+    if (socket.data.currentRoomId && socket.data.currentRoomId !== session.roomId) {
+        this.rooms.get(socket.data.currentRoomId)?.removePlayer(socket.id);
+    }
+
+    if (room.resumePlayer(socket, session)) { // 如果成功取回座位
+        socket.leave(LOBBY_ROOM_NAME); // 讓玩家離開大廳
+        console.log(`[RoomManager] Socket ${socket.id} 以座位憑證回到房間 ${room.getSettings().roomName} (ID: ${session.roomId}) 的座位 ${session.seatId}。`);
+        callback({ success: true });
+        this.broadcastLobbyUpdate(); // 廣播大廳房間列表更新 (在線真人數改變)
+    } else {
+        callback({ success: false, message: '座位已失效，無法重新連接。' });
+    }
+  }
+
   /**
    * @description 處理玩家離開遊戲房間的邏輯。
    * @param {Socket} socket - 離開房間的玩家的 Socket 連接實例。
@@ -167,7 +315,11 @@ export class RoomManager {
     if (room) { // 如果房間存在
       const playerName = socket.data.playerName || `Socket ${socket.id}`;
       console.log(`[RoomManager] 玩家 ${playerName} 請求離開房間: ${roomId}`);
-      room.removePlayer(socket.id); // 從遊戲房間移除玩家
+      if (room.hasSpectator(socket.id)) {
+        room.removeSpectator(socket.id); // 觀戰者離開
+      } else {
+        room.removePlayer(socket.id); // 從遊戲房間移除玩家
+      }
       socket.join(LOBBY_ROOM_NAME); // 讓玩家加入大廳
       console.log(`[RoomManager] Socket ${socket.id} 已重新加入 '${LOBBY_ROOM_NAME}' 群組。`);
       this.broadcastLobbyUpdate(); // 廣播大廳更新
@@ -187,6 +339,9 @@ export class RoomManager {
             console.log(`[RoomManager] 偵測到玩家 ${playerName} (Socket: ${socket.id}) 斷線，將從房間 ${room.getSettings().roomName} 處理。`);
             room.removePlayer(socket.id); // 從遊戲房間移除玩家 (GameRoom內部會處理離線邏輯)
             this.broadcastLobbyUpdate(); // 廣播大廳更新
+        } else if (room && room.hasSpectator(socket.id)) { // 如果是該房間的觀戰者
+            room.removeSpectator(socket.id);
+            this.broadcastLobbyUpdate(); // 廣播大廳更新 (觀戰人數改變)
         }
     } else { // 如果玩家斷線時不在任何遊戲房間內 (可能在大廳)
         socket.leave(LOBBY_ROOM_NAME); // 確保其離開大廳 (以防萬一)
@@ -215,7 +370,7 @@ export class RoomManager {
         id: settings.id,
         name: settings.roomName,
         playersCount: totalPlayersInGameRoomObject, // 房間內總玩家實體數
-        maxPlayers: settings.maxPlayers, // 房間最大玩家數 (通常為 NUM_PLAYERS)
+        maxPlayers: settings.maxPlayers, // 房間最大玩家數 (牌桌座位數)
         currentHumanPlayers: currentHumanPlayersCount, // 當前在線真人數
         targetHumanPlayers: settings.humanPlayers, // 房間設定的目標真人數
         // 根據遊戲階段判斷房間狀態
@@ -223,6 +378,9 @@ export class RoomManager {
         passwordProtected: !!settings.password, // 是否有密碼保護
         numberOfRounds: settings.numberOfRounds, // 總局數
         hostName: settings.hostName, // 房主名稱
+        spectatorsCount: room.getSpectatorCount(), // 目前觀戰人數
+        maxSpectators: settings.maxSpectators, // 觀戰人數上限
+        aiDifficulties: room.getAIDifficulties(), // AI 座位使用的難度
       });
     });
     return lobbyData;
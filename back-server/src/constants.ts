@@ -1,76 +1,36 @@
 
 
-import { TileKind, Suit, GamePhase } from './types';
-
-// 定義每種棋子(牌)的詳細屬性
-export const TILE_KIND_DETAILS: Readonly<Record<TileKind, { suit: Suit, orderValue: number, group: 0 | 1 | 2 }>> = {
-  // 黑方牌組 1 (將、士、象) - 用於判斷順子
-  [TileKind.B_GENERAL]: { suit: Suit.BLACK, orderValue: 3, group: 1 }, // 將 (最大)
-  [TileKind.B_ADVISOR]: { suit: Suit.BLACK, orderValue: 2, group: 1 }, // 士
-  [TileKind.B_ELEPHANT]: { suit: Suit.BLACK, orderValue: 1, group: 1 }, // 象 (最小)
-  // 黑方牌組 2 (車、馬、包) - 用於判斷順子
-  [TileKind.B_CHARIOT]: { suit: Suit.BLACK, orderValue: 3, group: 2 }, // 車 (最大)
-  [TileKind.B_HORSE]: { suit: Suit.BLACK, orderValue: 2, group: 2 },   // 馬
-  [TileKind.B_CANNON]: { suit: Suit.BLACK, orderValue: 1, group: 2 }, // 包 (最小)
-  // 黑方兵卒 (不與其他牌組合成順子)
-  [TileKind.B_SOLDIER]: { suit: Suit.BLACK, orderValue: 0, group: 0 }, // 卒 (group 0 表示不參與順子)
-
-  // 紅方牌組 1 (帥、仕、相) - 用於判斷順子
-  [TileKind.R_GENERAL]: { suit: Suit.RED, orderValue: 3, group: 1 }, // 帥 (最大)
-  [TileKind.R_ADVISOR]: { suit: Suit.RED, orderValue: 2, group: 1 }, // 仕
-  [TileKind.R_ELEPHANT]: { suit: Suit.RED, orderValue: 1, group: 1 }, // 相 (最小)
-  // 紅方牌組 2 (俥、傌、炮) - 用於判斷順子
-  [TileKind.R_CHARIOT]: { suit: Suit.RED, orderValue: 3, group: 2 }, // 俥 (最大)
-  [TileKind.R_HORSE]: { suit: Suit.RED, orderValue: 2, group: 2 },   // 傌
-  [TileKind.R_CANNON]: { suit: Suit.RED, orderValue: 1, group: 2 }, // 炮 (最小)
-  // 紅方兵卒
-  [TileKind.R_SOLDIER]: { suit: Suit.RED, orderValue: 0, group: 0 }, // 兵 (group 0 表示不參與順子)
-};
-
-/** @description 所有牌的種類列表 */
-export const ALL_TILE_KINDS: TileKind[] = Object.values(TileKind);
-/** @description 遊戲中實際使用的牌的種類 (目前是全部14種)。 */
-export const PLAYABLE_TILE_KINDS: TileKind[] = ALL_TILE_KINDS; 
-
-/** @description 定義可以組成順子的牌組。 */
-export const SHUNZI_DEFINITIONS: ReadonlyArray<ReadonlyArray<TileKind>> = [
-  [TileKind.B_GENERAL, TileKind.B_ADVISOR, TileKind.B_ELEPHANT], // 黑方 將士象
-  [TileKind.B_CHARIOT, TileKind.B_HORSE, TileKind.B_CANNON],   // 黑方 車馬包
-  [TileKind.R_GENERAL, TileKind.R_ADVISOR, TileKind.R_ELEPHANT], // 紅方 帥仕相
-  [TileKind.R_CHARIOT, TileKind.R_HORSE, TileKind.R_CANNON],   // 紅方 俥傌炮
-];
-
-// --- 遊戲通用常數 ---
-/** @description 玩家數量 (此遊戲固定為4人)。 */
-export const NUM_PLAYERS = 4; 
-/** @description 每種牌有幾張 (例如，每種棋子有4張)。 */
-export const TILES_PER_KIND = 4; 
-/** @description 莊家初始手牌數量。 */
-export const INITIAL_HAND_SIZE_DEALER = 8; 
-/** @description 非莊家初始手牌數量。 */
-export const INITIAL_HAND_SIZE_NON_DEALER = 7; 
-/** @description 摸牌後，打牌前的最大手牌數量。 */
-export const MAX_HAND_SIZE_BEFORE_DISCARD = 8; 
+// 伺服器專用的常數 (前端與伺服器共用的常數在 @xiangqi-mahjong/core)
+import { FanPatternKey } from '@xiangqi-mahjong/core';
 
+// --- 計分相關常數 ---
+/** @description 胡牌的底分 (每位付款者至少支付此分數)。 */
+export const BASE_WIN_POINTS = 100;
+/** @description 每一台的分數。每位付款者支付 底分 + 總台數 × 每台分數。 */
+export const POINTS_PER_TAI = 50;
+/** @description 流局聽牌結算時，每位未聽牌者支付給每位聽牌者的分數。 */
+export const TENPAI_SETTLEMENT_POINTS = 100;
 /** 
- * @description 宣告動作的優先順序。
- * - `HU`: 胡牌，優先序最高。
- * - `GANG`: 槓牌。
- * - `PENG`: 碰牌 (與槓相同優先序)。
- * - `CHI`: 吃牌，優先序最低。
+ * @description 各台型的名稱與台數。槓子類台型的台數為每個槓子的台數。
+ * 天胡、地胡成立時不再另計自摸與門清。
  */
-export const ACTION_PRIORITY = {
-  HU: 3,   
-  GANG: 2, 
-  PENG: 2, 
-  CHI: 1,  
+export const FAN_PATTERNS: Readonly<Record<FanPatternKey, { name: string; tai: number }>> = {
+  HEAVENLY_HU: { name: '天胡', tai: 8 },
+  EARTHLY_HU: { name: '地胡', tai: 6 },
+  SELF_DRAWN: { name: '自摸', tai: 1 },
+  CONCEALED_HAND: { name: '門清', tai: 1 },
+  ALL_ONE_SUIT: { name: '清一色', tai: 4 },
+  ALL_TRIPLETS: { name: '碰碰胡', tai: 2 },
+  DEALER: { name: '莊家', tai: 1 },
+  MING_GANG: { name: '明槓', tai: 1 },
+  AN_GANG: { name: '暗槓', tai: 2 },
+  ROBBING_KONG: { name: '搶槓', tai: 1 },
+  KONG_BLOOM: { name: '槓上開花', tai: 1 },
+  LAST_TILE_DRAW: { name: '海底撈月', tai: 1 },
+  LAST_DISCARD: { name: '河底撈魚', tai: 1 },
 };
 
 // --- 時間相關常數 ---
-/** @description 玩家非回合宣告的思考/行動時間 (秒)。GameState 中的 actionTimer 以秒為單位。 */
-export const CLAIM_DECISION_TIMEOUT_SECONDS = 30; 
-/** @description 玩家回合內行動的思考/行動時間 (秒)。 */
-export const PLAYER_TURN_ACTION_TIMEOUT_SECONDS = 60; 
 /** @description AI 思考時間的最小值 (毫秒)。 */
 export const AI_THINK_TIME_MS_MIN = 700; 
 /** @description AI 思考時間的最大值 (毫秒)。 */
@@ -81,44 +41,6 @@ export const ACTION_TIMER_INTERVAL_MS = 1000;
 export const EMPTY_ROOM_TIMEOUT_MS = 5 * 60 * 1000; 
 /** @description 遊戲結束後，若房間變空，則在此超時後關閉房間 (毫秒)，例如 1 分鐘。 */
 export const GAME_END_EMPTY_ROOM_TIMEOUT_MS = 1 * 60 * 1000; 
-/** @description 下一局開始倒數秒數。GameState 中的 nextRoundCountdown 以秒為單位。 */
-export const NEXT_ROUND_COUNTDOWN_SECONDS = 10; 
-
-// --- 設定選項相關常數 ---
-/** 
- * @description 局數設定選項。用於創建房間時選擇遊戲總局數。
- * - `value`: 局數的數值。
- * - `label`: 顯示給使用者的文字標籤。
- */
-export const ROUND_OPTIONS: ReadonlyArray<{ value: number, label: string }> = [
-  { value: 1, label: '1局 (單局決勝)' },
-  { value: 4, label: '4局 (東風戰)' },
-  { value: 8, label: '8局 (半莊戰)' },
-];
-/** @description 預設的遊戲總局數。 */
-export const DEFAULT_NUMBER_OF_ROUNDS = ROUND_OPTIONS[0].value; // 預設為1局
-
-// --- 遊戲階段翻譯 (伺服器端主要用於日誌記錄) ---
-/** 
- * @description 遊戲階段的繁體中文翻譯。
- * 用於在 UI 上顯示當前的遊戲進程，伺服器端也可能用於日誌。
- */
-export const GamePhaseTranslations: Record<GamePhase, string> = {
-  [GamePhase.LOADING]: "載入中",
-  [GamePhase.WAITING_FOR_PLAYERS]: "等待玩家開始",
-  [GamePhase.DEALING]: "發牌中",
-  [GamePhase.PLAYER_TURN_START]: "玩家回合開始", // 等待摸牌
-  [GamePhase.PLAYER_DRAWN]: "玩家已摸牌",    // 等待打牌或自摸/槓
-  [GamePhase.AWAITING_DISCARD]: "等待出牌",    // 例如莊家開局或吃碰槓後
-  [GamePhase.TILE_DISCARDED]: "等待宣告",     // 有牌被打出，等待其他玩家宣告
-  [GamePhase.AWAITING_CLAIMS_RESOLUTION]: "處理宣告中", // 系統處理多個宣告的優先順序
-  [GamePhase.AWAITING_PLAYER_CLAIM_ACTION]: "等待玩家宣告決定", // 特定玩家決定是否宣告
-  [GamePhase.ACTION_PENDING_CHI_CHOICE]: "選擇吃牌組合", // 玩家選擇吃的具體牌型
-  [GamePhase.GAME_OVER]: "遊戲結束",        // 整場比賽結束
-  [GamePhase.ROUND_OVER]: "本局結束",       // 一局結束，準備下一局或結束比賽
-  // Fix: Add missing GamePhase.AWAITING_REMATCH_VOTES
-  [GamePhase.AWAITING_REMATCH_VOTES]: "等待再戰投票",
-};
 
 // --- 伺服器特定常數 ---
 /** @description 伺服器監聽的埠號，優先從環境變數 `PORT` 讀取，否則使用預設值。 */
@@ -129,8 +51,6 @@ export const MAX_ROOM_NAME_LENGTH = 20;
 export const MAX_PASSWORD_LENGTH = 20;
 /** @description 玩家名稱的最大長度限制。 */
 export const MAX_PLAYER_NAME_LENGTH = 15;
-/** @description 系統訊息的發送者名稱。 */
-export const SYSTEM_SENDER_NAME = '系統訊息';
 /** @description 預設的主持人名稱。 */
 export const DEFAULT_HOST_NAME = "主持人";
 /** @description 預設的玩家名稱。 */
@@ -141,15 +61,23 @@ export const AI_NAME_PREFIX = "電腦 ";
 export const LOBBY_ROOM_NAME = 'lobby';
 /** @description 遊戲訊息記錄的最大條數。 */
 export const MAX_MESSAGE_LOG_ENTRIES = 50;
+/** @description 房間關閉時自動儲存牌譜的目錄，從環境變數 `REPLAY_DIR` 讀取；未設定則不儲存。 */
+export const REPLAY_OUTPUT_DIR = process.env.REPLAY_DIR || null;
+/** @description 簽署座位憑證 (斷線重連用) 的密鑰，從環境變數 `SESSION_TOKEN_SECRET` 讀取；未設定則在伺服器啟動時隨機產生 (重新啟動後舊憑證失效)。 */
+export const SESSION_TOKEN_SECRET = process.env.SESSION_TOKEN_SECRET || null;
 
-// --- 牌面台語/中文發音 (供音效使用，前端已定義，此處為伺服器端參考) ---
-// TAIWANESE_HOKKIEN_TILE_NAMES is primarily for client-side audio.
-// Server-side, it might be used for logging or if server were to generate audio cues.
-// Currently, client handles audio based on its constants.ts.
+// --- AI 模擬相關常數 ---
+/** @description 模擬工具未指定局數時執行的局數。 */
+export const DEFAULT_SIMULATION_ROUNDS = 1000;
+/** @description 模擬時單局最多執行的動作數，超過即視為未完成 (防止 AI 重複送出無效動作造成無窮迴圈)。 */
+export const SIMULATION_MAX_STEPS_PER_ROUND = 1000;
 
-// 注意：部分前端 `constants.ts` 中的常數 (如 `TAIWANESE_HOKKIEN_TILE_NAMES`)
-// 若伺服器端也需要 (例如用於日誌或其他邏輯)，則應在此處也定義一份，或透過共享類型/配置管理。
-// 為避免重複，假設與前端 `constants.ts` 的 `TAIWANESE_HOKKIEN_TILE_NAMES` 和 `GamePhaseTranslations` 內容一致。
-// 如果伺服器邏輯不直接依賴它們，則可省略。
-// 此處 GamePhaseTranslations 已複製過來，因為 GameRoom.ts 中有使用於日誌。
-// TAIWANESE_HOKKIEN_TILE_NAMES 伺服器端目前看起來未使用。
\ No newline at end of file
+// --- AI 搜尋相關常數 (高手難度) ---
+/** @description 高手 AI 每次決策的搜尋時間上限 (毫秒)。搜尋在伺服器主執行緒上同步進行，須遠小於 AI_THINK_TIME_MS_MIN。 */
+export const AI_SEARCH_TIME_BUDGET_MS = 150;
+/** @description 高手 AI 每次決策最多抽樣的次數 (未超過時間上限時，相同局面的決策可重現)。 */
+export const AI_SEARCH_MAX_SAMPLES = 40;
+/** @description 每次抽樣後續推演的最多摸牌數 (所有座位合計)。 */
+export const AI_SEARCH_ROLLOUT_MAX_DRAWS = 16;
+/** @description 推演步數有限，遠離聽牌的手牌多半推演不到胡牌；每差一向聽從期望得分扣除的分數。 */
+export const AI_SEARCH_SHANTEN_PENALTY = 100;
@@ -0,0 +1,49 @@
+// 牌譜重播驗證工具
+// 用法: npm run replay -- <牌譜檔案.json>
+// 逐局以無介面模式重播牌譜，並確認重建的結束狀態與記錄一致。任何一局不一致時以非零狀態碼結束。
+
+// 引入 Node.js 檔案系統模組
+import * as fs from 'fs';
+// 引入遊戲房間 (重播引擎)
+import { GameRoom } from './GameRoom';
+// 引入共用核心套件 (類型定義與常數)
+import { ReplayFile, REPLAY_FILE_VERSION } from '@xiangqi-mahjong/core';
+
+const filePath = process.argv[2];
+if (!filePath) {
+    console.error('用法: npm run replay -- <牌譜檔案.json>');
+    process.exit(1);
+}
+
+const replay = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as ReplayFile;
+if (replay.version !== REPLAY_FILE_VERSION) {
+    console.error(`不支援的牌譜版本 ${replay.version} (目前版本為 ${REPLAY_FILE_VERSION})。`);
+    process.exit(1);
+}
+
+// 重播期間 GameRoom 會輸出大量除錯訊息，暫時關閉 console.log 以保持輸出簡潔
+const originalLog = console.log;
+const printLine = (line: string) => process.stdout.write(`${line}\n`);
+
+printLine(`牌譜: ${replay.roomName} (${replay.roomId})，共 ${replay.rounds.length} 局`);
+let allMatched = true;
+replay.rounds.forEach(round => {
+    console.log = () => {};
+    let resultText: string;
+    try {
+        const { finalState, matchesRecord } = GameRoom.replayRound(round);
+        allMatched = allMatched && matchesRecord;
+        const outcome = finalState.winnerIds.length > 0
+            ? `座位 ${finalState.winnerIds.join('、')} ${finalState.winType === 'selfDrawn' ? '自摸' : '胡牌'}`
+            : (finalState.isDrawGame ? '流局' : '未結束');
+        resultText = `第 ${round.roundNumber} 局 (種子 ${round.seed}, ${round.entries.length} 步): ${outcome} — ${matchesRecord ? '一致' : '不一致'}`;
+    } catch (error) {
+        allMatched = false;
+        resultText = `第 ${round.roundNumber} 局重播失敗: ${(error as Error).message}`;
+    } finally {
+        console.log = originalLog;
+    }
+    printLine(resultText);
+});
+
+process.exit(allMatched ? 0 : 1);
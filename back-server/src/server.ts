@@ -5,11 +5,11 @@ import { createServer } from 'http';
 import { Server, Socket } from 'socket.io';
 // 引入房間管理器
 import { RoomManager } from './RoomManager';
-// 引入類型定義
-import { ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData, ChatMessage, GameActionPayload } from './types';
-// 引入常數
+// 引入共用核心套件 (類型定義與常數)
+import { ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData, ChatMessage, GameActionPayload, SYSTEM_SENDER_NAME } from '@xiangqi-mahjong/core';
+// 引入伺服器專用常數
 // Fix: Import DEFAULT_HOST_NAME
-import { SERVER_PORT, MAX_PLAYER_NAME_LENGTH, SYSTEM_SENDER_NAME, DEFAULT_PLAYER_NAME, LOBBY_ROOM_NAME, DEFAULT_HOST_NAME } from './constants';
+import { SERVER_PORT, MAX_PLAYER_NAME_LENGTH, DEFAULT_PLAYER_NAME, LOBBY_ROOM_NAME, DEFAULT_HOST_NAME } from './constants';
 
 // 創建 HTTP 伺服器實例
 const httpServer = createServer();
@@ -71,6 +71,15 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
     roomManager.joinRoom(socket, data, callback); // 呼叫 RoomManager 處理加入房間
   });
 
+  // 監聽客戶端 'lobbySpectateRoom' 事件 (以觀戰者身份進入房間)
+  socket.on('lobbySpectateRoom', (data, callback) => {
+     // 如果客戶端未提供 playerName，則使用 socket.data 中的名稱
+     if (!data.playerName || data.playerName.trim() === "") {
+        data.playerName = socket.data.playerName || DEFAULT_PLAYER_NAME;
+    }
+    roomManager.spectateRoom(socket, data, callback); // 呼叫 RoomManager 處理觀戰
+  });
+
   // 監聽客戶端 'lobbyGetRooms' 事件 (獲取房間列表)
   socket.on('lobbyGetRooms', () => {
     // 確保客戶端已在 'lobby' 群組內才發送列表
@@ -125,6 +134,16 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
     }
   });
 
+  // 監聽客戶端 'gameSendSpectatorChatMessage' 事件 (觀戰者在觀戰聊天室發言)
+  socket.on('gameSendSpectatorChatMessage', (roomId, messageText) => {
+    const room = roomManager.getRoomById(roomId);
+    if (room && room.hasSpectator(socket.id)) { // 驗證房間和觀戰者身份
+      room.sendSpectatorChatMessage(socket.id, messageText); // 呼叫 GameRoom 處理
+    } else {
+        socket.emit('gameError', '無法在指定房間發送觀戰訊息。');
+    }
+  });
+
   // 監聽客戶端 'gameRequestStart' 事件 (房主請求開始遊戲)
   socket.on('gameRequestStart', (roomId) => {
     const room = roomManager.getRoomById(roomId);
@@ -135,6 +154,33 @@ io.on('connection', (socket: Socket<ClientToServerEvents, ServerToClientEvents,
     }
   });
 
+  // 監聽客戶端 'gameSetAIDifficulty' 事件 (房主在等待中設定某個座位的 AI 難度)
+  socket.on('gameSetAIDifficulty', (roomId, seatId, difficulty) => {
+    const room = roomManager.getRoomById(roomId);
+    if (room && room.hasPlayer(socket.id)) { // 驗證房間和玩家身份
+      if (room.setAIDifficulty(socket.id, seatId, difficulty)) { // 呼叫 GameRoom 處理
+        roomManager.broadcastLobbyUpdate(); // 廣播大廳房間列表更新 (AI 難度改變)
+      }
+    } else {
+        socket.emit('gameError', '無法設定 AI 難度。');
+    }
+  });
+
+  // 監聽客戶端 'gameRequestReplay' 事件 (匯出本房間已完成各局的牌譜)
+  socket.on('gameRequestReplay', (roomId, callback) => {
+    const room = roomManager.getRoomById(roomId);
+    if (room && room.hasPlayer(socket.id)) { // 驗證房間和玩家身份
+      callback({ success: true, replay: room.exportReplay() });
+    } else {
+      callback({ success: false, message: '無法匯出指定房間的牌譜。' });
+    }
+  });
+
+  // 監聽客戶端 'gameResumeSession' 事件 (以座位憑證取回原座位)
+  socket.on('gameResumeSession', (sessionToken, callback) => {
+    roomManager.resumeSession(socket, sessionToken, callback); // 呼叫 RoomManager 處理
+  });
+
   // 監聽客戶端 'gameQuitRoom' 事件 (玩家退出遊戲房間)
   socket.on('gameQuitRoom', (roomId) => {
     roomManager.leaveRoom(socket, roomId); // 呼叫 RoomManager 處理
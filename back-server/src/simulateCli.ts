@@ -0,0 +1,122 @@
+// AI 對戰模擬工具
+// 用法: npm run simulate -- [局數] [座位數] [起始種子] [各座位 AI 策略]
+// 以無介面模式讓 AIService 的 AI 連續打完指定局數 (無 Socket、計時器或思考延遲)，並輸出整體統計。
+// 各座位 AI 策略以逗號分隔 (例如 strong,novice,novice,novice)，未指定的座位使用預設難度，可用來比較不同難度的勝率。
+// 策略 ID 可為內建的難度，或任何已註冊於 BotStrategyRegistry 的實驗性策略 (在此引入註冊該策略的模組即可與內建策略對戰比較)。
+// 每局莊家依序輪替，種子由起始種子逐局推導，因此相同參數的模擬結果可重現。
+
+// 引入遊戲房間 (模擬引擎)
+import { GameRoom } from './GameRoom';
+// 引入共用核心套件：常數、類型定義與種子產生函數
+import {
+    NUM_PLAYERS, SUPPORTED_PLAYER_COUNTS, DEFAULT_RULE_SET, DEFAULT_AI_DIFFICULTY, AIDifficultyTranslations,
+    AIDifficulty, FanPatternKey, generateSeed, deriveNextSeed, isValidSeed
+} from '@xiangqi-mahjong/core';
+// 引入伺服器專用常數
+import { DEFAULT_SIMULATION_ROUNDS, FAN_PATTERNS } from './constants';
+// 引入 AI 策略註冊表 (內建策略隨 GameRoom 引入的 AIService 註冊)
+import { botStrategyRegistry } from './BotStrategyRegistry';
+
+const printLine = (line: string) => process.stdout.write(`${line}\n`);
+const usage = '用法: npm run simulate -- [局數] [座位數] [起始種子] [各座位 AI 策略]';
+
+const [roundsArg, playersArg, seedArg, strategiesArg] = process.argv.slice(2);
+const totalRounds = roundsArg !== undefined ? Number(roundsArg) : DEFAULT_SIMULATION_ROUNDS;
+const playerCount = playersArg !== undefined ? Number(playersArg) : NUM_PLAYERS;
+const startSeed = seedArg !== undefined ? Number(seedArg) : generateSeed();
+const requestedStrategyIds = strategiesArg !== undefined ? strategiesArg.split(',') : [];
+const botStrategyIds = Array.from({ length: playerCount }, (_, seatId) => requestedStrategyIds[seatId] || DEFAULT_AI_DIFFICULTY);
+if (!Number.isInteger(totalRounds) || totalRounds <= 0 ||
+    !SUPPORTED_PLAYER_COUNTS.includes(playerCount) ||
+    !isValidSeed(startSeed) ||
+    requestedStrategyIds.length > playerCount ||
+    !botStrategyIds.every(id => botStrategyRegistry.has(id))) {
+    console.error(usage);
+    console.error(`局數需為正整數，座位數需為 ${SUPPORTED_PLAYER_COUNTS.join(' 或 ')}，種子需為 0 到 4294967295 之間的整數，` +
+        `AI 策略需為 ${botStrategyRegistry.getIds().join('、')} 之一且不超過座位數。`);
+    process.exit(1);
+}
+
+// 統計資料
+const winsBySeat: number[] = Array(playerCount).fill(0);
+const dealInsBySeat: number[] = Array(playerCount).fill(0); // 各座位放槍次數 (一炮多響只計一次)
+let dealerWins = 0;
+let drawGames = 0;
+let multipleWinnerRounds = 0;
+let unfinishedRounds = 0;
+let totalTurns = 0;
+const winTypeCounts = { selfDrawn: 0, discard: 0, heavenlyHu: 0 };
+// 特殊時機的胡牌次數 (與胡牌類型重疊計算)
+const SPECIAL_TIMING_PATTERNS: FanPatternKey[] = ['EARTHLY_HU', 'KONG_BLOOM', 'LAST_TILE_DRAW', 'LAST_DISCARD', 'ROBBING_KONG'];
+const specialTimingCounts = new Map<FanPatternKey, number>(SPECIAL_TIMING_PATTERNS.map(pattern => [pattern, 0]));
+
+// 模擬期間 GameRoom 與 AIService 會輸出大量除錯訊息，暫時關閉 console.log 以保持輸出簡潔
+const originalLog = console.log;
+const startedAt = Date.now();
+// 策略名稱：內建策略顯示難度名稱，實驗性策略顯示其 ID
+const strategyLabels = botStrategyIds.map(id => AIDifficultyTranslations[id as AIDifficulty] ?? id);
+printLine(`開始模擬 ${totalRounds} 局 (${playerCount} 人桌，起始種子 ${startSeed}，AI 策略 ${strategyLabels.join('/')})...`);
+
+let seed = startSeed;
+for (let roundIndex = 0; roundIndex < totalRounds; roundIndex++) {
+    const dealerIndex = roundIndex % playerCount;
+    console.log = () => {};
+    let result: ReturnType<typeof GameRoom.simulateRound>;
+    try {
+        result = GameRoom.simulateRound({ seed, dealerIndex, playerCount, ruleSet: DEFAULT_RULE_SET, botStrategyIds });
+    } finally {
+        console.log = originalLog;
+    }
+    const { finalState, completed } = result;
+
+    if (!completed) {
+        unfinishedRounds++;
+    } else {
+        totalTurns += finalState.turnNumber;
+        if (finalState.winnerIds.length > 0) {
+            // 一炮多響時每位贏家各計一次胡牌
+            finalState.winnerIds.forEach(winnerId => winsBySeat[winnerId]++);
+            if (finalState.winnerIds.includes(dealerIndex)) dealerWins++;
+            if (finalState.winnerIds.length > 1) multipleWinnerRounds++;
+            if (finalState.winningTileDiscarderId !== null) dealInsBySeat[finalState.winningTileDiscarderId]++;
+            finalState.roundScoreBreakdowns.forEach(breakdown => {
+                if (breakdown.items.some(item => item.pattern === 'HEAVENLY_HU')) {
+                    winTypeCounts.heavenlyHu++;
+                } else if (breakdown.winType === 'selfDrawn') {
+                    winTypeCounts.selfDrawn++;
+                } else {
+                    winTypeCounts.discard++;
+                }
+                breakdown.items.filter(item => specialTimingCounts.has(item.pattern))
+                    .forEach(item => specialTimingCounts.set(item.pattern, specialTimingCounts.get(item.pattern)! + 1));
+            });
+        } else {
+            drawGames++;
+        }
+    }
+    seed = deriveNextSeed(seed);
+}
+
+// 輸出統計結果
+const finishedRounds = totalRounds - unfinishedRounds;
+const totalWins = winsBySeat.reduce((sum, wins) => sum + wins, 0);
+const percent = (count: number, total: number) => total > 0 ? `${(count / total * 100).toFixed(1)}%` : '-';
+
+printLine(`完成 ${finishedRounds}/${totalRounds} 局，耗時 ${((Date.now() - startedAt) / 1000).toFixed(1)} 秒。`);
+if (unfinishedRounds > 0) printLine(`未完成 (超過步數上限): ${unfinishedRounds} 局`);
+printLine('各座位胡牌率:');
+winsBySeat.forEach((wins, seatId) => printLine(`  座位 ${seatId} (${strategyLabels[seatId]}): ${wins} 局 (${percent(wins, finishedRounds)})`));
+printLine('各座位放槍率:');
+dealInsBySeat.forEach((dealIns, seatId) => printLine(`  座位 ${seatId} (${strategyLabels[seatId]}): ${dealIns} 局 (${percent(dealIns, finishedRounds)})`));
+printLine(`莊家胡牌率: ${dealerWins} 局 (${percent(dealerWins, finishedRounds)})`);
+printLine(`流局率: ${drawGames} 局 (${percent(drawGames, finishedRounds)})`);
+printLine(`一炮多響: ${multipleWinnerRounds} 局 (${percent(multipleWinnerRounds, finishedRounds)})`);
+printLine(`平均回合數: ${finishedRounds > 0 ? (totalTurns / finishedRounds).toFixed(1) : '-'}`);
+printLine('胡牌類型 (佔所有胡牌):');
+printLine(`  天胡: ${winTypeCounts.heavenlyHu} (${percent(winTypeCounts.heavenlyHu, totalWins)})`);
+printLine(`  自摸: ${winTypeCounts.selfDrawn} (${percent(winTypeCounts.selfDrawn, totalWins)})`);
+printLine(`  食胡: ${winTypeCounts.discard} (${percent(winTypeCounts.discard, totalWins)})`);
+printLine('特殊時機 (佔所有胡牌):');
+specialTimingCounts.forEach((count, pattern) => printLine(`  ${FAN_PATTERNS[pattern].name}: ${count} (${percent(count, totalWins)})`));
+
+process.exit(0);
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { GameState, GamePhase, TileKind, PLAYABLE_TILE_KINDS, TILES_PER_KIND, createSeededRandom } from '@xiangqi-mahjong/core';
+import { getUnseenTiles, sampleHiddenState, evaluateDiscardsBySearch } from './monteCarloSearch';
+import { toTiles, createPlayer, createGameState } from './testFixtures';
+
+// 建立四人桌的牌局狀態：座位 0 為 AI，其餘座位的手牌內容不會被搜尋讀取 (只讀張數)
+const createState = (): GameState => createGameState(
+  ['兵兵將仕相車傌', '仕仕士士象象象', '相相相帥帥帥俥', '卒卒卒卒傌傌炮'].map((hand, id) => createPlayer(id, hand, { aiDifficulty: 'strong' })),
+  { deck: toTiles('俥俥俥炮炮將將士象'), discardPile: toTiles('兵兵'), gamePhase: GamePhase.PLAYER_DRAWN, turnNumber: 4, roundSeed: 7 },
+);
+
+// 只以抽樣次數為限的搜尋資源 (結果與機器速度無關)
+const SAMPLE_ONLY_BUDGET = { maxSamples: 5, timeBudgetMs: Infinity };
+
+describe('getUnseenTiles', () => {
+  it('整副牌扣除自己的手牌與棄牌堆，不讀取對手手牌', () => {
+    const state = createState();
+    const ai = state.players[0];
+    const hand = [...ai.hand, ...toTiles('炮')];
+    const unseen = getUnseenTiles(hand, ai, state);
+    expect(unseen).toHaveLength(PLAYABLE_TILE_KINDS.length * TILES_PER_KIND - hand.length - state.discardPile.length);
+    expect(unseen.some(tile => tile.kind === TileKind.R_SOLDIER)).toBe(false); // 四張 兵 都已現身
+  });
+});
+
+describe('sampleHiddenState', () => {
+  it('依各對手的手牌張數與牌堆張數分配看不到的牌', () => {
+    const state = createState();
+    const ai = state.players[0];
+    const unseen = getUnseenTiles(ai.hand, ai, state);
+    const sample = sampleHiddenState(unseen, ai, state, createSeededRandom(1));
+    expect([...sample.opponentHands.keys()]).toEqual([1, 2, 3]);
+    sample.opponentHands.forEach(hand => expect(hand).toHaveLength(7));
+    expect(sample.wall).toHaveLength(state.deck.length);
+  });
+});
+
+describe('evaluateDiscardsBySearch', () => {
+  it('每種手牌各評估一次，且相同局面的結果可重現', () => {
+    const state = createState();
+    const ai = state.players[0];
+    const hand = [...ai.hand, ...toTiles('炮')];
+    const scores = evaluateDiscardsBySearch(hand, ai, state, SAMPLE_ONLY_BUDGET);
+    expect([...scores.keys()].sort()).toEqual([...new Set(hand.map(tile => tile.kind))].sort());
+    expect(evaluateDiscardsBySearch(hand, ai, state, SAMPLE_ONLY_BUDGET)).toEqual(scores);
+  });
+
+  it('抽樣只依 AI 看得到的資訊，不受本局洗牌種子影響', () => {
+    const state = createState();
+    const ai = state.players[0];
+    const hand = [...ai.hand, ...toTiles('炮')];
+    expect(evaluateDiscardsBySearch(hand, ai, { ...state, roundSeed: 8 }, SAMPLE_ONLY_BUDGET))
+      .toEqual(evaluateDiscardsBySearch(hand, ai, state, SAMPLE_ONLY_BUDGET));
+  });
+});
@@ -0,0 +1,226 @@
+import {
+  GameState, Player, Tile, TileKind, Meld, MeldDesignation, GameActionPayload, RuleSet, // 引入類型定義
+  TILE_KIND_DETAILS, PLAYABLE_TILE_KINDS, TILES_PER_KIND, // 引入常數
+  shuffleDeck, createSeededRandom, // 引入牌堆管理函數
+  checkWinCondition, countTilesOfKind, // 引入遊戲規則函數
+  calculateShanten, getVisibleTiles, // 引入向聽數計算
+} from '@xiangqi-mahjong/core';
+import { SampledHiddenState, SearchBudget } from '../types'; // 引入伺服器專用類型定義
+import { calculateScoreBreakdown } from './scoring'; // 引入計分函數
+import { AI_SEARCH_TIME_BUDGET_MS, AI_SEARCH_MAX_SAMPLES, AI_SEARCH_ROLLOUT_MAX_DRAWS, AI_SEARCH_SHANTEN_PENALTY } from '../constants'; // 引入 AI 搜尋常數
+
+// 高手 AI 的蒙地卡羅搜尋：從 AI 看不到的牌中抽樣對手的手牌與牌堆順序，
+// 對每個候選動作推演簡化的後續牌局 (各家都只在摸到的牌能降低向聽數時換牌)，以自己的平均得分作為該動作的期望值。
+// 只使用 AI 看得到的資訊：自己的手牌、所有公開的牌、各對手的手牌張數與面子、牌堆剩餘張數。
+// 放槍與對手自摸都會扣分，因此期望值同時反映進攻 (手牌效率) 與防守 (危險度)；
+// 宣告面子會讓手牌失去門清台，也由計分自然反映。
+
+// 預設的搜尋資源上限
+export const DEFAULT_SEARCH_BUDGET: Readonly<SearchBudget> = {
+  maxSamples: AI_SEARCH_MAX_SAMPLES,
+  timeBudgetMs: AI_SEARCH_TIME_BUDGET_MS,
+};
+
+// 一次推演的起點：自己的手牌與面子、剛打出 (尚待其他玩家宣告) 的牌，以及下一個摸牌的座位
+interface RolloutStart {
+  hand: Tile[];
+  melds: Meld[];
+  pendingDiscard: Tile | null;
+  nextSeatId: number;
+}
+
+// 取得 AI 看不到的牌 (其他玩家的手牌、暗槓與牌堆)：整副牌扣除自己的手牌與所有看得到的牌
+// hand 為 AI 目前完整的手牌 (摸牌後包含剛摸到的牌)
+export const getUnseenTiles = (hand: Tile[], aiPlayer: Player, gameState: GameState): Tile[] => {
+  const seenTiles = [...hand, ...getVisibleTiles(gameState, aiPlayer.id)];
+  return PLAYABLE_TILE_KINDS.flatMap(kind =>
+    Array.from({ length: Math.max(0, TILES_PER_KIND - countTilesOfKind(seenTiles, kind)) }, (_, index) => ({
+      id: `unseen-${kind}-${index}`,
+      kind,
+      suit: TILE_KIND_DETAILS[kind].suit,
+    })));
+};
+
+// 從看不到的牌中抽樣一次：依各對手的手牌張數分配手牌，剩下的牌依牌堆張數作為摸牌順序
+export const sampleHiddenState = (unseenTiles: Tile[], aiPlayer: Player, gameState: GameState, random: () => number): SampledHiddenState => {
+  const shuffled = shuffleDeck(unseenTiles, random);
+  const opponentHands = new Map<number, Tile[]>();
+  let offset = 0;
+  gameState.players.filter(p => p.id !== aiPlayer.id).forEach(opponent => {
+    opponentHands.set(opponent.id, shuffled.slice(offset, offset + opponent.hand.length));
+    offset += opponent.hand.length;
+  });
+  return { opponentHands, wall: shuffled.slice(offset, offset + gameState.deck.length) };
+};
+
+// 由局面決定搜尋用的隨機數種子，使相同局面 (與相同抽樣次數) 的決策可重現
+// 只使用 AI 看得到的資訊 (座位、自己的手牌、棄牌堆與各家公開的面子)，不使用本局的洗牌種子等秘密資訊
+const getSearchSeed = (hand: Tile[], aiPlayer: Player, gameState: GameState): number => {
+  const kindsOf = (tiles: Tile[]) => tiles.map(t => t.kind).join('');
+  const publicKey = [
+    aiPlayer.id,
+    kindsOf([...hand].sort((a, b) => a.kind.localeCompare(b.kind))),
+    kindsOf(gameState.discardPile),
+    ...gameState.players.map(p => p.melds.filter(m => m.isOpen || p.id === aiPlayer.id).map(m => kindsOf(m.tiles)).join(',')), // 對手的暗槓看不到
+  ].join('|');
+  // FNV-1a 雜湊
+  let hash = 0x811C9DC5;
+  for (let i = 0; i < publicKey.length; i++) {
+    hash = Math.imul(hash ^ publicKey.charCodeAt(i), 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+// 在資源上限內重複抽樣，每次抽樣對所有候選項各推演一次 (共用同一份抽樣以降低比較時的變異)，返回各候選項的平均得分
+const runSampledRollouts = (
+  candidateCount: number,
+  hand: Tile[],
+  aiPlayer: Player,
+  gameState: GameState,
+  budget: SearchBudget,
+  rollout: (candidateIndex: number, sample: SampledHiddenState) => number,
+): number[] => {
+  const unseenTiles = getUnseenTiles(hand, aiPlayer, gameState);
+  const random = createSeededRandom(getSearchSeed(hand, aiPlayer, gameState));
+  const totals: number[] = Array(candidateCount).fill(0);
+  const startedAt = Date.now();
+  let sampleCount = 0;
+  while (sampleCount < budget.maxSamples && (sampleCount === 0 || Date.now() - startedAt < budget.timeBudgetMs)) {
+    const sample = sampleHiddenState(unseenTiles, aiPlayer, gameState, random);
+    for (let i = 0; i < candidateCount; i++) totals[i] += rollout(i, sample);
+    sampleCount++;
+  }
+  return totals.map(total => total / sampleCount);
+};
+
+// 推演時各家的打牌策略：摸到的牌能降低向聽數就留下並打出不影響向聽數的牌，否則摸什麼打什麼
+const chooseRolloutDiscard = (hand: Tile[], drawnTile: Tile, melds: Meld[], ruleSet: RuleSet, shanten: number): { discard: Tile; hand: Tile[]; shanten: number } => {
+  const fullHand = [...hand, drawnTile];
+  if (calculateShanten(fullHand, melds, ruleSet) < shanten) {
+    for (const tile of hand) {
+      const remainingHand = fullHand.filter(t => t !== tile);
+      const remainingShanten = calculateShanten(remainingHand, melds, ruleSet);
+      if (remainingShanten < shanten) return { discard: tile, hand: remainingHand, shanten: remainingShanten };
+    }
+  }
+  return { discard: drawnTile, hand, shanten };
+};
+
+// 推演一次後續牌局，返回 AI 在這次推演中的得分 (胡牌為正、放槍或對手自摸為負、流局為 0)
+const runRollout = (aiPlayer: Player, gameState: GameState, start: RolloutStart, sample: SampledHiddenState): number => {
+  const { ruleSet } = gameState;
+  const seatIds = gameState.players.map(p => p.id);
+  const getNextSeatId = (seatId: number) => seatIds[(seatIds.indexOf(seatId) + 1) % seatIds.length];
+  const getMelds = (seatId: number) => seatId === aiPlayer.id ? start.melds : (gameState.players.find(p => p.id === seatId)?.melds ?? []);
+  const hands = new Map(sample.opponentHands).set(aiPlayer.id, start.hand);
+  const shantens = new Map(seatIds.map(seatId => [seatId, calculateShanten(hands.get(seatId) ?? [], getMelds(seatId), ruleSet)]));
+  const getHand = (seatId: number) => hands.get(seatId) ?? [];
+
+  // 以實際的計分規則計算胡牌結算中 AI 的得分
+  const scoreWin = (winnerId: number, winType: 'selfDrawn' | 'discard', discarderId: number | null, winningHand: Tile[]): number => {
+    const win = checkWinCondition(winningHand, getMelds(winnerId), ruleSet);
+    const breakdown = calculateScoreBreakdown({
+      winnerId, winType, discarderId, playerIds: seatIds, isDealer: winnerId === gameState.dealerIndex,
+      isHeavenlyHu: false, isEarthlyHu: false, isRobbingKong: false, isKongBloom: false, isLastTileDraw: false, isLastDiscard: false,
+      winningMelds: win.winningMelds ?? [], winningPair: win.winningPair ?? null, existingMelds: getMelds(winnerId),
+    });
+    return breakdown.payments.find(payment => payment.playerId === aiPlayer.id)?.amount ?? 0;
+  };
+
+  // 依打牌者下家起算的座位順序，找出第一位可以胡這張棄牌的玩家 (只計一位)
+  const scoreDiscard = (discarderId: number, tile: Tile): number | null => {
+    for (let seatId = getNextSeatId(discarderId); seatId !== discarderId; seatId = getNextSeatId(seatId)) {
+      const winningHand = [...getHand(seatId), tile];
+      if (checkWinCondition(winningHand, getMelds(seatId), ruleSet).isWin) return scoreWin(seatId, 'discard', discarderId, winningHand);
+    }
+    return null;
+  };
+
+  if (start.pendingDiscard) {
+    const discardScore = scoreDiscard(aiPlayer.id, start.pendingDiscard);
+    if (discardScore !== null) return discardScore;
+  }
+
+  const drawLimit = Math.min(AI_SEARCH_ROLLOUT_MAX_DRAWS, sample.wall.length - ruleSet.reservedTileCount);
+  let seatId = start.nextSeatId;
+  for (let drawIndex = 0; drawIndex < drawLimit; drawIndex++) {
+    const drawnTile = sample.wall[drawIndex];
+    const drawnHand = [...getHand(seatId), drawnTile];
+    if (checkWinCondition(drawnHand, getMelds(seatId), ruleSet).isWin) return scoreWin(seatId, 'selfDrawn', null, drawnHand);
+
+    const { discard, hand, shanten } = chooseRolloutDiscard(getHand(seatId), drawnTile, getMelds(seatId), ruleSet, shantens.get(seatId) ?? Infinity);
+    hands.set(seatId, hand);
+    shantens.set(seatId, shanten);
+    const discardScore = scoreDiscard(seatId, discard);
+    if (discardScore !== null) return discardScore;
+    seatId = getNextSeatId(seatId);
+  }
+  return 0;
+};
+
+// 評估打出手牌中每一種牌的期望得分 (同種牌只算一次)
+// hand 為 AI 目前完整的手牌 (摸牌後包含剛摸到的牌)
+export const evaluateDiscardsBySearch = (
+  hand: Tile[],
+  aiPlayer: Player,
+  gameState: GameState,
+  budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+): Map<TileKind, number> => {
+  const candidates = hand.filter((tile, index) => hand.findIndex(t => t.kind === tile.kind) === index);
+  const nextSeatId = gameState.players[(gameState.players.findIndex(p => p.id === aiPlayer.id) + 1) % gameState.players.length].id;
+  const expectedScores = runSampledRollouts(candidates.length, hand, aiPlayer, gameState, budget, (i, sample) => runRollout(aiPlayer, gameState, {
+    hand: hand.filter(t => t.id !== candidates[i].id),
+    melds: aiPlayer.melds,
+    pendingDiscard: candidates[i],
+    nextSeatId,
+  }, sample));
+  return new Map(candidates.map((tile, i) => [tile.kind, expectedScores[i]]));
+};
+
+// 宣告碰或吃的候選項：宣告動作與用來組成面子的手牌
+export interface MeldClaimCandidate {
+  action: GameActionPayload;
+  tilesFromHand: Tile[];
+  designation: MeldDesignation;
+}
+
+// 比較跳過與各宣告候選項的期望得分 (扣除向聽數懲罰)，返回最佳的宣告動作 (跳過較佳或同分時返回 null)
+// 宣告後打出的牌以向聽數最低者為準；跳過時由打牌者的下家接著摸牌
+export const chooseMeldClaimBySearch = (
+  aiPlayer: Player,
+  discardedTile: Tile,
+  discarderId: number,
+  candidates: MeldClaimCandidate[],
+  gameState: GameState,
+  budget: SearchBudget = DEFAULT_SEARCH_BUDGET,
+): GameActionPayload | null => {
+  if (candidates.length === 0) return null;
+  const { ruleSet } = gameState;
+  const seatIds = gameState.players.map(p => p.id);
+  const getNextSeatId = (seatId: number) => seatIds[(seatIds.indexOf(seatId) + 1) % seatIds.length];
+
+  const startShantens: number[] = [calculateShanten(aiPlayer.hand, aiPlayer.melds, ruleSet)];
+  const claimStarts: RolloutStart[] = candidates.map(candidate => {
+    const remainingHand = aiPlayer.hand.filter(t => !candidate.tilesFromHand.some(used => used.id === t.id));
+    const melds: Meld[] = [...aiPlayer.melds, { id: 'ai-search-claim', designation: candidate.designation, tiles: [...candidate.tilesFromHand, discardedTile], isOpen: true }];
+    const discard = remainingHand.reduce<{ tile: Tile | null; shanten: number }>((best, tile) => {
+      const shanten = calculateShanten(remainingHand.filter(t => t.id !== tile.id), melds, ruleSet);
+      return shanten < best.shanten ? { tile, shanten } : best;
+    }, { tile: null, shanten: Infinity });
+    startShantens.push(discard.shanten);
+    return {
+      hand: remainingHand.filter(t => t.id !== discard.tile?.id),
+      melds,
+      pendingDiscard: discard.tile,
+      nextSeatId: getNextSeatId(aiPlayer.id),
+    };
+  });
+  const passStart: RolloutStart = { hand: aiPlayer.hand, melds: aiPlayer.melds, pendingDiscard: null, nextSeatId: getNextSeatId(discarderId) };
+
+  const starts = [passStart, ...claimStarts];
+  const expectedScores = runSampledRollouts(starts.length, aiPlayer.hand, aiPlayer, gameState, budget,
+    (i, sample) => runRollout(aiPlayer, gameState, starts[i], sample));
+  const values = expectedScores.map((score, i) => score - startShantens[i] * AI_SEARCH_SHANTEN_PENALTY);
+  const bestIndex = values.reduce((best, value, i) => value > values[best] ? i : best, 0);
+  return bestIndex === 0 ? null : candidates[bestIndex - 1].action;
+};
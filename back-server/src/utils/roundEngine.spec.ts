@@ -0,0 +1,434 @@
+import { describe, it, expect } from 'vitest';
+import {
+  GameState, GamePhase, MeldDesignation, RoundAction, RuleSet, TileKind,
+  DEFAULT_RULE_SET, PLAYABLE_TILE_KINDS, getChiOptions, createSeededRandom,
+} from '@xiangqi-mahjong/core';
+import { applyRoundAction, closeEmptyClaimWindow, getLegalActions, getNextDealerIndex, getPlayersToAct, isClaimWindowOpen, isRoundFinished, startRound } from './roundEngine';
+import { toTiles, createPlayer, createGameState } from './testFixtures';
+
+// 建立座位 0 剛摸到 drawn、等待出牌的牌局狀態 (其餘欄位為開局預設值)
+// hands: 各座位的手牌
+const createState = (hands: string[], drawn: string): GameState =>
+  createGameState(hands.map((hand, id) => createPlayer(id, hand)), { lastDrawnTile: toTiles(drawn)[0] });
+
+// 依序執行動作，每一步都以上一步的結果為輸入
+const runActions = (state: GameState, steps: [RoundAction, number][]) =>
+  steps.reduce(({ state: current }, [action, seat]) => applyRoundAction(current, action, seat), { state, events: [], accepted: true } as ReturnType<typeof applyRoundAction>);
+
+describe('宣告窗口', () => {
+  // 座位 0 打出 士：座位 2 可槓或碰，座位 1 (下家) 可吃，座位 3 無宣告
+  const hands = ['將將將將兵兵兵', '將象車馬包卒兵', '士士士卒兵兵炮', '士傌傌俥俥炮兵'];
+  const discardDrawnTile = (state: GameState) => applyRoundAction(state, { type: 'DISCARD_TILE', tileId: state.lastDrawnTile!.id }, state.currentPlayerIndex);
+  const chiWith = (state: GameState, seat: number): RoundAction =>
+    ({ type: 'CLAIM_CHI', tilesToChiWith: getChiOptions(state.players[seat].hand, state.lastDiscardedTile!)[0], discardedTile: state.lastDiscardedTile! });
+
+  it('所有可宣告的玩家同時作答，各自持有自己的選項', () => {
+    const { state } = discardDrawnTile(createState(hands, '士'));
+    expect(isClaimWindowOpen(state)).toBe(true);
+    expect(getPlayersToAct(state)).toEqual([1, 2]);
+    expect(state.players[2].pendingClaims!.map(claim => claim.action)).toEqual(['Gang', 'Peng']);
+    expect(state.players[1].pendingClaims!.map(claim => claim.action)).toEqual(['Chi']);
+  });
+
+  it('先回覆的低優先宣告要等窗口結算，由優先順序較高的宣告勝出', () => {
+    const { state: afterDiscard } = discardDrawnTile(createState(hands, '士'));
+    const { state: afterChi } = applyRoundAction(afterDiscard, chiWith(afterDiscard, 1), 1);
+    expect(isClaimWindowOpen(afterChi)).toBe(true);
+    expect(getPlayersToAct(afterChi)).toEqual([2]);
+
+    const { state } = applyRoundAction(afterChi, { type: 'CLAIM_PENG', tile: afterChi.lastDiscardedTile! }, 2);
+    expect(state.currentPlayerIndex).toBe(2);
+    expect(state.gamePhase).toBe(GamePhase.AWAITING_DISCARD);
+    expect(state.players[1].melds).toHaveLength(0);
+    expect(state.players[2].melds).toHaveLength(1);
+  });
+
+  it('優先順序較高的玩家跳過時，由其他玩家的宣告勝出', () => {
+    const { state: afterDiscard } = discardDrawnTile(createState(hands, '士'));
+    const { state } = runActions(afterDiscard, [[{ type: 'PASS_CLAIM' }, 2], [chiWith(afterDiscard, 1), 1]]);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.players[1].melds).toHaveLength(1);
+  });
+
+  it('所有宣告者都跳過後，由打牌者的下家摸牌', () => {
+    const { state: afterDiscard } = discardDrawnTile(createState(hands, '士'));
+    const { state } = runActions(afterDiscard, [[{ type: 'PASS_CLAIM' }, 1], [{ type: 'PASS_CLAIM' }, 2]]);
+    expect(state.gamePhase).toBe(GamePhase.PLAYER_TURN_START);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.potentialClaims).toEqual([]);
+    expect(state.claimResponses).toEqual([]);
+    expect(state.lastDiscardedTile).toBeNull();
+    expect(state.discardPile.map(tile => tile.kind)).toEqual(['士']);
+  });
+
+  it('無人可宣告時同樣開啟窗口，公開的遊戲階段與訊息與有人可宣告時相同', () => {
+    const noClaimHands = ['將將將將兵兵兵', '車馬包卒兵兵炮', '俥傌炮卒卒兵兵', '相相帥仕兵炮炮'];
+    const withClaims = discardDrawnTile(createState(hands, '士'));
+    const withoutClaims = discardDrawnTile(createState(noClaimHands, '士'));
+    expect(withClaims.state.potentialClaims).not.toEqual([]);
+    expect(withoutClaims.state.potentialClaims).toEqual([]);
+    expect(withoutClaims.state.gamePhase).toBe(withClaims.state.gamePhase);
+    expect(withoutClaims.events).toEqual(withClaims.events);
+
+    // 窗口由呼叫端關閉，結算與所有宣告者都跳過時相同
+    const allPassed = runActions(withClaims.state, [[{ type: 'PASS_CLAIM' }, 1], [{ type: 'PASS_CLAIM' }, 2]]);
+    const closed = closeEmptyClaimWindow(withoutClaims.state);
+    expect(closed.accepted).toBe(true);
+    expect(closed.state.gamePhase).toBe(GamePhase.PLAYER_TURN_START);
+    expect(closed.state.currentPlayerIndex).toBe(1);
+    expect(closed.events).toEqual(allPassed.events);
+  });
+
+  it('仍有玩家需要回覆時不能關閉窗口', () => {
+    const { state } = discardDrawnTile(createState(hands, '士'));
+    expect(closeEmptyClaimWindow(state).accepted).toBe(false);
+  });
+
+  it('不能宣告自己沒有的選項，也不能重複回覆或替無宣告的座位回覆', () => {
+    const { state } = discardDrawnTile(createState(hands, '士'));
+    const chi = applyRoundAction(state, { type: 'CLAIM_CHI', tilesToChiWith: state.players[2].hand.slice(0, 2), discardedTile: state.lastDiscardedTile! }, 2);
+    expect(chi.accepted).toBe(false);
+    expect(getPlayersToAct(chi.state)).toEqual([1, 2]);
+
+    expect(applyRoundAction(state, { type: 'PASS_CLAIM' }, 3).accepted).toBe(false);
+    const { state: afterPass } = applyRoundAction(state, { type: 'PASS_CLAIM' }, 2);
+    expect(applyRoundAction(afterPass, { type: 'CLAIM_PENG', tile: afterPass.lastDiscardedTile! }, 2).accepted).toBe(false);
+  });
+
+  it('結算前的回覆不寫入訊息記錄', () => {
+    const { state: afterDiscard } = discardDrawnTile(createState(hands, '士'));
+    const { state, events } = applyRoundAction(afterDiscard, chiWith(afterDiscard, 1), 1);
+    expect(state.messageLog).toEqual(afterDiscard.messageLog);
+    expect(events).toEqual([]);
+  });
+
+  it('相同優先順序時依打牌者下家起算的座位順序決定', () => {
+    // 座位 2 打出 卒，座位 1 與座位 3 都能碰：座位 3 是打牌者的下家，先於座位 1
+    const initial = { ...createState(['將士象仕相俥俥', '卒卒俥傌將將士', '將將將將兵兵兵', '卒卒車馬相傌傌'], '卒'), currentPlayerIndex: 2 };
+    const { state: afterDiscard } = discardDrawnTile(initial);
+    const peng = (seat: number): [RoundAction, number] => [{ type: 'CLAIM_PENG', tile: afterDiscard.lastDiscardedTile! }, seat];
+    const { state } = runActions(afterDiscard, [peng(1), peng(3)]);
+    expect(state.currentPlayerIndex).toBe(3);
+    expect(state.players[3].melds).toHaveLength(1);
+    expect(state.players[1].melds).toHaveLength(0);
+  });
+});
+
+describe('一炮多響', () => {
+  // 座位 0 打出 卒：座位 1 (將士象 車馬包 卒) 與座位 3 (帥仕相 俥傌炮 卒) 都胡，座位 2 無宣告
+  const hands = ['士士象象車車馬', '將士象車馬包卒', '將將兵兵炮炮相', '帥仕相俥傌炮卒'];
+  const discardAndDeclare = (state: GameState, seats: number[]) => {
+    const { state: afterDiscard } = applyRoundAction(state, { type: 'DISCARD_TILE', tileId: state.lastDrawnTile!.id }, 0);
+    expect(getPlayersToAct(afterDiscard)).toEqual([1, 3]);
+    return runActions(afterDiscard, [1, 3].map(seat => [seats.includes(seat) ? { type: 'DECLARE_HU' } : { type: 'PASS_CLAIM' }, seat]));
+  };
+
+  it('所有宣告胡牌的玩家都胡，放槍者分別支付每一位贏家', () => {
+    const { state } = discardAndDeclare(createState(hands, '卒'), [1, 3]);
+    expect(state.gamePhase).toBe(GamePhase.ROUND_OVER);
+    expect(state.winnerIds).toEqual([1, 3]);
+    expect(state.winningTileDiscarderId).toBe(0);
+    expect(state.roundScoreBreakdowns.map(breakdown => breakdown.winnerId)).toEqual([1, 3]);
+
+    const [first, second] = state.roundScoreBreakdowns;
+    expect(state.players[0].score).toBe(-(first.pointsPerPayer + second.pointsPerPayer));
+    expect(state.players[1].score).toBe(first.pointsPerPayer);
+    expect(state.players[3].score).toBe(second.pointsPerPayer);
+    expect(state.players[2].score).toBe(0);
+    // 被胡的牌只從棄牌堆消耗一次，並顯示在每位贏家的手牌中
+    expect(state.discardPile).toEqual([]);
+    expect(state.players[1].hand).toHaveLength(8);
+    expect(state.players[3].hand).toHaveLength(8);
+  });
+
+  it('只有一位玩家宣告胡牌時只有他胡', () => {
+    const { state } = discardAndDeclare(createState(hands, '卒'), [3]);
+    expect(state.winnerIds).toEqual([3]);
+    expect(state.roundScoreBreakdowns).toHaveLength(1);
+  });
+
+  it('截胡規則下只有打牌者下家起算最近的玩家胡牌', () => {
+    const initial = { ...createState(hands, '卒'), ruleSet: { ...DEFAULT_RULE_SET, allowMultipleWinners: false } };
+    const { state } = discardAndDeclare(initial, [1, 3]);
+    expect(state.winnerIds).toEqual([1]);
+    expect(state.roundScoreBreakdowns).toHaveLength(1);
+    expect(state.players[3].score).toBe(0);
+    expect(state.players[3].hand).toHaveLength(7);
+  });
+});
+
+describe('搶槓胡', () => {
+  // 座位 0 已碰 馬馬馬、摸到第四張 馬：座位 1 (將士象 車_包 卒卒) 可搶槓，座位 2 與座位 3 不胡 馬
+  const hands = ['士象車車', '將士象車包卒卒', '將將兵兵炮炮相', '帥仕相俥傌炮兵'];
+  const createKongState = (robberHand = hands[1]): GameState => {
+    const state = createState([hands[0], robberHand, hands[2], hands[3]], '馬');
+    state.players[0].melds = [{ id: 'meld-0', designation: MeldDesignation.KEZI, tiles: toTiles('馬馬馬'), isOpen: true, claimedFromPlayerId: 2 }];
+    return { ...state, gamePhase: GamePhase.PLAYER_DRAWN };
+  };
+  const declareKong = (state: GameState) => applyRoundAction(state, { type: 'DECLARE_MING_GANG_FROM_HAND', tileKind: '馬' as TileKind }, 0);
+
+  it('加槓時開啟只能胡牌的宣告窗口', () => {
+    const { state } = declareKong(createKongState());
+    expect(isClaimWindowOpen(state)).toBe(true);
+    expect(getPlayersToAct(state)).toEqual([1]);
+    expect(state.players[1].pendingClaims!.map(claim => claim.action)).toEqual(['Hu']);
+    expect(state.robbableKong?.playerId).toBe(0);
+    expect(state.players[0].melds[0].designation).toBe(MeldDesignation.KEZI);
+    expect(state.discardPile).toEqual([]);
+  });
+
+  it('搶槓胡以食胡計分，由加槓的玩家支付', () => {
+    const { state: afterKong } = declareKong(createKongState());
+    const { state } = applyRoundAction(afterKong, { type: 'DECLARE_HU' }, 1);
+    expect(state.gamePhase).toBe(GamePhase.ROUND_OVER);
+    expect(state.winnerIds).toEqual([1]);
+    expect(state.winType).toBe('discard');
+    expect(state.winningTileDiscarderId).toBe(0);
+    expect(state.robbableKong).toBeNull();
+
+    const [breakdown] = state.roundScoreBreakdowns;
+    expect(breakdown.items.map(item => item.pattern)).toContain('ROBBING_KONG');
+    expect(state.players[0].score).toBe(-breakdown.pointsPerPayer);
+    expect(state.players[1].score).toBe(breakdown.pointsPerPayer);
+    expect(state.players[0].melds[0].tiles).toHaveLength(3);
+  });
+
+  it('無人搶槓時加槓成立，由加槓的玩家摸牌', () => {
+    const { state: afterKong } = declareKong(createKongState());
+    const { state } = applyRoundAction(afterKong, { type: 'PASS_CLAIM' }, 1);
+    expect(state.gamePhase).toBe(GamePhase.PLAYER_TURN_START);
+    expect(state.currentPlayerIndex).toBe(0);
+    expect(state.players[0].melds[0].designation).toBe(MeldDesignation.GANGZI);
+    expect(state.players[0].melds[0].tiles).toHaveLength(4);
+    expect(state.robbableKong).toBeNull();
+    expect(state.lastDiscardedTile).toBeNull();
+    expect(state.claimResponses).toEqual([]);
+  });
+
+  it('沒有玩家能搶槓時直接加槓', () => {
+    const { state } = declareKong(createKongState('將士象車包卒兵'));
+    expect(isClaimWindowOpen(state)).toBe(false);
+    expect(state.gamePhase).toBe(GamePhase.PLAYER_TURN_START);
+    expect(state.players[0].melds[0].designation).toBe(MeldDesignation.GANGZI);
+  });
+
+  it('搶槓窗口中不能碰或槓加槓的牌', () => {
+    const { state } = declareKong(createKongState());
+    expect(applyRoundAction(state, { type: 'CLAIM_PENG', tile: state.lastDiscardedTile! }, 1).accepted).toBe(false);
+  });
+});
+
+describe('特殊時機的胡牌', () => {
+  const patternsOf = (state: GameState) => state.roundScoreBreakdowns.flatMap(breakdown => breakdown.items.map(item => item.pattern));
+  const announcementsOf = (events: ReturnType<typeof applyRoundAction>['events']) =>
+    events.flatMap(event => event.type === 'announcement' ? [event.text] : []);
+
+  it('槓牌後補摸的牌自摸為槓上開花', () => {
+    // 座位 0 暗槓 將 後補摸 包：車馬包 + 卒卒
+    const initial = { ...createState(['將將將車馬卒卒', '', '', ''], '將'), deck: toTiles('包相相'), gamePhase: GamePhase.PLAYER_DRAWN };
+    const { state: afterDraw } = runActions(initial, [[{ type: 'DECLARE_AN_GANG', tileKind: '將' as TileKind }, 0], [{ type: 'DRAW_TILE' }, 0]]);
+    expect(afterDraw.isKongReplacementDraw).toBe(true);
+
+    const { state, events } = applyRoundAction(afterDraw, { type: 'DECLARE_HU' }, 0);
+    expect(patternsOf(state)).toEqual(expect.arrayContaining(['SELF_DRAWN', 'KONG_BLOOM']));
+    expect(announcementsOf(events)).toEqual(['槓上開花']);
+  });
+
+  it('補牌的回合打牌後不再算槓上開花', () => {
+    const initial = { ...createState(['將將將車馬卒卒', '', '', ''], '將'), gamePhase: GamePhase.PLAYER_DRAWN };
+    const { state: afterKong } = runActions(initial, [[{ type: 'DECLARE_AN_GANG', tileKind: '將' as TileKind }, 0], [{ type: 'DRAW_TILE' }, 0]]);
+    const { state } = applyRoundAction(afterKong, { type: 'DISCARD_TILE', tileId: afterKong.lastDrawnTile!.id }, 0);
+    expect(state.isKongReplacementDraw).toBe(false);
+  });
+
+  it('以牌堆最後一張牌自摸為海底撈月', () => {
+    const initial = { ...createState(['將士象車馬包卒', '', '', ''], '卒'), deck: [], gamePhase: GamePhase.PLAYER_DRAWN };
+    const { state, events } = applyRoundAction(initial, { type: 'DECLARE_HU' }, 0);
+    expect(patternsOf(state)).toContain('LAST_TILE_DRAW');
+    expect(patternsOf(state)).not.toContain('KONG_BLOOM');
+    expect(announcementsOf(events)).toEqual(['海底撈月']);
+  });
+
+  it('牌堆摸完後胡最後一張棄牌為河底撈魚', () => {
+    const initial = { ...createState(['士士象象車車馬', '將士象車馬包卒', '將將兵兵炮炮相', '帥仕相俥傌炮兵'], '卒'), deck: [] };
+    const { state: afterDiscard } = applyRoundAction(initial, { type: 'DISCARD_TILE', tileId: initial.lastDrawnTile!.id }, 0);
+    const { state, events } = applyRoundAction(afterDiscard, { type: 'DECLARE_HU' }, 1);
+    expect(state.winnerIds).toEqual([1]);
+    expect(patternsOf(state)).toContain('LAST_DISCARD');
+    expect(announcementsOf(events)).toEqual(['河底撈魚']);
+  });
+
+  describe('地胡', () => {
+    // 座位 1 (閒家) 第一次摸牌摸到 卒：將士象 + 車馬包 + 卒卒
+    const createFirstDrawState = () => ({
+      ...createState(['士士象象車車馬', '將士象車馬包卒', '將將兵兵炮炮相', '帥仕相俥傌炮兵'], '相'),
+      deck: toTiles('卒相相'), currentPlayerIndex: 1, lastDrawnTile: null, gamePhase: GamePhase.PLAYER_TURN_START,
+    });
+
+    it('閒家第一次摸牌即自摸為地胡，不另計自摸與門清', () => {
+      const { state, events } = runActions(createFirstDrawState(), [[{ type: 'DRAW_TILE' }, 1], [{ type: 'DECLARE_HU' }, 1]]);
+      expect(state.winnerIds).toEqual([1]);
+      expect(patternsOf(state)).toContain('EARTHLY_HU');
+      expect(patternsOf(state)).not.toContain('SELF_DRAWN');
+      expect(patternsOf(state)).not.toContain('CONCEALED_HAND');
+      expect(announcementsOf(events)).toEqual(['地胡']);
+    });
+
+    it('之前已有人吃碰槓時不算地胡', () => {
+      const initial = createFirstDrawState();
+      initial.players[2].melds = [{ id: 'meld-2', designation: MeldDesignation.KEZI, tiles: toTiles('兵兵兵'), isOpen: true, claimedFromPlayerId: 0 }];
+      const { state } = runActions(initial, [[{ type: 'DRAW_TILE' }, 1], [{ type: 'DECLARE_HU' }, 1]]);
+      expect(patternsOf(state)).not.toContain('EARTHLY_HU');
+      expect(patternsOf(state)).toContain('SELF_DRAWN');
+    });
+
+    it('第二輪以後的自摸不算地胡', () => {
+      const initial = { ...createFirstDrawState(), turnNumber: 6 };
+      const { state } = runActions(initial, [[{ type: 'DRAW_TILE' }, 1], [{ type: 'DECLARE_HU' }, 1]]);
+      expect(patternsOf(state)).not.toContain('EARTHLY_HU');
+    });
+  });
+});
+
+describe('留牌與流局', () => {
+  // 輪到座位 1 摸牌時牌堆只剩 2 張：座位 0 與座位 3 聽 卒，座位 1 與座位 2 未聽牌
+  const hands = ['將士象車馬包卒', '將將兵兵炮炮相', '士士象象車車馬', '帥仕相俥傌炮卒'];
+  const drawAtReservedTiles = (rules: Partial<RuleSet>) => {
+    const initial = {
+      ...createState(hands, '相'), deck: toTiles('相相'), currentPlayerIndex: 1, lastDrawnTile: null, gamePhase: GamePhase.PLAYER_TURN_START,
+      ruleSet: { ...DEFAULT_RULE_SET, reservedTileCount: 2, ...rules },
+    };
+    return applyRoundAction(initial, { type: 'DRAW_TILE' }, 1).state;
+  };
+
+  it('牌堆只剩留牌時流局，並記錄聽牌的玩家', () => {
+    const state = drawAtReservedTiles({});
+    expect(state.gamePhase).toBe(GamePhase.ROUND_OVER);
+    expect(state.isDrawGame).toBe(true);
+    expect(state.deck).toHaveLength(2);
+    expect(state.drawGameSettlement?.tenpaiPlayerIds).toEqual([0, 3]);
+    expect(state.drawGameSettlement?.payments).toEqual([]);
+    expect(state.players.map(p => p.score)).toEqual([0, 0, 0, 0]);
+  });
+
+  it('牌堆多於留牌時照常摸牌', () => {
+    const state = drawAtReservedTiles({ reservedTileCount: 1 });
+    expect(state.gamePhase).toBe(GamePhase.PLAYER_DRAWN);
+    expect(state.deck).toHaveLength(1);
+  });
+
+  it('流局聽牌結算：每位未聽牌者分別支付每位聽牌者', () => {
+    const state = drawAtReservedTiles({ drawGameTenpaiSettlement: true });
+    const points = state.drawGameSettlement!.pointsPerPayer;
+    expect(points).toBeGreaterThan(0);
+    expect(state.players.map(p => p.score)).toEqual([2 * points, -2 * points, -2 * points, 2 * points]);
+  });
+
+  it('流局時依房間規則決定莊家連莊或輪莊', () => {
+    expect(getNextDealerIndex(drawAtReservedTiles({ drawGameDealerRule: 'rotate' }))).toBe(1);
+    expect(getNextDealerIndex(drawAtReservedTiles({ drawGameDealerRule: 'retain' }))).toBe(0);
+    expect(getNextDealerIndex(drawAtReservedTiles({ drawGameDealerRule: 'retainIfTenpai' }))).toBe(0);
+
+    // 莊家 (座位 0) 未聽牌時輪莊
+    const notTenpaiDealer = drawAtReservedTiles({ drawGameDealerRule: 'retainIfTenpai' });
+    expect(getNextDealerIndex({ ...notTenpaiDealer, drawGameSettlement: { ...notTenpaiDealer.drawGameSettlement!, tenpaiPlayerIds: [3] } })).toBe(1);
+  });
+
+  it('以牌堆摸到留牌前的最後一張自摸為海底撈月', () => {
+    const initial = {
+      ...createState(['將士象車馬包卒', '', '', ''], '卒'), deck: toTiles('相相'), gamePhase: GamePhase.PLAYER_DRAWN,
+      ruleSet: { ...DEFAULT_RULE_SET, reservedTileCount: 2 },
+    };
+    const { state } = applyRoundAction(initial, { type: 'DECLARE_HU' }, 0);
+    expect(state.roundScoreBreakdowns[0].items.map(item => item.pattern)).toContain('LAST_TILE_DRAW');
+  });
+});
+
+describe('合法動作', () => {
+  // 某個座位在目前狀態下可能送出的所有動作 (不論是否合法)
+  const candidateActions = (state: GameState, seat: number): RoundAction[] => {
+    const player = state.players[seat];
+    const tiles = state.lastDrawnTile ? [...player.hand, state.lastDrawnTile] : player.hand;
+    const discarded = state.lastDiscardedTile;
+    return [
+      { type: 'DRAW_TILE' },
+      { type: 'DECLARE_HU' },
+      { type: 'PASS_CLAIM' },
+      ...tiles.map((tile): RoundAction => ({ type: 'DISCARD_TILE', tileId: tile.id })),
+      ...PLAYABLE_TILE_KINDS.flatMap((tileKind): RoundAction[] => [{ type: 'DECLARE_AN_GANG', tileKind }, { type: 'DECLARE_MING_GANG_FROM_HAND', tileKind }]),
+      ...(discarded ? [
+        { type: 'CLAIM_PENG', tile: discarded } as RoundAction,
+        { type: 'CLAIM_GANG', tile: discarded } as RoundAction,
+        ...getChiOptions(player.hand, discarded).map((tilesToChiWith): RoundAction => ({ type: 'CLAIM_CHI', tilesToChiWith, discardedTile: discarded })),
+      ] : []),
+    ];
+  };
+
+  // 把合法動作清單轉成可送出的動作
+  const listedActions = (state: GameState, seat: number): RoundAction[] => {
+    const legal = getLegalActions(state, seat);
+    const discarded = state.lastDiscardedTile;
+    return [
+      ...(legal.canDraw ? [{ type: 'DRAW_TILE' } as RoundAction] : []),
+      ...(legal.selfDrawnHu || legal.claims.some(c => c.action === 'Hu') ? [{ type: 'DECLARE_HU' } as RoundAction] : []),
+      ...(legal.claims.length > 0 ? [{ type: 'PASS_CLAIM' } as RoundAction] : []),
+      ...legal.discardableTileIds.map((tileId): RoundAction => ({ type: 'DISCARD_TILE', tileId })),
+      ...legal.anGangKinds.map((tileKind): RoundAction => ({ type: 'DECLARE_AN_GANG', tileKind })),
+      ...legal.jiaGangKinds.map((tileKind): RoundAction => ({ type: 'DECLARE_MING_GANG_FROM_HAND', tileKind })),
+      ...(discarded && legal.claims.some(c => c.action === 'Peng') ? [{ type: 'CLAIM_PENG', tile: discarded } as RoundAction] : []),
+      ...(discarded && legal.claims.some(c => c.action === 'Gang') ? [{ type: 'CLAIM_GANG', tile: discarded } as RoundAction] : []),
+      ...legal.chiOptions.map((tilesToChiWith): RoundAction => ({ type: 'CLAIM_CHI', tilesToChiWith, discardedTile: discarded! })),
+    ];
+  };
+
+  // 每個座位的每個可能動作：列在合法動作中的必定被引擎接受，未列出的必定被拒絕
+  const expectLegalActionsMatchEngine = (state: GameState) => {
+    state.players.forEach(player => {
+      const listed = new Set(listedActions(state, player.id).map(action => JSON.stringify(action)));
+      candidateActions(state, player.id).forEach(action => {
+        const { accepted } = applyRoundAction(state, action, player.id);
+        expect({ seat: player.id, phase: state.gamePhase, action: action.type, accepted }).toEqual(
+          { seat: player.id, phase: state.gamePhase, action: action.type, accepted: listed.has(JSON.stringify(action)) });
+      });
+    });
+  };
+
+  it('隨機對局的每一步都與引擎的判定一致', () => {
+    [1, 2, 3].forEach(seed => {
+      const random = createSeededRandom(seed);
+      let state = startRound(createState(['', '', '', ''], '卒'), seed).state;
+      for (let step = 0; step < 200 && !isRoundFinished(state); step++) {
+        expectLegalActionsMatchEngine(state);
+        if (getPlayersToAct(state).length === 0) { // 無人可宣告的宣告窗口由呼叫端關閉
+          state = closeEmptyClaimWindow(state).state;
+          continue;
+        }
+        const seat = getPlayersToAct(state)[0];
+        const options = listedActions(state, seat);
+        state = applyRoundAction(state, options[Math.floor(random() * options.length)], seat).state;
+      }
+    });
+  });
+
+  it('莊家開局可天胡、暗槓或打出任一張牌', () => {
+    const state = { ...createState(['將將將將士象卒', '', '', ''], '卒'), turnNumber: 1 };
+    const legal = getLegalActions(state, 0);
+    expect(legal.selfDrawnHu).toBe('heavenly');
+    expect(legal.anGangKinds).toEqual([TileKind.B_GENERAL]);
+    expect(legal.discardableTileIds).toHaveLength(8);
+    expectLegalActionsMatchEngine(state);
+  });
+
+  it('摸到碰出刻子的第四張可加槓', () => {
+    const base = createState(['將士象卒', '', '', ''], '馬');
+    const state: GameState = {
+      ...base, gamePhase: GamePhase.PLAYER_DRAWN,
+      players: base.players.map(p => p.id === 0
+        ? { ...p, melds: [{ id: 'meld-0-0', designation: MeldDesignation.KEZI, tiles: toTiles('馬馬馬'), isOpen: true }] }
+        : p),
+    };
+    expect(getLegalActions(state, 0).jiaGangKinds).toEqual([TileKind.B_HORSE]);
+    expect(getLegalActions(state, 0).selfDrawnHu).toBeNull();
+    expectLegalActionsMatchEngine(state);
+  });
+});
@@ -0,0 +1,935 @@
+import {
+  GameState, Player, Tile, Meld, Claim, ClaimResponse, ClaimResponseAction, GamePhase, TileKind, MeldDesignation, RoundAction, ScorePayment, LegalActions, // 引入類型定義
+  TILE_KIND_DETAILS, PLAYABLE_TILE_KINDS, // 引入常數
+  createInitialDeck, shuffleDeck, dealTiles, sortHandVisually, createSeededRandom, // 引入牌堆管理函數
+  checkWinCondition, getChiOptions, canPeng, canMingGang, removeTilesFromHand, countTilesOfKind, // 引入遊戲規則函數
+  isTenpai, // 引入聽牌判定
+} from '@xiangqi-mahjong/core';
+import { RoundEngineEvent, RoundEngineResult } from '../types'; // 引入伺服器專用類型定義
+import { calculateScoreBreakdown, calculateDrawGameSettlement } from './scoring'; // 引入計分函數
+
+// 牌局引擎：不依賴 Socket、計時器或 AI 排程的純函數，負責一局中的發牌、摸牌、打牌、宣告、槓牌、胡牌與結算。
+// 每個對外函數都接收一份遊戲狀態並返回新的狀態與事件 (不修改輸入)，
+// 由呼叫端 (GameRoom、重播、模擬) 決定如何處理事件 (寫入訊息記錄、廣播、啟動計時器等)。
+
+// 單一步驟處理期間的工作區：狀態副本與累積的事件
+interface EngineContext {
+  state: GameState;
+  events: RoundEngineEvent[];
+}
+
+// 以輸入狀態的深拷貝建立工作區，確保輸入狀態不被修改
+const createContext = (state: GameState): EngineContext => ({
+  state: JSON.parse(JSON.stringify(state)),
+  events: [],
+});
+
+// 將工作區轉換為步驟結果
+const toResult = (ctx: EngineContext, accepted: boolean): RoundEngineResult => ({
+  state: ctx.state,
+  events: ctx.events,
+  accepted,
+});
+
+// 記錄一條遊戲訊息 (時間戳由呼叫端加上)
+const addLog = (ctx: EngineContext, message: string): void => {
+  ctx.events.push({ type: 'log', message });
+};
+
+// 記錄一個動作宣告特效
+const announce = (ctx: EngineContext, text: string, playerId: number, isMultiHuTarget = false): void => {
+  ctx.events.push({ type: 'announcement', text, playerId, isMultiHuTarget });
+};
+
+// 記錄動作被拒絕的原因 (通知執行動作的玩家)
+const rejectAction = (ctx: EngineContext, playerId: number, message: string): void => {
+  ctx.events.push({ type: 'actionRejected', playerId, message });
+};
+
+// 依座位索引取得玩家
+const findPlayer = (ctx: EngineContext, playerId: number | null): Player | undefined =>
+  ctx.state.players.find(p => p.id === playerId);
+
+// 依牌面順序排序面子中的牌
+const sortMeldTiles = (tiles: Tile[]): Tile[] =>
+  [...tiles].sort((a, b) => TILE_KIND_DETAILS[a.kind].orderValue - TILE_KIND_DETAILS[b.kind].orderValue);
+
+// 判斷遊戲階段是否為回合中 (摸牌前、已摸牌、等待出牌)
+const isTurnPhase = (phase: GamePhase): boolean =>
+  phase === GamePhase.PLAYER_TURN_START || phase === GamePhase.PLAYER_DRAWN || phase === GamePhase.AWAITING_DISCARD;
+
+// 判斷宣告窗口是否開啟 (棄牌後等待可宣告的玩家同時作答)
+export const isClaimWindowOpen = (state: GameState): boolean => state.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION;
+
+// 取得宣告窗口中尚未回覆的可宣告玩家 (依座位索引排序)
+export const getClaimantsAwaitingResponse = (state: GameState): number[] => {
+  if (!isClaimWindowOpen(state)) return [];
+  return state.players
+    .filter(p => (p.pendingClaims || []).length > 0 && !state.claimResponses.some(response => response.playerId === p.id))
+    .map(p => p.id);
+};
+
+// 取得目前需要行動的玩家 (宣告窗口中為尚未回覆的可宣告玩家，回合中為當前玩家)，無人需要行動時為空陣列
+export const getPlayersToAct = (state: GameState): number[] => {
+  if (isClaimWindowOpen(state)) return getClaimantsAwaitingResponse(state);
+  if (isTurnPhase(state.gamePhase)) return [state.currentPlayerIndex];
+  return [];
+};
+
+// 判斷本局是否已結束 (有人胡牌或流局)
+export const isRoundFinished = (state: GameState): boolean => state.winnerIds.length > 0 || state.isDrawGame;
+
+// 決定下一局的莊家：莊家胡牌 (包含一炮多響中的一位) 時連莊，流局時依房間規則連莊或輪莊，其餘情況由莊家的下家接莊
+export const getNextDealerIndex = (state: GameState): number => {
+  const nextDealerIndex = (state.dealerIndex + 1) % state.players.length;
+  if (state.winnerIds.length > 0) return state.winnerIds.includes(state.dealerIndex) ? state.dealerIndex : nextDealerIndex;
+  if (!state.isDrawGame) return nextDealerIndex;
+  switch (state.ruleSet.drawGameDealerRule) {
+    case 'retain': return state.dealerIndex;
+    case 'retainIfTenpai': return state.drawGameSettlement?.tenpaiPlayerIds.includes(state.dealerIndex) ? state.dealerIndex : nextDealerIndex;
+    default: return nextDealerIndex;
+  }
+};
+
+// 判斷牌堆是否已摸到只剩留牌 (之後無法再摸牌，最後摸到與打出的牌即為海底與河底)
+const isWallExhausted = (state: GameState): boolean => state.deck.length <= state.ruleSet.reservedTileCount;
+
+// 是否為莊家開局的第一回合 (手牌7張，第8張牌在 lastDrawnTile，等待打出第一張牌)
+const isDealerOpeningTurn = (state: GameState, player: Player): boolean =>
+  state.gamePhase === GamePhase.AWAITING_DISCARD && player.isDealer && state.turnNumber === 1;
+
+// 輪到自己時宣告胡牌的時機：莊家開局為天胡，已摸牌為自摸；不是宣告時機時返回 null
+const getSelfDrawnHuType = (state: GameState, player: Player): LegalActions['selfDrawnHu'] => {
+  if (state.currentPlayerIndex !== player.id) return null;
+  const isDealerFirstTurn = player.isDealer && state.turnNumber === 1;
+  switch (state.gamePhase) {
+    case GamePhase.PLAYER_DRAWN: return 'selfDrawn';
+    case GamePhase.AWAITING_DISCARD: // 莊家開局：手牌加上第8張牌
+      return isDealerFirstTurn && player.hand.length + (state.lastDrawnTile ? 1 : 0) === state.ruleSet.initialHandSizeDealer ? 'heavenly' : null;
+    case GamePhase.PLAYER_TURN_START: // 莊家開局暗槓後尚未補摸
+      return isDealerFirstTurn && player.hand.length === state.ruleSet.initialHandSizeNonDealer ? 'heavenly' : null;
+    default: return null;
+  }
+};
+
+// 計算某個座位目前的合法動作 (由 GameRoom 私下發送給該座位，客戶端只依此顯示操作按鈕)
+// 與各動作的處理函數使用相同的檢查：列出的動作都會被接受，未列出的動作都會被拒絕
+export const getLegalActions = (state: GameState, playerId: number): LegalActions => {
+  const noActions: LegalActions = {
+    canDraw: false, discardableTileIds: [], anGangKinds: [], jiaGangKinds: [], selfDrawnHu: null, claims: [], chiOptions: [],
+  };
+  const player = state.players.find(p => p.id === playerId);
+  if (!player || isRoundFinished(state)) return noActions;
+
+  // 宣告窗口中尚未回覆的玩家：只能宣告自己持有的選項或跳過
+  if (getClaimantsAwaitingResponse(state).includes(playerId)) {
+    const claims = player.pendingClaims || [];
+    const canChi = claims.some(c => c.action === 'Chi') && state.lastDiscardedTile !== null;
+    return { ...noActions, claims, chiOptions: canChi ? getChiOptions(player.hand, state.lastDiscardedTile!) : [] };
+  }
+  if (state.currentPlayerIndex !== playerId) return noActions;
+
+  const phase = state.gamePhase;
+  const isOpeningTurn = isDealerOpeningTurn(state, player);
+  const handWithDrawnTile = state.lastDrawnTile ? [...player.hand, state.lastDrawnTile] : player.hand;
+  const handForAnGang = phase === GamePhase.PLAYER_DRAWN || isOpeningTurn ? handWithDrawnTile : player.hand;
+  const canDeclareAnGang = phase === GamePhase.PLAYER_TURN_START || phase === GamePhase.PLAYER_DRAWN || isOpeningTurn;
+  const drawnTileForKong = phase === GamePhase.PLAYER_DRAWN ? state.lastDrawnTile : null;
+  const selfDrawnHu = getSelfDrawnHuType(state, player);
+  const canDeclareSelfDrawnHu = selfDrawnHu !== null && (selfDrawnHu === 'heavenly' || state.lastDrawnTile !== null) &&
+    checkWinCondition(handWithDrawnTile, player.melds, state.ruleSet).isWin;
+
+  return {
+    ...noActions,
+    canDraw: phase === GamePhase.PLAYER_TURN_START,
+    discardableTileIds: phase === GamePhase.PLAYER_DRAWN || phase === GamePhase.AWAITING_DISCARD ? handWithDrawnTile.map(t => t.id) : [],
+    anGangKinds: canDeclareAnGang ? PLAYABLE_TILE_KINDS.filter(kind => countTilesOfKind(handForAnGang, kind) >= 4) : [],
+    jiaGangKinds: drawnTileForKong && findPengMeldForKong(player, drawnTileForKong.kind) ? [drawnTileForKong.kind] : [],
+    selfDrawnHu: canDeclareSelfDrawnHu ? selfDrawnHu : null,
+  };
+};
+
+// 清除所有玩家的待宣告動作、潛在宣告列表、宣告窗口的回覆以及吃牌選項
+const clearClaims = (ctx: EngineContext): void => {
+  ctx.state.players.forEach(p => p.pendingClaims = []);
+  ctx.state.potentialClaims = [];
+  ctx.state.claimResponses = [];
+};
+
+// 檢查玩家對當前棄牌是否持有指定的宣告選項
+const hasPendingClaim = (player: Player, action: Claim['action']): boolean =>
+  (player.pendingClaims || []).some(claim => claim.action === action);
+
+// 宣告回覆對應的宣告類型 (跳過不對應任何宣告)
+const CLAIM_TYPE_BY_RESPONSE: Record<Exclude<ClaimResponseAction['type'], 'PASS_CLAIM'>, Claim['action']> = {
+  DECLARE_HU: 'Hu',
+  CLAIM_GANG: 'Gang',
+  CLAIM_PENG: 'Peng',
+  CLAIM_CHI: 'Chi',
+};
+
+// 宣告回覆無效時通知玩家的訊息
+const INVALID_CLAIM_RESPONSE_MESSAGES: Record<Exclude<ClaimResponseAction['type'], 'PASS_CLAIM'>, string> = {
+  DECLARE_HU: '現在不是宣告胡牌的時機。',
+  CLAIM_GANG: '無效的槓牌宣告。',
+  CLAIM_PENG: '無效的碰牌宣告。',
+  CLAIM_CHI: '無效的吃牌宣告。',
+};
+
+// 宣告回覆的優先順序 (依房間規則的 actionPriority)
+const getResponsePriority = (ctx: EngineContext, response: ClaimResponse): number => {
+  const { actionPriority } = ctx.state.ruleSet;
+  switch (response.action.type) {
+    case 'DECLARE_HU': return actionPriority.HU;
+    case 'CLAIM_GANG': return actionPriority.GANG;
+    case 'CLAIM_PENG': return actionPriority.PENG;
+    case 'CLAIM_CHI': return actionPriority.CHI;
+    default: return -1;
+  }
+};
+
+// 宣告的處理順序：優先順序高者優先，相同時依座位順序 (從打牌者的下家起算)
+const sortResponsesForResolution = (ctx: EngineContext, responses: ClaimResponse[]): ClaimResponse[] => {
+  const s = ctx.state;
+  const discarderId = s.lastDiscarderIndex ?? 0;
+  const seatDistance = (response: ClaimResponse) => (response.playerId - discarderId + s.players.length) % s.players.length;
+  return [...responses].sort((a, b) => getResponsePriority(ctx, b) - getResponsePriority(ctx, a) || seatDistance(a) - seatDistance(b));
+};
+
+// 結束本局：進入 ROUND_OVER 階段，並依胡牌時計算的台數明細結算得分
+const finishRound = (ctx: EngineContext): void => {
+  const state = ctx.state;
+  state.gamePhase = GamePhase.ROUND_OVER;
+
+  if (state.roundScoreBreakdowns.length > 0) {
+    // 每位贏家分別結算 (一炮多響時放槍者需支付每一位贏家)
+    state.roundScoreBreakdowns.forEach(breakdown => {
+      const itemsText = breakdown.items.map(item => `${item.name}${item.count > 1 ? `x${item.count}` : ''} ${item.tai}台`).join('、') || '無';
+      const payerText = breakdown.winType === 'selfDrawn' ? '每家' : '放槍者';
+      addLog(ctx, `${findPlayer(ctx, breakdown.winnerId)?.name} 共 ${breakdown.totalTai} 台 (${itemsText})，${payerText}支付 ${breakdown.pointsPerPayer} 分。`);
+      applyScorePayments(ctx, breakdown.payments);
+    });
+  } else if (state.isDrawGame) {
+    const settlement = state.drawGameSettlement;
+    if (settlement) {
+      const tenpaiNames = settlement.tenpaiPlayerIds.map(id => findPlayer(ctx, id)?.name).join('、');
+      addLog(ctx, tenpaiNames ? `流局時聽牌: ${tenpaiNames}。` : "流局時無人聽牌。");
+    }
+    if (settlement && settlement.payments.length > 0) {
+      addLog(ctx, `流局聽牌結算：未聽牌者支付每位聽牌者 ${settlement.pointsPerPayer} 分。`);
+      applyScorePayments(ctx, settlement.payments);
+    } else {
+      addLog(ctx, "本局流局，無人得分變動。");
+    }
+  }
+  ctx.events.push({ type: 'roundOver' });
+};
+
+// 將結算的分數變化加到各玩家的總分
+const applyScorePayments = (ctx: EngineContext, payments: ScorePayment[]): void => {
+  payments.forEach(payment => {
+    const player = findPlayer(ctx, payment.playerId);
+    if (!player) return;
+    player.score += payment.amount;
+    addLog(ctx, `${player.name} ${payment.amount >= 0 ? '得分' : '扣分'} ${Math.abs(payment.amount)}。總分: ${player.score}`);
+  });
+};
+
+// 以流局結束本局 (例如找不到莊家或玩家無牌可打等異常情況)
+// reason: 寫入訊息記錄的流局原因
+export const endRoundAsDraw = (state: GameState, reason: string): RoundEngineResult => {
+  const ctx = createContext(state);
+  addLog(ctx, reason);
+  ctx.state.isDrawGame = true;
+  finishRound(ctx);
+  return toResult(ctx, true);
+};
+
+// 以指定的種子洗牌、發牌，並將遊戲推進到莊家的第一個回合
+// 呼叫前須已決定好莊家 (dealerIndex 與各玩家的 isDealer) 及局數；新局與重播共用此流程，以確保兩者的發牌結果一致
+export const startRound = (state: GameState, roundSeed: number): RoundEngineResult => {
+  const ctx = createContext(state);
+  const s = ctx.state;
+  s.roundSeed = roundSeed;
+
+  // 重置所有玩家的本局狀態 (手牌、面子)
+  s.players.forEach(p => {
+    p.hand = [];
+    p.melds = [];
+  });
+
+  // 重置牌堆、棄牌堆等遊戲核心狀態
+  s.deck = shuffleDeck(createInitialDeck(), createSeededRandom(roundSeed)); // 創建並以本局種子洗牌
+  s.discardPile = [];
+  s.lastDiscardedTile = null;
+  s.lastDrawnTile = null;
+  s.turnNumber = 1; // 本局的第一回合
+  s.potentialClaims = [];
+  s.winnerIds = [];
+  s.winningTileDiscarderId = null;
+  s.winType = null;
+  s.winningDiscardedTile = null;
+  s.robbableKong = null;
+  s.isKongReplacementDraw = false;
+  s.roundScoreBreakdowns = [];
+  s.isDrawGame = false;
+  s.drawGameSettlement = null;
+  s.claimResponses = [];
+
+  // 發牌，並將手牌排序後分配給每個玩家
+  const { hands, remainingDeck } = dealTiles(s.deck, s.players, s.dealerIndex, s.ruleSet);
+  s.players.forEach(p => {
+    p.hand = sortHandVisually(hands[p.id]);
+  });
+  s.deck = remainingDeck;
+  ctx.events.push({ type: 'dealt', hands: s.players.map(p => [...p.hand]), deck: [...s.deck] });
+
+  // 設定初始回合玩家為莊家
+  s.currentPlayerIndex = s.dealerIndex;
+  const dealerPlayer = findPlayer(ctx, s.dealerIndex);
+  if (!dealerPlayer) { // 防禦性檢查：莊家是否存在
+    addLog(ctx, "嚴重錯誤：找不到莊家，遊戲無法繼續。");
+    s.isDrawGame = true;
+    finishRound(ctx);
+    return toResult(ctx, false);
+  }
+
+  addLog(ctx, `莊家是 ${dealerPlayer.name} (${dealerPlayer.isHuman ? '真人' : 'AI'}, 座位: ${dealerPlayer.id})。`);
+
+  // 莊家初始比閒家多一張牌 (標準規則為8張)，直接進入等待出牌階段，並將最後一張牌移出手牌，視為 "剛摸到的牌"
+  if (dealerPlayer.hand.length === s.ruleSet.initialHandSizeDealer && dealerPlayer.hand.length > 0) {
+    s.lastDrawnTile = dealerPlayer.hand.pop() ?? null; // 第8張牌 (手牌保留7張，與摸牌後的狀態一致)
+    s.gamePhase = GamePhase.AWAITING_DISCARD; // 等待莊家打出第一張牌
+    addLog(ctx, `輪到莊家 ${dealerPlayer.name} (座位: ${dealerPlayer.id}) 打牌。`);
+  } else { // 非莊家或其他情況，進入摸牌階段
+    s.gamePhase = GamePhase.PLAYER_TURN_START;
+    addLog(ctx, `輪到 ${dealerPlayer.name} (座位: ${dealerPlayer.id}) 摸牌。`);
+  }
+  return toResult(ctx, true);
+};
+
+// 處理一局中的動作 (不論來自真人、AI 或超時代打)
+// seat: 執行動作的玩家座位索引
+export const applyRoundAction = (state: GameState, action: RoundAction, seat: number): RoundEngineResult => {
+  const ctx = createContext(state);
+  let accepted = false;
+  switch (action.type) {
+    case 'DRAW_TILE': accepted = drawTile(ctx, seat); break; // 摸牌
+    case 'DISCARD_TILE': accepted = discardTile(ctx, seat, action.tileId); break; // 打牌
+    case 'DECLARE_HU': // 宣告胡牌 (宣告窗口中為對棄牌的回覆，否則為天胡或自摸)
+      accepted = isClaimWindowOpen(ctx.state) ? respondToClaim(ctx, seat, action) : declareHu(ctx, seat);
+      break;
+    case 'CLAIM_PENG': // 宣告碰牌
+    case 'CLAIM_GANG': // 宣告明槓 (別人打的牌)
+    case 'CLAIM_CHI': // 宣告吃牌
+    case 'PASS_CLAIM': // 跳過宣告
+      accepted = respondToClaim(ctx, seat, action);
+      break;
+    case 'DECLARE_AN_GANG': accepted = declareAnGang(ctx, seat, action.tileKind); break; // 宣告暗槓
+    case 'DECLARE_MING_GANG_FROM_HAND': accepted = declareMingGangFromHand(ctx, seat, action.tileKind); break; // 宣告加槓
+  }
+  return toResult(ctx, accepted);
+};
+
+// 摸牌：牌堆只剩留牌時本局流局
+const drawTile = (ctx: EngineContext, playerId: number): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player) return false;
+  // 檢查是否輪到此玩家摸牌且遊戲階段正確
+  if (s.currentPlayerIndex !== playerId || s.gamePhase !== GamePhase.PLAYER_TURN_START) {
+    rejectAction(ctx, playerId, '還沒輪到你摸牌或遊戲階段不正確。');
+    return false;
+  }
+  // 檢查牌堆是否已摸到只剩留牌
+  if (isWallExhausted(s)) {
+    addLog(ctx, s.ruleSet.reservedTileCount > 0 ? `牌堆只剩 ${s.deck.length} 張留牌！本局流局。` : "牌堆已空！本局流局。");
+    s.isDrawGame = true;
+    // 流局時檢查各玩家是否聽牌 (用於流局聽牌結算與莊家規則)
+    const tenpaiPlayerIds = s.players.filter(p => isTenpai(p.hand, p.melds, s.ruleSet)).map(p => p.id);
+    s.drawGameSettlement = calculateDrawGameSettlement(s.players.map(p => p.id), tenpaiPlayerIds, s.ruleSet.drawGameTenpaiSettlement);
+    finishRound(ctx);
+    return true;
+  }
+
+  const drawnTile = s.deck.shift()!; // 從牌堆頂部摸一張牌
+  s.lastDrawnTile = drawnTile; // 記錄剛摸到的牌
+  s.gamePhase = GamePhase.PLAYER_DRAWN;
+  // 記錄日誌 (訊息記錄會發送給所有座位與觀戰者，因此不寫出摸到的牌；摸牌者本人從 lastDrawnTile 得知)
+  addLog(ctx, `${player.name} (座位: ${player.id}) 摸了一張牌。`);
+  return true;
+};
+
+// 打牌：打出剛摸到的牌或手牌中的一張，之後檢查其他玩家能否宣告
+const discardTile = (ctx: EngineContext, playerId: number, tileId: string): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player) return false;
+
+  // 檢查是否輪到此玩家打牌且遊戲階段正確 (已摸牌或等待出牌)
+  if (s.currentPlayerIndex !== playerId ||
+      (s.gamePhase !== GamePhase.PLAYER_DRAWN && s.gamePhase !== GamePhase.AWAITING_DISCARD)) {
+    rejectAction(ctx, playerId, '還沒輪到你打牌或遊戲階段不正確。');
+    return false;
+  }
+
+  let tileToDiscard: Tile | null = null;
+  const handAfterDiscard = [...player.hand];
+
+  // 情況1：打出的是剛摸到的牌 (PLAYER_DRAWN 階段，或莊家開局時的第8張牌)
+  if (s.lastDrawnTile && s.lastDrawnTile.id === tileId) {
+    tileToDiscard = s.lastDrawnTile;
+    s.lastDrawnTile = null;
+  } else { // 情況2：打出的是原手牌中的一張，剛摸到的牌 (若有) 加入手牌
+    const tileIndexInHand = player.hand.findIndex(t => t.id === tileId);
+    if (tileIndexInHand === -1) {
+      rejectAction(ctx, playerId, `在您的手中找不到要打出的牌 (ID: ${tileId})。`);
+      return false;
+    }
+    tileToDiscard = player.hand[tileIndexInHand];
+    handAfterDiscard.splice(tileIndexInHand, 1);
+    if (s.lastDrawnTile) {
+      handAfterDiscard.push(s.lastDrawnTile);
+      s.lastDrawnTile = null;
+    }
+  }
+
+  player.hand = sortHandVisually(handAfterDiscard);
+  s.discardPile.unshift(tileToDiscard); // 將打出的牌加入棄牌堆頂部
+  s.lastDiscardedTile = tileToDiscard;
+  s.lastDiscarderIndex = playerId;
+  s.isKongReplacementDraw = false; // 打牌後補牌的回合結束
+
+  addLog(ctx, `${player.name} (座位: ${player.id}) 打出了 ${tileToDiscard.kind}。`);
+  announce(ctx, tileToDiscard.kind, playerId);
+  checkForClaims(ctx, tileToDiscard, playerId);
+  return true;
+};
+
+// 宣告胡牌：輪到自己時為天胡或自摸，宣告別人的棄牌時為食胡；胡牌成立後本局即結束
+const declareHu = (ctx: EngineContext, playerId: number): boolean => {
+  if (!recordWin(ctx, playerId, false)) return false;
+  completeWinningRound(ctx);
+  return true;
+};
+
+// 一炮多響：多位玩家同時胡同一張棄牌 (playerIds 依座位順序)，每位贏家分別計分，全部記錄後本局才結束
+const declareMultipleHu = (ctx: EngineContext, playerIds: number[]): boolean => {
+  const winnerIds = playerIds.filter(playerId => recordWin(ctx, playerId, true));
+  if (winnerIds.length === 0) return false;
+  completeWinningRound(ctx);
+  return true;
+};
+
+// 所有贏家記錄完畢後結束本局：食胡時從棄牌堆消耗掉被胡的牌 (一炮多響時只消耗一次)；搶槓的槓牌不在棄牌堆中
+const completeWinningRound = (ctx: EngineContext): void => {
+  const s = ctx.state;
+  if (s.robbableKong) {
+    s.robbableKong = null;
+    s.lastDiscardedTile = null;
+  } else if (s.winningDiscardedTile && s.lastDiscardedTile && s.lastDiscardedTile.id === s.winningDiscardedTile.id) {
+    consumeDiscardedTileForMeld(ctx, s.winningDiscardedTile.id);
+  }
+  finishRound(ctx);
+};
+
+// 檢查並記錄一位玩家的胡牌 (贏家、胡牌資訊與台數明細)，不結束本局；不符合胡牌條件時視為詐胡
+// isMultiHuTarget: 是否為一炮多響的目標之一 (用於宣告動畫)
+const recordWin = (ctx: EngineContext, playerId: number, isMultiHuTarget: boolean): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player) return false;
+
+  let handToCheck: Tile[];
+  let isSelfDrawnHu = false;
+  let winTile: Tile | null = null; // 胡的那張牌 (自摸的牌或別人打的牌)
+  let actionTextForAnnouncement: "天胡" | "自摸" | "胡" = "胡";
+  const ruleSet = s.ruleSet;
+
+  // 情況1：輪到自己行動時宣告胡牌 (天胡或自摸)
+  const selfDrawnHuType = getSelfDrawnHuType(s, player);
+  if (selfDrawnHuType) {
+    isSelfDrawnHu = true;
+    winTile = s.lastDrawnTile;
+
+    if (selfDrawnHuType === 'heavenly') {
+      // 天胡：檢查包含第8張牌的完整手牌
+      handToCheck = s.lastDrawnTile ? [...player.hand, s.lastDrawnTile] : [...player.hand];
+      actionTextForAnnouncement = "天胡";
+    } else { // 普通自摸
+      if (!s.lastDrawnTile) {
+        rejectAction(ctx, playerId, '錯誤：宣告自摸時找不到剛摸的牌。');
+        return false;
+      }
+      handToCheck = [...player.hand, s.lastDrawnTile];
+      actionTextForAnnouncement = "自摸";
+    }
+  }
+  // 情況2：宣告別人打出的牌 (食胡)
+  else if (s.lastDiscardedTile &&
+           s.potentialClaims.some(c => c.playerId === playerId && c.action === 'Hu') &&
+           s.gamePhase === GamePhase.AWAITING_CLAIMS_RESOLUTION) {
+    isSelfDrawnHu = false;
+    winTile = s.lastDiscardedTile;
+    handToCheck = [...player.hand, s.lastDiscardedTile];
+    actionTextForAnnouncement = "胡";
+  } else { // 不符合任何胡牌時機
+    rejectAction(ctx, playerId, '現在不是宣告胡牌的時機。');
+    return false;
+  }
+
+  const winInfo = checkWinCondition(handToCheck, player.melds, ruleSet);
+  if (!winInfo.isWin) { // 詐胡
+    addLog(ctx, `${player.name} 宣告 ${actionTextForAnnouncement} 失敗 (詐胡)。`);
+    rejectAction(ctx, playerId, '不符合胡牌條件。');
+    if (isSelfDrawnHu) {
+      // 自摸時詐胡，恢復遊戲階段讓其繼續打牌 (天胡詐胡回到等待出牌，普通自摸詐胡回到已摸牌)
+      s.gamePhase = actionTextForAnnouncement === "天胡" ? GamePhase.AWAITING_DISCARD : GamePhase.PLAYER_DRAWN;
+    }
+    return false;
+  }
+
+  s.winnerIds.push(playerId);
+  s.winType = isSelfDrawnHu ? 'selfDrawn' : 'discard';
+
+  // 特殊時機的胡牌 (牌堆摸到只剩留牌時，最後摸到的牌與最後打出的牌分別為海底與河底)
+  const isHeavenlyHu = actionTextForAnnouncement === "天胡";
+  const isEarthlyHu = isSelfDrawnHu && !player.isDealer && isFirstDrawWithoutClaims(ctx);
+  const isKongBloom = isSelfDrawnHu && s.isKongReplacementDraw;
+  const isLastTileDraw = isSelfDrawnHu && !isHeavenlyHu && isWallExhausted(s);
+  const isLastDiscard = !isSelfDrawnHu && s.robbableKong === null && isWallExhausted(s);
+  const timingNames = [
+    isEarthlyHu && "地胡", isKongBloom && "槓上開花", isLastTileDraw && "海底撈月", isLastDiscard && "河底撈魚",
+  ].filter((name): name is string => Boolean(name));
+  const timingPrefix = timingNames.length > 0 ? `${timingNames.join('、')} ` : '';
+
+  let huMessage = `${player.name} (座位: ${player.id}) `;
+  if (isSelfDrawnHu) {
+    if (isHeavenlyHu) huMessage += "天胡";
+    else huMessage += `${timingPrefix}自摸 (摸到 ${winTile?.kind || '牌'})`;
+    s.winningTileDiscarderId = null; // 自摸無放槍者
+    s.winningDiscardedTile = null;
+    if (winTile && s.lastDrawnTile && winTile.id === s.lastDrawnTile.id) {
+      s.lastDrawnTile = null;
+    }
+  } else {
+    huMessage += s.robbableKong
+      ? `搶槓胡 (搶了 ${findPlayer(ctx, s.robbableKong.playerId)?.name || '上家'} 加槓的 ${winTile!.kind})`
+      : `${timingPrefix}食胡 (ロン了 ${findPlayer(ctx, s.lastDiscarderIndex)?.name || '上家'} 的 ${winTile!.kind})`;
+    s.winningTileDiscarderId = s.lastDiscarderIndex;
+    s.winningDiscardedTile = winTile;
+    player.hand = sortHandVisually([...player.hand, winTile!]); // 將胡的牌加入手牌 (用於顯示完整牌型)
+  }
+  huMessage += "了！";
+  addLog(ctx, huMessage);
+
+  // 計算此贏家的台數明細與結算 (實際加減分於 finishRound 中進行)
+  s.roundScoreBreakdowns.push(calculateScoreBreakdown({
+    winnerId: playerId,
+    winType: s.winType,
+    discarderId: s.winningTileDiscarderId,
+    playerIds: s.players.map(p => p.id),
+    isDealer: player.isDealer,
+    isHeavenlyHu,
+    isEarthlyHu,
+    isRobbingKong: !isSelfDrawnHu && s.robbableKong !== null,
+    isKongBloom,
+    isLastTileDraw,
+    isLastDiscard,
+    winningMelds: winInfo.winningMelds || [],
+    winningPair: winInfo.winningPair || null,
+    existingMelds: player.melds,
+  }));
+  // 宣告特效以最稀有的時機為主，其餘時機只記錄在台數明細中
+  announce(ctx, isHeavenlyHu ? actionTextForAnnouncement : (timingNames[0] ?? actionTextForAnnouncement), playerId, isMultiHuTarget);
+  return true;
+};
+
+// 是否為本局中尚無人吃碰槓時的第一輪 (每位玩家各摸一次牌以內)，用於判定地胡
+// 沒有人吃碰槓時輪轉不會跳過座位，回合數不超過座位數即為第一次摸牌
+const isFirstDrawWithoutClaims = (ctx: EngineContext): boolean =>
+  ctx.state.turnNumber <= ctx.state.players.length && ctx.state.players.every(p => p.melds.length === 0);
+
+// 以棄牌組成公開的面子 (碰、明槓、吃)，並把行動權交給宣告者
+const completeClaimedMeld = (
+  ctx: EngineContext,
+  player: Player,
+  designation: MeldDesignation,
+  handTiles: Tile[],
+  claimedTile: Tile
+): void => {
+  const meld: Meld = {
+    id: `meld-${player.id}-${player.melds.length}`,
+    designation,
+    tiles: sortMeldTiles([...handTiles, claimedTile]),
+    isOpen: true,
+    claimedFromPlayerId: ctx.state.lastDiscarderIndex!,
+    claimedTileId: claimedTile.id,
+  };
+  player.melds.push(meld);
+  consumeDiscardedTileForMeld(ctx, claimedTile.id);
+  clearClaims(ctx);
+  ctx.state.currentPlayerIndex = player.id;
+};
+
+// 宣告碰牌：碰牌後等待出牌
+const claimPeng = (ctx: EngineContext, playerId: number, tileToPeng: Tile): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player || s.gamePhase !== GamePhase.AWAITING_CLAIMS_RESOLUTION || !s.lastDiscardedTile || s.lastDiscardedTile.kind !== tileToPeng.kind || !hasPendingClaim(player, 'Peng')) {
+    rejectAction(ctx, playerId, '無效的碰牌宣告。');
+    return false;
+  }
+
+  const { handAfterAction, newMeldTiles } = removeTilesFromHand(player.hand, tileToPeng.kind, 2);
+  if (!newMeldTiles || newMeldTiles.length !== 2) {
+    addLog(ctx, `錯誤: ${player.name} 無法碰 ${tileToPeng.kind}，手牌中該牌數量不足。`);
+    handleInvalidClaim(ctx, player, 'Peng');
+    return false;
+  }
+  player.hand = handAfterAction;
+  addLog(ctx, `${player.name} (座位: ${player.id}) 碰了 ${tileToPeng.kind}。請出牌。`);
+  announce(ctx, "碰", playerId);
+  completeClaimedMeld(ctx, player, MeldDesignation.KEZI, newMeldTiles, tileToPeng);
+  s.gamePhase = GamePhase.AWAITING_DISCARD;
+  return true;
+};
+
+// 宣告明槓 (別人打的牌)：槓牌後摸牌
+const claimGang = (ctx: EngineContext, playerId: number, tileToGang: Tile): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player || s.gamePhase !== GamePhase.AWAITING_CLAIMS_RESOLUTION || !s.lastDiscardedTile || s.lastDiscardedTile.kind !== tileToGang.kind || !hasPendingClaim(player, 'Gang')) {
+    rejectAction(ctx, playerId, '無效的槓牌宣告。');
+    return false;
+  }
+
+  const { handAfterAction, newMeldTiles } = removeTilesFromHand(player.hand, tileToGang.kind, 3);
+  if (!newMeldTiles || newMeldTiles.length !== 3) {
+    addLog(ctx, `錯誤: ${player.name} 無法槓 ${tileToGang.kind}，手牌中該牌數量不足。`);
+    handleInvalidClaim(ctx, player, 'Gang');
+    return false;
+  }
+  player.hand = handAfterAction;
+  addLog(ctx, `${player.name} (座位: ${player.id}) 槓了 ${tileToGang.kind}。請摸牌。`);
+  announce(ctx, "槓", playerId);
+  completeClaimedMeld(ctx, player, MeldDesignation.GANGZI, newMeldTiles, tileToGang);
+  s.isKongReplacementDraw = true;
+  s.gamePhase = GamePhase.PLAYER_TURN_START;
+  return true;
+};
+
+// 宣告吃牌：以選擇的兩張手牌與棄牌組成順子，吃牌後等待出牌
+const claimChi = (ctx: EngineContext, playerId: number, tilesToChiWith: Tile[], discardedTileToChi: Tile): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player || s.gamePhase !== GamePhase.AWAITING_CLAIMS_RESOLUTION || !hasPendingClaim(player, 'Chi') ||
+      !s.lastDiscardedTile || s.lastDiscardedTile.id !== discardedTileToChi.id) {
+    rejectAction(ctx, playerId, '無效的吃牌宣告。');
+    return false;
+  }
+  if (tilesToChiWith.length !== 2) {
+    rejectAction(ctx, playerId, '吃牌必須選擇兩張手牌。');
+    return false;
+  }
+
+  // 從手牌中移除選擇的兩張牌
+  const handCopy = [...player.hand];
+  const removedForChi: Tile[] = [];
+  for (const tile of tilesToChiWith) {
+    const index = handCopy.findIndex(t => t.id === tile.id);
+    if (index === -1) break;
+    removedForChi.push(handCopy.splice(index, 1)[0]);
+  }
+  if (removedForChi.length !== 2) {
+    addLog(ctx, `錯誤: ${player.name} 嘗試吃 ${discardedTileToChi.kind}，但選擇的手牌 ${tilesToChiWith.map(t => t.kind).join(',')} 無效或不足。`);
+    handleInvalidClaim(ctx, player, 'Chi');
+    return false;
+  }
+
+  player.hand = handCopy;
+  addLog(ctx, `${player.name} (座位: ${player.id}) 吃了 ${discardedTileToChi.kind}。請出牌。`);
+  announce(ctx, "吃", playerId);
+  completeClaimedMeld(ctx, player, MeldDesignation.SHUNZI, removedForChi, discardedTileToChi);
+  s.gamePhase = GamePhase.AWAITING_DISCARD;
+  return true;
+};
+
+// 宣告暗槓：手牌 (含剛摸到的牌) 中有四張相同的牌，暗槓後摸牌
+const declareAnGang = (ctx: EngineContext, playerId: number, tileKindToGang: TileKind): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player) return false;
+  const isOpeningTurn = isDealerOpeningTurn(s, player); // 莊家開局第一回合
+  if (s.currentPlayerIndex !== playerId ||
+      (s.gamePhase !== GamePhase.PLAYER_TURN_START && s.gamePhase !== GamePhase.PLAYER_DRAWN && !isOpeningTurn)) {
+    rejectAction(ctx, playerId, '現在不是宣告暗槓的時機。');
+    return false;
+  }
+
+  const handForAnGangCheck = ((s.gamePhase === GamePhase.PLAYER_DRAWN || isOpeningTurn) && s.lastDrawnTile)
+    ? [...player.hand, s.lastDrawnTile]
+    : player.hand;
+  if (countTilesOfKind(handForAnGangCheck, tileKindToGang) < 4) {
+    rejectAction(ctx, playerId, `您沒有四張 ${tileKindToGang} 可以暗槓。`);
+    return false;
+  }
+
+  // 從手牌 (含剛摸到的牌) 中移除四張牌；剛摸到的牌若不屬於暗槓，會留在移除後的手牌中
+  const { handAfterAction, newMeldTiles } = removeTilesFromHand(handForAnGangCheck, tileKindToGang, 4);
+  if (!newMeldTiles) {
+    rejectAction(ctx, playerId, `暗槓時移除手牌失敗。`);
+    return false;
+  }
+  player.hand = sortHandVisually(handAfterAction);
+  s.lastDrawnTile = null;
+
+  player.melds.push({
+    id: `meld-${player.id}-${player.melds.length}`,
+    designation: MeldDesignation.GANGZI,
+    tiles: newMeldTiles,
+    isOpen: false, // 暗槓不公開
+  });
+  // 訊息記錄會發送給所有座位與觀戰者，因此不寫出暗槓的牌 (其他座位只看得到四張牌背，本局結束後公開)
+  addLog(ctx, `${player.name} (座位: ${player.id}) 暗槓了一組牌。請摸牌。`);
+  announce(ctx, "暗槓", playerId);
+  s.isKongReplacementDraw = true;
+  s.gamePhase = GamePhase.PLAYER_TURN_START;
+  return true;
+};
+
+// 找出玩家已碰出、可加槓的明刻子
+const findPengMeldForKong = (player: Player, tileKind: TileKind): Meld | undefined =>
+  player.melds.find(m => m.designation === MeldDesignation.KEZI && m.tiles[0].kind === tileKind && m.isOpen);
+
+// 宣告加槓：剛摸到的牌與之前碰出的刻子相同；其他玩家可搶槓時先開啟宣告窗口，否則直接加槓後摸牌
+const declareMingGangFromHand = (ctx: EngineContext, playerId: number, tileKindToGang: TileKind): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player) return false;
+  if (s.currentPlayerIndex !== playerId || s.gamePhase !== GamePhase.PLAYER_DRAWN || !s.lastDrawnTile) {
+    rejectAction(ctx, playerId, '現在不是宣告加槓的時機。');
+    return false;
+  }
+  if (s.lastDrawnTile.kind !== tileKindToGang) {
+    rejectAction(ctx, playerId, '您剛摸到的牌不是要加槓的牌。');
+    return false;
+  }
+  const pengMeld = findPengMeldForKong(player, tileKindToGang);
+  if (!pengMeld) {
+    rejectAction(ctx, playerId, `您沒有 ${tileKindToGang} 的碰牌可以加槓。`);
+    return false;
+  }
+
+  const kongTile = s.lastDrawnTile;
+  s.lastDrawnTile = null; // 消耗掉剛摸的牌
+  announce(ctx, "加槓", playerId);
+  if (!openRobbingKongWindow(ctx, kongTile, playerId)) {
+    completeMingGangFromHand(ctx, player, pengMeld, kongTile);
+  }
+  return true;
+};
+
+// 完成加槓：把槓牌加入碰出的刻子，之後由加槓的玩家摸牌
+const completeMingGangFromHand = (ctx: EngineContext, player: Player, pengMeld: Meld, kongTile: Tile): void => {
+  pengMeld.designation = MeldDesignation.GANGZI;
+  pengMeld.tiles = sortMeldTiles([...pengMeld.tiles, kongTile]);
+  addLog(ctx, `${player.name} (座位: ${player.id}) 加槓了 ${kongTile.kind}。請摸牌。`);
+  ctx.state.isKongReplacementDraw = true;
+  ctx.state.gamePhase = GamePhase.PLAYER_TURN_START;
+};
+
+// 加槓時檢查其他玩家能否搶槓 (以槓牌胡牌)；有人可搶槓時開啟只能胡牌的宣告窗口，返回是否已開啟
+// 窗口中槓牌視為加槓玩家打出的牌 (搶槓胡以食胡計分，由加槓的玩家支付)，但不放入棄牌堆
+const openRobbingKongWindow = (ctx: EngineContext, kongTile: Tile, declarerId: number): boolean => {
+  const s = ctx.state;
+  s.potentialClaims = [];
+  s.players.forEach(player => {
+    player.pendingClaims = [];
+    if (player.id === declarerId) return;
+    if (checkWinCondition([...player.hand, kongTile], player.melds, s.ruleSet).isWin) {
+      player.pendingClaims.push({ playerId: player.id, action: 'Hu', priority: s.ruleSet.actionPriority.HU, tiles: [kongTile] });
+    }
+    s.potentialClaims.push(...player.pendingClaims);
+  });
+  if (s.potentialClaims.length === 0) return false;
+
+  s.robbableKong = { playerId: declarerId, tile: kongTile };
+  s.lastDiscardedTile = kongTile;
+  s.lastDiscarderIndex = declarerId;
+  s.claimResponses = [];
+  s.gamePhase = GamePhase.AWAITING_PLAYER_CLAIM_ACTION;
+  addLog(ctx, `等待玩家對 ${kongTile.kind} 搶槓。`);
+  return true;
+};
+
+// 無人搶槓：加槓成立
+const completeRobbableKong = (ctx: EngineContext): void => {
+  const s = ctx.state;
+  const { playerId, tile } = s.robbableKong!;
+  s.robbableKong = null;
+  s.lastDiscardedTile = null;
+  clearClaims(ctx);
+  const player = findPlayer(ctx, playerId);
+  const pengMeld = player && findPengMeldForKong(player, tile.kind);
+  if (player && pengMeld) {
+    completeMingGangFromHand(ctx, player, pengMeld, tile);
+  }
+};
+
+// 宣告窗口中記錄玩家的回覆 (胡、槓、碰、吃或跳過)；所有可宣告的玩家都回覆後進行結算
+// 回覆在結算前不寫入訊息記錄，避免透露哪些座位可以宣告
+const respondToClaim = (ctx: EngineContext, playerId: number, action: ClaimResponseAction): boolean => {
+  const s = ctx.state;
+  const player = findPlayer(ctx, playerId);
+  if (!player || !getClaimantsAwaitingResponse(s).includes(playerId)) {
+    rejectAction(ctx, playerId, '現在不是你宣告或跳過。');
+    return false;
+  }
+  if (action.type !== 'PASS_CLAIM' && !isClaimResponseValid(ctx, player, action)) {
+    rejectAction(ctx, playerId, INVALID_CLAIM_RESPONSE_MESSAGES[action.type]);
+    return false;
+  }
+
+  s.claimResponses.push({ playerId, action });
+  if (getClaimantsAwaitingResponse(s).length === 0) {
+    resolveClaimWindow(ctx);
+  }
+  return true;
+};
+
+// 檢查宣告回覆是否為玩家持有的選項，且針對的是目前的棄牌 (吃牌時所選的兩張手牌須能與棄牌組成順子)
+const isClaimResponseValid = (ctx: EngineContext, player: Player, action: Exclude<ClaimResponseAction, { type: 'PASS_CLAIM' }>): boolean => {
+  const discardedTile = ctx.state.lastDiscardedTile;
+  if (!discardedTile || !hasPendingClaim(player, CLAIM_TYPE_BY_RESPONSE[action.type])) return false;
+  switch (action.type) {
+    case 'DECLARE_HU': return true;
+    case 'CLAIM_GANG':
+    case 'CLAIM_PENG':
+      return action.tile.kind === discardedTile.kind;
+    case 'CLAIM_CHI': {
+      if (action.discardedTile.id !== discardedTile.id || action.tilesToChiWith.length !== 2) return false;
+      const [first, second] = action.tilesToChiWith;
+      const isInHand = first.id !== second.id && action.tilesToChiWith.every(tile => player.hand.some(t => t.id === tile.id));
+      const selectedKinds = [first.kind, second.kind].sort().join();
+      return isInHand && getChiOptions(player.hand, discardedTile).some(option => option.map(t => t.kind).sort().join() === selectedKinds);
+    }
+  }
+};
+
+// 結算宣告窗口：依優先順序與座位順序執行玩家的宣告，直到有人宣告成功；全部跳過時輪到打牌者的下家
+const resolveClaimWindow = (ctx: EngineContext): void => {
+  const s = ctx.state;
+  s.gamePhase = GamePhase.AWAITING_CLAIMS_RESOLUTION;
+  const claimResponses = sortResponsesForResolution(ctx, s.claimResponses.filter(response => response.action.type !== 'PASS_CLAIM'));
+
+  // 一炮多響 (多個玩家胡同一張牌)：規則允許時所有宣告胡牌的玩家都胡；截胡規則下只有排序最前的玩家胡牌 (由下方依序處理)
+  const huResponses = claimResponses.filter(response => response.action.type === 'DECLARE_HU');
+  if (huResponses.length > 1 && s.ruleSet.allowMultipleWinners) {
+    addLog(ctx, `一炮多響！玩家 ${huResponses.map(r => `${findPlayer(ctx, r.playerId)?.name}(${r.playerId})`).join(', ')} 均可胡牌 ${s.lastDiscardedTile!.kind}。`);
+    if (declareMultipleHu(ctx, huResponses.map(response => response.playerId))) return;
+  }
+
+  for (const response of claimResponses) {
+    if (executeClaimResponse(ctx, response)) return;
+  }
+  if (s.robbableKong) {
+    completeRobbableKong(ctx);
+    return;
+  }
+  addLog(ctx, `無人宣告 ${s.lastDiscardedTile?.kind ?? '棄牌'}。`);
+  advanceToNextPlayerTurn(ctx, true);
+};
+
+// 執行一個宣告回覆，返回是否成功
+const executeClaimResponse = (ctx: EngineContext, { playerId, action }: ClaimResponse): boolean => {
+  switch (action.type) {
+    case 'DECLARE_HU': return declareHu(ctx, playerId);
+    case 'CLAIM_GANG': return claimGang(ctx, playerId, action.tile);
+    case 'CLAIM_PENG': return claimPeng(ctx, playerId, action.tile);
+    case 'CLAIM_CHI': return claimChi(ctx, playerId, action.tilesToChiWith, action.discardedTile);
+    default: return false;
+  }
+};
+
+// 處理無效宣告 (例如手牌不足)：通知玩家，結算時改由下一位宣告者處理
+const handleInvalidClaim = (ctx: EngineContext, player: Player, claimType: string): void => {
+  addLog(ctx, `${player.name} (座位: ${player.id}) 宣告 ${claimType} 失敗 (條件不符)。`);
+  rejectAction(ctx, player.id, `您的 ${claimType} 宣告無效。`);
+};
+
+// 從棄牌堆中消耗掉一張被面子或胡牌使用的牌 (通常為棄牌堆頂部的最後一張棄牌)
+const consumeDiscardedTileForMeld = (ctx: EngineContext, tileId: string): void => {
+  const s = ctx.state;
+  if (s.lastDiscardedTile && s.lastDiscardedTile.id === tileId) {
+    s.discardPile.shift();
+    s.lastDiscardedTile = null;
+  } else {
+    const indexToRemove = s.discardPile.findIndex(t => t.id === tileId);
+    if (indexToRemove !== -1) s.discardPile.splice(indexToRemove, 1);
+  }
+};
+
+// 一張牌被打出後，檢查其他玩家能否對其宣告 (胡、槓、碰、吃)
+const checkForClaims = (ctx: EngineContext, discardedTile: Tile, discarderId: number): void => {
+  const s = ctx.state;
+  const { actionPriority, chiFromAnySeat } = s.ruleSet;
+  s.potentialClaims = [];
+  s.players.forEach(player => {
+    if (player.id === discarderId) return; // 跳過打牌者自己
+
+    player.pendingClaims = [];
+    if (checkWinCondition([...player.hand, discardedTile], player.melds, s.ruleSet).isWin) {
+      player.pendingClaims.push({ playerId: player.id, action: 'Hu', priority: actionPriority.HU, tiles: [discardedTile] });
+    }
+    if (canMingGang(player.hand, discardedTile)) {
+      player.pendingClaims.push({ playerId: player.id, action: 'Gang', priority: actionPriority.GANG, tiles: [discardedTile] });
+    }
+    if (canPeng(player.hand, discardedTile)) {
+      player.pendingClaims.push({ playerId: player.id, action: 'Peng', priority: actionPriority.PENG, tiles: [discardedTile] });
+    }
+    // 吃牌 (標準規則僅限下家；房間規則允許時任何玩家皆可吃)
+    if (chiFromAnySeat || player.id === (discarderId + 1) % s.players.length) {
+      if (getChiOptions(player.hand, discardedTile).length > 0) {
+        player.pendingClaims.push({ playerId: player.id, action: 'Chi', priority: actionPriority.CHI, tiles: [discardedTile] });
+      }
+    }
+    s.potentialClaims.push(...player.pendingClaims);
+  });
+
+  // 開啟宣告窗口：所有可宣告的玩家同時作答 (各自只看得到自己的 pendingClaims)
+  // 無人可宣告時同樣開啟 (遊戲階段與訊息相同，以免透露哪些座位可以宣告)，由呼叫端以 closeEmptyClaimWindow 關閉
+  s.claimResponses = [];
+  s.gamePhase = GamePhase.AWAITING_PLAYER_CLAIM_ACTION;
+  addLog(ctx, `等待玩家對 ${discardedTile.kind} 宣告。`);
+};
+
+// 關閉無人可宣告的宣告窗口，結算方式與所有玩家都跳過時相同 (輪到打牌者的下家)
+// 窗口中仍有玩家需要回覆 (或窗口未開啟) 時不處理
+export const closeEmptyClaimWindow = (state: GameState): RoundEngineResult => {
+  const ctx = createContext(state);
+  if (!isClaimWindowOpen(ctx.state) || getClaimantsAwaitingResponse(ctx.state).length > 0) return toResult(ctx, false);
+  resolveClaimWindow(ctx);
+  return toResult(ctx, true);
+};
+
+// 推進到下一位玩家的回合
+// afterDiscard: 是否在一次無人宣告的棄牌之後 (由打牌者的下家摸牌)
+const advanceToNextPlayerTurn = (ctx: EngineContext, afterDiscard: boolean): void => {
+  const s = ctx.state;
+  clearClaims(ctx);
+  if (afterDiscard) {
+    s.lastDiscardedTile = null;
+  }
+
+  s.currentPlayerIndex = (s.lastDiscarderIndex !== null && afterDiscard)
+    ? (s.lastDiscarderIndex + 1) % s.players.length // 下家
+    : (s.currentPlayerIndex + 1) % s.players.length; // 正常輪轉
+  s.turnNumber++;
+  s.gamePhase = GamePhase.PLAYER_TURN_START;
+
+  const nextPlayer = findPlayer(ctx, s.currentPlayerIndex);
+  if (nextPlayer) {
+    addLog(ctx, `輪到 ${nextPlayer.name} (座位: ${nextPlayer.id}) 摸牌。`);
+  }
+};
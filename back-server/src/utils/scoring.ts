@@ -0,0 +1,115 @@
+import { Meld, MeldDesignation, Tile, ScoreItem, ScoreBreakdown, ScorePayment, FanPatternKey, DrawGameSettlement, TILE_KIND_DETAILS } from '@xiangqi-mahjong/core'; // 引入共用的類型定義與常數
+import { WinScoringContext } from '../types'; // 引入伺服器專用類型定義
+import { FAN_PATTERNS, BASE_WIN_POINTS, POINTS_PER_TAI, TENPAI_SETTLEMENT_POINTS } from '../constants'; // 引入伺服器專用常數
+
+// 建立一項台數明細
+// count: 台型成立的次數，台數為單次台數乘以次數
+const createScoreItem = (pattern: FanPatternKey, count: number = 1): ScoreItem => ({
+  pattern,
+  name: FAN_PATTERNS[pattern].name,
+  tai: FAN_PATTERNS[pattern].tai * count,
+  count,
+});
+
+// 取得胡牌牌型中的所有面子 (已宣告的面子 + 從手牌組成的面子)，不含對子
+const getAllMelds = (context: WinScoringContext): Meld[] => [...context.existingMelds, ...context.winningMelds];
+
+// 取得胡牌牌型中的所有牌 (面子與對子)
+const getAllTiles = (context: WinScoringContext): Tile[] => [
+  ...getAllMelds(context).flatMap(meld => meld.tiles),
+  ...(context.winningPair ? context.winningPair.tiles : []),
+];
+
+// 判斷胡牌牌型成立的台型，返回台數明細 (依固定順序排列)
+export const evaluateFanPatterns = (context: WinScoringContext): ScoreItem[] => {
+  const items: ScoreItem[] = [];
+  const allMelds = getAllMelds(context);
+
+  // 天胡 (莊家開局即胡) 與地胡 (閒家第一次摸牌即自摸)：不再另計自摸與門清
+  if (context.isHeavenlyHu) {
+    items.push(createScoreItem('HEAVENLY_HU'));
+  } else if (context.isEarthlyHu) {
+    items.push(createScoreItem('EARTHLY_HU'));
+  } else {
+    if (context.winType === 'selfDrawn') items.push(createScoreItem('SELF_DRAWN'));
+    // 門清：沒有任何公開的面子 (暗槓不影響門清)
+    if (context.existingMelds.every(meld => !meld.isOpen)) items.push(createScoreItem('CONCEALED_HAND'));
+  }
+
+  // 搶槓：胡別人加槓的牌 (以食胡計分，由加槓的玩家支付)
+  if (context.isRobbingKong) items.push(createScoreItem('ROBBING_KONG'));
+  // 槓上開花：槓牌後補摸的牌自摸
+  if (context.isKongBloom) items.push(createScoreItem('KONG_BLOOM'));
+  // 海底撈月與河底撈魚：以牌堆的最後一張牌自摸，或胡牌堆摸完後的最後一張棄牌
+  if (context.isLastTileDraw) items.push(createScoreItem('LAST_TILE_DRAW'));
+  if (context.isLastDiscard) items.push(createScoreItem('LAST_DISCARD'));
+
+  // 清一色：所有牌皆為同一花色
+  const allTiles = getAllTiles(context);
+  if (allTiles.length > 0 && allTiles.every(tile => TILE_KIND_DETAILS[tile.kind].suit === TILE_KIND_DETAILS[allTiles[0].kind].suit)) {
+    items.push(createScoreItem('ALL_ONE_SUIT'));
+  }
+
+  // 碰碰胡：所有面子皆為刻子或槓子
+  if (allMelds.length > 0 && allMelds.every(meld => meld.designation === MeldDesignation.KEZI || meld.designation === MeldDesignation.GANGZI)) {
+    items.push(createScoreItem('ALL_TRIPLETS'));
+  }
+
+  // 莊家：贏家為莊家
+  if (context.isDealer) items.push(createScoreItem('DEALER'));
+
+  // 槓子：每個明槓、暗槓分別計台
+  const gangMelds = context.existingMelds.filter(meld => meld.designation === MeldDesignation.GANGZI);
+  const mingGangCount = gangMelds.filter(meld => meld.isOpen).length;
+  const anGangCount = gangMelds.length - mingGangCount;
+  if (mingGangCount > 0) items.push(createScoreItem('MING_GANG', mingGangCount));
+  if (anGangCount > 0) items.push(createScoreItem('AN_GANG', anGangCount));
+
+  return items;
+};
+
+// 依台數明細計算結算：每位付款者支付 底分 + 總台數 × 每台分數
+// 自摸由其他所有玩家支付，食胡僅由放槍者支付
+export const calculateScoreBreakdown = (context: WinScoringContext): ScoreBreakdown => {
+  const items = evaluateFanPatterns(context);
+  const totalTai = items.reduce((sum, item) => sum + item.tai, 0);
+  const pointsPerPayer = BASE_WIN_POINTS + totalTai * POINTS_PER_TAI;
+
+  const payerIds = context.winType === 'selfDrawn'
+    ? context.playerIds.filter(id => id !== context.winnerId)
+    : (context.discarderId !== null ? [context.discarderId] : []);
+
+  const payments: ScorePayment[] = [
+    { playerId: context.winnerId, amount: pointsPerPayer * payerIds.length },
+    ...payerIds.map(playerId => ({ playerId, amount: -pointsPerPayer })),
+  ];
+
+  return {
+    winnerId: context.winnerId,
+    winType: context.winType,
+    items,
+    totalTai,
+    basePoints: BASE_WIN_POINTS,
+    pointsPerTai: POINTS_PER_TAI,
+    pointsPerPayer,
+    payments,
+  };
+};
+
+// 依聽牌情形計算流局結算：啟用流局聽牌結算時，每位未聽牌者分別支付每位聽牌者固定分數
+// 全員聽牌或全員未聽牌時無人需支付
+export const calculateDrawGameSettlement = (playerIds: number[], tenpaiPlayerIds: number[], isSettlementEnabled: boolean): DrawGameSettlement => {
+  const pointsPerPayer = isSettlementEnabled ? TENPAI_SETTLEMENT_POINTS : 0;
+  const notTenpaiPlayerIds = playerIds.filter(id => !tenpaiPlayerIds.includes(id));
+  if (pointsPerPayer === 0 || tenpaiPlayerIds.length === 0 || notTenpaiPlayerIds.length === 0) {
+    return { tenpaiPlayerIds, pointsPerPayer, payments: [] };
+  }
+
+  const payments: ScorePayment[] = playerIds.map(playerId => ({
+    playerId,
+    amount: tenpaiPlayerIds.includes(playerId)
+      ? pointsPerPayer * notTenpaiPlayerIds.length
+      : -pointsPerPayer * tenpaiPlayerIds.length,
+  }));
+  return { tenpaiPlayerIds, pointsPerPayer, payments };
+};
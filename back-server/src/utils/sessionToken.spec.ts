@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'crypto';
+import { createSessionToken, generateSessionNonce, verifySessionToken } from './sessionToken';
+
+const SECRET = 'test-secret';
+const payload = { roomId: 'room-1', seatId: 2, nonce: 'abc' };
+
+describe('createSessionToken / verifySessionToken', () => {
+  it('returns the signed payload for a token it issued', () => {
+    const token = createSessionToken(payload, SECRET);
+    expect(verifySessionToken(token, SECRET)).toEqual(payload);
+  });
+
+  it('rejects a token signed with another secret', () => {
+    const token = createSessionToken(payload, 'other-secret');
+    expect(verifySessionToken(token, SECRET)).toBeNull();
+  });
+
+  it('rejects a token whose payload was changed to another seat', () => {
+    const [, signature] = createSessionToken(payload, SECRET).split('.');
+    const forgedPayload = Buffer.from(JSON.stringify({ ...payload, seatId: 0 })).toString('base64url');
+    expect(verifySessionToken(`${forgedPayload}.${signature}`, SECRET)).toBeNull();
+  });
+
+  it('rejects malformed tokens', () => {
+    const token = createSessionToken(payload, SECRET);
+    expect(verifySessionToken(undefined, SECRET)).toBeNull();
+    expect(verifySessionToken('', SECRET)).toBeNull();
+    expect(verifySessionToken(token.split('.')[0], SECRET)).toBeNull();
+    expect(verifySessionToken(`${token}.extra`, SECRET)).toBeNull();
+  });
+
+  it('rejects a validly signed payload with missing fields', () => {
+    const encoded = Buffer.from(JSON.stringify({ roomId: 'room-1' })).toString('base64url');
+    const signature = createHmac('sha256', SECRET).update(encoded).digest('base64url');
+    expect(verifySessionToken(`${encoded}.${signature}`, SECRET)).toBeNull();
+  });
+
+  it('uses the server secret by default', () => {
+    expect(verifySessionToken(createSessionToken(payload))).toEqual(payload);
+  });
+});
+
+describe('generateSessionNonce', () => {
+  it('produces a different nonce each time', () => {
+    expect(generateSessionNonce()).not.toBe(generateSessionNonce());
+  });
+});
@@ -0,0 +1,39 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto'; // 引入 Node.js 加密模組
+import { SessionTokenPayload } from '../types'; // 引入伺服器專用類型定義
+import { SESSION_TOKEN_SECRET } from '../constants'; // 引入伺服器專用常數
+
+// 未設定密鑰時，使用伺服器啟動時產生的隨機密鑰
+const DEFAULT_SECRET = SESSION_TOKEN_SECRET ?? randomBytes(32).toString('hex');
+
+// 以 HMAC-SHA256 簽署憑證內容，返回 base64url 編碼的簽章
+const sign = (encodedPayload: string, secret: string): string =>
+  createHmac('sha256', secret).update(encodedPayload).digest('base64url');
+
+// 產生入座時的隨機值 (座位換人時重新產生，使舊憑證失效)
+export const generateSessionNonce = (): string => randomBytes(16).toString('base64url');
+
+// 建立座位憑證，格式為「內容.簽章」(皆為 base64url 編碼)
+export const createSessionToken = (payload: SessionTokenPayload, secret: string = DEFAULT_SECRET): string => {
+  const encodedPayload = Buffer.from(JSON.stringify({ roomId: payload.roomId, seatId: payload.seatId, nonce: payload.nonce })).toString('base64url');
+  return `${encodedPayload}.${sign(encodedPayload, secret)}`;
+};
+
+// 驗證座位憑證的簽章與格式，返回憑證內容；憑證無效或遭竄改時返回 null
+// 只確認憑證由本伺服器簽發，座位是否仍屬於此憑證需由呼叫端比對 nonce
+export const verifySessionToken = (token: unknown, secret: string = DEFAULT_SECRET): SessionTokenPayload | null => {
+  if (typeof token !== 'string') return null;
+  const [encodedPayload, signature, ...rest] = token.split('.');
+  if (!encodedPayload || !signature || rest.length > 0) return null;
+
+  const expected = Buffer.from(sign(encodedPayload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const payload = JSON.parse(Buffer.from(encodedPayload, 'base64url').toString('utf8'));
+    if (typeof payload?.roomId !== 'string' || !Number.isInteger(payload.seatId) || typeof payload.nonce !== 'string') return null;
+    return { roomId: payload.roomId, seatId: payload.seatId, nonce: payload.nonce };
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,28 @@
+// 測試共用的牌局資料建立函數 (只供 *.spec.ts 使用，不列入建置)
+import { GameState, GamePhase, Player, Tile, TileKind, DEFAULT_RULE_SET, TILE_KIND_DETAILS } from '@xiangqi-mahjong/core';
+
+// 依牌面文字建立牌物件，ID 以流水號保證不重複
+let nextTileSerial = 0;
+export const toTiles = (faces: string): Tile[] => Array.from(faces).map(face => {
+  const kind = face as TileKind;
+  return { id: `${kind}_${nextTileSerial++}`, kind, suit: TILE_KIND_DETAILS[kind].suit };
+});
+
+// 建立 AI 玩家 (座位 0 為莊家)；overrides 可覆寫任何欄位，例如 aiDifficulty
+export const createPlayer = (id: number, hand: string, overrides: Partial<Player> = {}): Player => ({
+  id, name: `P${id}`, isHuman: false, isOnline: true, socketId: null, hand: toTiles(hand), melds: [], isDealer: id === 0, score: 0, pendingClaims: [],
+  ...overrides,
+});
+
+// 建立牌局狀態：座位 0 等待出牌，其餘欄位為開局預設值；overrides 可覆寫任何欄位
+export const createGameState = (players: Player[], overrides: Partial<GameState> = {}): GameState => ({
+  roomId: 'test', roomName: 'test', players,
+  deck: toTiles('相相相相'), discardPile: [], currentPlayerIndex: 0, dealerIndex: 0, lastDiscarderIndex: null,
+  gamePhase: GamePhase.AWAITING_DISCARD, lastDiscardedTile: null, lastDrawnTile: null, turnNumber: 2,
+  messageLog: [], potentialClaims: [], winnerIds: [], winningTileDiscarderId: null, winType: null, winningDiscardedTile: null, robbableKong: null, isKongReplacementDraw: false,
+  isDrawGame: false, drawGameSettlement: null, legalActions: null, claimResponses: [], actionTimer: null, actionTimerType: null,
+  numberOfRounds: 1, currentRound: 1, matchOver: false, nextRoundCountdown: null, humanPlayersReadyForNextRound: [],
+  configuredHumanPlayers: 0, configuredFillWithAI: true, configuredPlayerCount: players.length, configuredAIDifficulties: players.map(() => 'standard' as const), hostPlayerName: 'P0', rematchVotes: [], rematchCountdown: null,
+  roundSeed: 1, roundScoreBreakdowns: [], ruleSet: DEFAULT_RULE_SET,
+  ...overrides,
+});
@@ -1,6 +1,7 @@
 
 
 import React, { useEffect, useState } from 'react';
+import { HU_ANNOUNCEMENT_TEXTS } from '../constants';
 
 export interface ActionAnnouncement {
   id: number;
@@ -19,7 +20,7 @@ const ActionAnnouncer: React.FC<ActionAnnouncerProps> = ({ announcement }) => {
 
   useEffect(() => {
     setIsVisible(true);
-    const duration = (announcement.isMultiHuTarget && (announcement.text === "胡" || announcement.text === "自摸" || announcement.text === "天胡")) ? 3000 : 2000;
+    const duration = (announcement.isMultiHuTarget && HU_ANNOUNCEMENT_TEXTS.includes(announcement.text)) ? 3000 : 2000;
     const timer = setTimeout(() => {
       setIsVisible(false);
     }, duration); 
@@ -54,7 +55,7 @@ const ActionAnnouncer: React.FC<ActionAnnouncerProps> = ({ announcement }) => {
   let animationName = 'animate-action-bounce-fade';
   let animationDuration = '2s';
 
-  const isHuAction = ['胡', '自摸', '天胡'].includes(announcement.text);
+  const isHuAction = HU_ANNOUNCEMENT_TEXTS.includes(announcement.text);
 
   if (isHuAction) {
     if (announcement.isMultiHuTarget) {
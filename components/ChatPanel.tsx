@@ -4,7 +4,7 @@ import React, { useState, useRef, useEffect } from 'react';
 // 引入動作按鈕組件
 import ActionButton from './ActionButton';
 // 引入聊天訊息的類型定義
-import { ChatMessage } from '../types'; 
+import { ChatMessage } from '@xiangqi-mahjong/core'; 
 
 /**
  * @description ChatPanel 組件的 props 類型定義
@@ -20,6 +20,8 @@ interface ChatPanelProps {
   onSendMessage: (messageText: string) => void;
   /** @param {string} currentPlayerName - 當前玩家的名稱，用於判斷訊息是否為自己發送。 */
   currentPlayerName: string;
+  /** @param {string} [title='聊天室'] - 面板標題 (例如觀戰者使用的觀戰聊天室)。 */
+  title?: string;
 }
 
 /**
@@ -27,7 +29,7 @@ interface ChatPanelProps {
  * @param {ChatPanelProps} props - 組件的屬性。
  * @returns {React.FC | null} React 函數組件，或在不應渲染時返回 null。
  */
-const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, messages, onSendMessage, currentPlayerName }) => {
+const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, messages, onSendMessage, currentPlayerName, title = '聊天室' }) => {
   // --- 狀態管理 ---
   /** @description 輸入框中的文字內容狀態。 */
   const [inputText, setInputText] = useState('');
@@ -94,7 +96,7 @@ const ChatPanel: React.FC<ChatPanelProps> = ({ isOpen, onClose, messages, onSend
     >
       {/* 面板頭部：標題和關閉按鈕 */}
       <div className="flex justify-between items-center p-3 border-b border-slate-700">
-        <h3 id="chat-panel-title" className="text-lg font-semibold text-sky-300">聊天室</h3>
+        <h3 id="chat-panel-title" className="text-lg font-semibold text-sky-300">{title}</h3>
         <button
           onClick={onClose} // 關閉按鈕
           className="text-slate-400 hover:text-slate-200 text-xl p-1 -mr-1 rounded-full focus:outline-none focus:ring-2 focus:ring-sky-500"
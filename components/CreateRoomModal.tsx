@@ -2,8 +2,8 @@
 import React, { useState } from 'react';
 import GameModal from './GameModal'; // 引入通用模態框組件
 import ActionButton from './ActionButton'; // 引入動作按鈕組件
-import { ClientRoomSettingsData } from '../types'; // 引入客戶端房間設定的類型定義
-import { ROUND_OPTIONS, NUM_PLAYERS } from '../constants'; // 引入局數選項和固定玩家數
+import { ClientRoomSettingsData, ROUND_OPTIONS, NUM_PLAYERS, SUPPORTED_PLAYER_COUNTS, SPECTATOR_LIMIT_OPTIONS, DEFAULT_MAX_SPECTATORS, AIDifficulty, AI_DIFFICULTY_OPTIONS, DEFAULT_AI_DIFFICULTY } from '@xiangqi-mahjong/core'; // 引入客戶端房間設定的類型定義、局數選項、座位數選項、觀戰人數選項和 AI 難度選項
+import { RULE_SET_OPTIONS } from '../constants'; // 引入規則選項
 
 /**
  * @description CreateRoomModal 組件的 props 類型定義
@@ -32,12 +32,23 @@ const CreateRoomModal: React.FC<CreateRoomModalProps> = ({ isOpen, onClose, onCr
   const [roomName, setRoomName] = useState('');
   /** @description 房間密碼的狀態 (可選)。 */
   const [password, setPassword] = useState('');
-  /** @description 遊戲最大玩家數 (固定值)。 */
-  const maxPlayersFixed = NUM_PLAYERS; 
+  /** @description 牌桌座位數的狀態 (三人桌或四人桌)。 */
+  const [playerCount, setPlayerCount] = useState<number>(NUM_PLAYERS); // 預設為四人桌
   /** @description 真人玩家數量的狀態。 */
   const [humanPlayers, setHumanPlayers] = useState<number>(1); // 預設至少1位真人玩家
   /** @description 遊戲總局數的狀態。 */
   const [numberOfRounds, setNumberOfRounds] = useState<number>(ROUND_OPTIONS[0].value); // 預設為第一個局數選項
+  /** @description 觀戰人數上限的狀態 (0 表示不開放觀戰)。 */
+  const [maxSpectators, setMaxSpectators] = useState<number>(DEFAULT_MAX_SPECTATORS);
+  /** @description AI 補位預設難度的狀態 (房主可在等待中逐座位調整)。 */
+  const [aiDifficulty, setAIDifficulty] = useState<AIDifficulty>(DEFAULT_AI_DIFFICULTY);
+  /** @description 指定洗牌種子的狀態 (可選，留空則由伺服器隨機產生)。 */
+  const [seedInput, setSeedInput] = useState('');
+  /** @description 所選房間規則的狀態 (RULE_SET_OPTIONS 中的 value)。 */
+  const [ruleSetOption, setRuleSetOption] = useState<string>(RULE_SET_OPTIONS[0].value); // 預設為標準規則
+
+  // 目前所選的規則選項
+  const selectedRuleSetOption = RULE_SET_OPTIONS.find(option => option.value === ruleSetOption) || RULE_SET_OPTIONS[0];
 
   /**
    * @description 處理表單提交（創建房間）的邏輯。
@@ -48,13 +59,25 @@ const CreateRoomModal: React.FC<CreateRoomModalProps> = ({ isOpen, onClose, onCr
       alert('請輸入房間名稱！');
       return;
     }
+    // 驗證洗牌種子 (若有填寫，必須為 0 到 4294967295 之間的整數)
+    const trimmedSeed = seedInput.trim();
+    const seed = trimmedSeed === '' ? undefined : Number(trimmedSeed);
+    if (seed !== undefined && (!Number.isInteger(seed) || seed < 0 || seed > 0xFFFFFFFF)) {
+      alert('洗牌種子必須是 0 到 4294967295 之間的整數！');
+      return;
+    }
     // 呼叫 onCreate 回調函數，傳遞房間設定
     onCreate({
       roomName: roomName.trim(), // 去除房間名稱前後空格
       password: password.trim() || undefined, // 如果密碼為空，則傳遞 undefined
       humanPlayers: humanPlayers, // 真人玩家數量
-      fillWithAI: true, // 若真人玩家不足，則總是嘗試用 AI 補齊 (伺服器端會根據 humanPlayers 和 maxPlayersFixed 計算 AI 數量)
+      fillWithAI: true, // 若真人玩家不足，則總是嘗試用 AI 補齊 (伺服器端會根據 humanPlayers 和 playerCount 計算 AI 數量)
+      playerCount, // 牌桌座位數
       numberOfRounds: numberOfRounds, // 總局數
+      seed, // 指定的洗牌種子 (可選)
+      ruleSet: selectedRuleSetOption.ruleSet, // 房間規則
+      maxSpectators, // 觀戰人數上限
+      aiDifficulty, // AI 補位的預設難度
     });
   };
 
@@ -113,6 +136,45 @@ const CreateRoomModal: React.FC<CreateRoomModalProps> = ({ isOpen, onClose, onCr
           </select>
         </div>
 
+        {/* 房間規則選擇 */}
+        <div>
+          <label htmlFor="ruleSet" className="block text-sm font-medium text-slate-300 mb-1">
+            房間規則
+          </label>
+          <select
+            id="ruleSet"
+            value={ruleSetOption}
+            onChange={(e) => setRuleSetOption(e.target.value)}
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100"
+          >
+            {RULE_SET_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-400 mt-1 px-1">{selectedRuleSetOption.description}</p>
+        </div>
+
+        {/* 牌桌座位數選擇 */}
+        <div>
+          <label htmlFor="playerCount" className="block text-sm font-medium text-slate-300 mb-1">
+            牌桌人數
+          </label>
+          <select
+            id="playerCount"
+            value={playerCount}
+            onChange={(e) => {
+              const count = parseInt(e.target.value);
+              setPlayerCount(count);
+              setHumanPlayers(prev => Math.min(prev, count)); // 真人玩家數不可超過座位數
+            }}
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100"
+          >
+            {SUPPORTED_PLAYER_COUNTS.map(count => (
+              <option key={count} value={count}>{count} 人桌</option>
+            ))}
+          </select>
+        </div>
+
         {/* 真人玩家數量選擇 */}
         <div>
           <label htmlFor="humanPlayers" className="block text-sm font-medium text-slate-300 mb-1">
@@ -124,12 +186,67 @@ const CreateRoomModal: React.FC<CreateRoomModalProps> = ({ isOpen, onClose, onCr
             onChange={(e) => setHumanPlayers(parseInt(e.target.value))}
             className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100"
           >
-            {/* 產生 1 到 maxPlayersFixed 的選項 */}
-            {[...Array(maxPlayersFixed).keys()].map(i => i + 1).map(num => (
+            {/* 產生 1 到 playerCount 的選項 */}
+            {[...Array(playerCount).keys()].map(i => i + 1).map(num => (
               <option key={num} value={num}>{num} 人</option>
             ))}
           </select>
-          <p className="text-xs text-slate-400 mt-1 px-1">遊戲為四人制。若真人玩家不足四人，將由 AI 自動補齊空位。</p>
+          <p className="text-xs text-slate-400 mt-1 px-1">若真人玩家不足 {playerCount} 人，將由 AI 自動補齊空位。</p>
+        </div>
+
+        {/* AI 難度選擇 (有 AI 補位時才顯示) */}
+        {humanPlayers < playerCount && (
+          <div>
+            <label htmlFor="aiDifficulty" className="block text-sm font-medium text-slate-300 mb-1">
+              AI 難度
+            </label>
+            <select
+              id="aiDifficulty"
+              value={aiDifficulty}
+              onChange={(e) => setAIDifficulty(e.target.value as AIDifficulty)}
+              className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100"
+            >
+              {AI_DIFFICULTY_OPTIONS.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+            <p className="text-xs text-slate-400 mt-1 px-1">所有 AI 座位的預設難度，開始遊戲前可在等待畫面逐座位調整。</p>
+          </div>
+        )}
+
+        {/* 觀戰人數上限選擇 */}
+        <div>
+          <label htmlFor="maxSpectators" className="block text-sm font-medium text-slate-300 mb-1">
+            觀戰人數
+          </label>
+          <select
+            id="maxSpectators"
+            value={maxSpectators}
+            onChange={(e) => setMaxSpectators(parseInt(e.target.value))}
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100"
+          >
+            {SPECTATOR_LIMIT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+          <p className="text-xs text-slate-400 mt-1 px-1">觀戰者只能看到公開資訊 (棄牌、明牌面子、分數)，看不到任何人的手牌。</p>
+        </div>
+
+        {/* 洗牌種子輸入 (可選) */}
+        <div>
+          <label htmlFor="roomSeed" className="block text-sm font-medium text-slate-300 mb-1">
+            洗牌種子 (可選)
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            id="roomSeed"
+            value={seedInput}
+            onChange={(e) => setSeedInput(e.target.value)}
+            className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md shadow-sm focus:ring-sky-500 focus:border-sky-500 text-slate-100 placeholder-slate-400"
+            placeholder="留空則隨機產生"
+          />
+          <p className="text-xs text-slate-400 mt-1 px-1">第一局以此種子洗牌與決定莊家，即可重現相同的發牌與摸牌順序 (之後各局及再戰的種子仍隨機產生)。</p>
         </div>
       </div>
       {/* 底部按鈕區域：取消和創建房間 */}
@@ -0,0 +1,51 @@
+import React from 'react';
+import { DrawGameSettlement } from '@xiangqi-mahjong/core'; // 引入類型定義
+
+/**
+ * @description DrawGameSettlementDisplay 組件的 props 類型定義
+ */
+interface DrawGameSettlementDisplayProps {
+  /** @param {DrawGameSettlement} settlement - 伺服器計算的流局聽牌情形與結算。 */
+  settlement: DrawGameSettlement;
+  /** @param {(playerId: number) => string} getPlayerName - 根據座位索引取得玩家名稱的函數。 */
+  getPlayerName: (playerId: number) => string;
+}
+
+/**
+ * @description DrawGameSettlementDisplay 組件，用於在流局時顯示聽牌的玩家與流局聽牌結算的分數變化。
+ * @param {DrawGameSettlementDisplayProps} props - 組件的屬性。
+ * @returns {React.FC} React 函數組件。
+ */
+const DrawGameSettlementDisplay: React.FC<DrawGameSettlementDisplayProps> = ({ settlement, getPlayerName }) => {
+  return (
+    <div className="mb-4 p-3 bg-slate-700/60 rounded text-sm text-slate-200 text-left">
+      {/* 聽牌的玩家 */}
+      <div className="flex justify-between">
+        <span>聽牌</span>
+        <span className="text-amber-300">
+          {settlement.tenpaiPlayerIds.length > 0 ? settlement.tenpaiPlayerIds.map(getPlayerName).join('、') : '無人聽牌'}
+        </span>
+      </div>
+      {/* 各玩家分數變化 (未啟用流局聽牌結算或無人需支付時不顯示) */}
+      {settlement.payments.length > 0 && (
+        <>
+          <div className="mt-2 pt-2 border-t border-slate-600 text-xs text-slate-400">
+            未聽牌者支付每位聽牌者 {settlement.pointsPerPayer}
+          </div>
+          <ul className="mt-2 space-y-0.5">
+            {settlement.payments.map(payment => (
+              <li key={payment.playerId} className="flex justify-between">
+                <span>{getPlayerName(payment.playerId)}</span>
+                <span className={payment.amount >= 0 ? 'text-green-400' : 'text-red-400'}>
+                  {payment.amount >= 0 ? '+' : ''}{payment.amount}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default DrawGameSettlementDisplay;
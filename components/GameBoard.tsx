@@ -12,13 +12,19 @@ import ChatBubbleIcon from './icons/ChatBubbleIcon';
 import SettingsIcon from './icons/SettingsIcon'; 
 import WaitingRoomModal from './WaitingRoomModal'; 
 import NextRoundConfirmModal from './NextRoundConfirmModal';
+import ScoreBreakdownDisplay from './ScoreBreakdownDisplay';
 import ActionAnnouncer, { ActionAnnouncement } from './ActionAnnouncer'; 
 import ProgressBar from './ProgressBar'; 
-// 引入類型定義和常數
-import { Tile, GamePhase, Claim, TileKind, Player, GameState, RoomSettings, ChatMessage, ServerToClientEvents, ClientToServerEvents, GameActionPayload, Suit, RematchVote } from '../types'; 
-import { TILE_KIND_DETAILS, GamePhaseTranslations, INITIAL_HAND_SIZE_DEALER, PLAYER_TURN_ACTION_TIMEOUT_SECONDS, CLAIM_DECISION_TIMEOUT_SECONDS, NUM_PLAYERS, ALL_TILE_KINDS as TILE_KIND_ENUM_VALUES, NEXT_ROUND_COUNTDOWN_SECONDS } from '../constants'; 
-// 引入遊戲規則相關的輔助函數 (主要用於 UI 判斷，伺服器為權威)
-import { canDeclareAnGang, canDeclareMingGangFromHand, checkWinCondition, getChiOptions } from '../utils/gameRules'; 
+import WaitingTilesIndicator from './WaitingTilesIndicator'; // 引入聽牌提示組件
+// 引入共用核心套件：類型定義、常數與向聽數計算
+import {
+  Tile, GamePhase, Claim, TileKind, Player, GameState, ChatMessage, ServerToClientEvents, ClientToServerEvents, GameActionPayload, Suit, RematchVote, HandAnalysis, AIDifficulty,
+  TILE_KIND_DETAILS, GamePhaseTranslations, PLAYER_TURN_ACTION_TIMEOUT_SECONDS, CLAIM_DECISION_TIMEOUT_SECONDS, NUM_PLAYERS, ALL_TILE_KINDS as TILE_KIND_ENUM_VALUES, NEXT_ROUND_COUNTDOWN_SECONDS,
+  analyzeHand, getVisibleTiles,
+} from '@xiangqi-mahjong/core';
+// 引入前端專用的類型定義和常數
+import { RoomSettings } from '../types';
+import { SEAT_POSITIONS_BY_PLAYER_COUNT, HU_ANNOUNCEMENT_TEXTS } from '../constants';
 // 引入音效播放函數
 import { playActionSound } from '../utils/audioManager';
 
@@ -38,6 +44,8 @@ interface GameBoardProps {
   toggleSettingsPanel: () => void; 
   /** @param {Socket<ServerToClientEvents, ClientToServerEvents>} socket - Socket.IO 連接實例。 */
   socket: Socket<ServerToClientEvents, ClientToServerEvents>;
+  /** @param {string} [spectatorName] - 以觀戰者身份檢視時的觀戰者名稱 (唯讀，看不到任何手牌；clientPlayerId 只決定畫面底部的座位)。未提供則為玩家。 */
+  spectatorName?: string;
 }
 
 /**
@@ -51,7 +59,6 @@ type ServerActionAnnouncementData = {
   isMultiHuTarget?: boolean; // 是否為「一炮多響」的目標之一
 };
 
-
 /**
  * @description GameBoard 組件，負責渲染整個遊戲界面，包括玩家、牌桌、棄牌堆、操作按鈕等。
  * @param {GameBoardProps} props - 組件的屬性。
@@ -63,8 +70,12 @@ const GameBoard: React.FC<GameBoardProps> = ({
     clientPlayerId, 
     onQuitGame, 
     toggleSettingsPanel, 
-    socket 
+    socket,
+    spectatorName
 }) => {
+  /** @description 是否以觀戰者身份檢視。 */
+  const isSpectator = spectatorName !== undefined;
+
   // --- 狀態管理 ---
   /** @description 當前的遊戲狀態，由 App.tsx 管理並透過 props傳入，此處為本地副本。 */
   const [gameState, setGameState] = useState<GameState>(initialGameState);
@@ -76,6 +87,8 @@ const GameBoard: React.FC<GameBoardProps> = ({
   const [showChatPanel, setShowChatPanel] = useState(false); 
   /** @description 遊戲內的聊天訊息列表。 */
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]); 
+  /** @description 觀戰聊天室的訊息列表 (僅觀戰者會收到)。 */
+  const [spectatorChatMessages, setSpectatorChatMessages] = useState<ChatMessage[]>([]);
   /** @description 記錄上一次摸到的牌，用於 UI 輔助選擇。 */
   const prevLastDrawnTileRef = useRef<Tile | null | undefined>(undefined);
   /** @description 是否正在提交動作 (用於禁用按鈕，防止重複提交)。 */
@@ -83,11 +96,17 @@ const GameBoard: React.FC<GameBoardProps> = ({
   /** @description 動作宣告的動畫訊息列表。 */
   const [actionAnnouncements, setActionAnnouncements] = useState<ActionAnnouncement[]>([]); 
 
+  /** @description 牌桌座位數 (來自房間設定，三人桌或四人桌)。 */
+  const seatCount = gameState.configuredPlayerCount || NUM_PLAYERS;
+  /** @description 依座位偏移排列的畫面位置 (索引 0 為自己，1 為下家，最後一個為上家)。 */
+  const seatPositions = SEAT_POSITIONS_BY_PLAYER_COUNT[seatCount] || SEAT_POSITIONS_BY_PLAYER_COUNT[NUM_PLAYERS];
+
   // --- 副作用 (useEffect) ---
   // 當 initialGameState (來自 props) 改變時 (例如加入新遊戲或新一局開始)，更新本地的 gameState
   useEffect(() => {
     setGameState(initialGameState); // 更新遊戲狀態
     setChatMessages([]); // 重置聊天訊息
+    setSpectatorChatMessages([]); // 重置觀戰聊天訊息
     setActionAnnouncements([]); // 重置動作宣告動畫
     console.log(`[GameBoard] Initial game state updated for room ${initialGameState.roomId}, round ${initialGameState.currentRound}.`);
   }, [initialGameState.roomId, initialGameState.currentRound]); // 依賴 roomId 和 currentRound，確保房間或局數變化時重置
@@ -102,12 +121,10 @@ const GameBoard: React.FC<GameBoardProps> = ({
       setGameState(newGameState);
       // 如果伺服器狀態改變導致「吃」牌選擇無效，則關閉選擇彈窗
       if (isSelectingChiCombo) {
-        const { gamePhase, playerMakingClaimDecision, chiOptions, lastDiscardedTile } = newGameState;
-        // 檢查是否仍然符合選擇「吃」牌的條件
+        const { legalActions: newLegalActions, lastDiscardedTile } = newGameState;
+        // 檢查是否仍然符合選擇「吃」牌的條件 (伺服器只在此客戶端可吃且尚未回覆時提供吃牌選項)
         if (
-            !(gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION &&
-            playerMakingClaimDecision === clientPlayerId && // 是當前客戶端在做決定
-            Array.isArray(chiOptions) && chiOptions.length > 0 && // 有可吃的選項
+            !((newLegalActions?.chiOptions.length ?? 0) > 0 && // 有可吃的選項
             !!lastDiscardedTile) // 有棄牌可吃
         ) {
             setIsSelectingChiCombo(false); // 條件不符，關閉彈窗
@@ -122,28 +139,30 @@ const GameBoard: React.FC<GameBoardProps> = ({
     const handleGameChatMessage = (message: ChatMessage) => {
       setChatMessages(prev => [...prev, message]); // 將新訊息添加到列表中
     };
+
+    /**
+     * @description 處理從伺服器收到的觀戰聊天室訊息。
+     * @param {ChatMessage} message - 收到的聊天訊息。
+     */
+    const handleSpectatorChatMessage = (message: ChatMessage) => {
+      setSpectatorChatMessages(prev => [...prev, message]);
+    };
     
     /**
      * @description 處理從伺服器收到的動作宣告動畫事件。
      * @param {ServerActionAnnouncementData} announcementFromServer - 伺服器發送的宣告資料。
      */
     const handleActionAnnouncement = (announcementFromServer: ServerActionAnnouncementData) => {
-       const numPlayers = NUM_PLAYERS; // 遊戲固定為4人
+       const numPlayers = seatCount; // 牌桌座位數 (3 或 4)
        
        // 計算宣告玩家相對於當前客戶端的 UI 位置
-       // offset: 0=自己(bottom), 1=右邊(right), 2=對面(top), 3=左邊(left)
+       // offset: 0=自己(bottom), 1=下家(right), 最後一位=上家(left)；四人桌的 2 為對面(top)
        const offset = (announcementFromServer.playerId - clientPlayerId + numPlayers) % numPlayers;
-       let uiPosition: 'top' | 'bottom' | 'left' | 'right';
+       let uiPosition: 'top' | 'bottom' | 'left' | 'right' | undefined = seatPositions[offset];
        
-       switch (offset) {
-           case 0: uiPosition = 'bottom'; break; 
-           case 1: uiPosition = 'right'; break;  
-           case 2: uiPosition = 'top'; break;    
-           case 3: uiPosition = 'left'; break;   
-           default: 
-             uiPosition = 'bottom'; // 理論上不應發生，作為備用
-             console.warn(`[GameBoard] 計算動作宣告的 offset 時發生錯誤: ${offset}。伺服器玩家ID: ${announcementFromServer.playerId}, 客戶端玩家ID: ${clientPlayerId}。預設為 'bottom'。`);
-             break;
+       if (!uiPosition) {
+           uiPosition = 'bottom'; // 理論上不應發生，作為備用
+           console.warn(`[GameBoard] 計算動作宣告的 offset 時發生錯誤: ${offset}。伺服器玩家ID: ${announcementFromServer.playerId}, 客戶端玩家ID: ${clientPlayerId}。預設為 'bottom'。`);
        }
 
        // 創建客戶端使用的宣告物件
@@ -169,14 +188,14 @@ const GameBoard: React.FC<GameBoardProps> = ({
        }
        
        // 需要播放音效的特殊動作列表
-       const specialActionsForSound = ["碰", "吃", "槓", "明槓", "暗槓", "加槓", "胡", "自摸", "天胡", "一炮多響"];
+       const specialActionsForSound = ["碰", "吃", "槓", "明槓", "暗槓", "加槓", ...HU_ANNOUNCEMENT_TEXTS, "一炮多響"];
        // 如果是特殊動作，或者是一般的 "打牌" 動作，則播放音效
        if (specialActionsForSound.includes(soundActionText) || soundActionText === "打牌") {
          playActionSound(soundActionText, tileKindForSound);
        }
 
        // 特殊處理「一炮多響」的胡牌音效
-       const isHuAction = ["胡", "自摸", "天胡"].includes(clientSideAnnouncement.text);
+       const isHuAction = HU_ANNOUNCEMENT_TEXTS.includes(clientSideAnnouncement.text);
        if (isHuAction && clientSideAnnouncement.isMultiHuTarget) {
            playActionSound("一炮多響"); 
        }
@@ -191,23 +210,25 @@ const GameBoard: React.FC<GameBoardProps> = ({
     // 監聽 Socket 事件
     socket.on('gameStateUpdate', handleGameStateUpdate);
     socket.on('gameChatMessage', handleGameChatMessage);
+    socket.on('gameSpectatorChatMessage', handleSpectatorChatMessage);
     socket.on('actionAnnouncement', handleActionAnnouncement as (data: any) => void); // 使用 any 轉型以匹配可能的類型差異，需確保邏輯正確
 
     // 清理函數：移除事件監聽器
     return () => {
       socket.off('gameStateUpdate', handleGameStateUpdate);
       socket.off('gameChatMessage', handleGameChatMessage);
+      socket.off('gameSpectatorChatMessage', handleSpectatorChatMessage);
       socket.off('actionAnnouncement', handleActionAnnouncement as (data: any) => void);
     };
-  }, [socket, TILE_KIND_ENUM_VALUES, clientPlayerId, gameState.players.length, isSelectingChiCombo]); // 依賴項
+  }, [socket, TILE_KIND_ENUM_VALUES, clientPlayerId, gameState.players.length, isSelectingChiCombo, seatCount, seatPositions]); // 依賴項
 
   // --- 玩家相關衍生變數 (從 gameState 獲取) ---
-  /** @description 當前客戶端的玩家物件 (如果存在且為真人)。 */
-  const humanPlayer = gameState.players.find(p => p.id === clientPlayerId && p.isHuman);
+  /** @description 當前客戶端的玩家物件 (如果存在且為真人；觀戰者沒有玩家物件)。 */
+  const humanPlayer = isSpectator ? undefined : gameState.players.find(p => p.id === clientPlayerId && p.isHuman);
   /** @description 當前回合的玩家物件。 */
   const currentPlayer = gameState.players.length > 0 ? gameState.players[gameState.currentPlayerIndex] : null;
-  /** @description 正在做宣告決定的玩家物件。 */
-  const playerMakingDecision = gameState.playerMakingClaimDecision !== null ? gameState.players.find(p => p.id === gameState.playerMakingClaimDecision) : null;
+  /** @description 當前客戶端是否需要在宣告窗口中回覆 (伺服器只在此客戶端可宣告且尚未回覆時提供宣告選項)。 */
+  const clientIsRespondingToClaim = (gameState.legalActions?.claims.length ?? 0) > 0;
   /** @description 當前客戶端是否為房主。 */
   const isHumanHost = humanPlayer?.isHost;
 
@@ -279,14 +300,12 @@ const GameBoard: React.FC<GameBoardProps> = ({
    * @param {Tile} tile - 被點擊的牌。
    */
   const handleTileClick = useCallback((tile: Tile) => {
-    // 僅當是真人玩家的回合，且遊戲階段允許選擇手牌時有效
-    if (humanPlayer && currentPlayer?.id === humanPlayer.id && gameState.players.find(p => p.id === humanPlayer.id)?.isHuman) {
-        if (gameState.gamePhase === GamePhase.PLAYER_DRAWN || gameState.gamePhase === GamePhase.AWAITING_DISCARD) {
-            // 點擊已選中的牌則取消選中，否則選中該牌
-            setSelectedTileId(currentSelectedId => (currentSelectedId === tile.id ? null : tile.id));
-        }
+    // 僅能選擇伺服器列為可打出的牌
+    if (gameState.legalActions?.discardableTileIds.includes(tile.id)) {
+        // 點擊已選中的牌則取消選中，否則選中該牌
+        setSelectedTileId(currentSelectedId => (currentSelectedId === tile.id ? null : tile.id));
     }
-  }, [humanPlayer, currentPlayer, gameState.gamePhase, gameState.players]); // 依賴項 (gameState.players 加入以確保玩家資訊最新)
+  }, [gameState.legalActions]); // 依賴項
 
   // --- 玩家動作處理函數 ---
   /** @description 處理打牌動作。 */
@@ -330,7 +349,12 @@ const GameBoard: React.FC<GameBoardProps> = ({
    * @param {string} messageText - 要發送的訊息內容。
    */
   const handleSendChatMessage = (messageText: string) => {
-    if (!humanPlayer || !gameState.roomId) return; // 必須是真人玩家且在房間內
+    if (!gameState.roomId) return; // 必須在房間內
+    if (isSpectator) { // 觀戰者只能在觀戰聊天室發言
+      socket.emit('gameSendSpectatorChatMessage', gameState.roomId, messageText);
+      return;
+    }
+    if (!humanPlayer) return; // 必須是真人玩家
     socket.emit('gameSendChatMessage', gameState.roomId, messageText);
     // 樂觀更新已移除，等待伺服器透過 'gameChatMessage' 事件廣播回來
   };
@@ -345,6 +369,17 @@ const GameBoard: React.FC<GameBoardProps> = ({
     }
   };
   
+  /**
+   * @description 處理房主在等待畫面調整某個空位的 AI 難度。
+   * @param {number} seatId - 座位索引。
+   * @param {AIDifficulty} difficulty - 選擇的 AI 難度。
+   */
+  const handleSetAIDifficulty = (seatId: number, difficulty: AIDifficulty) => {
+    if (isHumanHost && gameState.roomId) { // 必須是房主且有房間ID
+      socket.emit('gameSetAIDifficulty', gameState.roomId, seatId, difficulty); // 伺服器更新後會發送 gameStateUpdate
+    }
+  };
+
   /** @description 處理確認下一局的動作。 */
   const handleConfirmNextRound = () => {
     if (humanPlayer && gameState.roomId) { // 必須是真人玩家且有房間ID
@@ -359,6 +394,34 @@ const GameBoard: React.FC<GameBoardProps> = ({
     }
   };
 
+  /**
+   * @description 根據座位索引取得玩家名稱 (用於台數結算顯示)。
+   * @param {number} playerId - 座位索引。
+   * @returns {string} 玩家名稱。
+   */
+  const getPlayerNameById = (playerId: number): string => {
+    return gameState.players.find(p => p.id === playerId)?.name || `座位 ${playerId}`;
+  };
+
+  /** @description 向伺服器請求本房間已完成各局的牌譜，並下載為 JSON 檔案。 */
+  const handleExportReplay = () => {
+    if (!gameState.roomId) return;
+    socket.emit('gameRequestReplay', gameState.roomId, (ack) => {
+      if (!ack.success || !ack.replay) {
+        alert(ack.message || '匯出牌譜失敗。');
+        return;
+      }
+      // 以 Blob 建立下載連結並觸發下載
+      const blob = new Blob([JSON.stringify(ack.replay, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `牌譜-${ack.replay.roomName}-${new Date(ack.replay.exportedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-')}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    });
+  };
+
   // --- 渲染輔助函數 ---
   /**
    * @description 根據指定的位置渲染玩家顯示區域。
@@ -370,19 +433,16 @@ const GameBoard: React.FC<GameBoardProps> = ({
       return <div className={`p-2 rounded-lg shadow-inner bg-slate-700/30 min-h-[100px] w-full flex items-center justify-center text-slate-500 text-xs`}>等待玩家資料...</div>;
     }
     
-    let displayPlayerIndex = -1; // 要顯示的玩家在 gameState.players 陣列中的索引
-    // 使用 NUM_PLAYERS (遊戲固定人數) 計算相對位置，以確保一致性
-    const numGamePlayers = gameState.players.length >= NUM_PLAYERS ? gameState.players.length : NUM_PLAYERS;
+    // 使用房間設定的牌桌座位數計算相對位置，以確保一致性
+    const numGamePlayers = seatCount;
 
     if (clientPlayerId === null || numGamePlayers === 0) return <div className="p-2">等待玩家資訊...</div>;
 
-    // 計算對應位置的玩家索引
-    switch (playerDisplayPosition) {
-        case 'bottom': displayPlayerIndex = clientPlayerId; break; // 底部是自己
-        case 'right': displayPlayerIndex = (clientPlayerId + 1) % numGamePlayers; break; // 右邊是下家
-        case 'top': displayPlayerIndex = (clientPlayerId + 2) % numGamePlayers; break;   // 對面是對家
-        case 'left': displayPlayerIndex = (clientPlayerId + 3) % numGamePlayers; break;  // 左邊是上家
-    }
+    // 計算對應位置的座位偏移 (底部是自己、右邊是下家、左邊是上家、對面僅四人桌才有)
+    const seatOffset = seatPositions.indexOf(playerDisplayPosition);
+    if (seatOffset === -1) return null; // 三人桌沒有對面的座位
+    // 要顯示的玩家在 gameState.players 陣列中的索引
+    const displayPlayerIndex = (clientPlayerId + seatOffset) % numGamePlayers;
     
     // 防禦性檢查：索引是否有效
     if (displayPlayerIndex < 0 || displayPlayerIndex >= gameState.players.length) { 
@@ -399,12 +459,12 @@ const GameBoard: React.FC<GameBoardProps> = ({
     return (
       <PlayerDisplay
         player={targetPlayerToDisplay}
-        // 是否為當前回合玩家 (包含正在做宣告決定的玩家)
+        // 是否為當前回合玩家 (包含需要回覆宣告的客戶端本人；其他玩家是否可宣告不會公開)
         isCurrentPlayer={
             targetPlayerToDisplay.id === currentPlayer?.id || 
-            (targetPlayerToDisplay.id === playerMakingDecision?.id && gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION) 
+            (targetPlayerToDisplay.id === clientPlayerId && clientIsRespondingToClaim) 
         }
-        isHumanPlayerView={playerDisplayPosition === 'bottom'} // 底部視為真人玩家主視角
+        isHumanPlayerView={playerDisplayPosition === 'bottom' && !isSpectator} // 底部視為真人玩家主視角 (觀戰者沒有主視角)
         onTileClick={playerDisplayPosition === 'bottom' ? handleTileClick : undefined} // 僅底部玩家可點擊手牌
         selectedTileId={playerDisplayPosition === 'bottom' ? selectedTileId : null} // 僅底部玩家顯示選中牌
         position={playerDisplayPosition} // 玩家位置
@@ -413,65 +473,39 @@ const GameBoard: React.FC<GameBoardProps> = ({
     );
   };
 
-  // --- UI 邏輯：根據遊戲狀態判斷按鈕是否啟用/顯示 ---
-  let canHumanPlayerDraw = false; // 真人玩家是否可以摸牌
-  let canHumanPlayerDiscard = false; // 真人玩家是否可以打牌
-  let canHumanPlayerDeclareWin = false; // 真人玩家是否可以胡牌
-  let winButtonLabel = "胡牌"; // 胡牌按鈕的文字
-  const humanPlayerAnGangOptions: TileKind[] = []; // 真人玩家可暗槓的選項
-  const humanPlayerMingGangFromHandOptions: {pengMeldKind: TileKind, drawnTile: Tile}[] = []; // 真人玩家可加槓的選項
-  let humanPlayerClaimActions: Claim[] = []; // 真人玩家對棄牌可做的宣告
-
-  // 僅在真人玩家存在且遊戲未結束/等待/本局結束/等待再戰投票 時計算
-  if (humanPlayer && 
-      gameState.gamePhase !== GamePhase.GAME_OVER && 
-      gameState.gamePhase !== GamePhase.WAITING_FOR_PLAYERS && 
+  // --- UI 邏輯：按鈕只依伺服器為此座位計算的合法動作顯示 (客戶端不自行判斷規則) ---
+  const legalActions = gameState.legalActions; // 伺服器發送的合法動作 (非此座位可行動時各列表為空)
+  const canHumanPlayerDraw = !!legalActions?.canDraw; // 真人玩家是否可以摸牌
+  const canHumanPlayerDiscard = (legalActions?.discardableTileIds.length ?? 0) > 0; // 真人玩家是否可以打牌
+  const canHumanPlayerDeclareWin = !!legalActions?.selfDrawnHu; // 真人玩家是否可以宣告天胡或自摸
+  const winButtonLabel = legalActions?.selfDrawnHu === 'heavenly' ? "天胡" : "自摸"; // 胡牌按鈕的文字
+  const humanPlayerAnGangOptions: TileKind[] = legalActions?.anGangKinds ?? []; // 真人玩家可暗槓的選項
+  const humanPlayerJiaGangOptions: TileKind[] = legalActions?.jiaGangKinds ?? []; // 真人玩家可加槓的選項
+  const humanPlayerClaimActions: Claim[] = legalActions?.claims ?? []; // 真人玩家對棄牌可做的宣告
+  const humanPlayerChiOptions: Tile[][] = legalActions?.chiOptions ?? []; // 真人玩家可選的吃牌組合
+
+  // --- 聽牌提示：目前手牌等的牌 (扣除看得到的棄牌與面子後的剩餘張數)，以及選中一張牌後打出它的聽牌預覽 ---
+  let humanPlayerCurrentWait: HandAnalysis | null = null; // 目前手牌聽牌時的分析
+  let humanPlayerDiscardPreview: { tile: Tile; analysis: HandAnalysis } | null = null; // 打出選中牌後的分析
+  if (humanPlayer &&
+      gameState.gamePhase !== GamePhase.GAME_OVER &&
+      gameState.gamePhase !== GamePhase.WAITING_FOR_PLAYERS &&
       gameState.gamePhase !== GamePhase.ROUND_OVER &&
-      gameState.gamePhase !== GamePhase.AWAITING_REMATCH_VOTES 
+      gameState.gamePhase !== GamePhase.AWAITING_REMATCH_VOTES
     ) {
-    const humanIsCurrentPlayer = currentPlayer?.id === humanPlayer.id; // 是否輪到真人玩家
-    const humanIsMakingClaimDecision = playerMakingDecision?.id === humanPlayer.id; // 是否是真人在做宣告決定
-
-    if (humanIsCurrentPlayer) { // 如果輪到真人玩家
-        if (gameState.gamePhase === GamePhase.PLAYER_TURN_START) { // 回合開始，等待摸牌
-            const canWinBeforeDraw = checkWinCondition(humanPlayer.hand, humanPlayer.melds).isWin; // 檢查摸牌前是否可胡 (天胡)
-            const anGangOptionsBeforeDraw = canDeclareAnGang(humanPlayer.hand, null); // 檢查摸牌前可否暗槓
-            canHumanPlayerDraw = true; // 總是允許摸牌 (即使有天胡/暗槓選項，仍可選擇摸牌)
-            if (canWinBeforeDraw) {
-                canHumanPlayerDeclareWin = true;
-                winButtonLabel = "天胡"; 
-            }
-            humanPlayerAnGangOptions.push(...anGangOptionsBeforeDraw);
-        }
-        if (gameState.gamePhase === GamePhase.PLAYER_DRAWN && gameState.lastDrawnTile) { // 已摸牌，等待打牌
-            canHumanPlayerDiscard = true; // 可以打牌
-            const handForWinCheck = gameState.lastDrawnTile ? [...humanPlayer.hand, gameState.lastDrawnTile] : humanPlayer.hand;
-            if (checkWinCondition(handForWinCheck, humanPlayer.melds).isWin) { // 檢查是否自摸
-                canHumanPlayerDeclareWin = true;
-                winButtonLabel = "自摸";
-            }
-            humanPlayerAnGangOptions.push(...canDeclareAnGang(humanPlayer.hand, gameState.lastDrawnTile)); // 檢查暗槓 (含剛摸的牌)
-            if (gameState.lastDrawnTile) { // 檢查加槓
-                humanPlayerMingGangFromHandOptions.push(...canDeclareMingGangFromHand(humanPlayer.hand, humanPlayer.melds, gameState.lastDrawnTile));
-            }
-        }
-        if (gameState.gamePhase === GamePhase.AWAITING_DISCARD) { // 等待打牌 (莊家開局或吃碰槓後)
-            canHumanPlayerDiscard = true; // 可以打牌
-            // 特殊情況：莊家開局第一回合，手牌8張，檢查是否胡牌或暗槓
-            if (currentPlayer?.isDealer && gameState.turnNumber === 1 && gameState.lastDrawnTile && humanPlayer.hand.length +1 === INITIAL_HAND_SIZE_DEALER) { 
-                 const dealerInitialHandForWinCheck = [...humanPlayer.hand, gameState.lastDrawnTile]; // 包含剛"摸"到的第8張牌
-                 if (checkWinCondition(dealerInitialHandForWinCheck, humanPlayer.melds).isWin) {
-                     canHumanPlayerDeclareWin = true;
-                     winButtonLabel = "胡牌"; // 莊家開局胡牌
-                 }
-                 humanPlayerAnGangOptions.push(...canDeclareAnGang(dealerInitialHandForWinCheck, null)); // 莊家開局暗槓
-            }
-        }
+    const visibleTiles = getVisibleTiles(gameState, humanPlayer.id); // 玩家看得到的牌
+    // 剛摸到的牌 (或莊家開局的第8張牌) 顯示在手牌右側，需併入手牌一起分析
+    const drawnTileBesideHand = currentPlayer?.id === humanPlayer.id &&
+        (gameState.gamePhase === GamePhase.PLAYER_DRAWN || gameState.gamePhase === GamePhase.AWAITING_DISCARD) ? gameState.lastDrawnTile : null;
+    const fullHand = drawnTileBesideHand ? [...humanPlayer.hand, drawnTileBesideHand] : humanPlayer.hand;
+    const currentAnalysis = analyzeHand(fullHand, humanPlayer.melds, visibleTiles, gameState.ruleSet);
+    if (currentAnalysis.shanten === 0 && currentAnalysis.usefulTiles.length > 0) {
+        humanPlayerCurrentWait = currentAnalysis;
     }
-
-    // 如果是真人在做宣告決定，且有棄牌可供宣告
-    if (humanIsMakingClaimDecision && gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && gameState.lastDiscardedTile) {
-        humanPlayerClaimActions = humanPlayer.pendingClaims || []; // 從玩家物件中獲取可宣告的動作
+    const selectedTile = canHumanPlayerDiscard ? fullHand.find(tile => tile.id === selectedTileId) : undefined;
+    if (selectedTile) {
+        const handAfterDiscard = fullHand.filter(tile => tile.id !== selectedTile.id);
+        humanPlayerDiscardPreview = { tile: selectedTile, analysis: analyzeHand(handAfterDiscard, humanPlayer.melds, visibleTiles, gameState.ruleSet) };
     }
   }
 
@@ -479,7 +513,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
   const phaseDisplayName = GamePhaseTranslations[gameState.gamePhase] || gameState.gamePhase;
   // 計時器是否對當前真人玩家有效
   const isTimerActiveForHuman = humanPlayer && gameState.actionTimer !== null && gameState.actionTimer > 0 &&
-                                ((gameState.actionTimerType === 'claim' && playerMakingDecision?.id === humanPlayer.id) || 
+                                ((gameState.actionTimerType === 'claim' && humanPlayerClaimActions.length > 0) || 
                                  (gameState.actionTimerType === 'turn' && currentPlayer?.id === humanPlayer.id));
   // 計時器的最大值 (用於進度條)
   const maxTimerValue = gameState.actionTimerType === 'claim' ? CLAIM_DECISION_TIMEOUT_SECONDS : PLAYER_TURN_ACTION_TIMEOUT_SECONDS;
@@ -494,28 +528,28 @@ const GameBoard: React.FC<GameBoardProps> = ({
   // ROUND_OVER 且有 nextRoundCountdown 顯示下一局確認彈窗，
   // AWAITING_REMATCH_VOTES 顯示再戰投票彈窗。
   if (gameState.gamePhase === GamePhase.GAME_OVER || gameState.gamePhase === GamePhase.ROUND_OVER || gameState.gamePhase === GamePhase.AWAITING_REMATCH_VOTES) {
-    if (gameState.winnerId !== null) { // 如果有贏家
-        const winner = gameState.players.find(p => p.id === gameState.winnerId);
-        if (winner) {
-            roundOverModalDetails = { winnerName: winner.name, winType: gameState.winType, winningTileKind: gameState.winningDiscardedTile?.kind || gameState.lastDrawnTile?.kind };
-            if (gameState.winType === 'selfDrawn') { // 自摸
-                gameOverModalTitle = `${winner.name} 自摸!`;
-                gameOverModalContent = <p>恭喜 {winner.name}，自摸獲勝！</p>;
-            } else if (gameState.winType === 'discard' && gameState.winningDiscardedTile && gameState.winningTileDiscarderId !== null) { // 食胡
-                const discarder = gameState.players.find(p => p.id === gameState.winningTileDiscarderId); // 放槍者
-                gameOverModalTitle = `${winner.name} 胡牌!`;
-                gameOverModalContent = <p>恭喜 {winner.name}！胡了由 ${discarder?.name || '某玩家'} 打出的【{gameState.winningDiscardedTile.kind}】。</p>;
-                roundOverModalDetails.discarderName = discarder?.name || '某玩家';
-            } else { // 其他胡牌情況 (理論上應為上述兩種之一)
-                gameOverModalTitle = `${winner.name} 胡牌了!`; 
-                gameOverModalContent = <p>恭喜 {winner.name}!</p>;
-            }
+    if (gameState.winnerIds.length > 0) { // 如果有贏家 (一炮多響時有多位)
+        const winnerNames = gameState.winnerIds.map(getPlayerNameById).join('、');
+        roundOverModalDetails = { winnerNames: gameState.winnerIds.map(getPlayerNameById), winType: gameState.winType, winningTileKind: gameState.winningDiscardedTile?.kind || gameState.lastDrawnTile?.kind, scoreBreakdowns: gameState.roundScoreBreakdowns };
+        if (gameState.winType === 'selfDrawn') { // 自摸
+            gameOverModalTitle = `${winnerNames} 自摸!`;
+            gameOverModalContent = <p>恭喜 {winnerNames}，自摸獲勝！</p>;
+        } else if (gameState.winType === 'discard' && gameState.winningDiscardedTile && gameState.winningTileDiscarderId !== null) { // 食胡
+            const discarderName = getPlayerNameById(gameState.winningTileDiscarderId); // 放槍者
+            gameOverModalTitle = gameState.winnerIds.length > 1 ? `一炮多響! ${winnerNames} 胡牌!` : `${winnerNames} 胡牌!`;
+            gameOverModalContent = <p>恭喜 {winnerNames}！胡了由 {discarderName} 打出的【{gameState.winningDiscardedTile.kind}】。</p>;
+            roundOverModalDetails.discarderName = discarderName;
+        } else { // 其他胡牌情況 (理論上應為上述兩種之一)
+            gameOverModalTitle = `${winnerNames} 胡牌了!`; 
+            gameOverModalContent = <p>恭喜 {winnerNames}!</p>;
         }
     } else if (gameState.isDrawGame) { // 流局
         gameOverModalTitle = "流局!";
         gameOverModalContent = <p>無人胡牌，本局為流局。</p>;
-        roundOverModalDetails = { isDrawGame: true };
+        roundOverModalDetails = { isDrawGame: true, drawGameSettlement: gameState.drawGameSettlement };
     }
+    // 本局洗牌種子 (伺服器只在本局結束後提供，回報問題時可附上以重現牌局)
+    if (roundOverModalDetails) roundOverModalDetails.roundSeed = gameState.roundSeed;
     // 根據不同階段調整標題
     if (gameState.gamePhase === GamePhase.ROUND_OVER) { 
         gameOverModalTitle = `第 ${gameState.currentRound} 局結束`;
@@ -538,6 +572,9 @@ const GameBoard: React.FC<GameBoardProps> = ({
     <div className="w-full h-full max-w-7xl max-h-[1000px] bg-slate-800 shadow-2xl rounded-xl p-3 grid grid-cols-[180px_1fr_180px] grid-rows-[180px_1fr_180px] gap-2 relative landscape-mode">
       {/* 右上角按鈕區域：設定、離開房間 */}
       <div className="absolute top-3 right-3 z-50 flex items-center space-x-3">
+        {isSpectator && (
+          <span className="px-2 py-1 bg-sky-700/70 rounded text-xs text-sky-100" title="觀戰中只能看到公開資訊">觀戰中</span>
+        )}
         <button
             onClick={toggleSettingsPanel} // 開啟設定面板
             className="p-2 bg-slate-700/50 hover:bg-slate-600 rounded-full text-white transition-colors"
@@ -559,7 +596,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
       {/* 動作宣告動畫：僅顯示碰、吃、槓、胡等特殊宣告 */}
       {actionAnnouncements
         .filter(ann => { // 過濾要顯示的宣告類型
-          const specialActions = ["碰", "吃", "槓", "明槓", "暗槓", "加槓", "胡", "自摸", "天胡", "一炮多響"];
+          const specialActions = ["碰", "吃", "槓", "明槓", "暗槓", "加槓", ...HU_ANNOUNCEMENT_TEXTS, "一炮多響"];
           return specialActions.includes(ann.text);
         })
         .map(ann => (
@@ -570,7 +607,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
       {/* 玩家顯示區域：僅在非等待玩家/等待再戰投票階段顯示 */}
       {gameState.gamePhase !== GamePhase.WAITING_FOR_PLAYERS && gameState.gamePhase !== GamePhase.AWAITING_REMATCH_VOTES && (
         <>
-          {/* 上方玩家 */}
+          {/* 上方玩家 (三人桌時此位置留空) */}
           <div className="col-start-2 row-start-1 flex">
             {renderPlayer('top')}
           </div>
@@ -585,10 +622,10 @@ const GameBoard: React.FC<GameBoardProps> = ({
           {/* 下方玩家 (主視角) */}
           <div className="col-start-2 row-start-3 flex flex-row items-stretch">
             {renderPlayer('bottom')}
-            {/* 如果是真人玩家的回合且已摸牌，在其右側顯示剛摸到的牌 */}
+            {/* 如果是真人玩家的回合且已摸牌 (或莊家開局的第8張牌)，在其右側顯示剛摸到的牌 */}
             {humanPlayer &&
                 currentPlayer?.id === humanPlayer.id &&
-                gameState.gamePhase === GamePhase.PLAYER_DRAWN && 
+                (gameState.gamePhase === GamePhase.PLAYER_DRAWN || gameState.gamePhase === GamePhase.AWAITING_DISCARD) && 
                 gameState.lastDrawnTile && (
                 <div className="ml-2 flex items-center justify-center relative z-10">
                     <TileDisplay
@@ -618,6 +655,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
                     <div>房間: <span className="font-semibold text-amber-200">{roomSettings.roomName}</span></div>
                     <div>局: <span className="font-semibold text-amber-200">{gameState.currentRound}/{gameState.numberOfRounds || initialGameState.numberOfRounds || 1}</span> | 回合: <span className="font-semibold text-amber-200">{gameState.turnNumber}</span></div>
                     <div className="mt-1">狀態: <span className="font-semibold text-sky-300">{phaseDisplayName}</span></div>
+                    {gameState.ruleSet && <div className="text-xs text-slate-400">規則: {gameState.ruleSet.name}</div>}
                 </div>
                 
                 {/* 行動計時器 (僅對當前真人玩家顯示) */}
@@ -637,7 +675,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
             
             {/* 牌堆顯示 */}
             <div className="mt-20 flex items-center space-x-2 text-base text-slate-200 p-2 bg-black/50 rounded">
-                <span>牌堆: {gameState.deck.length}</span>
+                <span>牌堆: {gameState.deck.length}{gameState.ruleSet.reservedTileCount > 0 && ` (留 ${gameState.ruleSet.reservedTileCount})`}</span>
                 {gameState.deck.length > 0 && <TileDisplay tile={null} size="large" isHidden={true} />} {/* 顯示牌背代表牌堆 */}
             </div>
 
@@ -665,12 +703,15 @@ const GameBoard: React.FC<GameBoardProps> = ({
             <div className="flex-grow w-full flex flex-col items-center justify-center">
                 {gameState.lastDiscardedTile && (gameState.gamePhase === GamePhase.TILE_DISCARDED || gameState.gamePhase === GamePhase.AWAITING_CLAIMS_RESOLUTION || gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION || gameState.gamePhase === GamePhase.ACTION_PENDING_CHI_CHOICE) && (
                     <div className="mb-2 p-1 bg-yellow-600/30 rounded flex flex-col items-center">
-                        <span className="text-xs text-yellow-200 mb-0.5">最新棄牌 (待宣告):</span>
+                        <span className="text-xs text-yellow-200 mb-0.5">{gameState.robbableKong ? '加槓的牌 (可搶槓):' : '最新棄牌 (待宣告):'}</span>
                         <TileDisplay tile={gameState.lastDiscardedTile} size="medium" isDiscarded isLatestDiscard={true} />
                     </div>
                 )}
             </div>
         
+            {/* 聽牌提示 (聽牌或選中要打的牌時顯示) */}
+            <WaitingTilesIndicator currentWait={humanPlayerCurrentWait} discardPreview={humanPlayerDiscardPreview} />
+
             {/* 玩家操作按鈕區域 */}
             <div className="flex flex-wrap gap-2 justify-center items-center mt-auto p-2 min-h-[50px]">
                 {/* 手動摸牌按鈕 (已為自動摸牌註解掉) */}
@@ -682,18 +723,18 @@ const GameBoard: React.FC<GameBoardProps> = ({
 
                 {/* 打牌按鈕 */}
                 {canHumanPlayerDiscard && (
-                <ActionButton label="打牌" onClick={handleDiscard} disabled={!selectedTileId || isSubmitting} variant="danger" />
+                <ActionButton label="打牌" onClick={handleDiscard} disabled={!selectedTileId || !legalActions?.discardableTileIds.includes(selectedTileId) || isSubmitting} variant="danger" />
                 )}
-                {/* 摸牌階段或莊家開局的可選動作：暗槓、加槓、胡牌 */}
-                {(gameState.gamePhase === GamePhase.PLAYER_TURN_START || gameState.gamePhase === GamePhase.PLAYER_DRAWN || (gameState.gamePhase === GamePhase.AWAITING_DISCARD && currentPlayer?.isDealer && gameState.turnNumber ===1)) && humanPlayer && currentPlayer?.id === humanPlayer.id &&(
+                {/* 摸牌階段或莊家開局的可選動作：暗槓、加槓、胡牌 (皆由伺服器判定) */}
+                {humanPlayer && (
                 <>
                     {/* 暗槓按鈕 (多個選項) */}
                     {humanPlayerAnGangOptions.map(kind => (
                     <ActionButton key={`an-gang-${kind}`} label={`暗槓 ${kind}`} onClick={() => emitPlayerAction({ type: 'DECLARE_AN_GANG', tileKind: kind })} variant="warning" disabled={isSubmitting} />
                     ))}
                     {/* 加槓按鈕 (多個選項) */}
-                    {humanPlayerMingGangFromHandOptions.map(option => (
-                    <ActionButton key={`ming-gang-${option.pengMeldKind}`} label={`加槓 ${option.pengMeldKind}`} onClick={() => emitPlayerAction({ type: 'DECLARE_MING_GANG_FROM_HAND', tileKind: option.pengMeldKind })} variant="warning" disabled={isSubmitting}/>
+                    {humanPlayerJiaGangOptions.map(kind => (
+                    <ActionButton key={`ming-gang-${kind}`} label={`加槓 ${kind}`} onClick={() => emitPlayerAction({ type: 'DECLARE_MING_GANG_FROM_HAND', tileKind: kind })} variant="warning" disabled={isSubmitting}/>
                     ))}
                     {/* 胡牌按鈕 (天胡/自摸) */}
                     {canHumanPlayerDeclareWin && ( 
@@ -702,12 +743,12 @@ const GameBoard: React.FC<GameBoardProps> = ({
                 </>
                 )}
                 {/* 宣告階段的按鈕：胡、碰、槓、吃、跳過 */}
-                {gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && playerMakingDecision?.id === clientPlayerId && humanPlayerClaimActions.length > 0 && (
+                {humanPlayerClaimActions.length > 0 && (
                 <>
                     {humanPlayerClaimActions.map(claim => ( // 遍歷可宣告的動作
                     <ActionButton
                         key={claim.action}
-                        label={claim.action === 'Hu' ? '胡牌' : claim.action === 'Peng' ? '碰' : claim.action === 'Gang' ? '槓' : '吃'}
+                        label={claim.action === 'Hu' ? (gameState.robbableKong ? '搶槓胡' : '胡牌') : claim.action === 'Peng' ? '碰' : claim.action === 'Gang' ? '槓' : '吃'}
                         onClick={() => {
                         if (!gameState.lastDiscardedTile) return; // 防禦：必須有棄牌才能宣告
                         // 根據宣告類型發送不同動作
@@ -716,7 +757,7 @@ const GameBoard: React.FC<GameBoardProps> = ({
                         else if (claim.action === 'Gang') emitPlayerAction({ type: 'CLAIM_GANG', tile: gameState.lastDiscardedTile });
                         else if (claim.action === 'Chi') {
                              // 如果伺服器提供了吃牌選項且輪到此玩家決定，則打開選擇彈窗
-                             if (gameState.chiOptions && gameState.chiOptions.length > 0 && playerMakingDecision?.id === clientPlayerId) {
+                             if (humanPlayerChiOptions.length > 0) {
                                setIsSelectingChiCombo(true); // 打開吃牌組合選擇彈窗
                              } else {
                                console.warn("[GameBoard] 選擇「吃」但無可用選項或條件不符。自動跳過。");
@@ -756,6 +797,8 @@ const GameBoard: React.FC<GameBoardProps> = ({
             dealerName={gameState.players.find(p => p.isDealer)?.name} // 莊家名稱 (若已決定)
             currentRound={gameState.currentRound} // 當前局數
             numberOfRounds={gameState.numberOfRounds || initialGameState.numberOfRounds || 1} // 總局數
+            aiDifficulties={gameState.configuredAIDifficulties} // 各座位的 AI 難度
+            onSetAIDifficulty={handleSetAIDifficulty} // 調整空位 AI 難度回調
           />
       )}
 
@@ -770,7 +813,9 @@ const GameBoard: React.FC<GameBoardProps> = ({
             humanPlayersReadyForNextRound={gameState.humanPlayersReadyForNextRound} // 已確認的真人玩家列表
             onConfirmNextRound={handleConfirmNextRound} // 確認下一局的回調
             onQuitGame={onQuitGame} // 退出遊戲的回調
+            onExportReplay={isSpectator ? undefined : handleExportReplay} // 匯出牌譜的回調 (觀戰者無法匯出)
             roundOverDetails={roundOverModalDetails} // 本局結束的詳細資訊 (贏家、方式等)
+            getPlayerName={getPlayerNameById} // 顯示台數結算時取得玩家名稱
         />
       )}
 
@@ -791,14 +836,15 @@ const GameBoard: React.FC<GameBoardProps> = ({
             <ChatBubbleIcon /> {/* 聊天圖示 */}
         </button>
       </div>
-      {/* 聊天面板：當 showChatPanel 為 true，且是真人玩家，且不在等待房間階段時顯示 */}
-      {showChatPanel && humanPlayer && gameState.gamePhase !== GamePhase.WAITING_FOR_PLAYERS && (
+      {/* 聊天面板：當 showChatPanel 為 true，且是真人玩家或觀戰者，且不在等待房間階段時顯示 (觀戰者使用觀戰聊天室) */}
+      {showChatPanel && (humanPlayer || isSpectator) && gameState.gamePhase !== GamePhase.WAITING_FOR_PLAYERS && (
         <ChatPanel
           isOpen={showChatPanel}
           onClose={() => setShowChatPanel(false)} // 關閉面板回調
-          messages={chatMessages} // 聊天訊息列表
+          messages={isSpectator ? spectatorChatMessages : chatMessages} // 聊天訊息列表
           onSendMessage={handleSendChatMessage} // 發送訊息回調
-          currentPlayerName={humanPlayer.name} // 當前玩家名稱
+          currentPlayerName={humanPlayer?.name ?? spectatorName ?? ''} // 當前玩家名稱 (觀戰者為觀戰者名稱)
+          title={isSpectator ? '觀戰聊天室' : undefined}
         />
       )}
 
@@ -810,6 +856,14 @@ const GameBoard: React.FC<GameBoardProps> = ({
       >
         {/* 顯示最終結果 */}
         {gameOverModalContent}
+        {/* 最後一局的台數明細 (一炮多響時每位贏家各一份) */}
+        {gameState.roundScoreBreakdowns.length > 0 && (
+          <div className="mt-3">
+            {gameState.roundScoreBreakdowns.map(breakdown => (
+              <ScoreBreakdownDisplay key={breakdown.winnerId} breakdown={breakdown} getPlayerName={getPlayerNameById} showWinnerName={gameState.roundScoreBreakdowns.length > 1} />
+            ))}
+          </div>
+        )}
         <hr className="my-4 border-slate-600" />
         
         <h3 className="text-lg font-semibold text-sky-300 mb-2">是否再戰一場？</h3>
@@ -858,6 +912,14 @@ const GameBoard: React.FC<GameBoardProps> = ({
               className="w-full sm:w-auto opacity-70 cursor-not-allowed"
             />
           )}
+          {!isSpectator && (
+            <ActionButton 
+              label="匯出牌譜" 
+              onClick={handleExportReplay} 
+              variant="secondary" 
+              className="w-full sm:w-auto"
+            />
+          )}
           <ActionButton 
             label="返回大廳" 
             onClick={onQuitGame} 
@@ -888,17 +950,15 @@ const GameBoard: React.FC<GameBoardProps> = ({
       <GameModal
         isOpen={ // 彈窗開啟條件
             isSelectingChiCombo && // 本地狀態控制是否嘗試開啟
-            gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && // 伺服器等待此玩家做宣告決定
-            // Fix: Correct typo from playerMakingClaimDecision to playerMakingDecision
-            playerMakingDecision?.id === clientPlayerId && // 確實是此客戶端在做決定
-            Array.isArray(gameState.chiOptions) && gameState.chiOptions.length > 0 && // 伺服器提供了可吃的選項
+            gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && // 宣告窗口開啟中
+            humanPlayerChiOptions.length > 0 && // 伺服器提供了可吃的選項 (此客戶端可吃且尚未回覆)
             !!gameState.lastDiscardedTile // 有棄牌可吃
         }
         title="選擇吃牌組合" // 彈窗標題
         onClose={() => setIsSelectingChiCombo(false)} // 點擊背景關閉彈窗 (不執行跳過操作)
       >
         <div className="space-y-2">
-          {gameState.chiOptions?.map((option, index) => { // 遍歷可吃的組合
+          {humanPlayerChiOptions.map((option, index) => { // 遍歷可吃的組合
             // 完整的吃牌組合 (手上兩張 + 棄牌一張)，並排序
             const fullChiSet = [...option, gameState.lastDiscardedTile!];
             fullChiSet.sort((a, b) => TILE_KIND_DETAILS[a.kind].orderValue - TILE_KIND_DETAILS[b.kind].orderValue); 
@@ -927,8 +987,8 @@ const GameBoard: React.FC<GameBoardProps> = ({
                 label="取消 / 跳過吃" 
                 onClick={() => { 
                     setIsSelectingChiCombo(false); // 關閉彈窗
-                    // 如果伺服器仍然在等待此玩家做宣告決定，則執行跳過操作
-                    if (gameState.gamePhase === GamePhase.AWAITING_PLAYER_CLAIM_ACTION && playerMakingDecision?.id === clientPlayerId) { 
+                    // 如果伺服器仍然在等待此玩家回覆宣告，則執行跳過操作
+                    if (clientIsRespondingToClaim) { 
                        handlePassClaim(); 
                     }
                 }} 
@@ -1,10 +1,10 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import ActionButton from './ActionButton'; // 引入動作按鈕組件
 import LockIcon from './icons/LockIcon';   // 引入鎖圖示組件
 import LobbyLeaderboard from './LobbyLeaderboard'; // 新增排行榜組件
 import LobbyChatPanel from './LobbyChatPanel';   // 新增聊天面板組件
-import { RoomListData, ChatMessage, ServerToClientEvents, ClientToServerEvents } from '../types'; // 引入類型定義
+import { RoomListData, ChatMessage, ServerToClientEvents, ClientToServerEvents, AIDifficultyTranslations } from '@xiangqi-mahjong/core'; // 引入類型定義與 AI 難度名稱
 import type { Socket } from 'socket.io-client'; // 引入 Socket.IO 客戶端類型
 
 /**
@@ -15,8 +15,12 @@ interface LobbyProps {
   onCreateRoomClick: () => void;
   /** @param {(room: RoomListData) => void} onJoinRoomClick - 點擊「加入房間」按鈕時觸發的回調函數，參數為要加入的房間資訊。 */
   onJoinRoomClick: (room: RoomListData) => void;
+  /** @param {(room: RoomListData) => void} onSpectateRoomClick - 點擊「觀戰」按鈕時觸發的回調函數，參數為要觀戰的房間資訊。 */
+  onSpectateRoomClick: (room: RoomListData) => void;
   /** @param {() => void} onReturnToHome - 點擊「返回主頁」按鈕時觸發的回調函數。 */
   onReturnToHome: () => void;
+  /** @param {(file: File) => void} onOpenReplayFile - 玩家選擇牌譜檔案後觸發的回調函數，參數為選擇的檔案。 */
+  onOpenReplayFile: (file: File) => void;
   /** @param {string} currentPlayerName - 當前玩家的名稱。 */
   currentPlayerName: string; 
   /** @param {RoomListData[]} lobbyRooms - 從伺服器獲取的大廳房間列表。 */
@@ -33,7 +37,9 @@ interface LobbyProps {
 const Lobby: React.FC<LobbyProps> = ({ 
     onCreateRoomClick, 
     onJoinRoomClick, 
+    onSpectateRoomClick,
     onReturnToHome, 
+    onOpenReplayFile,
     currentPlayerName,
     lobbyRooms, // 房間列表現在由 App.tsx 透過 props 傳入
     socket
@@ -42,6 +48,8 @@ const Lobby: React.FC<LobbyProps> = ({
   const [isLoadingRooms, setIsLoadingRooms] = useState(false); 
   // 大廳聊天訊息列表狀態
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  // 隱藏的牌譜檔案選擇器
+  const replayFileInputRef = useRef<HTMLInputElement>(null);
 
   // --- 副作用 (useEffect) ---
   // 監聽來自伺服器的大廳聊天訊息，並在組件卸載時移除監聽器
@@ -108,6 +116,24 @@ const Lobby: React.FC<LobbyProps> = ({
                 size="md"
                 className="flex-1 sm:flex-initial"
             />
+            <ActionButton
+                label="觀看牌譜"
+                onClick={() => replayFileInputRef.current?.click()} // 開啟檔案選擇器
+                variant="secondary"
+                size="md"
+                className="flex-1 sm:flex-initial"
+            />
+            <input
+                ref={replayFileInputRef}
+                type="file"
+                accept=".json,application/json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onOpenReplayFile(file);
+                  e.target.value = ''; // 重設，以便再次選擇同一個檔案
+                }}
+            />
         </div>
 
         {/* 房間列表區域 */}
@@ -134,22 +160,40 @@ const Lobby: React.FC<LobbyProps> = ({
                       <p className="font-semibold text-sky-200 text-sm sm:text-base">{room.name}</p>
                       <p className="text-xs sm:text-sm text-slate-300">
                         局數: {room.numberOfRounds || '未定'} | 真人: {room.currentHumanPlayers}/{room.targetHumanPlayers} | 狀態: {room.status}
+                        {room.maxSpectators > 0 && ` | 觀戰: ${room.spectatorsCount}/${room.maxSpectators}`}
+                        {room.aiDifficulties.length > 0 && ` | AI: ${room.aiDifficulties.map(difficulty => AIDifficultyTranslations[difficulty]).join('/')}`}
                       </p>
                     </div>
                   </div>
-                  {/* 加入按鈕 */}
-                  <ActionButton
-                    // 按鈕文字根據房間狀態和是否有密碼而變化
-                    label={room.status === '等待中' ? (room.passwordProtected ? '加入 (需密碼)' : '加入房間') : '觀戰(禁用)'}
-                    onClick={() => room.status === '等待中' && onJoinRoomClick(room)} // 僅在等待中狀態下可加入
-                    // 禁用條件：非等待中狀態，或房間真人玩家已滿
-                    disabled={room.status !== '等待中' || room.currentHumanPlayers >= room.targetHumanPlayers}
-                    size="sm"
-                    // 按鈕顏色：可加入時為主要顏色，否則為次要顏色
-                    variant={room.status === '等待中' && room.currentHumanPlayers < room.targetHumanPlayers ? 'primary' : 'secondary'}
-                    // 滑鼠懸停提示
-                    title={room.currentHumanPlayers >= room.targetHumanPlayers && room.status === '等待中' ? '房間真人玩家已滿' : (room.status !== '等待中' ? '遊戲已開始或結束' : `加入 ${room.name}`)}
-                  />
+                  <div className="flex items-center space-x-2 flex-shrink-0">
+                    {/* 加入按鈕 (僅等待中的房間) */}
+                    {room.status === '等待中' && (
+                      <ActionButton
+                        // 按鈕文字根據是否有密碼而變化
+                        label={room.passwordProtected ? '加入 (需密碼)' : '加入房間'}
+                        onClick={() => onJoinRoomClick(room)}
+                        // 禁用條件：房間真人玩家已滿
+                        disabled={room.currentHumanPlayers >= room.targetHumanPlayers}
+                        size="sm"
+                        // 按鈕顏色：可加入時為主要顏色，否則為次要顏色
+                        variant={room.currentHumanPlayers < room.targetHumanPlayers ? 'primary' : 'secondary'}
+                        // 滑鼠懸停提示
+                        title={room.currentHumanPlayers >= room.targetHumanPlayers ? '房間真人玩家已滿' : `加入 ${room.name}`}
+                      />
+                    )}
+                    {/* 觀戰按鈕 (開放觀戰且尚未結束的房間) */}
+                    {room.maxSpectators > 0 && room.status !== '已結束' && (
+                      <ActionButton
+                        label="觀戰"
+                        onClick={() => onSpectateRoomClick(room)}
+                        // 禁用條件：觀戰名額已滿
+                        disabled={room.spectatorsCount >= room.maxSpectators}
+                        size="sm"
+                        variant="secondary"
+                        title={room.spectatorsCount >= room.maxSpectators ? '房間的觀戰名額已滿' : `觀戰 ${room.name}`}
+                      />
+                    )}
+                  </div>
                 </li>
               ))}
             </ul>
@@ -1,8 +1,7 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import ActionButton from './ActionButton';
-import { ChatMessage } from '../types';
-import { SYSTEM_SENDER_NAME_FRONTEND } from '../constants'; // 引入常數
+import { ChatMessage, SYSTEM_SENDER_NAME } from '@xiangqi-mahjong/core'; // 引入類型定義與常數
 
 interface LobbyChatPanelProps {
   messages: ChatMessage[];
@@ -47,7 +46,7 @@ const LobbyChatPanel: React.FC<LobbyChatPanelProps> = ({ messages, onSendMessage
               className={`max-w-[85%] p-1.5 rounded-md ${
                 msg.senderName === currentPlayerName
                   ? 'bg-sky-700 text-white'
-                  : (msg.senderName === SYSTEM_SENDER_NAME_FRONTEND ? 'bg-amber-600 text-white' : 'bg-slate-500 text-slate-100')
+                  : (msg.senderName === SYSTEM_SENDER_NAME ? 'bg-amber-600 text-white' : 'bg-slate-500 text-slate-100')
               }`}
             >
               <p className="font-semibold text-xs mb-0.5 opacity-80">
@@ -1,6 +1,9 @@
 
 import React from 'react';
 import ActionButton from './ActionButton'; // 引入動作按鈕組件
+import ScoreBreakdownDisplay from './ScoreBreakdownDisplay'; // 引入台數明細組件
+import DrawGameSettlementDisplay from './DrawGameSettlementDisplay'; // 引入流局結算組件
+import { ScoreBreakdown, DrawGameSettlement } from '@xiangqi-mahjong/core'; // 引入類型定義
 // 移除未使用的 GamePhase 和 Player 類型導入 (如果未使用)
 // import { GamePhase, Player } from '../types'; 
 
@@ -24,21 +27,31 @@ interface NextRoundConfirmModalProps {
   onConfirmNextRound: (playerId: number) => void;
   /** @param {() => void} onQuitGame - 玩家點擊「離開房間」時觸發的回調函數。 */
   onQuitGame: () => void;
+  /** @param {() => void} [onExportReplay] - (可選) 玩家點擊「匯出牌譜」時觸發的回調函數，未提供則不顯示該按鈕。 */
+  onExportReplay?: () => void;
   /** 
    * @param {object | null} roundOverDetails - 本局結束的詳細資訊，用於顯示結果。
-   * @param {string} [roundOverDetails.winnerName] - 贏家名稱。
+   * @param {string[]} [roundOverDetails.winnerNames] - 贏家名稱 (一炮多響時有多位)。
    * @param {'selfDrawn' | 'discard' | null} [roundOverDetails.winType] - 胡牌類型。
    * @param {string} [roundOverDetails.discarderName] - 放槍者名稱 (若為食胡)。
    * @param {string} [roundOverDetails.winningTileKind] - 胡的牌的種類。
    * @param {boolean} [roundOverDetails.isDrawGame] - 是否為流局。
+   * @param {DrawGameSettlement | null} [roundOverDetails.drawGameSettlement] - 流局時的聽牌情形與結算。
+   * @param {ScoreBreakdown[]} [roundOverDetails.scoreBreakdowns] - 伺服器計算的每位贏家的台數明細與結算。
+   * @param {number | null} [roundOverDetails.roundSeed] - 本局洗牌種子 (回報問題時可附上以重現牌局)。
    */
   roundOverDetails: {
-    winnerName?: string;
+    winnerNames?: string[];
     winType?: 'selfDrawn' | 'discard' | null;
     discarderName?: string;
     winningTileKind?: string;
     isDrawGame?: boolean;
+    drawGameSettlement?: DrawGameSettlement | null;
+    scoreBreakdowns?: ScoreBreakdown[];
+    roundSeed?: number | null;
   } | null;
+  /** @param {(playerId: number) => string} getPlayerName - 根據座位索引取得玩家名稱的函數 (用於顯示台數結算)。 */
+  getPlayerName: (playerId: number) => string;
 }
 
 /**
@@ -55,7 +68,9 @@ const NextRoundConfirmModal: React.FC<NextRoundConfirmModalProps> = ({
   humanPlayersReadyForNextRound,
   onConfirmNextRound,
   onQuitGame,
+  onExportReplay,
   roundOverDetails,
+  getPlayerName,
 }) => {
   // 如果模態框未開啟，則不渲染任何內容
   if (!isOpen) return null;
@@ -66,16 +81,18 @@ const NextRoundConfirmModal: React.FC<NextRoundConfirmModalProps> = ({
   // 構建本局結果的顯示訊息
   let resultMessage = "";
   if (roundOverDetails) {
-    if (roundOverDetails.winnerName) { // 如果有贏家
+    const winnerNames = (roundOverDetails.winnerNames || []).join('、');
+    if (winnerNames) { // 如果有贏家
       if (roundOverDetails.winType === 'selfDrawn') { // 自摸
-        resultMessage = `恭喜 ${roundOverDetails.winnerName}，自摸獲勝！`;
+        resultMessage = `恭喜 ${winnerNames}，自摸獲勝！`;
         if (roundOverDetails.winningTileKind) { // 顯示胡的牌
             resultMessage += ` (胡 ${roundOverDetails.winningTileKind})`;
         }
       } else if (roundOverDetails.winType === 'discard' && roundOverDetails.discarderName && roundOverDetails.winningTileKind) { // 食胡
-        resultMessage = `恭喜 ${roundOverDetails.winnerName}！胡了由 ${roundOverDetails.discarderName} 打出的【${roundOverDetails.winningTileKind}】。`;
+        const multipleWinnerText = (roundOverDetails.winnerNames || []).length > 1 ? '一炮多響！' : '';
+        resultMessage = `${multipleWinnerText}恭喜 ${winnerNames}！胡了由 ${roundOverDetails.discarderName} 打出的【${roundOverDetails.winningTileKind}】。`;
       } else { // 其他胡牌情況 (理論上應為上述兩種之一)
-        resultMessage = `恭喜 ${roundOverDetails.winnerName} 獲勝！`;
+        resultMessage = `恭喜 ${winnerNames} 獲勝！`;
       }
     } else if (roundOverDetails.isDrawGame) { // 流局
       resultMessage = "本局為流局。";
@@ -96,6 +113,26 @@ const NextRoundConfirmModal: React.FC<NextRoundConfirmModalProps> = ({
             <p className="text-slate-200 mb-4 text-lg">{resultMessage}</p>
         )}
 
+        {/* 台數明細與結算 (一炮多響時每位贏家各一份，並標示贏家) */}
+        {roundOverDetails?.scoreBreakdowns?.map(breakdown => (
+            <ScoreBreakdownDisplay
+              key={breakdown.winnerId}
+              breakdown={breakdown}
+              getPlayerName={getPlayerName}
+              showWinnerName={(roundOverDetails.scoreBreakdowns || []).length > 1}
+            />
+        ))}
+
+        {/* 流局時的聽牌情形與結算 */}
+        {roundOverDetails?.drawGameSettlement && (
+            <DrawGameSettlementDisplay settlement={roundOverDetails.drawGameSettlement} getPlayerName={getPlayerName} />
+        )}
+
+        {/* 本局洗牌種子 */}
+        {roundOverDetails?.roundSeed !== null && roundOverDetails?.roundSeed !== undefined && (
+            <p className="text-xs text-slate-400 mb-4 select-all" title="本局洗牌種子">種子: {roundOverDetails.roundSeed}</p>
+        )}
+
         {/* 下一局倒數計時 */}
         {countdown !== null && (
           <p className="text-xl text-amber-300 mb-6 animate-pulse">
@@ -121,6 +158,16 @@ const NextRoundConfirmModal: React.FC<NextRoundConfirmModalProps> = ({
               已確認，等待其他玩家或倒數結束...
             </p>
           )}
+          {/* 匯出牌譜按鈕 */}
+          {onExportReplay && (
+            <ActionButton
+              label="匯出牌譜"
+              onClick={onExportReplay}
+              variant="secondary"
+              size="md"
+              className="w-full sm:w-auto"
+            />
+          )}
           {/* 離開房間按鈕 */}
           <ActionButton
             label="離開房間"
@@ -1,8 +1,7 @@
 
 import React from 'react';
-import { Player, Tile, Meld, Suit, GamePhase, MeldDesignation } from '../types'; // 引入類型定義
+import { Player, Tile, Meld, Suit, GamePhase, MeldDesignation, TILE_KIND_DETAILS } from '@xiangqi-mahjong/core'; // 引入類型定義與牌的詳細設定
 import TileDisplay from './TileDisplay'; // 引入牌顯示組件
-import { TILE_KIND_DETAILS } from '../constants'; // 引入牌的詳細設定
 
 /**
  * @description PlayerDisplay 組件的 props 類型定義
@@ -205,7 +204,7 @@ const PlayerDisplay: React.FC<PlayerDisplayProps> = ({
                     size="small" // 面子牌用小尺寸
                     isRevealedMeld // 標記為已公開面子的一部分
                     characterOrientation={tileCharOrientation} // 牌面文字方向
-                    isHidden={false} // 面子牌總是顯示牌面
+                    isHidden={!meld.isOpen && !showRealHand} // 其他玩家的暗槓顯示為牌背 (伺服器只送出牌背，本局結束後公開)
                   />
                 );
                 
@@ -0,0 +1,354 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import PlayerDisplay from './PlayerDisplay'; // 引入玩家顯示組件
+import TileDisplay from './TileDisplay'; // 引入牌顯示組件
+import ActionButton from './ActionButton'; // 引入動作按鈕組件
+import { ReplayFile, RoundJournal, RoundStateSnapshot, JournalEntry, Player, Tile, GamePhase, GamePhaseTranslations, NUM_PLAYERS } from '@xiangqi-mahjong/core'; // 引入類型定義與共用常數
+import { REPLAY_STEP_INTERVAL_MS, SEAT_POSITIONS_BY_PLAYER_COUNT } from '../constants'; // 引入前端常數
+
+/**
+ * @description ReplayViewer 組件的 props 類型定義
+ */
+interface ReplayViewerProps {
+  /** @param {ReplayFile} replay - 要檢視的牌譜檔案內容。 */
+  replay: ReplayFile;
+  /** @param {() => void} onClose - 點擊「離開牌譜」按鈕時觸發的回調函數。 */
+  onClose: () => void;
+}
+
+/** @description 自動播放可選的速度倍率。 */
+const PLAYBACK_SPEEDS = [0.5, 1, 2, 4];
+
+/**
+ * @description 根據一局的發牌結果，建立開局 (尚未有任何動作) 時的狀態快照。
+ * @param {RoundJournal} round - 單局牌局記錄。
+ * @returns {RoundStateSnapshot} 開局時的狀態快照。
+ */
+const createInitialSnapshot = (round: RoundJournal): RoundStateSnapshot => ({
+  players: round.seats.map(seat => ({
+    id: seat.id,
+    hand: round.initialDeal.hands[seat.id] || [],
+    melds: [],
+    isDealer: seat.id === round.dealerIndex,
+    score: round.initialScores[seat.id] ?? 0,
+  })),
+  deck: round.initialDeal.deck,
+  discardPile: [],
+  currentPlayerIndex: round.dealerIndex,
+  dealerIndex: round.dealerIndex,
+  lastDiscarderIndex: null,
+  gamePhase: GamePhase.AWAITING_DISCARD, // 莊家開局即持有8張牌，等待打出第一張
+  lastDiscardedTile: null,
+  lastDrawnTile: null,
+  turnNumber: 1,
+  winnerIds: [],
+  winningTileDiscarderId: null,
+  winType: null,
+  winningDiscardedTile: null,
+  isDrawGame: false,
+  drawGameSettlement: null,
+});
+
+/**
+ * @description 在步驟前的狀態快照中，依牌的ID尋找玩家打出的牌 (可能在手牌中或為剛摸到的牌)。
+ * @param {RoundStateSnapshot} snapshot - 動作執行前的狀態快照。
+ * @param {number} playerId - 打牌的座位索引。
+ * @param {string} tileId - 牌的ID。
+ * @returns {Tile | null} 找到的牌，找不到則返回 null。
+ */
+const findTileBeforeDiscard = (snapshot: RoundStateSnapshot, playerId: number, tileId: string): Tile | null => {
+  if (snapshot.lastDrawnTile?.id === tileId) return snapshot.lastDrawnTile;
+  return snapshot.players[playerId]?.hand.find(t => t.id === tileId) || null;
+};
+
+/**
+ * @description 將牌局記錄中的一個步驟轉換為可讀的文字描述。
+ * @param {JournalEntry} entry - 牌局記錄步驟。
+ * @param {RoundStateSnapshot} before - 該步驟執行前的狀態快照。
+ * @param {string} seatName - 執行動作的玩家名稱。
+ * @returns {string} 步驟描述。
+ */
+const describeEntry = (entry: JournalEntry, before: RoundStateSnapshot, seatName: string): string => {
+  const { action } = entry;
+  let text: string;
+  switch (action.type) {
+    case 'DRAW_TILE': text = '摸牌'; break;
+    case 'DISCARD_TILE': text = `打出 ${findTileBeforeDiscard(before, entry.playerId, action.tileId)?.kind ?? action.tileId}`; break;
+    case 'DECLARE_AN_GANG': text = `暗槓 ${action.tileKind}`; break;
+    case 'DECLARE_MING_GANG_FROM_HAND': text = `加槓 ${action.tileKind}`; break;
+    case 'CLAIM_PENG': text = `碰 ${action.tile.kind}`; break;
+    case 'CLAIM_GANG': text = `明槓 ${action.tile.kind}`; break;
+    case 'CLAIM_CHI': text = `吃 ${action.discardedTile.kind} (${action.tilesToChiWith.map(t => t.kind).join('、')})`; break;
+    case 'DECLARE_HU': text = entry.stateAfter.winType === 'selfDrawn' ? '自摸' : '胡牌'; break;
+    case 'PASS_CLAIM': text = '跳過'; break;
+    default: text = '未知動作';
+  }
+  return `${seatName}: ${text}${entry.accepted ? '' : ' (未被接受)'}`;
+};
+
+/**
+ * @description ReplayViewer 組件，用於逐步檢視已匯出的牌譜。
+ *              所有玩家的手牌皆以明牌顯示，並提供上一步/下一步、跳至指定回合與自動播放控制。
+ * @param {ReplayViewerProps} props - 組件的屬性。
+ * @returns {React.FC} React 函數組件。
+ */
+const ReplayViewer: React.FC<ReplayViewerProps> = ({ replay, onClose }) => {
+  // 正在檢視的局 (rounds 陣列索引)
+  const [roundIndex, setRoundIndex] = useState(0);
+  // 目前的步驟：0 為開局，n 為執行完第 n 個動作之後
+  const [stepIndex, setStepIndex] = useState(0);
+  // 是否正在自動播放
+  const [isPlaying, setIsPlaying] = useState(false);
+  // 自動播放速度倍率
+  const [playbackSpeed, setPlaybackSpeed] = useState(1);
+  // 「跳至回合」輸入框的內容
+  const [jumpTurnInput, setJumpTurnInput] = useState('');
+  // 底部 (主視角) 顯示的座位索引
+  const [bottomSeatId, setBottomSeatId] = useState(0);
+
+  const round: RoundJournal | undefined = replay.rounds[roundIndex];
+
+  // 本局每一步的狀態快照：開局快照 + 每個動作之後的快照
+  const snapshots = useMemo<RoundStateSnapshot[]>(() => {
+    if (!round) return [];
+    return [createInitialSnapshot(round), ...round.entries.map(entry => entry.stateAfter)];
+  }, [round]);
+
+  const lastStepIndex = Math.max(snapshots.length - 1, 0);
+  const snapshot = snapshots[Math.min(stepIndex, lastStepIndex)];
+
+  // --- 副作用 (useEffect) ---
+  // 切換局時回到開局並停止播放
+  useEffect(() => {
+    setStepIndex(0);
+    setIsPlaying(false);
+  }, [roundIndex]);
+
+  // 自動播放：依速度定時前進一步，播到最後一步時自動停止
+  useEffect(() => {
+    if (!isPlaying) return;
+    if (stepIndex >= lastStepIndex) {
+      setIsPlaying(false);
+      return;
+    }
+    const timer = setTimeout(() => setStepIndex(s => Math.min(s + 1, lastStepIndex)), REPLAY_STEP_INTERVAL_MS / playbackSpeed);
+    return () => clearTimeout(timer); // 清理函數：步驟或速度改變時重設計時器
+  }, [isPlaying, stepIndex, lastStepIndex, playbackSpeed]);
+
+  if (!round || !snapshot) {
+    return (
+      <div className="p-6 bg-slate-800 rounded-lg text-center space-y-4">
+        <p className="text-slate-300">此牌譜沒有任何已完成的局。</p>
+        <ActionButton label="離開牌譜" onClick={onClose} variant="secondary" />
+      </div>
+    );
+  }
+
+  const numSeats = round.seats.length;
+  // 將快照中的座位資料轉換為 PlayerDisplay 使用的 Player 物件
+  const toPlayer = (seatId: number): Player => {
+    const seat = round.seats[seatId];
+    const state = snapshot.players[seatId];
+    return {
+      id: seatId,
+      name: seat?.name ?? `座位 ${seatId}`,
+      isHuman: true, // 牌譜中不需要顯示 AI 的 "(思考中)" 提示
+      isOnline: true,
+      socketId: null,
+      hand: state?.hand ?? [],
+      melds: state?.melds ?? [],
+      isDealer: state?.isDealer ?? false,
+      score: state?.score ?? 0,
+    };
+  };
+
+  /**
+   * @description 處理「跳至回合」：跳到該回合的第一個步驟 (找不到時跳到最後一步)。
+   */
+  const handleJumpToTurn = () => {
+    const targetTurn = parseInt(jumpTurnInput, 10);
+    if (isNaN(targetTurn)) return;
+    const targetIndex = snapshots.findIndex(s => s.turnNumber >= targetTurn);
+    setIsPlaying(false);
+    setStepIndex(targetIndex === -1 ? lastStepIndex : targetIndex);
+  };
+
+  /**
+   * @description 渲染指定位置的玩家 (所有玩家手牌皆為明牌)。
+   * @param {'bottom' | 'right' | 'top' | 'left'} position - 玩家在牌桌上的位置。
+   * @returns {JSX.Element | null} 渲染的玩家區域。
+   */
+  const renderSeat = (position: 'bottom' | 'right' | 'top' | 'left') => {
+    const offset = (SEAT_POSITIONS_BY_PLAYER_COUNT[numSeats] || SEAT_POSITIONS_BY_PLAYER_COUNT[NUM_PLAYERS]).indexOf(position);
+    if (offset === -1) return null; // 三人桌不顯示對面的座位
+    const seatId = (bottomSeatId + offset) % numSeats;
+    const isCurrent = snapshot.currentPlayerIndex === seatId;
+    return (
+      <div className="flex flex-row items-stretch">
+        <PlayerDisplay
+          player={toPlayer(seatId)}
+          isCurrentPlayer={isCurrent}
+          isHumanPlayerView={true} // 牌譜檢視時所有手牌皆以明牌顯示
+          position={position}
+          gamePhase={snapshot.gamePhase}
+        />
+        {/* 當前玩家剛摸到、尚未併入手牌的牌 (含莊家開局的第8張牌) */}
+        {isCurrent && (snapshot.gamePhase === GamePhase.PLAYER_DRAWN || snapshot.gamePhase === GamePhase.AWAITING_DISCARD) && snapshot.lastDrawnTile && (
+          <div className="ml-2 flex items-center justify-center">
+            <TileDisplay tile={snapshot.lastDrawnTile} size="medium" />
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  // 當前步驟的描述
+  const currentEntry = stepIndex > 0 ? round.entries[stepIndex - 1] : null;
+  const stepDescription = currentEntry
+    ? describeEntry(currentEntry, snapshots[stepIndex - 1], round.seats[currentEntry.playerId]?.name ?? `座位 ${currentEntry.playerId}`)
+    : '開局 (發牌完成)';
+
+  // 本局結果描述 (僅在最後一步顯示)
+  let resultDescription = '';
+  if (stepIndex === lastStepIndex && round.finalSnapshot) {
+    const finalState = round.finalSnapshot;
+    if (finalState.winnerIds.length > 0) {
+      const winnerName = finalState.winnerIds.map(winnerId => round.seats[winnerId]?.name ?? `座位 ${winnerId}`).join('、');
+      resultDescription = finalState.winType === 'selfDrawn'
+        ? `${winnerName} 自摸`
+        : `${winnerName} 胡牌 (放槍: ${finalState.winningTileDiscarderId !== null ? round.seats[finalState.winningTileDiscarderId]?.name : '未知'})`;
+    } else if (finalState.isDrawGame) {
+      const tenpaiNames = (finalState.drawGameSettlement?.tenpaiPlayerIds ?? []).map(playerId => round.seats[playerId]?.name ?? `座位 ${playerId}`);
+      resultDescription = tenpaiNames.length > 0 ? `流局 (聽牌: ${tenpaiNames.join('、')})` : '流局';
+    }
+  }
+
+  return (
+    // 牌譜檢視器主容器：與 GameBoard 相同的九宮格佈局
+    <div className="w-full h-full max-w-7xl max-h-[1000px] bg-slate-800 shadow-2xl rounded-xl p-3 grid grid-cols-[180px_1fr_180px] grid-rows-[180px_1fr_180px] gap-2 relative landscape-mode">
+      {/* 右上角：離開牌譜 */}
+      <div className="absolute top-3 right-3 z-50">
+        <ActionButton label="離開牌譜" onClick={onClose} variant="secondary" size="sm" className="!px-3 !py-1.5 text-xs" />
+      </div>
+
+      {/* 各座位玩家 */}
+      <div className="col-start-2 row-start-1 flex">{renderSeat('top')}</div>
+      <div className="col-start-1 row-start-2 flex justify-center items-center">{renderSeat('left')}</div>
+      <div className="col-start-3 row-start-2 flex justify-center items-center">{renderSeat('right')}</div>
+      <div className="col-start-2 row-start-3 flex">{renderSeat('bottom')}</div>
+
+      {/* 中央區域：牌局資訊、棄牌堆與播放控制 */}
+      <div className="col-start-2 row-start-2 bg-green-900/50 rounded-lg shadow-inner p-4 flex flex-col items-center relative overflow-hidden">
+        {/* 牌局資訊 */}
+        <div className="w-full flex justify-between items-start text-sm text-slate-200">
+          <div className="p-2 bg-black/50 rounded shadow-md">
+            <div>牌譜: <span className="font-semibold text-amber-200">{replay.roomName}</span></div>
+            <div>局: <span className="font-semibold text-amber-200">{round.roundNumber}</span> | 回合: <span className="font-semibold text-amber-200">{snapshot.turnNumber}</span></div>
+            <div>狀態: <span className="font-semibold text-sky-300">{GamePhaseTranslations[snapshot.gamePhase] || snapshot.gamePhase}</span></div>
+            <div className="text-xs text-slate-400 select-all">種子: {round.seed}</div>
+          </div>
+          <div className="flex items-center space-x-2 p-2 bg-black/50 rounded">
+            <span>牌堆: {snapshot.deck.length}</span>
+            {snapshot.deck.length > 0 && <TileDisplay tile={null} size="small" isHidden={true} />}
+          </div>
+        </div>
+
+        {/* 目前步驟與結果 */}
+        <div className="my-2 text-center">
+          <div className="text-base text-amber-300 font-semibold">步驟 {stepIndex}/{lastStepIndex}: {stepDescription}</div>
+          {resultDescription && <div className="text-lg text-green-300 font-bold">{resultDescription}</div>}
+        </div>
+
+        {/* 棄牌堆 (按打出順序顯示) */}
+        <div className="h-[180px] w-full max-w-2xl p-1 bg-black/30 rounded flex flex-wrap justify-start items-start content-start overflow-y-auto scrollbar-thin scrollbar-thumb-slate-500 scrollbar-track-slate-700">
+          {snapshot.discardPile
+            .slice()
+            .reverse() // 棄牌堆最新的在前，反轉後依打出順序顯示
+            .map((tile, index, reversedArray) => (
+              <div key={`${tile.id}-replay-discard-${index}`} className="m-0.5">
+                <TileDisplay
+                  tile={tile}
+                  size="small"
+                  isDiscarded
+                  isLatestDiscard={index === reversedArray.length - 1 && snapshot.lastDiscardedTile?.id === tile.id}
+                />
+              </div>
+            ))}
+        </div>
+
+        {/* 播放控制 */}
+        <div className="mt-auto w-full flex flex-col items-center space-y-2 pt-2">
+          {/* 步驟滑桿 */}
+          <input
+            type="range"
+            min={0}
+            max={lastStepIndex}
+            value={stepIndex}
+            onChange={(e) => { setIsPlaying(false); setStepIndex(Number(e.target.value)); }}
+            className="w-full max-w-xl accent-sky-500"
+            aria-label="步驟"
+          />
+          <div className="flex flex-wrap gap-2 justify-center items-center">
+            <ActionButton label="⏮" title="回到開局" onClick={() => { setIsPlaying(false); setStepIndex(0); }} size="sm" variant="secondary" disabled={stepIndex === 0} />
+            <ActionButton label="上一步" onClick={() => { setIsPlaying(false); setStepIndex(s => Math.max(s - 1, 0)); }} size="sm" variant="secondary" disabled={stepIndex === 0} />
+            <ActionButton
+              label={isPlaying ? '暫停' : '播放'}
+              onClick={() => {
+                if (!isPlaying && stepIndex >= lastStepIndex) setStepIndex(0); // 已在最後一步時從頭播放
+                setIsPlaying(p => !p);
+              }}
+              size="sm"
+              variant="primary"
+            />
+            <ActionButton label="下一步" onClick={() => { setIsPlaying(false); setStepIndex(s => Math.min(s + 1, lastStepIndex)); }} size="sm" variant="secondary" disabled={stepIndex >= lastStepIndex} />
+            <ActionButton label="⏭" title="跳到結尾" onClick={() => { setIsPlaying(false); setStepIndex(lastStepIndex); }} size="sm" variant="secondary" disabled={stepIndex >= lastStepIndex} />
+            {/* 播放速度 */}
+            <select
+              value={playbackSpeed}
+              onChange={(e) => setPlaybackSpeed(Number(e.target.value))}
+              className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-sm text-white"
+              aria-label="播放速度"
+            >
+              {PLAYBACK_SPEEDS.map(speed => <option key={speed} value={speed}>{speed}x</option>)}
+            </select>
+          </div>
+          <div className="flex flex-wrap gap-2 justify-center items-center text-sm text-slate-200">
+            {/* 跳至回合 */}
+            <input
+              type="number"
+              min={1}
+              value={jumpTurnInput}
+              onChange={(e) => setJumpTurnInput(e.target.value)}
+              onKeyDown={(e) => { if (e.key === 'Enter') handleJumpToTurn(); }}
+              placeholder="回合"
+              className="w-20 px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-white"
+              aria-label="跳至回合"
+            />
+            <ActionButton label="跳至回合" onClick={handleJumpToTurn} size="sm" variant="secondary" disabled={jumpTurnInput.trim() === ''} />
+            {/* 選擇局數 */}
+            {replay.rounds.length > 1 && (
+              <select
+                value={roundIndex}
+                onChange={(e) => setRoundIndex(Number(e.target.value))}
+                className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-white"
+                aria-label="選擇局數"
+              >
+                {replay.rounds.map((r, idx) => <option key={`${r.roundNumber}-${idx}`} value={idx}>第 {r.roundNumber} 局</option>)}
+              </select>
+            )}
+            {/* 選擇主視角 (底部) 座位 */}
+            <select
+              value={bottomSeatId}
+              onChange={(e) => setBottomSeatId(Number(e.target.value))}
+              className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-white"
+              aria-label="底部座位"
+            >
+              {round.seats.map(seat => <option key={seat.id} value={seat.id}>視角: {seat.name}</option>)}
+            </select>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReplayViewer;
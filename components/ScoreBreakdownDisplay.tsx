@@ -0,0 +1,60 @@
+import React from 'react';
+import { ScoreBreakdown } from '@xiangqi-mahjong/core'; // 引入類型定義
+
+/**
+ * @description ScoreBreakdownDisplay 組件的 props 類型定義
+ */
+interface ScoreBreakdownDisplayProps {
+  /** @param {ScoreBreakdown} breakdown - 伺服器計算的本局台數明細與結算。 */
+  breakdown: ScoreBreakdown;
+  /** @param {(playerId: number) => string} getPlayerName - 根據座位索引取得玩家名稱的函數。 */
+  getPlayerName: (playerId: number) => string;
+  /** @param {boolean} [showWinnerName] - 是否在明細上方標示贏家名稱 (一炮多響時用來區分各贏家的明細)。 */
+  showWinnerName?: boolean;
+}
+
+/**
+ * @description ScoreBreakdownDisplay 組件，用於在本局結束畫面顯示胡牌的台數明細與各玩家的分數變化。
+ * @param {ScoreBreakdownDisplayProps} props - 組件的屬性。
+ * @returns {React.FC} React 函數組件。
+ */
+const ScoreBreakdownDisplay: React.FC<ScoreBreakdownDisplayProps> = ({ breakdown, getPlayerName, showWinnerName = false }) => {
+  return (
+    <div className="mb-4 p-3 bg-slate-700/60 rounded text-sm text-slate-200 text-left">
+      {/* 贏家名稱 */}
+      {showWinnerName && (
+        <div className="mb-1 font-semibold text-sky-300">{getPlayerName(breakdown.winnerId)}</div>
+      )}
+      {/* 台數明細 */}
+      <ul className="space-y-0.5">
+        {breakdown.items.map(item => (
+          <li key={item.pattern} className="flex justify-between">
+            <span>{item.name}{item.count > 1 ? ` ×${item.count}` : ''}</span>
+            <span className="text-amber-300">{item.tai} 台</span>
+          </li>
+        ))}
+        {breakdown.items.length === 0 && <li className="text-slate-400">無台型 (僅計底分)</li>}
+      </ul>
+      {/* 總台數與計算方式 */}
+      <div className="mt-2 pt-2 border-t border-slate-600 flex justify-between font-semibold">
+        <span>共 {breakdown.totalTai} 台</span>
+        <span className="text-xs text-slate-400 self-center">
+          底 {breakdown.basePoints} + {breakdown.totalTai} × {breakdown.pointsPerTai} = 每家 {breakdown.pointsPerPayer}
+        </span>
+      </div>
+      {/* 各玩家分數變化 */}
+      <ul className="mt-2 space-y-0.5">
+        {breakdown.payments.map(payment => (
+          <li key={payment.playerId} className="flex justify-between">
+            <span>{getPlayerName(payment.playerId)}</span>
+            <span className={payment.amount >= 0 ? 'text-green-400' : 'text-red-400'}>
+              {payment.amount >= 0 ? '+' : ''}{payment.amount}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ScoreBreakdownDisplay;
@@ -1,7 +1,6 @@
 
 import React from 'react';
-import { Tile, TileKind, Suit } from '../types'; // 引入類型定義
-import { TILE_KIND_DETAILS } from '../constants'; // 引入牌的詳細設定
+import { Tile, TileKind, Suit, TILE_KIND_DETAILS } from '@xiangqi-mahjong/core'; // 引入類型定義與牌的詳細設定
 
 /**
  * @description TileDisplay 組件的 props 類型定義
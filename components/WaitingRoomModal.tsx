@@ -2,7 +2,8 @@
 import React from 'react';
 import GameModal from './GameModal'; // 引入通用模態框組件
 import ActionButton from './ActionButton'; // 引入動作按鈕組件
-import { Player, RoomSettings } from '../types'; // 引入類型定義
+import { Player, AIDifficulty, AI_DIFFICULTY_OPTIONS, AIDifficultyTranslations } from '@xiangqi-mahjong/core'; // 引入類型定義與 AI 難度選項
+import { RoomSettings } from '../types'; // 引入前端房間設定類型
 
 /**
  * @description WaitingRoomModal 組件的 props 類型定義
@@ -26,6 +27,10 @@ interface WaitingRoomModalProps {
   currentRound?: number;
   /** @param {number} [numberOfRounds] - (可選) 總局數。 */
   numberOfRounds?: number;
+  /** @param {AIDifficulty[]} aiDifficulties - 各座位由 AI 補位時使用的難度 (依座位索引)。 */
+  aiDifficulties: AIDifficulty[];
+  /** @param {(seatId: number, difficulty: AIDifficulty) => void} onSetAIDifficulty - 房主調整某個空位的 AI 難度時觸發的回調函數。 */
+  onSetAIDifficulty: (seatId: number, difficulty: AIDifficulty) => void;
 }
 
 /**
@@ -44,6 +49,8 @@ const WaitingRoomModal: React.FC<WaitingRoomModalProps> = ({
   dealerName,
   currentRound,
   numberOfRounds,
+  aiDifficulties,
+  onSetAIDifficulty,
 }) => {
   // 如果模態框未開啟，則不渲染任何內容
   if (!isOpen) return null;
@@ -54,6 +61,10 @@ const WaitingRoomModal: React.FC<WaitingRoomModalProps> = ({
   const targetHumanPlayers = roomSettings.humanPlayers; 
   // 判斷是否可以開始遊戲：必須是房主，且在線真人玩家數達到目標數
   const canStartGame = isHost && onlineHumanPlayersCount >= targetHumanPlayers;
+  // 尚無玩家的座位 (開始遊戲時由 AI 補位；真人玩家已滿額時不會有 AI)
+  const emptySeatIds = targetHumanPlayers < roomSettings.maxPlayers
+    ? aiDifficulties.map((_, seatId) => seatId).filter(seatId => !players.some(p => p.id === seatId))
+    : [];
   // 彈窗標題：如果提供了局數資訊，則顯示當前局數
   const title = (currentRound && numberOfRounds) ? `房間準備中 (第 ${currentRound}/${numberOfRounds} 局)` : "房間準備中";
 
@@ -96,7 +107,7 @@ const WaitingRoomModal: React.FC<WaitingRoomModalProps> = ({
                 // 單個玩家項目，莊家有特殊背景色
                 <li key={player.id} className={`p-2 rounded ${player.isDealer ? 'bg-sky-700/70' : 'bg-slate-600/70'}`}>
                   <span className="font-medium text-slate-50">{player.name}</span>
-                  <span className="text-xs text-slate-300 ml-2">({player.isHuman ? (player.isOnline ? '真人' : '真人 (離線)') : '電腦AI'})</span>
+                  <span className="text-xs text-slate-300 ml-2">({player.isHuman ? (player.isOnline ? '真人' : '真人 (離線)') : `電腦AI${player.aiDifficulty ? ` ${AIDifficultyTranslations[player.aiDifficulty]}` : ''}`})</span>
                   {player.isDealer && <span className="text-xs text-amber-300 ml-2">(莊家)</span>}
                 </li>
               ))}
@@ -105,6 +116,34 @@ const WaitingRoomModal: React.FC<WaitingRoomModalProps> = ({
             <p className="text-slate-400">目前沒有玩家...</p>
           )}
         </div>
+
+        {/* 空位的 AI 難度區塊 (房主可逐座位調整) */}
+        {emptySeatIds.length > 0 && (
+          <div>
+            <h3 className="text-lg font-semibold text-sky-300 mb-2">AI 補位難度</h3>
+            <ul className="space-y-2 bg-slate-700/50 p-3 rounded-md">
+              {emptySeatIds.map(seatId => (
+                <li key={seatId} className="flex items-center justify-between p-2 rounded bg-slate-600/70">
+                  <span className="text-slate-300">座位 {seatId + 1} <span className="text-xs text-slate-400">(空位，開始時由 AI 補位)</span></span>
+                  {isHost ? (
+                    <select
+                      aria-label={`座位 ${seatId + 1} 的 AI 難度`}
+                      value={aiDifficulties[seatId]}
+                      onChange={(e) => onSetAIDifficulty(seatId, e.target.value as AIDifficulty)}
+                      className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md text-sm text-slate-100 focus:ring-sky-500 focus:border-sky-500"
+                    >
+                      {AI_DIFFICULTY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  ) : (
+                    <span className="text-sm font-medium text-slate-100">{AIDifficultyTranslations[aiDifficulties[seatId]]}</span>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
         
         {/* 底部按鈕區域 */}
         <div className="mt-8 flex flex-col sm:flex-row justify-end space-y-3 sm:space-y-0 sm:space-x-3">
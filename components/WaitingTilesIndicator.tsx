@@ -0,0 +1,79 @@
+import React from 'react';
+import { Tile, TileKind, UsefulTile, HandAnalysis, TILE_KIND_DETAILS, countUnseenUsefulTiles } from '@xiangqi-mahjong/core'; // 引入類型定義、常數與有效進張計算
+import TileDisplay from './TileDisplay'; // 引入牌顯示組件
+
+/**
+ * @description WaitingTilesIndicator 組件的 props 類型定義
+ */
+interface WaitingTilesIndicatorProps {
+  /** @param {HandAnalysis | null} currentWait - 目前手牌聽牌時的手牌分析 (未聽牌或手牌需先打牌時為 null)。 */
+  currentWait: HandAnalysis | null;
+  /** @param {{ tile: Tile; analysis: HandAnalysis } | null} discardPreview - 選中的牌與打出它之後的手牌分析 (未選牌時為 null)。 */
+  discardPreview: { tile: Tile; analysis: HandAnalysis } | null;
+}
+
+/**
+ * @description 建立只用於顯示的牌物件。
+ * @param {TileKind} kind - 牌種。
+ * @returns {Tile} 牌物件。
+ */
+const toDisplayTile = (kind: TileKind): Tile => ({ id: `waiting-${kind}`, kind, suit: TILE_KIND_DETAILS[kind].suit });
+
+/**
+ * @description 顯示一組等牌：每種牌與尚未現身的張數。
+ * @param {{ tiles: UsefulTile[] }} props - 等牌列表。
+ * @returns {React.FC} React 函數組件。
+ */
+const WaitingTileList: React.FC<{ tiles: UsefulTile[] }> = ({ tiles }) => (
+  <div className="flex flex-wrap items-center gap-1">
+    {tiles.map(({ kind, unseenCount }) => (
+      <div key={kind} className="flex items-center" title={`${kind} 還剩 ${unseenCount} 張未現身`}>
+        <TileDisplay tile={toDisplayTile(kind)} size="small" />
+        <span className={`ml-0.5 text-xs ${unseenCount > 0 ? 'text-amber-200' : 'text-slate-500 line-through'}`}>×{unseenCount}</span>
+      </div>
+    ))}
+  </div>
+);
+
+/**
+ * @description WaitingTilesIndicator 組件，在玩家聽牌時顯示等的牌種與剩餘張數 (扣除看得到的棄牌與面子)，
+ *              並在選中一張牌時預覽打出它之後的聽牌情形。
+ * @param {WaitingTilesIndicatorProps} props - 組件的屬性。
+ * @returns {React.FC | null} React 函數組件；沒有可顯示的內容時返回 null。
+ */
+const WaitingTilesIndicator: React.FC<WaitingTilesIndicatorProps> = ({ currentWait, discardPreview }) => {
+  if (!currentWait && !discardPreview) return null;
+
+  const previewIsTenpai = discardPreview !== null && discardPreview.analysis.shanten === 0 && discardPreview.analysis.usefulTiles.length > 0;
+
+  return (
+    <div className="p-2 bg-black/50 rounded shadow-md text-sm text-slate-200 space-y-1">
+      {/* 目前手牌的等牌 */}
+      {currentWait && (
+        <div className="flex items-center gap-2">
+          <span className="text-amber-300 font-semibold whitespace-nowrap">聽牌 (剩 {countUnseenUsefulTiles(currentWait)} 張):</span>
+          <WaitingTileList tiles={currentWait.usefulTiles} />
+        </div>
+      )}
+      {/* 選中牌後的打牌預覽 */}
+      {discardPreview && (
+        <div className="flex items-center gap-2">
+          <span className="whitespace-nowrap">打出</span>
+          <TileDisplay tile={discardPreview.tile} size="small" />
+          {previewIsTenpai ? (
+            <>
+              <span className="text-amber-300 whitespace-nowrap">後聽 (剩 {countUnseenUsefulTiles(discardPreview.analysis)} 張):</span>
+              <WaitingTileList tiles={discardPreview.analysis.usefulTiles} />
+            </>
+          ) : (
+            <span className="text-slate-400 whitespace-nowrap">
+              {discardPreview.analysis.shanten > 0 ? `後 ${discardPreview.analysis.shanten} 向聽` : '後未聽牌'}
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WaitingTilesIndicator;
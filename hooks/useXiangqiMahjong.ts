@@ -23,13 +23,16 @@ const initialLocalState: GameState = {
   turnNumber: 0, 
   messageLog: ["等待伺服器同步遊戲狀態..."], 
   potentialClaims: [], 
-  winnerId: null, 
+  winnerIds: [], 
   winningTileDiscarderId: null, 
   winType: null, 
   winningDiscardedTile: null, 
+  robbableKong: null, 
+  isKongReplacementDraw: false,
   isDrawGame: false, 
-  chiOptions: null, 
-  playerMakingClaimDecision: null, 
+  drawGameSettlement: null,
+  legalActions: null, 
+  claimResponses: [], 
   actionTimer: null, 
   actionTimerType: null, 
   numberOfRounds: 1, 
@@ -0,0 +1,173 @@
+
+
+// 前端與伺服器共用的常數 (牌的屬性、順子定義、標準規則與計時設定)
+import { TileKind, Suit, GamePhase, RuleSet, DrawGameDealerRule, AIDifficulty } from './types';
+
+// 定義每種棋子(牌)的詳細屬性
+export const TILE_KIND_DETAILS: Readonly<Record<TileKind, { suit: Suit, orderValue: number, group: 0 | 1 | 2 }>> = {
+  // 黑方牌組 1 (將、士、象) - 用於判斷順子
+  [TileKind.B_GENERAL]: { suit: Suit.BLACK, orderValue: 3, group: 1 }, // 將 (最大)
+  [TileKind.B_ADVISOR]: { suit: Suit.BLACK, orderValue: 2, group: 1 }, // 士
+  [TileKind.B_ELEPHANT]: { suit: Suit.BLACK, orderValue: 1, group: 1 }, // 象 (最小)
+  // 黑方牌組 2 (車、馬、包) - 用於判斷順子
+  [TileKind.B_CHARIOT]: { suit: Suit.BLACK, orderValue: 3, group: 2 }, // 車 (最大)
+  [TileKind.B_HORSE]: { suit: Suit.BLACK, orderValue: 2, group: 2 },   // 馬
+  [TileKind.B_CANNON]: { suit: Suit.BLACK, orderValue: 1, group: 2 }, // 包 (最小)
+  // 黑方兵卒 (不與其他牌組合成順子)
+  [TileKind.B_SOLDIER]: { suit: Suit.BLACK, orderValue: 0, group: 0 }, // 卒 (group 0 表示不參與順子)
+
+  // 紅方牌組 1 (帥、仕、相) - 用於判斷順子
+  [TileKind.R_GENERAL]: { suit: Suit.RED, orderValue: 3, group: 1 }, // 帥 (最大)
+  [TileKind.R_ADVISOR]: { suit: Suit.RED, orderValue: 2, group: 1 }, // 仕
+  [TileKind.R_ELEPHANT]: { suit: Suit.RED, orderValue: 1, group: 1 }, // 相 (最小)
+  // 紅方牌組 2 (俥、傌、炮) - 用於判斷順子
+  [TileKind.R_CHARIOT]: { suit: Suit.RED, orderValue: 3, group: 2 }, // 俥 (最大)
+  [TileKind.R_HORSE]: { suit: Suit.RED, orderValue: 2, group: 2 },   // 傌
+  [TileKind.R_CANNON]: { suit: Suit.RED, orderValue: 1, group: 2 }, // 炮 (最小)
+  // 紅方兵卒
+  [TileKind.R_SOLDIER]: { suit: Suit.RED, orderValue: 0, group: 0 }, // 兵 (group 0 表示不參與順子)
+};
+
+/** @description 所有牌的種類列表 */
+export const ALL_TILE_KINDS: TileKind[] = Object.values(TileKind);
+/** @description 遊戲中實際使用的牌的種類 (目前是全部14種)。 */
+export const PLAYABLE_TILE_KINDS: TileKind[] = ALL_TILE_KINDS; 
+
+/** @description 定義可以組成順子的牌組。 */
+export const SHUNZI_DEFINITIONS: ReadonlyArray<ReadonlyArray<TileKind>> = [
+  [TileKind.B_GENERAL, TileKind.B_ADVISOR, TileKind.B_ELEPHANT], // 黑方 將士象
+  [TileKind.B_CHARIOT, TileKind.B_HORSE, TileKind.B_CANNON],   // 黑方 車馬包
+  [TileKind.R_GENERAL, TileKind.R_ADVISOR, TileKind.R_ELEPHANT], // 紅方 帥仕相
+  [TileKind.R_CHARIOT, TileKind.R_HORSE, TileKind.R_CANNON],   // 紅方 俥傌炮
+];
+
+// --- 遊戲通用常數 ---
+/** @description 預設玩家數量 (標準牌桌為4人)。 */
+export const NUM_PLAYERS = 4; 
+/** @description 房間可選的牌桌座位數 (三人桌或四人桌)。 */
+export const SUPPORTED_PLAYER_COUNTS = [3, 4];
+/** @description 每種牌有幾張 (例如，每種棋子有4張)。 */
+export const TILES_PER_KIND = 4; 
+/** @description 莊家初始手牌數量。 */
+export const INITIAL_HAND_SIZE_DEALER = 8; 
+/** @description 非莊家初始手牌數量。 */
+export const INITIAL_HAND_SIZE_NON_DEALER = 7; 
+/** @description 摸牌後，打牌前的最大手牌數量。 */
+export const MAX_HAND_SIZE_BEFORE_DISCARD = 8; 
+
+/** 
+ * @description 宣告動作的優先順序。
+ * - `HU`: 胡牌，優先序最高。
+ * - `GANG`: 槓牌。
+ * - `PENG`: 碰牌 (與槓相同優先序)。
+ * - `CHI`: 吃牌，優先序最低。
+ */
+export const ACTION_PRIORITY = {
+  HU: 3,   
+  GANG: 2, 
+  PENG: 2, 
+  CHI: 1,  
+};
+
+/** 
+ * @description 標準規則：由上方的手牌數量與宣告優先順序組成，未指定規則的房間皆使用此規則。
+ * 胡牌需 2 組面子 + 1 組對子，只能吃上家打出的牌，且允許一炮多響；摸完整副牌才流局，流局不結算且莊家輪莊。
+ */
+export const DEFAULT_RULE_SET: Readonly<RuleSet> = {
+  name: '標準規則',
+  initialHandSizeDealer: INITIAL_HAND_SIZE_DEALER,
+  initialHandSizeNonDealer: INITIAL_HAND_SIZE_NON_DEALER,
+  winningMeldCount: 2,
+  winningPairCount: 1,
+  chiFromAnySeat: false,
+  allowMultipleWinners: true,
+  reservedTileCount: 0,
+  drawGameTenpaiSettlement: false,
+  drawGameDealerRule: 'rotate',
+  actionPriority: { ...ACTION_PRIORITY },
+};
+
+/** @description 流局時可選擇的莊家規則 (見 DrawGameDealerRule)，用於驗證客戶端提交的規則。 */
+export const DRAW_GAME_DEALER_RULES: ReadonlyArray<DrawGameDealerRule> = ['rotate', 'retain', 'retainIfTenpai'];
+
+// --- 時間相關常數 ---
+/** @description 玩家非回合宣告的思考/行動時間 (秒)。GameState 中的 actionTimer 以秒為單位。 */
+export const CLAIM_DECISION_TIMEOUT_SECONDS = 30; 
+/** @description 玩家回合內行動的思考/行動時間 (秒)。 */
+export const PLAYER_TURN_ACTION_TIMEOUT_SECONDS = 60; 
+/** @description 下一局開始倒數秒數。GameState 中的 nextRoundCountdown 以秒為單位。 */
+export const NEXT_ROUND_COUNTDOWN_SECONDS = 10; 
+
+// --- 設定選項相關常數 ---
+/** 
+ * @description 局數設定選項。用於創建房間時選擇遊戲總局數。
+ * - `value`: 局數的數值。
+ * - `label`: 顯示給使用者的文字標籤。
+ */
+export const ROUND_OPTIONS: ReadonlyArray<{ value: number, label: string }> = [
+  { value: 1, label: '1局 (單局決勝)' },
+  { value: 4, label: '4局 (東風戰)' },
+  { value: 8, label: '8局 (半莊戰)' },
+];
+/** @description 預設的遊戲總局數。 */
+export const DEFAULT_NUMBER_OF_ROUNDS = ROUND_OPTIONS[0].value; // 預設為1局
+/** 
+ * @description 觀戰人數上限設定選項。用於創建房間時選擇最多可容納的觀戰者人數。
+ * - `value`: 觀戰人數上限 (0 表示不開放觀戰)。
+ * - `label`: 顯示給使用者的文字標籤。
+ */
+export const SPECTATOR_LIMIT_OPTIONS: ReadonlyArray<{ value: number, label: string }> = [
+  { value: 0, label: '不開放觀戰' },
+  { value: 5, label: '最多 5 人' },
+  { value: 10, label: '最多 10 人' },
+  { value: 20, label: '最多 20 人' },
+];
+/** @description 預設的觀戰人數上限 (創建房間時未指定則使用此值)。 */
+export const DEFAULT_MAX_SPECTATORS = 10;
+/** @description 房間可設定的觀戰人數上限最大值。 */
+export const MAX_SPECTATORS_LIMIT = 20;
+/** 
+ * @description AI 難度選項。用於創建房間時選擇 AI 補位的預設難度，以及房主在等待中逐座位調整。
+ * - `value`: 難度。
+ * - `label`: 顯示給使用者的文字標籤。
+ */
+export const AI_DIFFICULTY_OPTIONS: ReadonlyArray<{ value: AIDifficulty, label: string }> = [
+  { value: 'novice', label: '新手' }, // 只看手牌中的對子與搭子，有牌就吃碰，不防守
+  { value: 'standard', label: '標準' }, // 以向聽數與有效進張挑牌，有牌就吃碰，打牌時略避生張
+  { value: 'strong', label: '高手' }, // 抽樣對手可能的手牌推演後續牌局，依期望得分決定打牌與吃碰 (兼顧進攻與放槍風險)
+];
+/** @description 預設的 AI 難度 (創建房間時未指定則使用此值)。 */
+export const DEFAULT_AI_DIFFICULTY: AIDifficulty = 'standard';
+
+// --- 遊戲階段翻譯 ---
+/** 
+ * @description 遊戲階段的繁體中文翻譯。
+ * 用於在 UI 上顯示當前的遊戲進程，伺服器端也用於日誌。
+ */
+export const GamePhaseTranslations: Record<GamePhase, string> = {
+  [GamePhase.LOADING]: "載入中",
+  [GamePhase.WAITING_FOR_PLAYERS]: "等待玩家開始",
+  [GamePhase.DEALING]: "發牌中",
+  [GamePhase.PLAYER_TURN_START]: "玩家回合開始", // 等待摸牌
+  [GamePhase.PLAYER_DRAWN]: "玩家已摸牌",    // 等待打牌或自摸/槓
+  [GamePhase.AWAITING_DISCARD]: "等待出牌",    // 例如莊家開局或吃碰槓後
+  [GamePhase.TILE_DISCARDED]: "等待宣告",     // 有牌被打出，等待其他玩家宣告
+  [GamePhase.AWAITING_CLAIMS_RESOLUTION]: "處理宣告中", // 系統處理多個宣告的優先順序
+  [GamePhase.AWAITING_PLAYER_CLAIM_ACTION]: "等待玩家宣告決定", // 宣告窗口開啟中，可宣告的玩家同時作答
+  [GamePhase.ACTION_PENDING_CHI_CHOICE]: "選擇吃牌組合", // 玩家選擇吃的具體牌型
+  [GamePhase.GAME_OVER]: "遊戲結束",        // 整場比賽結束
+  [GamePhase.ROUND_OVER]: "本局結束",       // 一局結束，準備下一局或結束比賽
+  // Fix: Add missing GamePhase.AWAITING_REMATCH_VOTES
+  [GamePhase.AWAITING_REMATCH_VOTES]: "等待再戰投票",
+};
+
+/** @description AI 難度的繁體中文名稱 (與 AI_DIFFICULTY_OPTIONS 的標籤相同)。 */
+export const AIDifficultyTranslations: Record<AIDifficulty, string> = Object.fromEntries(
+  AI_DIFFICULTY_OPTIONS.map(option => [option.value, option.label])
+) as Record<AIDifficulty, string>;
+
+// --- 通訊相關常數 ---
+/** @description 系統訊息的發送者名稱 (客戶端以此辨識系統訊息)。 */
+export const SYSTEM_SENDER_NAME = '系統訊息';
+/** @description 牌譜檔案的格式版本。牌譜結構有不相容的變更時須遞增。 */
+export const REPLAY_FILE_VERSION = 5;
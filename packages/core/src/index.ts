@@ -0,0 +1,6 @@
+// 前端與伺服器共用的核心套件：類型、常數與規則函數都從這裡匯出，兩端不再各自維護一份
+export * from './types';
+export * from './constants';
+export * from './utils/gameRules';
+export * from './utils/deckManager';
+export * from './utils/shanten';
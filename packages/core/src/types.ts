@@ -0,0 +1,494 @@
+// 前端與伺服器共用的類型定義 (牌、面子、遊戲狀態、牌譜與 Socket.IO 事件)
+
+
+// 定義牌的顏色 (黑、紅)
+export enum Suit {
+  BLACK = 'Black', // 黑色
+  RED = 'Red',     // 紅色
+}
+
+// 定義各種棋子的類型 (牌面)
+export enum TileKind {
+  // 黑方棋子
+  B_GENERAL = '將', B_ADVISOR = '士', B_ELEPHANT = '象',
+  B_CHARIOT = '車', B_HORSE = '馬', B_CANNON = '包', B_SOLDIER = '卒',
+  // 紅方棋子
+  R_GENERAL = '帥', R_ADVISOR = '仕', R_ELEPHANT = '相',
+  R_CHARIOT = '俥', R_HORSE = '傌', R_CANNON = '炮', R_SOLDIER = '兵',
+}
+
+// 定義單張牌的結構
+export interface Tile {
+  id: string;       // 每張牌的唯一ID，例如 "B_GENERAL_1"
+  kind: TileKind;   // 牌的種類 (例如：將、士、象)
+  suit: Suit;       // 牌的顏色 (黑色或紅色)
+}
+
+// 定義組合牌的名稱 (面子)
+export enum MeldDesignation {
+  SHUNZI = '順子', // 三張同花色且序數相連的牌
+  KEZI = '刻子',   // 三張相同的牌
+  GANGZI = '槓子', // 四張相同的牌
+  DUIZI = '對子',   // 兩張相同的牌 (用於胡牌時的眼)
+}
+
+// 定義一個已完成的組合牌 (面子) 的結構
+export interface Meld {
+  id: string;          // 該組合牌的唯一ID
+  designation: MeldDesignation; // 組合的類型 (順子、刻子、槓子)
+  tiles: Tile[];       // 組成此面子的牌
+  isOpen: boolean;     // 此面子是否已明示在桌面上
+  claimedFromPlayerId?: number; // 若此面子是透過吃、碰、槓得來，則記錄被取牌的玩家ID (seat index)
+  claimedTileId?: string; // 若此面子是透過吃、碰、槓(來自棄牌)得來，記錄被取的那張牌的ID
+}
+
+// 定義玩家的結構 (Server-side and Client-side)
+export interface Player {
+  id: number;         // 玩家的唯一ID (seat index 0-3 for game logic)
+  name: string;       // 玩家名稱
+  isHuman: boolean;   // 是否為真人玩家
+  hand: Tile[];       // 玩家的手牌 (未成面子的牌)
+  melds: Meld[];      // 玩家已完成並宣告的面子
+  isDealer: boolean;  // 是否為莊家
+  score: number;      // 玩家積分
+  pendingClaims?: Claim[]; // 該玩家在當前棄牌上可以進行的宣告 (例如：碰、槓、胡) - Server calculates this
+  isOnline: boolean; // 多人遊戲中，玩家是否在線
+  socketId: string | null; // 多人遊戲中，玩家的 socket ID (for human players)
+  isHost?: boolean; // 是否為房主 (由伺服器設定並同步到客戶端)
+  aiDifficulty?: AIDifficulty; // AI 玩家的難度 (僅 AI 玩家有值)
+}
+
+
+// 代表伺服器上的一個Socket連接的玩家資訊 (用於房間內玩家列表) - This can be simplified or merged with Player
+export interface SocketPlayer {
+  id: string; // socket.id
+  name: string;
+  isHost?: boolean;
+  // seatIndex?: number; // 玩家在遊戲桌上的座位索引 (0-3) - This is the Player.id
+}
+
+
+// 定義遊戲的不同階段
+export enum GamePhase {
+  LOADING = 'LOADING', // 遊戲載入中
+  WAITING_FOR_PLAYERS = 'WAITING_FOR_PLAYERS', // 等待玩家加入或開始遊戲
+  DEALING = 'DEALING', // 發牌階段
+  PLAYER_TURN_START = 'PLAYER_TURN_START', // 玩家回合開始 (等待玩家摸牌或宣告暗槓/胡)
+  PLAYER_DRAWN = 'PLAYER_DRAWN',         // 玩家已摸牌 (等待玩家打牌或宣告暗槓/胡)
+  AWAITING_DISCARD = 'AWAITING_DISCARD', // 玩家已摸牌，等待玩家打出一張牌
+  TILE_DISCARDED = 'TILE_DISCARDED',     // 有牌被打出，系統初步檢查是否有玩家可宣告
+  AWAITING_CLAIMS_RESOLUTION = 'AWAITING_CLAIMS_RESOLUTION', // 系統正在處理多個宣告的優先順序
+  AWAITING_PLAYER_CLAIM_ACTION = 'AWAITING_PLAYER_CLAIM_ACTION', // 宣告窗口：所有可宣告的玩家同時決定是否對棄牌進行宣告 (共用一個計時器)
+  ACTION_PENDING_CHI_CHOICE = 'ACTION_PENDING_CHI_CHOICE', // 真人玩家需要選擇吃的組合
+  GAME_OVER = 'GAME_OVER', // 遊戲結束 (有玩家胡牌或流局)
+  ROUND_OVER = 'ROUND_OVER', // 本局結束 (用於流局後或莊家變動時，準備開始新的一局)
+  AWAITING_REMATCH_VOTES = 'AWAITING_REMATCH_VOTES', // 新增：等待玩家對再戰進行投票
+}
+
+// 定義玩家可以對棄牌進行的宣告動作
+export interface Claim {
+  playerId: number; // 宣告動作的玩家ID (seat index)
+  action: 'Hu' | 'Peng' | 'Gang' | 'Chi'; // 宣告的類型 (胡、碰、槓、吃)
+  tiles?: Tile[];    // 對於 "吃" 的動作，這裡會包含組成順子的兩張手牌
+  priority: number; // 宣告的優先序 (胡 > 槓/碰 > 吃)
+}
+
+// 宣告窗口中玩家可送出的回覆 (胡、槓、碰、吃或跳過)
+export type ClaimResponseAction = Extract<RoundAction, { type: 'DECLARE_HU' | 'CLAIM_GANG' | 'CLAIM_PENG' | 'CLAIM_CHI' | 'PASS_CLAIM' }>;
+
+// 宣告窗口中一位玩家的回覆 (窗口關閉前不公開給其他玩家)
+export interface ClaimResponse {
+  playerId: number;            // 回覆的玩家ID (座位索引)
+  action: ClaimResponseAction; // 玩家選擇的動作
+}
+
+/**
+ * @description 再戰投票狀態
+ */
+export interface RematchVote {
+  playerId: number; // 投票的玩家 ID (座位索引)
+  vote: 'yes' | 'pending'; // 投票狀態 ('no' 通常是超時或離開)
+}
+
+// 台型 (計分牌型) 的識別鍵
+export type FanPatternKey =
+  | 'HEAVENLY_HU'    // 天胡
+  | 'EARTHLY_HU'     // 地胡
+  | 'SELF_DRAWN'     // 自摸
+  | 'CONCEALED_HAND' // 門清
+  | 'ALL_ONE_SUIT'   // 清一色
+  | 'ALL_TRIPLETS'   // 碰碰胡
+  | 'DEALER'         // 莊家
+  | 'MING_GANG'      // 明槓
+  | 'AN_GANG'        // 暗槓
+  | 'ROBBING_KONG'   // 搶槓
+  | 'KONG_BLOOM'     // 槓上開花
+  | 'LAST_TILE_DRAW' // 海底撈月
+  | 'LAST_DISCARD';  // 河底撈魚
+
+// 台數明細中的一項
+export interface ScoreItem {
+  pattern: FanPatternKey; // 台型
+  name: string;           // 台型名稱 (顯示用)
+  tai: number;            // 此項的台數 (已乘上數量)
+  count: number;          // 此台型成立的次數 (例如槓子數量)，一般為 1
+}
+
+// 胡牌結算時單一玩家的分數變化
+export interface ScorePayment {
+  playerId: number; // 座位索引
+  amount: number;   // 分數變化 (贏家為正，付款者為負)
+}
+
+// 一次胡牌的完整計分結果
+export interface ScoreBreakdown {
+  winnerId: number;                  // 贏家座位索引
+  winType: 'selfDrawn' | 'discard';  // 胡牌類型
+  items: ScoreItem[];                // 成立的台型明細
+  totalTai: number;                  // 總台數
+  basePoints: number;                // 底分
+  pointsPerTai: number;              // 每台分數
+  pointsPerPayer: number;            // 每位付款者需支付的分數 (底分 + 總台數 × 每台分數)
+  payments: ScorePayment[];          // 各玩家的分數變化
+}
+
+// 流局 (牌堆摸到只剩留牌) 時的聽牌情形與結算
+export interface DrawGameSettlement {
+  tenpaiPlayerIds: number[];         // 聽牌的座位索引
+  pointsPerPayer: number;            // 每位未聽牌者支付給每位聽牌者的分數 (未啟用流局聽牌結算時為 0)
+  payments: ScorePayment[];          // 各玩家的分數變化 (無人需支付時為空陣列)
+}
+
+// 有效進張：摸到後可降低向聽數的牌種
+export interface UsefulTile {
+  kind: TileKind;                    // 牌種
+  unseenCount: number;               // 從觀看者角度尚未現身的張數 (不含自己的手牌與所有看得到的牌)
+}
+
+// 手牌分析結果 (向聽數與有效進張)
+export interface HandAnalysis {
+  shanten: number;                   // 向聽數：-1 為已胡牌，0 為聽牌，其餘為距離聽牌還差幾張有效牌
+  usefulTiles: UsefulTile[];         // 有效進張 (手牌張數已足、需先打牌時為空陣列)
+}
+
+// 伺服器為某個座位計算的合法動作 (隨該座位專屬的狀態視圖私下發送，客戶端只依此顯示操作按鈕)
+export interface LegalActions {
+  canDraw: boolean;                  // 可以摸牌
+  discardableTileIds: string[];      // 可以打出的牌 ID (含剛摸到的牌)
+  anGangKinds: TileKind[];           // 可以暗槓的牌種
+  jiaGangKinds: TileKind[];          // 可以加槓的牌種 (剛摸到已碰出刻子的第四張)
+  selfDrawnHu: 'heavenly' | 'selfDrawn' | null; // 輪到自己時可宣告的胡牌 (天胡或自摸)；對棄牌與搶槓的胡牌在 claims 中
+  claims: Claim[];                   // 宣告窗口中尚未回覆的宣告選項
+  chiOptions: Tile[][];              // 吃牌時可選的手牌組合 (每組兩張)
+}
+
+// 定義整個遊戲的狀態結構
+export interface GameState {
+  roomId: string | null; // 當前房間的ID // 允許 null for initial state
+  roomName: string; // 房間的名稱 (來自初始設定)
+  players: Player[];             // 所有玩家的列表 (sorted by seat index)
+  deck: Tile[];                  // 牌堆中剩餘的牌
+  discardPile: Tile[];           // 棄牌堆
+  currentPlayerIndex: number;    // 當前回合的玩家索引 (相對於 players 陣列)
+  dealerIndex: number;           // 莊家的索引 (相對於 players 陣列)
+  lastDiscarderIndex: number | null;    // 上一個打出牌的玩家索引
+  gamePhase: GamePhase;          // 當前的遊戲階段
+  lastDiscardedTile: Tile | null;// 上一張被打出的牌
+  lastDrawnTile: Tile | null;    // 當前玩家摸到的牌
+  turnNumber: number;            // 當前回合數 (指遊戲內的總摸打回合)
+  messageLog: string[];          // 遊戲訊息記錄 (例如：誰摸了什麼牌、誰宣告了什麼)
+  potentialClaims: Claim[];      // 系統記錄的，所有對上一張棄牌可能的宣告 (用於判斷優先序)
+  
+  winnerIds: number[];           // 本局的贏家ID (玩家索引)；一炮多響時有多位，依打牌者下家起算的座位順序排列
+  winningTileDiscarderId: number | null; // 若為食胡，放槍的玩家ID (玩家索引)
+  winType: 'selfDrawn' | 'discard' | null; // 胡牌類型：自摸或食胡
+  winningDiscardedTile: Tile | null; // 若為食胡，胡的那張牌 (搶槓胡時為被搶的槓牌)
+  robbableKong: { playerId: number; tile: Tile } | null; // 加槓後等待其他玩家搶槓的玩家與槓牌 (搶槓的宣告窗口結算前有值)
+  isKongReplacementDraw: boolean; // 當前玩家本回合的摸牌是否為槓後補牌 (槓牌後設為 true，打牌後重置；判定槓上開花用)
+
+  isDrawGame: boolean;           // 是否為流局
+  drawGameSettlement: DrawGameSettlement | null; // 牌堆摸完流局時的聽牌情形與結算 (非流局或異常流局時為 null)
+  legalActions: LegalActions | null; // 此座位目前的合法動作 (僅出現在發送給該座位的狀態中，完整狀態中為 null)
+  roundSeed: number | null;      // 本局洗牌所用的種子 (相同種子 + 相同動作可重現本局；本局結束前不會發送給客戶端)
+  roundScoreBreakdowns: ScoreBreakdown[]; // 本局每位贏家的台數明細與結算 (與 winnerIds 順序相同，未胡牌或流局時為空陣列)
+  ruleSet: RuleSet;              // 本房間使用的規則
+
+  // 用於宣告決策過程的狀態
+  claimResponses: ClaimResponse[]; // 宣告窗口中已回覆的玩家及其選擇 (所有可宣告的玩家同時作答)
+  actionTimer: number | null; // 通用行動計時器 (秒)
+  actionTimerType: 'claim' | 'turn' | null; // 計時器類型：宣告階段或玩家回合階段
+
+  // 局數相關狀態
+  numberOfRounds?: number;        // 本次比賽總局數 (來自 RoomSettings, 改為可選)
+  currentRound: number;          // 當前是第幾局
+  matchOver: boolean;            // 是否所有局數已完成
+  nextRoundCountdown: number | null; // 下一局開始倒數計時 (秒)
+  humanPlayersReadyForNextRound: number[]; // 已確認下一局的真人玩家ID列表 (seat indexes)
+  
+  configuredHumanPlayers: number; // 房間創建時設定的真人玩家數量
+  configuredFillWithAI: boolean; // 房間創建時設定的 AI 填充選項
+  configuredPlayerCount: number; // 房間創建時設定的牌桌座位數 (3 或 4)
+  configuredAIDifficulties: AIDifficulty[]; // 各座位由 AI 補位時使用的難度 (依座位索引；真人座位的值不使用)
+  hostPlayerName: string; // 房間創建者的名稱
+
+  // 再戰相關狀態
+  rematchVotes?: RematchVote[]; // 玩家的再戰投票
+  rematchCountdown?: number | null; // 再戰投票倒數計時 (秒)
+  rematchInitiatorId?: number | null; // (已棄用或重新思考)
+}
+
+// 定義房間設定的類型 (Client sends this structure, maxPlayers is fixed on server)
+// 流局時的莊家規則：輪莊、連莊，或莊家聽牌時才連莊
+export type DrawGameDealerRule = 'rotate' | 'retain' | 'retainIfTenpai';
+
+// AI 玩家的難度：新手、標準、高手
+export type AIDifficulty = 'novice' | 'standard' | 'strong';
+
+// 房間規則設定 (開房時選擇，整場比賽不變)
+export interface RuleSet {
+  name: string;                     // 規則名稱 (顯示用)
+  initialHandSizeDealer: number;    // 莊家初始手牌數量
+  initialHandSizeNonDealer: number; // 非莊家初始手牌數量
+  winningMeldCount: number;         // 胡牌所需的面子數量
+  winningPairCount: number;         // 胡牌所需的對子 (眼) 數量
+  chiFromAnySeat: boolean;          // 是否可以吃任何玩家打出的牌 (false 時只能吃上家)
+  allowMultipleWinners: boolean;    // 是否允許一炮多響 (false 時為截胡：只有打牌者下家起算最近的玩家胡牌)
+  reservedTileCount: number;        // 留牌數：牌堆只剩這麼多張時即流局 (0 表示摸完整副牌)
+  drawGameTenpaiSettlement: boolean; // 流局時是否進行聽牌結算 (未聽牌者支付給聽牌者)
+  drawGameDealerRule: DrawGameDealerRule; // 流局時的莊家規則
+  actionPriority: { HU: number; GANG: number; PENG: number; CHI: number }; // 宣告動作的優先順序 (數值越大越優先)
+}
+
+export interface ClientRoomSettingsData {
+  roomName: string;
+  // maxPlayers: number; // Usually fixed to NUM_PLAYERS for this game
+  humanPlayers: number; // This is the target number of human players
+  fillWithAI: boolean;
+  password?: string;
+  numberOfRounds?: number; // 改為可選
+  seed?: number; // 指定房間第一場比賽第一局的洗牌種子 (可選，用於重現牌局；再戰的新比賽不使用)
+  ruleSet?: RuleSet; // 房間規則 (可選，未提供則使用標準規則)
+  playerCount?: number; // 牌桌座位數 (SUPPORTED_PLAYER_COUNTS 之一，可選，未提供則為 NUM_PLAYERS)
+  maxSpectators?: number; // 觀戰人數上限 (0 到 MAX_SPECTATORS_LIMIT，0 表示不開放觀戰；可選，未提供則為 DEFAULT_MAX_SPECTATORS)
+  aiDifficulty?: AIDifficulty; // AI 補位的預設難度 (可選，未提供則為 DEFAULT_AI_DIFFICULTY；房主可在等待中逐座位調整)
+  // playerName is added by server from socket.data or explicitly passed in ClientToServerEvents
+}
+
+
+
+// 定義所有可能的遊戲動作 (用於 reducer / socket events)
+// These are primarily what the client sends to the server.
+export type GameActionPayload =
+  | { type: 'START_GAME_DEAL' } // Server internal, triggered by start game / next round
+  | { type: 'START_NEXT_ROUND' } // Server internal, to manage round progression
+  | { type: 'DRAW_TILE' } 
+  | { type: 'DISCARD_TILE'; tileId: string } 
+  | { type: 'DECLARE_AN_GANG'; tileKind: TileKind } 
+  | { type: 'DECLARE_MING_GANG_FROM_HAND'; tileKind: TileKind } 
+  | { type: 'CLAIM_PENG'; tile: Tile } 
+  | { type: 'CLAIM_GANG'; tile: Tile } 
+  | { type: 'CLAIM_CHI'; tilesToChiWith: Tile[]; discardedTile: Tile } 
+  | { type: 'DECLARE_HU' } 
+  | { type: 'PASS_CLAIM' } 
+  | { type: 'PLAYER_CONFIRM_NEXT_ROUND'; playerId: number } // Client sends player ID (seat index)
+  // | { type: 'REQUEST_REMATCH' } // Client requests - REMOVED, replaced by PLAYER_VOTE_REMATCH
+  // | { type: 'CONFIRM_REMATCH' } // Server internal from REQUEST_REMATCH - REMOVED
+  // Internal server-only or state-machine triggers from reducer logic
+  | { type: 'START_CLAIM_DECISION_PROCESS' }
+  | { type: 'SET_PLAYER_CLAIM_ACTION'; playerId: number; claims: Claim[] } // Used internally by reducer
+  | { type: 'RESOLVE_CLAIMS' } // Server internal
+  | { type: 'DECREMENT_ACTION_TIMER' } // Server internal for timer ticks
+  | { type: 'ACTION_TIMER_EXPIRED'; payload?: { explicitlySelectedTileId?: string | null } } // Server internal
+  | { type: 'ACTION_PENDING_CHI_CHOICE' } // Server internal to update phase for UI
+  | { type: 'SET_NEXT_ROUND_COUNTDOWN' } // Server internal
+  | { type: 'DECREMENT_NEXT_ROUND_COUNTDOWN' } // Server internal
+  // 再戰相關動作
+  | { type: 'PLAYER_VOTE_REMATCH'; vote: 'yes' } // 玩家投票同意再戰
+  | { type: 'START_REMATCH_VOTE' } // (僅伺服器) 開始再戰投票流程
+  | { type: 'PROCESS_REMATCH_VOTES' }; // (僅伺服器) 處理再戰投票結果
+
+
+export type GameAction = GameActionPayload;
+
+// AI能執行的動作，通常是GameAction的子集
+export type AIExecutableAction =
+  | Extract<GameAction, { type: 'DRAW_TILE' }>
+  | Extract<GameAction, { type: 'DISCARD_TILE' }>
+  | Extract<GameAction, { type: 'DECLARE_AN_GANG' }>
+  | Extract<GameAction, { type: 'DECLARE_MING_GANG_FROM_HAND' }>
+  | Extract<GameAction, { type: 'CLAIM_PENG' }>
+  | Extract<GameAction, { type: 'CLAIM_GANG' }>
+  | Extract<GameAction, { type: 'CLAIM_CHI' }>
+  | Extract<GameAction, { type: 'DECLARE_HU' }>
+  | Extract<GameAction, { type: 'PASS_CLAIM' }>;
+
+
+// --- 牌局記錄 (Journal) 與牌譜 (Replay) 相關類型 ---
+
+// 一局中由玩家 (真人、AI 或超時代打) 送出的動作，即牌局記錄中每一步的內容
+export type RoundAction = AIExecutableAction;
+
+// 牌局記錄中的一個步驟
+export interface JournalEntry {
+  seq: number;                // 本局內的步驟序號 (從 0 開始)
+  playerId: number;           // 執行動作的座位索引
+  action: RoundAction;        // 送出的動作
+  timestamp: number;          // 伺服器處理該動作的時間 (毫秒)
+  accepted: boolean;          // 伺服器是否接受此動作 (被拒絕的動作也可能有副作用，例如詐胡視為跳過)
+  resultingPhase: GamePhase;  // 動作處理完成後的遊戲階段
+  stateAfter: RoundStateSnapshot; // 動作處理完成後的狀態快照 (供牌譜檢視器逐步顯示)
+}
+
+// 牌局記錄中的座位資訊
+export interface JournalSeat {
+  id: number;       // 座位索引
+  name: string;     // 開局時的玩家名稱
+  isHuman: boolean; // 是否為真人玩家
+}
+
+// 牌局某一時間點可重現的遊戲狀態快照 (不含計時器、訊息記錄、連線狀態等與規則無關的欄位)
+export interface RoundStateSnapshot {
+  players: { id: number; hand: Tile[]; melds: Meld[]; isDealer: boolean; score: number }[];
+  deck: Tile[];
+  discardPile: Tile[];
+  currentPlayerIndex: number;
+  dealerIndex: number;
+  lastDiscarderIndex: number | null;
+  gamePhase: GamePhase;
+  lastDiscardedTile: Tile | null;
+  lastDrawnTile: Tile | null;
+  turnNumber: number;
+  winnerIds: number[];
+  winningTileDiscarderId: number | null;
+  winType: 'selfDrawn' | 'discard' | null;
+  winningDiscardedTile: Tile | null;
+  isDrawGame: boolean;
+  drawGameSettlement: DrawGameSettlement | null;
+}
+
+// 單局的完整牌局記錄
+export interface RoundJournal {
+  roundNumber: number;                 // 第幾局
+  seed: number;                        // 本局洗牌種子
+  dealerIndex: number;                 // 莊家座位索引
+  seats: JournalSeat[];                // 各座位資訊 (按座位索引排序)
+  ruleSet: RuleSet;                    // 本房間使用的規則 (重播時需以相同規則進行)
+  initialScores: number[];             // 開局時各座位的分數 (按座位索引)
+  initialDeal: { hands: Tile[][]; deck: Tile[] }; // 發牌結果：各座位手牌 (按座位索引) 與剩餘牌堆順序
+  entries: JournalEntry[];             // 本局所有動作
+  startedAt: number;                   // 開局時間 (毫秒)
+  endedAt: number | null;              // 結束時間 (毫秒)，未結束為 null
+  finalSnapshot: RoundStateSnapshot | null; // 結束時的狀態快照，未結束為 null
+}
+
+// 可匯出的牌譜檔案
+export interface ReplayFile {
+  version: number;        // 牌譜格式版本 (見 REPLAY_FILE_VERSION)
+  roomId: string;
+  roomName: string;
+  exportedAt: number;     // 匯出時間 (毫秒)
+  rounds: RoundJournal[]; // 已完成的各局記錄
+}
+
+
+// 聊天訊息類型
+export interface ChatMessage {
+  id: string;
+  senderId?: string; // socketId or player's server-side unique ID (seat index or special ID for system)
+  senderName: string; 
+  text: string;
+  timestamp: number;
+  type?: 'system' | 'player'; // For system messages like "Player X joined"
+}
+
+// 大廳中房間的列表資料 (從伺服器獲取)
+export interface RoomListData {
+  id: string;
+  name: string;
+  playersCount: number; // Total active players (human + AI if game started)
+  maxPlayers: number; // Fixed (e.g., 4 for this game)
+  currentHumanPlayers: number; // Number of current human players online
+  targetHumanPlayers: number; // Number of human players set at room creation
+  status: '等待中' | '遊戲中' | '已結束';
+  passwordProtected: boolean;
+  numberOfRounds?: number; // 改為可選 
+  hostName?: string;
+  spectatorsCount: number; // 目前的觀戰人數
+  maxSpectators: number; // 觀戰人數上限 (0 表示不開放觀戰)
+  aiDifficulties: AIDifficulty[]; // 本房間 AI 座位使用的難度 (不重複，依座位順序；沒有 AI 座位時為空陣列)
+}
+
+
+// Socket.IO 事件類型定義
+// Events the server sends to the client
+export interface ServerToClientEvents {
+  connect_error: (err: Error) => void;
+  disconnect: (reason: string, description?: any) => void; // Add description for context
+  
+  // Lobby Events
+  lobbyRoomList: (rooms: RoomListData[]) => void;
+  lobbyChatMessage: (message: ChatMessage) => void;
+  lobbyError: (message: string) => void; // e.g. room creation failed, join failed
+
+  // Game Events
+  spectatingRoom: (data: { gameState: GameState; roomId: string }) => void; // 以觀戰者身份進入房間 (遊戲狀態只含公開資訊)
+  joinedRoom: (data: { gameState: GameState; roomId: string; clientPlayerId: number; sessionToken: string }) => void; // clientPlayerId is the seatIndex for this client; sessionToken 為斷線重連時取回座位用的憑證
+  gameStateUpdate: (gameState: GameState) => void; // Full or partial game state
+  // gamePlayerJoined is implicit in gameStateUpdate.players
+  gamePlayerLeft: (data: { playerId: number; newHostId?: number, message?: string }) => void; // playerId is seatIndex
+  gameChatMessage: (message: ChatMessage) => void;
+  gameSpectatorChatMessage: (message: ChatMessage) => void; // 觀戰者聊天室的訊息 (只發送給觀戰者)
+  gameError: (message: string) => void; // e.g., invalid action
+  actionAnnouncement: (data: { text: string; playerId: number; position: 'top' | 'bottom' | 'left' | 'right', id: number, isMultiHuTarget?: boolean }) => void; // playerId is seatIndex
+}
+
+// Events the client sends to the server
+export interface ClientToServerEvents {
+  // User management
+  userSetName: (name: string, callback: (ack: {success: boolean, message?: string}) => void) => void;
+
+  // Lobby Events
+  lobbyCreateRoom: (
+    // Client sends its desired settings (maxPlayers is fixed) and its current name
+    settings: Omit<ClientRoomSettingsData, 'maxPlayers'> & { playerName: string }, 
+    callback: (ack: {success: boolean, roomId?: string, message?: string}) => void
+  ) => void;
+  lobbyJoinRoom: (
+    // Client sends room to join, password if any, and its current name
+    data: { roomId: string; password?: string; playerName: string }, 
+    callback: (ack: {success: boolean, message?: string}) => void
+  ) => void;
+  lobbySpectateRoom: (
+    // 以觀戰者身份進入房間 (唯讀，不佔座位)
+    data: { roomId: string; password?: string; playerName: string },
+    callback: (ack: {success: boolean, message?: string}) => void
+  ) => void;
+  lobbyGetRooms: () => void;
+  lobbySendChatMessage: (messageText: string) => void;
+  lobbyLeave: () => void; // When player leaves lobby view to go to home
+
+  // Game Events
+  // Client sends their action to a specific room. Player ID is inferred from socket on server.
+  gamePlayerAction: (roomId: string, action: GameActionPayload) => void; 
+  gameSendChatMessage: (roomId: string, messageText: string) => void;
+  gameSendSpectatorChatMessage: (roomId: string, messageText: string) => void; // 觀戰者在觀戰聊天室發言
+  // gameConfirmNextRound is now part of gamePlayerAction with type: 'PLAYER_CONFIRM_NEXT_ROUND'
+  gameRequestStart: (roomId: string) => void; // Host requests to start the game
+  gameSetAIDifficulty: (roomId: string, seatId: number, difficulty: AIDifficulty) => void; // 房主在等待中設定某個 AI 補位座位的難度
+  gameQuitRoom: (roomId: string) => void; // Player quits an active game or waiting room
+  gameRequestReplay: (roomId: string, callback: (ack: {success: boolean, replay?: ReplayFile, message?: string}) => void) => void; // 匯出本房間已完成各局的牌譜
+  gameResumeSession: (sessionToken: string, callback: (ack: {success: boolean, message?: string}) => void) => void; // 以 joinedRoom 取得的座位憑證取回原座位 (成功時伺服器會再發送 joinedRoom)
+  // gameRequestRematch is now part of gamePlayerAction {type: 'PLAYER_VOTE_REMATCH'}
+}
+
+// For inter-server communication or internal events (optional)
+export interface InterServerEvents {
+  // Example: ping: () => void;
+}
+
+// For socket.data (custom data attached to each socket instance on server)
+export interface SocketData {
+  playerName: string;
+  currentRoomId?: string;
+  playerId?: number; // seatIndex in a game
+}
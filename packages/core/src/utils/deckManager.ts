@@ -1,5 +1,5 @@
 
-import { Tile, TileKind, Player, Suit } from '../types'; // 引入類型定義
+import { Tile, Player, Suit, RuleSet } from '../types'; // 引入類型定義
 import { PLAYABLE_TILE_KINDS, TILES_PER_KIND, TILE_KIND_DETAILS } from '../constants'; // 引入常數
 
 // 創建初始牌堆的函數
@@ -19,12 +19,42 @@ export const createInitialDeck = (): Tile[] => {
   return deck; // 返回創建好的完整牌堆
 };
 
+// 產生一個新的隨機種子 (32 位元無號整數)
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000);
+};
+
+// 驗證種子是否為有效的 32 位元無號整數
+export const isValidSeed = (seed: unknown): seed is number => {
+  return typeof seed === 'number' && Number.isInteger(seed) && seed >= 0 && seed <= 0xFFFFFFFF;
+};
+
+// 創建可重現的偽隨機數產生器 (mulberry32 演算法)
+// 相同的 seed 會產生完全相同的數列，回傳值範圍與 Math.random 相同 ([0, 1))
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0; // 確保為 32 位元無號整數
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};
+
+// 由上一局的種子推導出下一局的種子 (模擬工具以此逐局推導種子，使整批模擬可重現)
+// 注意：線上牌局的各局種子須各自隨機產生，否則由已公開的種子即可推算之後各局的牌堆
+export const deriveNextSeed = (seed: number): number => {
+  return Math.floor(createSeededRandom(seed)() * 0x100000000);
+};
+
 // 洗牌函數 (泛型版本，可洗任何類型的陣列)
-export const shuffleDeck = <T,>(array: T[]): T[] => {
+// random: 隨機數來源，預設為 Math.random；傳入 createSeededRandom 的結果即可重現洗牌結果
+export const shuffleDeck = <T,>(array: T[], random: () => number = Math.random): T[] => {
   const shuffledArray = [...array]; // 創建陣列副本，避免修改原陣列
   // Fisher-Yates 洗牌演算法
   for (let i = shuffledArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1)); // 隨機選擇一個索引
+    const j = Math.floor(random() * (i + 1)); // 隨機選擇一個索引
     // 交換元素
     [shuffledArray[i], shuffledArray[j]] = [shuffledArray[j], shuffledArray[i]];
   }
@@ -36,8 +66,7 @@ export const dealTiles = (
   deck: Tile[],       // 洗好的牌堆
   players: Player[],  // 玩家列表
   dealerIndex: number, // 莊家在 players 陣列中的索引
-  dealerHandSize: number, // 莊家手牌數
-  nonDealerHandSize: number // 非莊家手牌數
+  ruleSet: RuleSet    // 房間規則 (決定莊家與非莊家的手牌數)
 ): { hands: Tile[][]; remainingDeck: Tile[] } => { // 返回每個玩家的手牌和剩餘牌堆
   let currentDeck = [...deck]; // 複製牌堆用於發牌
   const numPlayers = players.length;
@@ -50,7 +79,7 @@ export const dealTiles = (
     const playerActualIndex = (dealerIndex + i) % numPlayers; // 計算當前發牌的玩家在 players 陣列中的索引
     
     // 決定該玩家的手牌數量 (莊家多一張)
-    const handSize = players[playerActualIndex].isDealer ? dealerHandSize : nonDealerHandSize;
+    const handSize = players[playerActualIndex].isDealer ? ruleSet.initialHandSizeDealer : ruleSet.initialHandSizeNonDealer;
     
     // 為該玩家發指定數量的牌
     for (let j = 0; j < handSize; j++) {
@@ -0,0 +1,204 @@
+// gameRules 的測試案例
+// 牌一律以牌面文字表示 (即 TileKind 的值，例如 '將')，由測試轉成 Tile 物件
+
+// 所有牌種的牌面文字 (黑方在前，紅方在後)
+export const TILE_KIND_FACES: ReadonlyArray<string> = ['將', '士', '象', '車', '馬', '包', '卒', '帥', '仕', '相', '俥', '傌', '炮', '兵'];
+// 每種牌的張數
+export const COPIES_PER_KIND = 4;
+// 可組成順子的組合 (同花色、同組的三張牌；兵卒不參與順子)
+export const SEQUENCE_FACES: ReadonlyArray<string> = ['將士象', '車馬包', '帥仕相', '俥傌炮'];
+// 可組成刻子的組合 (任何牌種三張相同)
+export const TRIPLET_FACES: ReadonlyArray<string> = TILE_KIND_FACES.map(face => face.repeat(3));
+// 所有可組成面子的組合 (順子 + 刻子)
+export const MELD_FACES: ReadonlyArray<string> = [...SEQUENCE_FACES, ...TRIPLET_FACES];
+// 一副完整牌堆的牌面文字 (每種牌 COPIES_PER_KIND 張)，供隨機抽牌使用
+export const DECK_FACES: ReadonlyArray<string> = TILE_KIND_FACES.flatMap(face => Array<string>(COPIES_PER_KIND).fill(face));
+
+// 以字串表示的面子 (designation 對應 MeldDesignation 的鍵名)
+export interface MeldCase {
+  designation: 'SHUNZI' | 'KEZI' | 'GANGZI';
+  tiles: string;
+  isOpen: boolean;
+}
+
+// 胡牌判定案例
+export interface WinCase {
+  name: string;
+  hand: string;          // 手牌 (未成面子部分)
+  melds: MeldCase[];     // 已宣告的面子
+  isWin: boolean;
+}
+
+// 吃牌選項案例：expected 為每個選項中兩張手牌的牌面 (依順子定義的順序)
+export interface ChiCase {
+  name: string;
+  hand: string;
+  discard: string;
+  expected: string[];
+}
+
+// 暗槓選項案例：expected 為可暗槓的牌種 (不計順序)
+export interface AnGangCase {
+  name: string;
+  hand: string;
+  drawn: string | null;
+  expected: string[];
+}
+
+// 加槓選項案例：expected 為可加槓的碰牌牌種
+export interface MingGangFromHandCase {
+  name: string;
+  hand: string;
+  melds: MeldCase[];
+  drawn: string;
+  expected: string[];
+}
+
+// 將牌面字串拆成單張牌面
+export const splitFaces = (faces: string): string[] => Array.from(faces);
+
+// 檢查一組牌是否能從一副牌中湊出 (每種牌不超過 COPIES_PER_KIND 張)
+export const fitsInDeck = (faces: string[]): boolean => {
+  const counts: Record<string, number> = {};
+  return faces.every(face => {
+    counts[face] = (counts[face] || 0) + 1;
+    return counts[face] <= COPIES_PER_KIND;
+  });
+};
+
+// 從牌組中移除指定的牌面，湊不齊時返回 null
+const removeFaces = (faces: string[], toRemove: string[]): string[] | null => {
+  const remaining = [...faces];
+  for (const face of toRemove) {
+    const index = remaining.indexOf(face);
+    if (index === -1) return null;
+    remaining.splice(index, 1);
+  }
+  return remaining;
+};
+
+// 暴力拆解：嘗試所有可能的對子、刻子與順子拆法 (不做排序或剪枝)，作為 checkWinCondition 的對照實作
+export const canDecomposeByBruteForce = (faces: string[], meldsNeeded: number, pairsNeeded: number): boolean => {
+  if (faces.length === 0) return meldsNeeded === 0 && pairsNeeded === 0;
+  if (pairsNeeded > 0) {
+    for (const face of TILE_KIND_FACES) {
+      const remaining = removeFaces(faces, [face, face]);
+      if (remaining && canDecomposeByBruteForce(remaining, meldsNeeded, pairsNeeded - 1)) return true;
+    }
+  }
+  if (meldsNeeded > 0) {
+    for (const meld of MELD_FACES) {
+      const remaining = removeFaces(faces, splitFaces(meld));
+      if (remaining && canDecomposeByBruteForce(remaining, meldsNeeded - 1, pairsNeeded)) return true;
+    }
+  }
+  return false;
+};
+
+// 建立明面子 (吃碰而來)
+const openMeld = (tiles: string): MeldCase => ({
+  designation: SEQUENCE_FACES.includes(tiles) ? 'SHUNZI' : 'KEZI',
+  tiles,
+  isOpen: true,
+});
+
+// 窮舉：任兩組面子 (可重複) + 任一對子，只要牌數不超過一副牌就必定胡牌
+const generatedClosedWins = (): WinCase[] => {
+  const cases: WinCase[] = [];
+  MELD_FACES.forEach((first, i) => {
+    MELD_FACES.slice(i).forEach(second => {
+      TILE_KIND_FACES.forEach(pair => {
+        const hand = first + second + pair + pair;
+        if (fitsInDeck(splitFaces(hand))) {
+          cases.push({ name: `${first} ${second} ${pair}${pair}`, hand, melds: [], isWin: true });
+        }
+      });
+    });
+  });
+  return cases;
+};
+
+// 窮舉：已吃碰一組面子，手牌再湊任一組面子 + 對子
+const generatedOpenWins = (): WinCase[] => {
+  const cases: WinCase[] = [];
+  MELD_FACES.forEach(declared => {
+    MELD_FACES.forEach(inHand => {
+      // 對子挑第一個不會超出張數的牌種
+      const pair = TILE_KIND_FACES.find(face => fitsInDeck(splitFaces(declared + inHand + face + face)));
+      if (pair) {
+        cases.push({ name: `[${declared}] ${inHand} ${pair}${pair}`, hand: inHand + pair + pair, melds: [openMeld(declared)], isWin: true });
+      }
+    });
+  });
+  return cases;
+};
+
+// 手選的邊界案例
+const handPickedWinCases: WinCase[] = [
+  { name: '順子的牌不必依序排列', hand: '象將士包車馬卒卒', melds: [], isWin: true },
+  { name: '四張相同拆成刻子 + 順子', hand: '將將將將士象馬馬', melds: [], isWin: true },
+  { name: '兩組相同的順子', hand: '將將士士象象馬馬', melds: [], isWin: true },
+  { name: '兵卒只能組刻子', hand: '卒卒卒兵兵兵將將', melds: [], isWin: true },
+  { name: '刻子與對子同組牌', hand: '車車車馬馬馬包包', melds: [], isWin: true },
+  { name: '跨花色的將士相不是順子', hand: '將士相車馬包卒卒', melds: [], isWin: false },
+  { name: '跨花色的車馬炮不是順子', hand: '將士象車馬炮卒卒', melds: [], isWin: false },
+  { name: '跨組的將馬包不是順子', hand: '將馬包將馬包卒卒', melds: [], isWin: false },
+  { name: '卒與兵不成對子', hand: '將士象車馬包卒兵', melds: [], isWin: false },
+  { name: '兵卒不能組順子', hand: '卒卒兵兵將士象馬', melds: [], isWin: false },
+  { name: '缺一對子', hand: '將士象將士象', melds: [], isWin: false },
+  { name: '少一張牌', hand: '將士象車馬包卒', melds: [], isWin: false },
+  { name: '多一張牌', hand: '將士象車馬包卒卒卒', melds: [], isWin: false },
+  { name: '七對子不算胡', hand: '將將士士車車馬馬', melds: [], isWin: false },
+  { name: '已碰一組，手牌湊齊', hand: '車馬包兵兵', melds: [openMeld('卒卒卒')], isWin: true },
+  { name: '已吃兩組，單吊對子', hand: '傌傌', melds: [openMeld('將士象'), openMeld('帥仕相')], isWin: true },
+  { name: '已碰一組，手牌缺對子', hand: '車馬包兵卒', melds: [openMeld('卒卒卒')], isWin: false },
+  { name: '已暗槓一組，手牌湊齊', hand: '車馬包卒卒', melds: [{ designation: 'GANGZI', tiles: '將將將將', isOpen: false }], isWin: true },
+];
+
+// 胡牌判定的完整表格
+export const WIN_CASES: WinCase[] = [...handPickedWinCases, ...generatedClosedWins(), ...generatedOpenWins()];
+
+// 吃牌：每個順子的每一張牌作為棄牌時，手上有另外兩張就能吃
+const generatedChiCases = (): ChiCase[] =>
+  SEQUENCE_FACES.flatMap(sequence => splitFaces(sequence).map(discard => {
+    const others = splitFaces(sequence).filter(face => face !== discard).join('');
+    return { name: `${others} 吃 ${discard}`, hand: others + '卒兵', discard, expected: [others] };
+  }));
+
+export const CHI_CASES: ChiCase[] = [
+  ...generatedChiCases(),
+  { name: '只缺一張無法吃', hand: '將卒兵馬', discard: '士', expected: [] },
+  { name: '不同花色無法吃', hand: '仕相卒兵', discard: '將', expected: [] },
+  { name: '不同組無法吃', hand: '車馬卒兵', discard: '象', expected: [] },
+  { name: '兵卒無法吃', hand: '卒卒兵兵', discard: '卒', expected: [] },
+  { name: '重複的牌只算一個選項', hand: '將將象象', discard: '士', expected: ['將象'] },
+];
+
+// 暗槓：每種牌手上三張、摸到第四張，或手上原本就有四張
+const generatedAnGangCases = (): AnGangCase[] =>
+  TILE_KIND_FACES.flatMap(face => {
+    const filler = face === '馬' ? '車' : '馬';
+    return [
+      { name: `手上三張${face}，摸到第四張`, hand: face.repeat(3) + filler, drawn: face, expected: [face] },
+      { name: `手上四張${face}，未摸牌`, hand: face.repeat(4) + filler, drawn: null, expected: [face] },
+    ];
+  });
+
+export const AN_GANG_CASES: AnGangCase[] = [
+  ...generatedAnGangCases(),
+  { name: '手上四張，摸到其他牌', hand: '卒卒卒卒將士象', drawn: '馬', expected: ['卒'] },
+  { name: '手上四張且摸到另一組第四張', hand: '卒卒卒卒車車車', drawn: '車', expected: ['卒', '車'] },
+  { name: '只有三張不能暗槓', hand: '卒卒卒將士象馬', drawn: null, expected: [] },
+  { name: '摸到的牌湊不成四張', hand: '卒卒卒將士象馬', drawn: '兵', expected: [] },
+];
+
+// 加槓：已碰出的明刻子摸到第四張
+export const MING_GANG_FROM_HAND_CASES: MingGangFromHandCase[] = [
+  ...TILE_KIND_FACES.map(face => ({
+    name: `碰${face}後摸到第四張`, hand: '將士', melds: [openMeld(face.repeat(3))], drawn: face, expected: [face],
+  })),
+  { name: '摸到的牌與碰牌不同', hand: '將士', melds: [openMeld('馬馬馬')], drawn: '車', expected: [] },
+  { name: '暗刻不能加槓', hand: '將士', melds: [{ designation: 'KEZI', tiles: '馬馬馬', isOpen: false }], drawn: '馬', expected: [] },
+  { name: '順子不能加槓', hand: '將士', melds: [openMeld('車馬包')], drawn: '馬', expected: [] },
+  { name: '多組碰牌只加槓相符的一組', hand: '將士', melds: [openMeld('馬馬馬'), openMeld('卒卒卒')], drawn: '卒', expected: ['卒'] },
+];
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Tile, Meld, MeldDesignation, TileKind } from '../types';
+import { TILE_KIND_DETAILS, DEFAULT_RULE_SET } from '../constants';
+import { checkWinCondition, getChiOptions, canDeclareAnGang, canDeclareMingGangFromHand } from './gameRules';
+import {
+  WIN_CASES, CHI_CASES, AN_GANG_CASES, MING_GANG_FROM_HAND_CASES, MELD_FACES, DECK_FACES, TILE_KIND_FACES,
+  MeldCase, splitFaces, fitsInDeck, canDecomposeByBruteForce,
+} from './gameRules.cases';
+
+// 依牌面文字建立牌物件，ID 以流水號保證不重複
+let nextTileSerial = 0;
+const toTiles = (faces: string): Tile[] => splitFaces(faces).map(face => {
+  const kind = face as TileKind;
+  return { id: `${kind}_${nextTileSerial++}`, kind, suit: TILE_KIND_DETAILS[kind].suit };
+});
+const toMelds = (melds: MeldCase[]): Meld[] => melds.map((meld, index) => ({
+  id: `meld-${index}`, designation: MeldDesignation[meld.designation], tiles: toTiles(meld.tiles), isOpen: meld.isOpen,
+}));
+const facesOf = (tiles: Tile[]): string => tiles.map(tile => tile.kind).join('');
+
+describe('checkWinCondition', () => {
+  it.each(WIN_CASES)('$name', ({ hand, melds, isWin }) => {
+    expect(checkWinCondition(toTiles(hand), toMelds(melds)).isWin).toBe(isWin);
+  });
+
+  it('胡牌時返回的對子與面子恰好用完所有手牌', () => {
+    WIN_CASES.filter(testCase => testCase.isWin).forEach(({ hand, melds }) => {
+      const tiles = toTiles(hand);
+      const result = checkWinCondition(tiles, toMelds(melds));
+      const usedTiles = [...(result.winningPair?.tiles ?? []), ...(result.winningMelds ?? []).flatMap(meld => meld.tiles)];
+      expect(usedTiles.map(tile => tile.id).sort()).toEqual(tiles.map(tile => tile.id).sort());
+      (result.winningMelds ?? []).forEach(meld => expect(MELD_FACES).toContain(facesOf(meld.tiles)));
+    });
+  });
+});
+
+describe('checkWinCondition 與暴力拆解一致', () => {
+  const meldsNeeded = DEFAULT_RULE_SET.winningMeldCount;
+  const pairsNeeded = DEFAULT_RULE_SET.winningPairCount;
+  const handSize = meldsNeeded * 3 + pairsNeeded * 2;
+
+  // 從整副牌隨機抽出的手牌 (大多不胡)
+  const randomHand = fc.shuffledSubarray([...DECK_FACES], { minLength: handSize, maxLength: handSize });
+  // 由面子與對子組成、再隨機換掉至多一張的手牌 (接近胡牌)
+  const nearWinningHand = fc.tuple(
+    fc.array(fc.constantFrom(...MELD_FACES), { minLength: meldsNeeded, maxLength: meldsNeeded }),
+    fc.constantFrom(...TILE_KIND_FACES),
+    fc.option(fc.tuple(fc.nat({ max: handSize - 1 }), fc.constantFrom(...TILE_KIND_FACES))),
+  ).map(([meldFaces, pair, swap]) => {
+    const faces = splitFaces(meldFaces.join('') + pair + pair);
+    if (swap) faces[swap[0]] = swap[1];
+    return faces;
+  }).filter(fitsInDeck);
+
+  it('隨機手牌', () => {
+    fc.assert(fc.property(fc.oneof(randomHand, nearWinningHand), faces => {
+      const expected = canDecomposeByBruteForce(faces, meldsNeeded, pairsNeeded);
+      expect(checkWinCondition(toTiles(faces.join('')), []).isWin).toBe(expected);
+    }), { numRuns: 2000 });
+  });
+
+  it('已吃碰一組面子的隨機手牌', () => {
+    const openHand = fc.tuple(fc.constantFrom(...MELD_FACES), fc.shuffledSubarray([...DECK_FACES], { minLength: handSize - 3, maxLength: handSize - 3 }))
+      .filter(([declared, faces]) => fitsInDeck([...splitFaces(declared), ...faces]));
+    fc.assert(fc.property(openHand, ([declared, faces]) => {
+      const declaredMeld: MeldCase = { designation: declared[0] === declared[1] ? 'KEZI' : 'SHUNZI', tiles: declared, isOpen: true };
+      const expected = canDecomposeByBruteForce(faces, meldsNeeded - 1, pairsNeeded);
+      expect(checkWinCondition(toTiles(faces.join('')), toMelds([declaredMeld])).isWin).toBe(expected);
+    }), { numRuns: 2000 });
+  });
+});
+
+describe('getChiOptions', () => {
+  it.each(CHI_CASES)('$name', ({ hand, discard, expected }) => {
+    const options = getChiOptions(toTiles(hand), toTiles(discard)[0]);
+    expect(options.map(facesOf)).toEqual(expected);
+  });
+});
+
+describe('canDeclareAnGang', () => {
+  it.each(AN_GANG_CASES)('$name', ({ hand, drawn, expected }) => {
+    const kinds = canDeclareAnGang(toTiles(hand), drawn ? toTiles(drawn)[0] : null);
+    expect([...kinds].sort()).toEqual([...expected].sort());
+  });
+});
+
+describe('canDeclareMingGangFromHand', () => {
+  it.each(MING_GANG_FROM_HAND_CASES)('$name', ({ hand, melds, drawn, expected }) => {
+    const drawnTile = toTiles(drawn)[0];
+    const options = canDeclareMingGangFromHand(toTiles(hand), toMelds(melds), drawnTile);
+    expect(options.map(option => option.pengMeldKind)).toEqual(expected);
+    options.forEach(option => expect(option.drawnTile).toBe(drawnTile));
+  });
+});
@@ -1,5 +1,5 @@
-import { Tile, Meld, MeldDesignation, TileKind, Player, Suit } from '../types'; // 引入類型定義
-import { SHUNZI_DEFINITIONS, TILE_KIND_DETAILS } from '../constants'; // 引入常數
+import { Tile, Meld, MeldDesignation, TileKind, RuleSet, DrawGameDealerRule } from '../types'; // 引入類型定義
+import { SHUNZI_DEFINITIONS, TILE_KIND_DETAILS, DEFAULT_RULE_SET, PLAYABLE_TILE_KINDS, TILES_PER_KIND, DRAW_GAME_DEALER_RULES } from '../constants'; // 引入常數
 
 // 計算手牌中特定種類牌的數量
 export const countTilesOfKind = (tiles: Tile[], kind: TileKind): number => {
@@ -157,14 +157,15 @@ const getTileCounts = (tiles: Tile[]): Map<TileKind, number> => {
   return counts;
 };
 
-// 檢查胡牌條件：2 組面子 + 1 組對子 (眼)
+// 檢查胡牌條件：規則指定數量的面子 + 對子 (眼)，標準規則為 2 組面子 + 1 組對子
 export const checkWinCondition = (
   hand: Tile[],       // 玩家當前手牌 (未成面子部分)
-  existingMelds: Meld[] // 玩家已宣告的明面子
+  existingMelds: Meld[], // 玩家已宣告的明面子
+  ruleSet: RuleSet = DEFAULT_RULE_SET // 房間規則
 ): { isWin: boolean; winningPair?: Meld; winningMelds?: Meld[] } => { // 返回是否胡牌，及胡牌的對子和面子組合 (用於可能的番種計算)
   
-  const requiredTotalMelds = 2; 
-  const requiredPairs = 1;      
+  const requiredTotalMelds = ruleSet.winningMeldCount; 
+  const requiredPairs = ruleSet.winningPairCount;      
 
   // 遞迴函數，檢查是否能從 currentHandTiles 中湊出所需的 meldsNeeded 個面子和 pairsNeeded 個對子
   function canFormWinningHand(
@@ -264,7 +265,8 @@ export const checkWinCondition = (
     return { possible: false };
   }
 
-  const meldsToFormFromHand = requiredTotalMelds - existingMelds.filter(m => m.designation !== MeldDesignation.DUIZI && m.isOpen).length;
+  // 已宣告的面子 (含不公開的暗槓) 都算作已完成的面子
+  const meldsToFormFromHand = requiredTotalMelds - existingMelds.filter(m => m.designation !== MeldDesignation.DUIZI).length;
   const pairsToFormFromHand = requiredPairs; // 胡牌必須有一個對子眼，此處簡化為總是從手牌湊
 
   if (hand.length < (meldsToFormFromHand * 3 + pairsToFormFromHand * 2)) {
@@ -279,3 +281,26 @@ export const checkWinCondition = (
 
   return { isWin: false };
 };
+
+// 驗證客戶端提交的房間規則是否有效
+// 手牌數量必須與胡牌牌型一致 (閒家手牌 + 1 張 = 胡牌所需張數，莊家比閒家多 1 張)，且發牌後牌堆多於留牌數
+export const isValidRuleSet = (ruleSet: unknown, numPlayers: number): ruleSet is RuleSet => {
+  if (typeof ruleSet !== 'object' || ruleSet === null) return false;
+  const rules = ruleSet as Partial<RuleSet>;
+  const isNonNegativeInteger = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+  if (typeof rules.name !== 'string' || rules.name.trim() === '' || typeof rules.chiFromAnySeat !== 'boolean' ||
+      typeof rules.allowMultipleWinners !== 'boolean' || typeof rules.drawGameTenpaiSettlement !== 'boolean') return false;
+  if (!isNonNegativeInteger(rules.initialHandSizeDealer) || !isNonNegativeInteger(rules.initialHandSizeNonDealer) ||
+      !isNonNegativeInteger(rules.winningMeldCount) || !isNonNegativeInteger(rules.winningPairCount) ||
+      !isNonNegativeInteger(rules.reservedTileCount)) return false;
+  if (!DRAW_GAME_DEALER_RULES.includes(rules.drawGameDealerRule as DrawGameDealerRule)) return false;
+  if (rules.winningMeldCount + rules.winningPairCount === 0) return false;
+  const priority = rules.actionPriority;
+  if (!priority || ![priority.HU, priority.GANG, priority.PENG, priority.CHI].every(isNonNegativeInteger)) return false;
+
+  const tilesForWin = rules.winningMeldCount * 3 + rules.winningPairCount * 2;
+  if (rules.initialHandSizeNonDealer + 1 !== tilesForWin || rules.initialHandSizeDealer !== tilesForWin) return false;
+  const totalDealt = rules.initialHandSizeDealer + rules.initialHandSizeNonDealer * (numPlayers - 1);
+  return totalDealt + rules.reservedTileCount < PLAYABLE_TILE_KINDS.length * TILES_PER_KIND;
+};
@@ -0,0 +1,27 @@
+// shanten 的測試案例 (牌面表示方式同 gameRules.cases)
+// 以預設規則計算：兩組面子 + 一個對子
+
+import { MeldCase } from './gameRules.cases';
+
+// 向聽數案例：usefulTiles 為有效進張的牌種 (不計順序；手牌張數已足時為空陣列)
+export interface ShantenCase {
+  name: string;
+  hand: string;
+  melds: MeldCase[];
+  shanten: number;
+  usefulTiles: string[];
+}
+
+export const SHANTEN_CASES: ShantenCase[] = [
+  { name: '已胡牌', hand: '將士象車馬包卒卒', melds: [], shanten: -1, usefulTiles: [] },
+  { name: '摸牌後一向聽', hand: '將士象車馬卒兵炮', melds: [], shanten: 1, usefulTiles: [] },
+  { name: '單吊', hand: '將士象車馬包卒', melds: [], shanten: 0, usefulTiles: ['卒'] },
+  { name: '邊張', hand: '將士車馬包卒卒', melds: [], shanten: 0, usefulTiles: ['象'] },
+  { name: '雙碰', hand: '車車車將將卒卒', melds: [], shanten: 0, usefulTiles: ['將', '卒'] },
+  { name: '已碰一組', hand: '車馬包卒', melds: [{ designation: 'KEZI', tiles: '兵兵兵', isOpen: true }], shanten: 0, usefulTiles: ['卒'] },
+  { name: '已暗槓一組', hand: '車馬卒卒', melds: [{ designation: 'GANGZI', tiles: '將將將將', isOpen: false }], shanten: 0, usefulTiles: ['包'] },
+  { name: '只等自己已持有四張的牌', hand: '卒卒卒卒將士象', melds: [], shanten: 0, usefulTiles: [] },
+  { name: '三組對子', hand: '將將兵兵炮炮相', melds: [], shanten: 1, usefulTiles: ['將', '兵', '炮'] },
+  { name: '兩組搭子、沒有對子', hand: '將士車馬卒兵炮', melds: [], shanten: 2, usefulTiles: ['象', '包', '卒', '兵', '炮'] },
+  { name: '只有一組搭子', hand: '將車帥俥卒兵炮', melds: [], shanten: 3, usefulTiles: ['將', '士', '象', '車', '馬', '包', '卒', '帥', '仕', '相', '傌', '兵'] },
+];
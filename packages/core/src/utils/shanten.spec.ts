@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import { Tile, Meld, MeldDesignation, Player, TileKind } from '../types';
+import { TILE_KIND_DETAILS, DEFAULT_RULE_SET } from '../constants';
+import { analyzeHand, calculateShanten, getVisibleTiles, isTenpai, analyzeDiscardOptions } from './shanten';
+import { DECK_FACES, TILE_KIND_FACES, MeldCase, splitFaces, canDecomposeByBruteForce } from './gameRules.cases';
+import { SHANTEN_CASES } from './shanten.cases';
+
+// 依牌面文字建立牌物件，ID 以流水號保證不重複
+let nextTileSerial = 0;
+const toTiles = (faces: string): Tile[] => splitFaces(faces).map(face => {
+  const kind = face as TileKind;
+  return { id: `${kind}_${nextTileSerial++}`, kind, suit: TILE_KIND_DETAILS[kind].suit };
+});
+const toMelds = (melds: MeldCase[]): Meld[] => melds.map((meld, index) => ({
+  id: `meld-${index}`, designation: MeldDesignation[meld.designation], tiles: toTiles(meld.tiles), isOpen: meld.isOpen,
+}));
+
+describe('analyzeHand', () => {
+  it.each(SHANTEN_CASES)('$name', ({ hand, melds, shanten, usefulTiles }) => {
+    const analysis = analyzeHand(toTiles(hand), toMelds(melds), []);
+    expect(analysis.shanten).toBe(shanten);
+    expect(analysis.usefulTiles.map(usefulTile => usefulTile.kind).sort()).toEqual([...usefulTiles].sort());
+    expect(calculateShanten(toTiles(hand), toMelds(melds))).toBe(shanten);
+  });
+
+  it('未現身張數扣除自己的手牌與看得到的牌', () => {
+    const single = analyzeHand(toTiles('將士象車馬包卒'), [], toTiles('卒象'));
+    expect(single.usefulTiles).toEqual([{ kind: TileKind.B_SOLDIER, unseenCount: 2 }]);
+    const edge = analyzeHand(toTiles('將士車馬包卒卒'), [], toTiles('象象象象'));
+    expect(edge.usefulTiles).toEqual([{ kind: TileKind.B_ELEPHANT, unseenCount: 0 }]);
+  });
+
+  it('isTenpai 要求至少有一種等的牌還摸得到', () => {
+    SHANTEN_CASES.forEach(({ hand, melds, shanten, usefulTiles }) => {
+      expect(isTenpai(toTiles(hand), toMelds(melds))).toBe(shanten === 0 && usefulTiles.length > 0);
+    });
+  });
+
+  it('analyzeDiscardOptions 每種牌只分析一次', () => {
+    const options = analyzeDiscardOptions(toTiles('將士象車馬包卒卒'), [], []);
+    expect(options.map(option => option.tile.kind)).toEqual(['將', '士', '象', '車', '馬', '包', '卒']);
+    const discardSoldier = options.find(option => option.tile.kind === TileKind.B_SOLDIER)!;
+    expect(discardSoldier.analysis.usefulTiles.map(usefulTile => usefulTile.kind)).toEqual([TileKind.B_SOLDIER]);
+  });
+});
+
+describe('getVisibleTiles', () => {
+  it('包含棄牌、所有明面子與自己的暗槓，不含他人的暗槓', () => {
+    const createPlayer = (id: number, melds: Meld[]): Player => ({
+      id, name: `P${id}`, isHuman: false, isOnline: true, socketId: null, hand: toTiles('兵'), melds, isDealer: id === 0, score: 0, pendingClaims: [],
+    });
+    const players = [
+      createPlayer(0, toMelds([{ designation: 'GANGZI', tiles: '將將將將', isOpen: false }])),
+      createPlayer(1, toMelds([{ designation: 'GANGZI', tiles: '車車車車', isOpen: false }, { designation: 'KEZI', tiles: '馬馬馬', isOpen: true }])),
+    ];
+    const visible = getVisibleTiles({ discardPile: toTiles('炮'), players }, 0);
+    expect(visible.map(tile => tile.kind).sort()).toEqual(splitFaces('炮將將將將馬馬馬').sort());
+  });
+});
+
+describe('向聽數與暴力拆解一致', () => {
+  const meldsNeeded = DEFAULT_RULE_SET.winningMeldCount;
+  const pairsNeeded = DEFAULT_RULE_SET.winningPairCount;
+  const handSize = meldsNeeded * 3 + pairsNeeded * 2;
+  const randomHand = (size: number) => fc.shuffledSubarray([...DECK_FACES], { minLength: size, maxLength: size });
+
+  it('向聽數 -1 等同可拆成胡牌牌型', () => {
+    fc.assert(fc.property(randomHand(handSize), faces => {
+      expect(calculateShanten(toTiles(faces.join('')), []) === -1).toBe(canDecomposeByBruteForce(faces, meldsNeeded, pairsNeeded));
+    }), { numRuns: 1000 });
+  });
+
+  it('向聽數 0 等同再加任一張牌即可拆成胡牌牌型', () => {
+    fc.assert(fc.property(randomHand(handSize - 1), faces => {
+      const completes = TILE_KIND_FACES.some(face => canDecomposeByBruteForce([...faces, face], meldsNeeded, pairsNeeded));
+      expect(calculateShanten(toTiles(faces.join('')), []) === 0).toBe(completes);
+    }), { numRuns: 500 });
+  });
+
+  it('摸一張打一張最多減少 1 向聽，未聽牌時總有辦法減少 1', () => {
+    fc.assert(fc.property(randomHand(handSize - 1), faces => {
+      const shanten = calculateShanten(toTiles(faces.join('')), []);
+      const bestAfterExchange = Math.min(...TILE_KIND_FACES.flatMap(drawn => faces.map((_, discardIndex) => {
+        const exchanged = [...faces.filter((_, index) => index !== discardIndex), drawn];
+        return calculateShanten(toTiles(exchanged.join('')), []);
+      })));
+      expect(bestAfterExchange).toBe(Math.max(shanten - 1, 0));
+    }), { numRuns: 200 });
+  });
+});
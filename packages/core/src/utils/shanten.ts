@@ -0,0 +1,146 @@
+import { Tile, Meld, MeldDesignation, TileKind, RuleSet, GameState, HandAnalysis, UsefulTile } from '../types'; // 引入類型定義
+import { SHUNZI_DEFINITIONS, DEFAULT_RULE_SET, PLAYABLE_TILE_KINDS, TILES_PER_KIND } from '../constants'; // 引入常數
+import { countTilesOfKind } from './gameRules'; // 引入遊戲規則函數
+
+// 向聽數與有效進張計算
+// 把手牌拆成面子 (刻子、順子)、搭子 (對子，或順子缺一張) 與眼 (對子)，取所有拆法中最小的向聽數：
+//   向聽數 = 2 × 需湊的面子數 + 需湊的對子數 - 1 - 2 × 面子數 - 搭子數 - 眼數
+// 搭子最多只算到還缺的面子數，多出來的搭子不可能再成為面子
+
+// 牌種在計數陣列中的位置
+const KIND_INDEX = new Map<TileKind, number>(PLAYABLE_TILE_KINDS.map((kind, index) => [kind, index]));
+// 每種牌可參與的順子 (以計數陣列中的位置表示)
+const SEQUENCES_BY_KIND: number[][][] = PLAYABLE_TILE_KINDS.map(kind =>
+  SHUNZI_DEFINITIONS.filter(definition => definition.includes(kind)).map(definition => definition.map(k => KIND_INDEX.get(k)!)),
+);
+
+// 將牌轉成每種牌的張數
+const toKindCounts = (tiles: Tile[]): number[] => {
+  const counts = PLAYABLE_TILE_KINDS.map(() => 0);
+  tiles.forEach(tile => { counts[KIND_INDEX.get(tile.kind)!]++; });
+  return counts;
+};
+
+// 窮舉所有拆法，返回最小向聽數
+// 每一步都處理第一種還有牌的牌種 (刻子、順子、眼、搭子或孤張)，已走過的狀態不再重複展開
+const searchMinShanten = (counts: number[], meldsNeeded: number, pairsNeeded: number): number => {
+  const visited = new Set<string>();
+  let best = Infinity;
+
+  const search = (start: number, melds: number, partials: number, pairs: number): void => {
+    let index = start;
+    while (index < counts.length && counts[index] === 0) index++;
+    if (index === counts.length) {
+      const usableMelds = Math.min(melds, meldsNeeded);
+      const usablePartials = Math.min(partials, meldsNeeded - usableMelds);
+      best = Math.min(best, 2 * meldsNeeded + pairsNeeded - 1 - 2 * usableMelds - usablePartials - Math.min(pairs, pairsNeeded));
+      return;
+    }
+    const key = `${counts.join(',')}|${melds}|${partials}|${pairs}`;
+    if (visited.has(key)) return;
+    visited.add(key);
+
+    // 刻子
+    if (counts[index] >= 3) {
+      counts[index] -= 3;
+      search(index, melds + 1, partials, pairs);
+      counts[index] += 3;
+    }
+    // 順子 (在此之前的牌種都已拆完，只會用到此牌之後的牌)
+    SEQUENCES_BY_KIND[index].forEach(sequence => {
+      if (sequence.some(i => counts[i] === 0)) return;
+      sequence.forEach(i => { counts[i]--; });
+      search(index, melds + 1, partials, pairs);
+      sequence.forEach(i => { counts[i]++; });
+    });
+    // 對子：作為眼，或作為等刻子的搭子
+    if (counts[index] >= 2) {
+      counts[index] -= 2;
+      if (pairs < pairsNeeded) search(index, melds, partials, pairs + 1);
+      search(index, melds, partials + 1, pairs);
+      counts[index] += 2;
+    }
+    // 順子缺一張的搭子
+    SEQUENCES_BY_KIND[index].forEach(sequence => {
+      sequence.filter(i => i !== index && counts[i] > 0).forEach(other => {
+        counts[index]--;
+        counts[other]--;
+        search(index, melds, partials + 1, pairs);
+        counts[index]++;
+        counts[other]++;
+      });
+    });
+    // 孤張
+    counts[index]--;
+    search(index, melds, partials, pairs);
+    counts[index]++;
+  };
+
+  search(0, 0, 0, 0);
+  return best;
+};
+
+// 手牌還需湊出的面子數 (已宣告的面子，含暗槓，都算已完成)
+const getMeldsNeededFromHand = (melds: Meld[], ruleSet: RuleSet): number =>
+  Math.max(0, ruleSet.winningMeldCount - melds.filter(meld => meld.designation !== MeldDesignation.DUIZI).length);
+
+// 計算向聽數：-1 為已胡牌，0 為聽牌 (不論等的牌是否還摸得到)
+export const calculateShanten = (hand: Tile[], melds: Meld[], ruleSet: RuleSet = DEFAULT_RULE_SET): number =>
+  searchMinShanten(toKindCounts(hand), getMeldsNeededFromHand(melds, ruleSet), ruleSet.winningPairCount);
+
+// 分析手牌的向聽數與有效進張
+// visibleTiles 為觀看者看得到的其他牌 (棄牌、面子等，見 getVisibleTiles)，用來計算每種進張還剩幾張未現身
+// 只有手牌張數還能再摸一張時才計算進張；自己已持有 (手牌與面子) 全部張數的牌種不可能再摸到，不算進張
+export const analyzeHand = (hand: Tile[], melds: Meld[], visibleTiles: Tile[], ruleSet: RuleSet = DEFAULT_RULE_SET): HandAnalysis => {
+  const meldsNeeded = getMeldsNeededFromHand(melds, ruleSet);
+  const pairsNeeded = ruleSet.winningPairCount;
+  const counts = toKindCounts(hand);
+  const shanten = searchMinShanten(counts, meldsNeeded, pairsNeeded);
+  if (hand.length >= meldsNeeded * 3 + pairsNeeded * 2) return { shanten, usefulTiles: [] };
+
+  const ownedTiles = [...hand, ...melds.flatMap(meld => meld.tiles)];
+  const visibleCounts = toKindCounts(visibleTiles);
+  const usefulTiles: UsefulTile[] = [];
+  PLAYABLE_TILE_KINDS.forEach((kind, index) => {
+    if (countTilesOfKind(ownedTiles, kind) >= TILES_PER_KIND) return;
+    counts[index]++;
+    const improved = searchMinShanten(counts, meldsNeeded, pairsNeeded) < shanten;
+    counts[index]--;
+    if (improved) usefulTiles.push({ kind, unseenCount: Math.max(0, TILES_PER_KIND - counts[index] - visibleCounts[index]) });
+  });
+  return { shanten, usefulTiles };
+};
+
+// 是否聽牌 (向聽數為 0，且等的牌至少有一種不是自己已持有全部張數)
+export const isTenpai = (hand: Tile[], melds: Meld[], ruleSet: RuleSet = DEFAULT_RULE_SET): boolean => {
+  const { shanten, usefulTiles } = analyzeHand(hand, melds, [], ruleSet);
+  return shanten === 0 && usefulTiles.length > 0;
+};
+
+// 取得某位玩家看得到的牌 (不含自己的手牌)：棄牌堆、所有公開的面子與自己的暗槓
+export const getVisibleTiles = (state: Pick<GameState, 'discardPile' | 'players'>, viewerId: number): Tile[] => [
+  ...state.discardPile,
+  ...state.players.flatMap(player => player.melds.filter(meld => meld.isOpen || player.id === viewerId).flatMap(meld => meld.tiles)),
+];
+
+// 計算打出手牌中的每一種牌之後的手牌分析 (同種牌只算一次)，供 AI 與提示挑選要打的牌
+export const analyzeDiscardOptions = (
+  hand: Tile[],
+  melds: Meld[],
+  visibleTiles: Tile[],
+  ruleSet: RuleSet = DEFAULT_RULE_SET,
+): { tile: Tile; analysis: HandAnalysis }[] => {
+  const seenKinds = new Set<TileKind>();
+  return hand.filter(tile => {
+    if (seenKinds.has(tile.kind)) return false;
+    seenKinds.add(tile.kind);
+    return true;
+  }).map(tile => ({
+    tile,
+    analysis: analyzeHand(hand.filter(t => t.id !== tile.id), melds, visibleTiles, ruleSet),
+  }));
+};
+
+// 有效進張的總張數
+export const countUnseenUsefulTiles = (analysis: HandAnalysis): number =>
+  analysis.usefulTiles.reduce((sum, usefulTile) => sum + usefulTile.unseenCount, 0);
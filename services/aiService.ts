@@ -5,8 +5,7 @@
 // This file can be safely removed.
 
 /*
-import { GameState, Player, GameActionPayload, Tile, TileKind, AIExecutableAction } from '../types';
-import { checkWinCondition, getChiOptions, canDeclareAnGang, canDeclareMingGangFromHand, countTilesOfKind } from '../utils/gameRules';
+import { GameState, Player, GameActionPayload, Tile, TileKind, AIExecutableAction, checkWinCondition, getChiOptions, canDeclareAnGang, canDeclareMingGangFromHand, countTilesOfKind } from '@xiangqi-mahjong/core';
 
 
 const isHonorTile = (kind: TileKind): boolean => {
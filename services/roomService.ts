@@ -1,6 +1,7 @@
 
 // FIX: Import RoomListData
-import { RoomSettings, RoomListData } from '../types';
+import { RoomListData } from '@xiangqi-mahjong/core';
+import { RoomSettings } from '../types';
 
 // This service is largely deprecated in favor of Socket.IO interactions.
 // Kept for structure, but functions are no longer the primary way to interact with the "backend".
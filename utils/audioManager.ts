@@ -1,6 +1,6 @@
 
 // 引入類型定義和常數
-import { TileKind } from '../types';
+import { TileKind } from '@xiangqi-mahjong/core';
 import { TAIWANESE_HOKKIEN_TILE_NAMES } from '../constants';
 
 // 預設動作音效的音量 (範圍 0.0 到 1.0)
@@ -18,6 +18,10 @@ const soundMap: Record<string, string> = {
   "胡牌": "/audio/胡牌.mp3",       // 通用胡牌音效 (主要用於食胡)
   "自摸": "/audio/自摸.mp3",       // 自摸音效
   "天胡": "/audio/天胡.mp3",       // 天胡音效 (若無此檔案，會嘗試播放通用胡牌音效)
+  "地胡": "/audio/自摸.mp3",       // (與自摸相同)
+  "槓上開花": "/audio/自摸.mp3",   // (與自摸相同)
+  "海底撈月": "/audio/自摸.mp3",   // (與自摸相同)
+  "河底撈魚": "/audio/胡牌.mp3",   // (與通用胡牌相同)
   "一炮多響": "/audio/explosion_hu.mp3", // 新增：一炮多響的音效 (路徑預留)
   // "打牌": "/audio/discard.mp3", // 不再用於通用打牌音效，改用牌面音效
   // "摸牌": "/audio/draw.mp3",   // 不再用於摸牌音效 (摸牌通常無聲)
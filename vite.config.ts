@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 
@@ -11,7 +12,13 @@ export default defineConfig(({ mode }) => {
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),
+          // 直接使用共用核心套件的原始碼 (不需先建置)
+          '@xiangqi-mahjong/core': path.resolve(__dirname, 'packages/core/src'),
         }
+      },
+      test: {
+        // 後端有自己的 vitest，這裡只跑前端的測試
+        exclude: ['node_modules/**', 'back-server/**'],
       }
     };
 });